@@ -30,6 +30,7 @@ export default function TabLayout() {
       <Tabs.Screen name="medications" options={{ title: 'Medications', href: null }} />
       <Tabs.Screen name="vet-visits" options={{ title: 'Vet Visits', href: null }} />
       <Tabs.Screen name="immunizations" options={{ title: 'Immunizations', href: null }} />
+      <Tabs.Screen name="weight" options={{ title: 'Weight', href: null }} />
       <Tabs.Screen name="contacts" options={{ title: 'Contacts' }} />
       <Tabs.Screen name="media" options={{ title: 'Media' }} />
       <Tabs.Screen name="appointments" options={{ title: 'Appointments' }} />
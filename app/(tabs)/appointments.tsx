@@ -113,7 +113,11 @@ export default function AppointmentsScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteAppointment(appointment.id);
+          const result = await deleteAppointment(appointment.id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
         },
       },
     ]);
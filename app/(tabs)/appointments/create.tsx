@@ -289,10 +289,18 @@ export default function AppointmentFormScreen() {
       };
 
       if (isEditing && recordId) {
-        await updateAppointment(recordId, payload);
+        const result = await updateAppointment(recordId, payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Updated', 'Schedule updated successfully.');
       } else {
-        await addAppointment(payload);
+        const result = await addAppointment(payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Saved', 'Schedule created successfully.');
       }
       router.back();
@@ -22,8 +22,8 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import { Colors, type ThemeColors } from '@/constants/theme';
 import { useApp } from '@/context/AppContext';
 import type { ImmunizationRecord, VetProfile } from '@/types';
-
-const VACCINE_OPTIONS = ['Rabies', 'DHPP', 'Bordetella', 'Lyme', 'Canine Influenza', 'Leptospirosis'];
+import { VACCINE_OPTIONS } from '@/utils/vaccineSchedule';
+import { formatCanineAge, getAgeAt, getImmunizationAgeMismatch } from '@/utils/canineAge';
 
 interface VetFormState {
   name: string;
@@ -49,6 +49,7 @@ export default function ImmunizationFormScreen() {
   const insets = useSafeAreaInsets();
 
   const {
+    canines,
     immunizations,
     addImmunizationRecord,
     updateImmunizationRecord,
@@ -63,6 +64,8 @@ export default function ImmunizationFormScreen() {
 
   const resolvedCanineId = canineIdParam || existingRecord?.canineId;
   const isEditing = Boolean(existingRecord);
+  // With a date of birth the age is derived from the immunization date; without one it's entered by hand
+  const dateOfBirth = canines.find((canine) => canine.id === resolvedCanineId)?.dateOfBirth;
 
   const [vetName, setVetName] = useState(existingRecord?.vetName ?? '');
   const [selectedVetId, setSelectedVetId] = useState<string | null>(existingRecord?.vetId ?? null);
@@ -96,6 +99,12 @@ export default function ImmunizationFormScreen() {
     }
   }, [existingRecord, canineIdParam]);
 
+  const derivedAge = useMemo(() => getAgeAt(dateOfBirth, immunizationDate), [dateOfBirth, immunizationDate]);
+  const storedAgeMismatch = useMemo(
+    () => (existingRecord ? getImmunizationAgeMismatch(existingRecord, dateOfBirth) : null),
+    [existingRecord, dateOfBirth]
+  );
+
   const filteredVets = useMemo(() => {
     if (!vetSearch.trim()) return vets;
     const term = vetSearch.trim().toLowerCase();
@@ -128,7 +137,7 @@ export default function ImmunizationFormScreen() {
       Alert.alert('Validation', 'Please enter the veterinarian name.');
       return;
     }
-    const created = await addVet({
+    const result = await addVet({
       name: newVetForm.name.trim(),
       clinicName: newVetForm.clinicName.trim(),
       phone: newVetForm.phone.trim(),
@@ -141,7 +150,11 @@ export default function ImmunizationFormScreen() {
       specialization: '',
       notes: '',
     });
-    handleSelectVet(created);
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+      return;
+    }
+    handleSelectVet(result.data);
   };
 
   const applyPickerValue = (target: PickerTarget, date: Date) => {
@@ -236,15 +249,17 @@ export default function ImmunizationFormScreen() {
       Alert.alert('Validation', 'Please enter the veterinarian name.');
       return false;
     }
-    const yearsNumber = Number(ageYears);
-    const monthsNumber = Number(ageMonths);
-    if (Number.isNaN(yearsNumber) || yearsNumber < 0) {
-      Alert.alert('Validation', 'Enter a valid age in years.');
-      return false;
-    }
-    if (Number.isNaN(monthsNumber) || monthsNumber < 0 || monthsNumber > 11) {
-      Alert.alert('Validation', 'Enter months between 0 and 11.');
-      return false;
+    if (!dateOfBirth) {
+      const yearsNumber = Number(ageYears);
+      const monthsNumber = Number(ageMonths);
+      if (Number.isNaN(yearsNumber) || yearsNumber < 0) {
+        Alert.alert('Validation', 'Enter a valid age in years.');
+        return false;
+      }
+      if (Number.isNaN(monthsNumber) || monthsNumber < 0 || monthsNumber > 11) {
+        Alert.alert('Validation', 'Enter months between 0 and 11.');
+        return false;
+      }
     }
     if (!vaccineName.trim()) {
       Alert.alert('Validation', 'Select a vaccine.');
@@ -254,6 +269,10 @@ export default function ImmunizationFormScreen() {
       Alert.alert('Validation', 'Select an immunization date.');
       return false;
     }
+    if (dateOfBirth && !derivedAge) {
+      Alert.alert('Validation', 'The immunization date is before the date of birth.');
+      return false;
+    }
     if (!lastVaccinatedDate.trim()) {
       Alert.alert('Validation', 'Select the last vaccinated date.');
       return false;
@@ -272,18 +291,26 @@ export default function ImmunizationFormScreen() {
         vetId: selectedVetId ?? undefined,
         vetName: vetName.trim(),
         vaccineName,
-        ageYears: Number(ageYears) || 0,
-        ageMonths: Number(ageMonths) || 0,
+        ageYears: derivedAge?.years ?? (Number(ageYears) || 0),
+        ageMonths: derivedAge?.months ?? (Number(ageMonths) || 0),
         immunizationDate,
         lastVaccinatedDate,
         notes: notes.trim() || undefined,
       } satisfies Omit<ImmunizationRecord, 'id' | 'createdAt' | 'updatedAt'>;
 
       if (isEditing && recordId) {
-        await updateImmunizationRecord(recordId, payload);
+        const result = await updateImmunizationRecord(recordId, payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Updated', 'Immunization record updated successfully.');
       } else {
-        await addImmunizationRecord(payload);
+        const result = await addImmunizationRecord(payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Saved', 'Immunization recorded successfully.');
       }
       router.back();
@@ -343,68 +370,97 @@ export default function ImmunizationFormScreen() {
             <ThemedText style={[styles.helperText, { color: colors.secondaryText }]}>{vetName.length}/30</ThemedText>
           </View>
 
-          <View style={styles.formRow}>
-            <View style={styles.rowItem}>
-              <ThemedText style={[styles.label, { color: colors.text }]}>Age *</ThemedText>
-              <TouchableOpacity
-                style={[styles.selectField, { borderColor: colors.border, backgroundColor: colors.surface }]}
-                onPress={() => {
-                  ActionSheetIOS.showActionSheetWithOptions?.(
-                    {
-                      options: ['Cancel', ...Array.from({ length: 21 }, (_, idx) => `${idx}`)],
-                      cancelButtonIndex: 0,
-                    },
-                    (index) => {
-                      if (index > 0) setAgeYears((index - 1).toString());
-                    }
-                  ) ?? null;
-                }}
-                disabled={Platform.OS !== 'ios'}>
-                <ThemedText style={[styles.selectFieldText, { color: colors.text }]}>{ageYears || 'Year'}</ThemedText>
-                <IconSymbol name="chevron.down" size={16} color={colors.icon} />
-              </TouchableOpacity>
+          {dateOfBirth ? (
+            <View style={styles.formGroup}>
+              <ThemedText style={[styles.label, { color: colors.text }]}>Age</ThemedText>
+              <View style={[styles.selectField, { borderColor: colors.border, backgroundColor: colors.surfaceMuted }]}>
+                <ThemedText style={[styles.selectFieldText, { color: derivedAge ? colors.text : colors.secondaryText }]}>
+                  {derivedAge
+                    ? formatCanineAge(derivedAge)
+                    : immunizationDate
+                      ? 'Before date of birth'
+                      : 'Select the immunization date'}
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.ageNote, { color: colors.secondaryText }]}>
+                Calculated from the date of birth ({dateOfBirth})
+              </ThemedText>
+              {storedAgeMismatch ? (
+                <ThemedText style={[styles.ageNote, { color: colors.warning }]}>
+                  Saved as {formatCanineAge({ years: existingRecord!.ageYears, months: existingRecord!.ageMonths })}, which
+                  doesn&apos;t match the date of birth. Saving corrects it.
+                </ThemedText>
+              ) : null}
             </View>
-            <View style={styles.rowItem}>
-              <TouchableOpacity
-                style={[styles.selectField, { marginTop: 28, borderColor: colors.border, backgroundColor: colors.surface }]}
-                onPress={() => {
-                  ActionSheetIOS.showActionSheetWithOptions?.(
-                    {
-                      options: ['Cancel', ...Array.from({ length: 12 }, (_, idx) => `${idx}`)],
-                      cancelButtonIndex: 0,
-                    },
-                    (index) => {
-                      if (index > 0) setAgeMonths((index - 1).toString());
-                    }
-                  ) ?? null;
-                }}
-                disabled={Platform.OS !== 'ios'}>
-                <ThemedText style={[styles.selectFieldText, { color: colors.text }]}>{ageMonths || 'Month'}</ThemedText>
-                <IconSymbol name="chevron.down" size={16} color={colors.icon} />
-              </TouchableOpacity>
+          ) : (
+            <>
+            <View style={styles.formRow}>
+              <View style={styles.rowItem}>
+                <ThemedText style={[styles.label, { color: colors.text }]}>Age *</ThemedText>
+                <TouchableOpacity
+                  style={[styles.selectField, { borderColor: colors.border, backgroundColor: colors.surface }]}
+                  onPress={() => {
+                    ActionSheetIOS.showActionSheetWithOptions?.(
+                      {
+                        options: ['Cancel', ...Array.from({ length: 21 }, (_, idx) => `${idx}`)],
+                        cancelButtonIndex: 0,
+                      },
+                      (index) => {
+                        if (index > 0) setAgeYears((index - 1).toString());
+                      }
+                    ) ?? null;
+                  }}
+                  disabled={Platform.OS !== 'ios'}>
+                  <ThemedText style={[styles.selectFieldText, { color: colors.text }]}>{ageYears || 'Year'}</ThemedText>
+                  <IconSymbol name="chevron.down" size={16} color={colors.icon} />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.rowItem}>
+                <TouchableOpacity
+                  style={[styles.selectField, { marginTop: 28, borderColor: colors.border, backgroundColor: colors.surface }]}
+                  onPress={() => {
+                    ActionSheetIOS.showActionSheetWithOptions?.(
+                      {
+                        options: ['Cancel', ...Array.from({ length: 12 }, (_, idx) => `${idx}`)],
+                        cancelButtonIndex: 0,
+                      },
+                      (index) => {
+                        if (index > 0) setAgeMonths((index - 1).toString());
+                      }
+                    ) ?? null;
+                  }}
+                  disabled={Platform.OS !== 'ios'}>
+                  <ThemedText style={[styles.selectFieldText, { color: colors.text }]}>{ageMonths || 'Month'}</ThemedText>
+                  <IconSymbol name="chevron.down" size={16} color={colors.icon} />
+                </TouchableOpacity>
+              </View>
             </View>
-          </View>
 
-          {Platform.OS !== 'ios' ? (
-            <View style={styles.formRowAlt}>
-              <TextInput
-                style={[styles.inputField, { flex: 1, borderColor: colors.border, backgroundColor: colors.surface, color: colors.text }]}
-                placeholder="Year"
-                placeholderTextColor={`${colors.icon}99`}
-                value={ageYears}
-                onChangeText={setAgeYears}
-                keyboardType="numeric"
-              />
-              <TextInput
-                style={[styles.inputField, { flex: 1, borderColor: colors.border, backgroundColor: colors.surface, color: colors.text }]}
-                placeholder="Month"
-                placeholderTextColor={`${colors.icon}99`}
-                value={ageMonths}
-                onChangeText={setAgeMonths}
-                keyboardType="numeric"
-              />
-            </View>
-          ) : null}
+            {Platform.OS !== 'ios' ? (
+              <View style={styles.formRowAlt}>
+                <TextInput
+                  style={[styles.inputField, { flex: 1, borderColor: colors.border, backgroundColor: colors.surface, color: colors.text }]}
+                  placeholder="Year"
+                  placeholderTextColor={`${colors.icon}99`}
+                  value={ageYears}
+                  onChangeText={setAgeYears}
+                  keyboardType="numeric"
+                />
+                <TextInput
+                  style={[styles.inputField, { flex: 1, borderColor: colors.border, backgroundColor: colors.surface, color: colors.text }]}
+                  placeholder="Month"
+                  placeholderTextColor={`${colors.icon}99`}
+                  value={ageMonths}
+                  onChangeText={setAgeMonths}
+                  keyboardType="numeric"
+                />
+              </View>
+            ) : null}
+              <ThemedText style={[styles.ageNote, { color: colors.secondaryText }]}>
+                Add a date of birth to the pet&apos;s profile to calculate the age automatically.
+              </ThemedText>
+            </>
+          )}
 
           <View style={styles.formGroup}>
             <ThemedText style={[styles.label, { color: colors.text }]}>Vaccine *</ThemedText>
@@ -682,6 +738,9 @@ const createStyles = (colors: ThemeColors) =>
       fontSize: 12,
       textAlign: 'right',
     },
+    ageNote: {
+      fontSize: 12,
+    },
     inputField: {
       borderWidth: 1,
       borderRadius: 12,
@@ -19,12 +19,7 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import { Colors, type ThemeColors } from '@/constants/theme';
 import { useApp } from '@/context/AppContext';
 import type { ImmunizationRecord } from '@/types';
-
-const formatAge = (years: number, months: number) => {
-  const y = `${years}y`;
-  const m = `${months}m`;
-  return `${y}${m}`;
-};
+import { formatCanineAge, getImmunizationAgeMismatch } from '@/utils/canineAge';
 
 const formatDisplayDate = (value?: string) => {
   if (!value) return '—';
@@ -46,7 +41,8 @@ export default function ImmunizationListScreen() {
   const colors = Colors[colorScheme ?? 'light'];
   const styles = useMemo(() => createStyles(colors), [colors]);
   const insets = useSafeAreaInsets();
-  const { getImmunizationsByCanine, deleteImmunizationRecord } = useApp();
+  const { canines, getImmunizationsByCanine, deleteImmunizationRecord } = useApp();
+  const dateOfBirth = canines.find((canine) => canine.id === canineId)?.dateOfBirth;
 
   const [search, setSearch] = useState('');
 
@@ -61,6 +57,12 @@ export default function ImmunizationListScreen() {
     );
   }, [canineId, getImmunizationsByCanine, search]);
 
+  // Stored ages that disagree with the date of birth, e.g. records entered before it was known
+  const ageMismatches = useMemo(
+    () => new Map(immunizations.map((record) => [record.id, getImmunizationAgeMismatch(record, dateOfBirth)])),
+    [immunizations, dateOfBirth]
+  );
+
   const handleAdd = () => {
     if (!canineId) {
       Alert.alert('Select Pet', 'Please open this screen from a canine profile.');
@@ -81,7 +83,11 @@ export default function ImmunizationListScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteImmunizationRecord(record.id);
+          const result = await deleteImmunizationRecord(record.id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
         },
       },
     ]);
@@ -168,9 +174,14 @@ export default function ImmunizationListScreen() {
               <View style={styles.fieldRow}>
                 <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>Age</ThemedText>
                 <ThemedText style={[styles.fieldValue, { color: colors.text }]}>
-                  {formatAge(item.ageYears, item.ageMonths)}
+                  {formatCanineAge({ years: item.ageYears, months: item.ageMonths })}
                 </ThemedText>
               </View>
+              {ageMismatches.get(item.id) ? (
+                <ThemedText style={[styles.ageWarning, { color: colors.warning }]}>
+                  {`Date of birth gives ${formatCanineAge(ageMismatches.get(item.id)!)}; edit and save to correct it`}
+                </ThemedText>
+              ) : null}
               <View style={styles.fieldRow}>
                 <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>Vaccine</ThemedText>
                 <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{item.vaccineName}</ThemedText>
@@ -331,6 +342,10 @@ const createStyles = (colors: ThemeColors) =>
       fontSize: 14,
       fontWeight: '600',
     },
+    ageWarning: {
+      fontSize: 12,
+      textAlign: 'right',
+    },
     timestampPill: {
       alignSelf: 'flex-start',
       paddingHorizontal: 16,
@@ -18,6 +18,7 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import { router, usePathname } from 'expo-router';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useApp } from '@/context/AppContext';
+import { describeVaccineDue, needsVaccineAttention } from '@/utils/vaccineSchedule';
 import { Image } from 'expo-image';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
@@ -28,7 +29,19 @@ export default function HomeScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const styles = useMemo(() => createStyles(colors), [colors]);
-  const { userProfile, canines, appointments, mediaItems, logout } = useApp();
+  const {
+    userProfile,
+    canines,
+    appointments,
+    mediaItems,
+    logout,
+    isOnline,
+    pendingSyncCount,
+    syncConflicts,
+    syncNow,
+    clearSyncConflicts,
+    getVaccineScheduleByCanine,
+  } = useApp();
   const pathname = usePathname();
   const screenHeight = Dimensions.get('window').height;
   const insets = useSafeAreaInsets();
@@ -36,6 +49,13 @@ export default function HomeScreen() {
   // Filter canines for current user (Pet Owner)
   const userCanines = useMemo(() => (userProfile ? canines.filter((c) => c.userId === userProfile.id) : []), [userProfile?.id, canines]);
 
+  // Overdue and soon-due vaccines across the owner's pets
+  const vaccineAlerts = userCanines.flatMap((canine) =>
+    getVaccineScheduleByCanine(canine.id)
+      .filter(needsVaccineAttention)
+      .map((due) => ({ canine, due }))
+  );
+
   // For Pet Owner role, show only Canine Profiles in quick access
   const isPetOwner = userProfile?.role === 'Pet Owner';
   const isAdmin = userProfile?.role === 'Admin';
@@ -83,6 +103,7 @@ export default function HomeScreen() {
         { title: 'Vet Profile', icon: 'cross.case.fill', route: '/(tabs)/vet-profile' },
         { title: 'Contacts', icon: 'person.2.fill', route: '/(tabs)/contacts' },
         { title: 'Appointments', icon: 'calendar.fill', route: '/(tabs)/appointments' },
+        { title: 'Household', icon: 'house.fill', route: '/household' },
       ]
     : sharedMenuItems.filter(
         (item) =>
@@ -98,6 +119,12 @@ export default function HomeScreen() {
             ].includes(item.title)
           )
       );
+  if (userProfile?.role === 'Vet') {
+    menuItems.unshift({ title: 'Vet Portal', icon: 'stethoscope', route: '/vet' });
+  }
+  if (userProfile?.role === 'Dog Walker') {
+    menuItems.unshift({ title: 'Walker Portal', icon: 'figure.walk', route: '/walker' });
+  }
   const quickAccessTitle = isAdmin ? 'Admin' : 'Quick Access';
   const adminTabItems = [
     { title: 'Users', icon: 'person.crop.circle.fill', route: '/admin/users' },
@@ -294,6 +321,43 @@ export default function HomeScreen() {
     );
   };
 
+  const handleSyncBannerPress = () => {
+    if (syncConflicts.length > 0) {
+      Alert.alert(
+        'Changes Not Synced',
+        `${syncConflicts.length} change(s) made offline were skipped because the record was changed or removed on another device. The latest saved version is shown.`,
+        [{ text: 'OK', onPress: () => clearSyncConflicts() }]
+      );
+      return;
+    }
+
+    syncNow().catch((error: any) => Alert.alert('Sync', error?.message || 'Unable to sync right now.'));
+  };
+
+  const renderSyncBanner = () => {
+    if (isOnline && pendingSyncCount === 0 && syncConflicts.length === 0) {
+      return null;
+    }
+
+    let message = `${pendingSyncCount} change(s) waiting to sync`;
+    if (!isOnline) {
+      message = pendingSyncCount > 0 ? `Offline • ${pendingSyncCount} change(s) will sync later` : 'Offline • Showing saved data';
+    } else if (syncConflicts.length > 0) {
+      message = `${syncConflicts.length} offline change(s) could not be applied`;
+    }
+
+    return (
+      <TouchableOpacity
+        style={[styles.syncBanner, syncConflicts.length > 0 && styles.syncBannerWarning]}
+        onPress={handleSyncBannerPress}
+        accessibilityRole="button"
+        accessibilityLabel="Sync status">
+        <IconSymbol name={isOnline ? 'arrow.triangle.2.circlepath' : 'wifi.slash'} size={16} color={colors.text} />
+        <ThemedText style={styles.syncBannerText}>{message}</ThemedText>
+      </TouchableOpacity>
+    );
+  };
+
   if (isPetOwner && showOverlay) {
     return renderOverlay();
   }
@@ -319,6 +383,8 @@ export default function HomeScreen() {
             </TouchableOpacity>
           </View>
 
+          {renderSyncBanner()}
+
           <ThemedView style={[styles.petCarouselCard, { height: screenHeight * 0.25 }]}>
             <View style={styles.petCarouselHeader}>
               <ThemedText style={styles.petCarouselTitle}>My Canine</ThemedText>
@@ -364,6 +430,32 @@ export default function HomeScreen() {
             />
           </ThemedView>
 
+          {vaccineAlerts.length > 0 && (
+            <View style={styles.ownerAppointmentsSection}>
+              <ThemedText style={styles.sectionHeadingCompact}>Vaccines Due</ThemedText>
+              {vaccineAlerts.map(({ canine, due }) => (
+                <TouchableOpacity
+                  key={`${canine.id}-${due.vaccineName}`}
+                  style={styles.ownerAppointmentCard}
+                  onPress={() => router.push(`/canine-profile?id=${canine.id}`)}
+                  accessibilityRole="button">
+                  <ThemedText style={styles.ownerAppointmentPrimary} numberOfLines={1}>
+                    {due.vaccineName}
+                  </ThemedText>
+                  <View style={styles.ownerAppointmentSecondaryRow}>
+                    <ThemedText style={styles.ownerAppointmentSecondary} numberOfLines={1}>
+                      Pet: {canine.name}
+                    </ThemedText>
+                    <ThemedText
+                      style={[styles.ownerAppointmentDate, due.status === 'overdue' && { color: colors.danger }]}>
+                      {describeVaccineDue(due)}
+                    </ThemedText>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
           {petOwnerAppointments.length > 0 && (
             <View style={[styles.ownerAppointmentsSection, { height: screenHeight * 0.1 }]}>
               <ThemedText style={styles.sectionHeadingCompact}>Upcoming Appointments</ThemedText>
@@ -818,6 +910,26 @@ const createStyles = (colors: ThemeColors) =>
       flex: 1,
       backgroundColor: colors.background,
     },
+    syncBanner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 12,
+      marginBottom: 12,
+      backgroundColor: colors.surfaceMuted,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    syncBannerWarning: {
+      borderColor: '#F59E0B',
+    },
+    syncBannerText: {
+      flex: 1,
+      fontSize: 13,
+      color: colors.text,
+    },
     petOwnerScroll: {
       paddingBottom: 120,
     },
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
   Platform,
@@ -17,10 +17,19 @@ import * as FileSystem from 'expo-file-system/legacy';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import {
+  LabResultsEditor,
+  isBlankLabResultDraft,
+  parseLabResultDraft,
+  toLabResultDraft,
+  type LabResultDraft,
+  type ParsedLabResult,
+} from '@/components/lab-results-editor';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { Colors, ThemeColors } from '@/constants/theme';
 import { useApp } from '@/context/AppContext';
-import { MedicalAttachment, MedicalRecord, VetProfile } from '@/types';
+import { LabResult, MedicalAttachment, MedicalRecord, VetProfile } from '@/types';
+import { toMeasurementDate } from '@/utils/weight';
 
 const REPORT_TYPES = ['Vaccine', 'General Checkup', 'Surgery', 'Lab Results', 'Prescription', 'Other'];
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
@@ -39,6 +48,13 @@ const EMPTY_NEW_VET: NewVetData = {
   email: '',
 };
 
+const hasLabResultChanged = (saved: LabResult, result: ParsedLabResult) =>
+  saved.analyte !== result.analyte ||
+  saved.value !== result.value ||
+  saved.unit !== result.unit ||
+  saved.referenceLow !== result.referenceLow ||
+  saved.referenceHigh !== result.referenceHigh;
+
 export default function MedicalRecordForm() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
@@ -50,6 +66,10 @@ export default function MedicalRecordForm() {
     addMedicalRecord,
     updateMedicalRecord,
     medicalRecords,
+    labResults,
+    addLabResult,
+    updateLabResult,
+    deleteLabResult,
     vets,
     addVet,
   } = useApp();
@@ -64,6 +84,8 @@ export default function MedicalRecordForm() {
   const [vetName, setVetName] = useState('');
   const [clinicName, setClinicName] = useState('');
   const [reportType, setReportType] = useState('');
+  const [reportDate, setReportDate] = useState(recordId ? '' : toMeasurementDate());
+  const [labDrafts, setLabDrafts] = useState<LabResultDraft[]>([]);
   const [attachments, setAttachments] = useState<MedicalAttachment[]>([]);
   const [selectedVetId, setSelectedVetId] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
@@ -83,11 +105,20 @@ export default function MedicalRecordForm() {
     );
   }, [vetSearch, vets]);
 
+  // Lab results are loaded once, so edits in progress survive a refresh of the saved ones
+  const loadedLabResultsFor = useRef<string | null>(null);
+  useEffect(() => {
+    if (!existingRecord || loadedLabResultsFor.current === existingRecord.id) return;
+    loadedLabResultsFor.current = existingRecord.id;
+    setLabDrafts(labResults.filter((result) => result.medicalRecordId === existingRecord.id).map(toLabResultDraft));
+  }, [existingRecord, labResults]);
+
   useEffect(() => {
     if (existingRecord) {
       setVetName(existingRecord.vetName);
       setClinicName(existingRecord.clinicName);
       setReportType(existingRecord.reportType);
+      setReportDate(existingRecord.reportDate ?? '');
       setAttachments(existingRecord.attachments ?? []);
       const matchedVet = vets.find(
         (vet) => vet.name.toLowerCase() === existingRecord.vetName.toLowerCase()
@@ -125,7 +156,7 @@ export default function MedicalRecordForm() {
       Alert.alert('Validation', 'Please enter the veterinarian name.');
       return;
     }
-    const created = await addVet({
+    const result = await addVet({
       name: newVetData.name.trim(),
       clinicName: newVetData.clinicName.trim(),
       phone: newVetData.phone.trim(),
@@ -138,7 +169,11 @@ export default function MedicalRecordForm() {
       specialization: '',
       notes: '',
     });
-    handleSelectVet(created);
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+      return;
+    }
+    handleSelectVet(result.data);
   };
 
   const validateForm = () => {
@@ -158,13 +193,53 @@ export default function MedicalRecordForm() {
       Alert.alert('Validation', 'Please select the medical report type.');
       return false;
     }
+    if (reportDate.trim() && !/^\d{4}-\d{2}-\d{2}$/.test(reportDate.trim())) {
+      Alert.alert('Validation', 'Enter the report date as YYYY-MM-DD.');
+      return false;
+    }
+    if (reportDate.trim() > toMeasurementDate()) {
+      Alert.alert('Validation', 'The report date is in the future.');
+      return false;
+    }
     if (attachments.length === 0) {
       Alert.alert('Validation', 'Please upload at least one medical report.');
       return false;
     }
+    for (const draft of labDrafts) {
+      if (isBlankLabResultDraft(draft)) continue;
+      const parsed = parseLabResultDraft(draft);
+      if (!parsed.ok) {
+        Alert.alert('Validation', parsed.error);
+        return false;
+      }
+    }
     return true;
   };
 
+  // Brings the record's saved lab results in line with the form; returns how many changes failed
+  const saveLabResults = async (medicalRecordId: string, canineId: string) => {
+    const saved = labResults.filter((result) => result.medicalRecordId === medicalRecordId);
+    const filled = labDrafts.filter((draft) => !isBlankLabResultDraft(draft));
+    const keptIds = new Set(filled.map((draft) => draft.id));
+    let failures = 0;
+
+    for (const result of saved) {
+      if (!keptIds.has(result.id) && !(await deleteLabResult(result.id)).ok) failures += 1;
+    }
+    // One at a time, so results keep the order they were entered in
+    for (const draft of filled) {
+      const parsed = parseLabResultDraft(draft);
+      if (!parsed.ok) continue;
+      const existing = draft.id ? saved.find((result) => result.id === draft.id) : undefined;
+      if (existing && !hasLabResultChanged(existing, parsed.result)) continue;
+      const outcome = existing
+        ? await updateLabResult(existing.id, parsed.result)
+        : await addLabResult({ ...parsed.result, canineId, medicalRecordId });
+      if (!outcome.ok) failures += 1;
+    }
+    return failures;
+  };
+
   const handlePickReportType = () => {
     if (Platform.OS === 'ios') {
       ActionSheetIOS.showActionSheetWithOptions(
@@ -302,12 +377,32 @@ export default function MedicalRecordForm() {
         vetName: vetName.trim(),
         clinicName: clinicName.trim(),
         reportType,
+        reportDate: reportDate.trim() || undefined,
         attachments,
       };
+      let savedRecordId = recordId;
       if (isEditing && recordId) {
-        await updateMedicalRecord(recordId, payload);
+        const result = await updateMedicalRecord(recordId, payload);
+        if (!result.ok) {
+          Alert.alert(result.error.code === 'limit_reached' ? 'Upgrade Required' : 'Error', result.error.message);
+          return;
+        }
       } else {
-        await addMedicalRecord(payload);
+        const result = await addMedicalRecord(payload);
+        if (!result.ok) {
+          Alert.alert(result.error.code === 'limit_reached' ? 'Upgrade Required' : 'Error', result.error.message);
+          return;
+        }
+        savedRecordId = result.data.id;
+      }
+      const labFailures = savedRecordId ? await saveLabResults(savedRecordId, resolvedCanineId) : 0;
+      if (labFailures > 0) {
+        Alert.alert(
+          'Lab Results Not Saved',
+          `The medical record was saved, but ${labFailures} lab result change${labFailures === 1 ? '' : 's'} could not be saved. Edit the record to try again.`,
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+        return;
       }
       Alert.alert('Success', `Medical record ${isEditing ? 'updated' : 'saved'} successfully.`, [
         {
@@ -383,6 +478,16 @@ export default function MedicalRecordForm() {
             <IconSymbol name="chevron.down" size={18} color={Colors[colorScheme ?? 'light'].icon} />
           </TouchableOpacity>
 
+          <ThemedText style={styles.label}>Report Date</ThemedText>
+          <TextInput
+            style={styles.input}
+            value={reportDate}
+            onChangeText={setReportDate}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.tertiaryText}
+            maxLength={10}
+          />
+
           <ThemedText style={styles.label}>Upload Medical Reports *</ThemedText>
           <View style={styles.uploadRow}>
             <TouchableOpacity style={styles.uploadButton} onPress={handleUploadPhoto}>
@@ -419,6 +524,9 @@ Supported Image Formats JPG, PNG. Maximum File Size 10 MB`}
             </View>
           )}
 
+          <ThemedText style={styles.label}>Lab Results</ThemedText>
+          <LabResultsEditor drafts={labDrafts} onChange={setLabDrafts} />
+
           <View style={styles.actionsRow}>
             <TouchableOpacity
               style={[styles.actionButton, styles.cancelButton]}
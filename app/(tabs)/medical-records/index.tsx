@@ -16,14 +16,15 @@ import { ThemedView } from '@/components/themed-view';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { Colors } from '@/constants/theme';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { LabResultList } from '@/components/lab-result-list';
 import { useApp } from '@/context/AppContext';
-import { MedicalRecord } from '@/types';
+import { LabResult, MedicalRecord } from '@/types';
 
 export default function MedicalRecordsListScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const { canineId } = useLocalSearchParams<{ canineId?: string; recordId?: string }>();
-  const { medicalRecords, deleteMedicalRecord } = useApp();
+  const { medicalRecords, labResults, deleteMedicalRecord } = useApp();
   const [search, setSearch] = useState('');
 
   const records = useMemo(() => {
@@ -43,14 +44,37 @@ export default function MedicalRecordsListScreen() {
     );
   }, [medicalRecords, canineId, search]);
 
+  const labResultsByRecord = useMemo(() => {
+    const grouped = new Map<string, LabResult[]>();
+    labResults.forEach((result) => {
+      grouped.set(result.medicalRecordId, [...(grouped.get(result.medicalRecordId) ?? []), result]);
+    });
+    return grouped;
+  }, [labResults]);
+
+  const handleOpenLabHistory = (record: MedicalRecord, analyte: string) => {
+    router.push({
+      pathname: '/(tabs)/medical-records/lab-history',
+      params: { canineId: record.canineId, analyte },
+    });
+  };
+
   const handleDelete = (id: string) => {
-    Alert.alert('Delete Medical Record', 'Are you sure you want to delete this record?', [
+    const resultCount = labResultsByRecord.get(id)?.length ?? 0;
+    const message = resultCount
+      ? `Are you sure you want to delete this record and its ${resultCount} lab result${resultCount === 1 ? '' : 's'}?`
+      : 'Are you sure you want to delete this record?';
+    Alert.alert('Delete Medical Record', message, [
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteMedicalRecord(id);
+          const result = await deleteMedicalRecord(id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
         },
       },
     ]);
@@ -160,6 +184,21 @@ export default function MedicalRecordsListScreen() {
                 <ThemedText style={styles.detailLabel}>Medical Report Type</ThemedText>
                 <ThemedText style={styles.detailValue}>{record.reportType}</ThemedText>
               </View>
+              {record.reportDate && (
+                <View style={styles.detailRow}>
+                  <ThemedText style={styles.detailLabel}>Report Date</ThemedText>
+                  <ThemedText style={styles.detailValue}>{record.reportDate}</ThemedText>
+                </View>
+              )}
+              {labResultsByRecord.has(record.id) && (
+                <View style={styles.detailRow}>
+                  <ThemedText style={styles.detailLabel}>Lab Results</ThemedText>
+                  <LabResultList
+                    results={labResultsByRecord.get(record.id) ?? []}
+                    onPressAnalyte={(analyte) => handleOpenLabHistory(record, analyte)}
+                  />
+                </View>
+              )}
               {record.attachments.length > 0 && (
                 <View style={styles.detailRow}>
                   <ThemedText style={styles.detailLabel}>Upload Medical Report</ThemedText>
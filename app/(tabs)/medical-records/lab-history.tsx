@@ -0,0 +1,301 @@
+import { useMemo, useState } from 'react';
+import { Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+
+import { LabHistoryChart } from '@/components/lab-history-chart';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { Colors, type ThemeColors } from '@/constants/theme';
+import { useApp } from '@/context/AppContext';
+import {
+  formatLabValue,
+  formatReferenceRange,
+  getLabAnalyteLabel,
+  getLabHistory,
+  getRecordedAnalytes,
+  isSameAnalyte,
+  type LabResultStatus,
+} from '@/utils/labResults';
+
+const STATUS_LABELS: Record<LabResultStatus, string> = {
+  low: 'Low',
+  normal: 'In range',
+  high: 'High',
+  unknown: 'No range',
+};
+
+const formatResultDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+export default function LabHistoryScreen() {
+  const { canineId, analyte: analyteParam } = useLocalSearchParams<{ canineId?: string; analyte?: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const { labResults, medicalRecords, canines, sharedCanines } = useApp();
+  const canine = [...canines, ...sharedCanines].find((item) => item.id === canineId);
+
+  const canineResults = useMemo(
+    () => labResults.filter((result) => result.canineId === canineId),
+    [labResults, canineId]
+  );
+  const analytes = useMemo(() => getRecordedAnalytes(canineResults), [canineResults]);
+  const [selectedAnalyte, setSelectedAnalyte] = useState(analyteParam ?? '');
+  const analyte = selectedAnalyte || analytes[0] || '';
+
+  const history = useMemo(
+    () => (analyte ? getLabHistory(canineResults, medicalRecords, analyte) : null),
+    [canineResults, medicalRecords, analyte]
+  );
+  const latestRange = history
+    ? formatReferenceRange(history.latest.result.referenceLow, history.latest.result.referenceHigh)
+    : '';
+
+  const statusColor = (status: LabResultStatus) =>
+    status === 'low' || status === 'high' ? colors.danger : status === 'normal' ? colors.success : colors.secondaryText;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+          <ThemedText style={styles.backLabel}>Back</ThemedText>
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Lab History
+        </ThemedText>
+        <View style={{ width: 44 }} />
+      </ThemedView>
+
+      <View style={styles.content}>
+        {canine && <ThemedText style={styles.subtitle}>{canine.name}</ThemedText>}
+
+        {analytes.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {analytes.map((option) => {
+              const isSelected = isSameAnalyte(option, analyte);
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => setSelectedAnalyte(option)}>
+                  <ThemedText style={[styles.chipText, isSelected && styles.chipTextSelected]}>{option}</ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
+        {!history ? (
+          <View style={styles.emptyState}>
+            <IconSymbol name="testtube.2" size={48} color={colors.icon} />
+            <ThemedText style={styles.emptyTitle}>No lab results yet</ThemedText>
+            <ThemedText style={styles.emptySubtitle}>
+              Add bloodwork values to a medical record to follow them over time.
+            </ThemedText>
+          </View>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <ThemedText style={styles.cardTitle}>{getLabAnalyteLabel(history.analyte)}</ThemedText>
+              <View style={styles.summaryRow}>
+                <View style={styles.summaryFigure}>
+                  <ThemedText style={styles.summaryLabel}>Latest</ThemedText>
+                  <ThemedText style={[styles.summaryValue, { color: statusColor(history.latest.status) }]}>
+                    {formatLabValue(history.latest.result.value)} {history.unit}
+                  </ThemedText>
+                </View>
+                <View style={styles.summaryFigure}>
+                  <ThemedText style={styles.summaryLabel}>Reference</ThemedText>
+                  <ThemedText style={styles.summaryValue}>{latestRange || '—'}</ThemedText>
+                </View>
+              </View>
+              <LabHistoryChart history={history} />
+              {history.otherUnitCount > 0 && (
+                <ThemedText style={styles.note}>
+                  {`${history.otherUnitCount} result${history.otherUnitCount === 1 ? ' was' : 's were'} recorded in another unit and ${history.otherUnitCount === 1 ? 'is' : 'are'} not charted.`}
+                </ThemedText>
+              )}
+            </View>
+
+            <View style={styles.card}>
+              {[...history.points].reverse().map((point, index) => {
+                const range = formatReferenceRange(point.result.referenceLow, point.result.referenceHigh);
+                return (
+                  <View key={point.result.id} style={[styles.resultRow, index > 0 && styles.resultDivider]}>
+                    <View style={styles.resultText}>
+                      <ThemedText style={styles.resultDate}>{formatResultDate(point.date)}</ThemedText>
+                      {range ? <ThemedText style={styles.resultRange}>Ref {range}</ThemedText> : null}
+                    </View>
+                    <View style={styles.resultValueColumn}>
+                      <ThemedText style={[styles.resultValue, { color: statusColor(point.status) }]}>
+                        {formatLabValue(point.result.value)} {point.result.unit}
+                      </ThemedText>
+                      <ThemedText style={[styles.resultStatus, { color: statusColor(point.status) }]}>
+                        {STATUS_LABELS[point.status]}
+                      </ThemedText>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 20,
+      paddingTop: Platform.OS === 'ios' ? 60 : 24,
+      paddingBottom: 12,
+      justifyContent: 'space-between',
+    },
+    backButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    backLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    content: {
+      paddingHorizontal: 20,
+      gap: 16,
+    },
+    subtitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.secondaryText,
+    },
+    chipRow: {
+      gap: 8,
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 999,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      backgroundColor: colors.surface,
+    },
+    chipSelected: {
+      borderColor: colors.tint,
+      backgroundColor: colors.tintSoft,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    chipTextSelected: {
+      color: colors.tint,
+    },
+    card: {
+      borderRadius: 18,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      padding: 16,
+      gap: 12,
+    },
+    cardTitle: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    summaryFigure: {
+      flex: 1,
+      gap: 2,
+    },
+    summaryLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.secondaryText,
+    },
+    summaryValue: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    note: {
+      fontSize: 12,
+      color: colors.tertiaryText,
+    },
+    resultRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    resultDivider: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: 12,
+    },
+    resultText: {
+      flex: 1,
+      gap: 2,
+    },
+    resultDate: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    resultRange: {
+      fontSize: 12,
+      color: colors.secondaryText,
+    },
+    resultValueColumn: {
+      alignItems: 'flex-end',
+      gap: 2,
+    },
+    resultValue: {
+      fontSize: 15,
+      fontWeight: '700',
+    },
+    resultStatus: {
+      fontSize: 12,
+      fontWeight: '600',
+    },
+    emptyState: {
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 64,
+    },
+    emptyTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    emptySubtitle: {
+      fontSize: 14,
+      color: colors.secondaryText,
+      textAlign: 'center',
+      paddingHorizontal: 16,
+    },
+  });
@@ -144,7 +144,7 @@ export default function MedicationFormScreen() {
       Alert.alert('Validation', 'Please enter the veterinarian name.');
       return;
     }
-    const created = await addVet({
+    const result = await addVet({
       name: newVetData.name.trim(),
       clinicName: newVetData.clinicName.trim(),
       phone: newVetData.phone.trim(),
@@ -157,7 +157,11 @@ export default function MedicationFormScreen() {
       specialization: '',
       notes: '',
     });
-    handleSelectVet(created);
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+      return;
+    }
+    handleSelectVet(result.data);
   };
 
   const openPicker = (target: PickerTarget, mode: 'date' | 'time') => {
@@ -336,10 +340,18 @@ export default function MedicationFormScreen() {
       } satisfies Omit<MedicationEntry, 'id' | 'createdAt' | 'updatedAt'>;
 
       if (isEditing && entryId) {
-        await updateMedicationEntry(entryId, payload);
+        const result = await updateMedicationEntry(entryId, payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Updated', 'Medication entry updated successfully.');
       } else {
-        await addMedicationEntry(payload);
+        const result = await addMedicationEntry(payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Saved', 'Medication entry added successfully.');
       }
       router.back();
@@ -18,7 +18,23 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useApp } from '@/context/AppContext';
 import { Colors, type ThemeColors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import type { MedicationEntry } from '@/types';
+import type { MedicationDoseStatus, MedicationEntry } from '@/types';
+import { getDoseAdherence, getDosesForDay, type DoseState, type ScheduledDose } from '@/utils/doseSchedule';
+
+const DOSE_ACTIONS: { status: MedicationDoseStatus; label: string }[] = [
+  { status: 'given', label: 'Given' },
+  { status: 'late', label: 'Late' },
+  { status: 'skipped', label: 'Skipped' },
+];
+
+const DOSE_STATE_LABELS: Record<DoseState, string> = {
+  given: 'Given',
+  late: 'Given late',
+  skipped: 'Skipped',
+  upcoming: 'Upcoming',
+  due: 'Due now',
+  missed: 'Missed',
+};
 
 function formatDisplayDate(value?: string) {
   if (!value) return '—';
@@ -38,6 +54,10 @@ function formatDisplayTime(value?: string) {
   return value.length > 5 ? value.slice(0, 5) : value;
 }
 
+function formatDoseTime(value: string) {
+  return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
 function formatTimestamp(value?: string) {
   if (!value) return '';
   try {
@@ -57,9 +77,22 @@ export default function MedicationsScreen() {
   const colors = Colors[colorScheme ?? 'light'];
   const styles = useMemo(() => createStyles(colors), [colors]);
   const insets = useSafeAreaInsets();
-  const { getMedicationsByCanine, deleteMedicationEntry } = useApp();
+  const {
+    getMedicationsByCanine,
+    deleteMedicationEntry,
+    getMedicationDoseLogsByCanine,
+    logMedicationDose,
+    deleteMedicationDoseLog,
+    getCanineRole,
+  } = useApp();
 
   const [search, setSearch] = useState('');
+  // Household caregivers can log doses, read-only members can only look
+  const canineRole = canineId ? getCanineRole(canineId) : null;
+  const canLogDoses = canineRole === 'owner' || canineRole === 'caregiver';
+
+  const doseLogs = canineId ? getMedicationDoseLogsByCanine(canineId) : [];
+  const todaysDoses = getDosesForDay(canineId ? getMedicationsByCanine(canineId) : [], doseLogs, new Date());
 
   const medications = useMemo(() => {
     const items = canineId ? getMedicationsByCanine(canineId) : [];
@@ -94,12 +127,106 @@ export default function MedicationsScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteMedicationEntry(entry.id);
+          const result = await deleteMedicationEntry(entry.id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
         },
       },
     ]);
   };
 
+  // Tapping the dose's current status again clears it
+  const handleDoseAction = async (dose: ScheduledDose, status: MedicationDoseStatus) => {
+    const result =
+      dose.log?.status === status
+        ? await deleteMedicationDoseLog(dose.log.id)
+        : await logMedicationDose(dose.medication.id, dose.scheduledAt, status);
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+    }
+  };
+
+  const doseStateColor = (state: DoseState) => {
+    if (state === 'given') return colors.success;
+    if (state === 'late' || state === 'due') return colors.warning;
+    if (state === 'skipped' || state === 'missed') return colors.danger;
+    return colors.secondaryText;
+  };
+
+  const renderTodaysDoses = () => (
+    <ThemedView
+      style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border, shadowColor: colors.shadow }]}
+      darkColor={colors.surface}
+      lightColor={colors.surface}>
+      <ThemedText style={[styles.cardTitle, { color: colors.text }]}>Today&apos;s Doses</ThemedText>
+      {todaysDoses.length === 0 ? (
+        <ThemedText style={[styles.emptySubtitle, styles.doseEmpty, { color: colors.secondaryText }]}>
+          No doses scheduled for today.
+        </ThemedText>
+      ) : (
+        todaysDoses.map((dose) => (
+          <View key={`${dose.medication.id}-${dose.scheduledAt}`} style={[styles.doseRow, { borderColor: colors.border }]}>
+            <View style={styles.doseHeader}>
+              <ThemedText style={[styles.doseTime, { color: colors.text }]}>{formatDoseTime(dose.scheduledAt)}</ThemedText>
+              <View style={styles.cardHeaderText}>
+                <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{dose.medication.medicationName}</ThemedText>
+                <ThemedText style={[styles.doseMeta, { color: colors.secondaryText }]}>
+                  {dose.medication.quantity} {dose.medication.dosageUnit}
+                  {dose.log ? ` · ${dose.log.loggedByName}` : ''}
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.doseState, { color: doseStateColor(dose.state) }]}>
+                {DOSE_STATE_LABELS[dose.state]}
+              </ThemedText>
+            </View>
+            {canLogDoses && (
+              <View style={styles.doseActions}>
+                {DOSE_ACTIONS.map((action) => {
+                  const selected = dose.log?.status === action.status;
+                  return (
+                    <TouchableOpacity
+                      key={action.status}
+                      style={[
+                        styles.doseAction,
+                        { borderColor: colors.tint, backgroundColor: selected ? colors.tint : 'transparent' },
+                      ]}
+                      onPress={() => handleDoseAction(dose, action.status)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected }}>
+                      <ThemedText style={[styles.doseActionText, { color: selected ? colors.inverseText : colors.tint }]}>
+                        {action.label}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+        ))
+      )}
+    </ThemedView>
+  );
+
+  const renderAdherence = (entry: MedicationEntry) => {
+    const adherence = getDoseAdherence(entry, doseLogs);
+    if (adherence.percent === null) return null;
+    return (
+      <View style={styles.fieldRow}>
+        <View style={styles.fieldColumn}>
+          <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>Adherence</ThemedText>
+          <ThemedText style={[styles.fieldValue, { color: colors.text }]}>
+            {adherence.percent}% · {adherence.given + adherence.late} of {adherence.counted} doses given
+          </ThemedText>
+          <ThemedText style={[styles.doseMeta, { color: colors.secondaryText }]}>
+            {adherence.late} late · {adherence.skipped} skipped · {adherence.missed} missed
+          </ThemedText>
+        </View>
+      </View>
+    );
+  };
+
   const openCardMenu = (entry: MedicationEntry) => {
     if (Platform.OS === 'ios') {
       ActionSheetIOS.showActionSheetWithOptions(
@@ -158,6 +285,7 @@ export default function MedicationsScreen() {
         data={medications}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
+        ListHeaderComponent={canineId ? renderTodaysDoses : null}
         ListEmptyComponent={() => (
           <ThemedView style={[styles.emptyState, { borderColor: `${colors.icon}33` }]}
             darkColor={colors.surface}
@@ -225,6 +353,8 @@ export default function MedicationsScreen() {
                   <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{formatDisplayTime(item.startTime)}</ThemedText>
                 </View>
               </View>
+
+              {renderAdherence(item)}
             </View>
 
             <View style={[styles.timestampPill, { backgroundColor: colors.tintSoft }]}
@@ -384,6 +514,47 @@ const createStyles = (colors: ThemeColors) =>
       fontSize: 15,
       fontWeight: '600',
     },
+    doseEmpty: {
+      textAlign: 'left',
+    },
+    doseRow: {
+      borderTopWidth: 1,
+      paddingTop: 12,
+      gap: 10,
+    },
+    doseHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    doseTime: {
+      fontSize: 15,
+      fontWeight: '700',
+      minWidth: 56,
+    },
+    doseMeta: {
+      fontSize: 13,
+      fontWeight: '500',
+    },
+    doseState: {
+      fontSize: 13,
+      fontWeight: '700',
+    },
+    doseActions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    doseAction: {
+      flex: 1,
+      borderWidth: 1,
+      borderRadius: 14,
+      paddingVertical: 8,
+      alignItems: 'center',
+    },
+    doseActionText: {
+      fontSize: 14,
+      fontWeight: '600',
+    },
     timestampPill: {
       alignSelf: 'flex-start',
       paddingHorizontal: 16,
@@ -74,7 +74,11 @@ export default function NutritionAllergiesScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteCanineAllergy(item.id);
+          const result = await deleteCanineAllergy(item.id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
         },
       },
     ]);
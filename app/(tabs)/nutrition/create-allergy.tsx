@@ -101,10 +101,18 @@ export default function CreateAllergyScreen() {
     try {
       setIsSaving(true);
       if (existingAllergy && recordId) {
-        await updateCanineAllergy(recordId, payload);
+        const result = await updateCanineAllergy(recordId, payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Updated', 'Entry updated successfully.');
       } else {
-        await addCanineAllergy(payload);
+        const result = await addCanineAllergy(payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Saved', 'Entry added successfully.');
       }
       router.back();
@@ -21,6 +21,7 @@ import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useApp } from '@/context/AppContext';
 import type { NutritionEntry } from '@/types';
+import { describeAllergyConflict, findAllergyConflicts } from '@/utils/allergyConflicts';
 
 const buildDateWindow = (count: number) => {
   const start = new Date();
@@ -49,7 +50,8 @@ export default function CreateNutritionPlanScreen() {
   const styles = useMemo(() => createStyles(colors), [colors]);
   const insets = useSafeAreaInsets();
 
-  const { canines, getNutritionEntriesByCanine, addNutritionEntry, updateNutritionEntry } = useApp();
+  const { canines, getNutritionEntriesByCanine, getCanineAllergiesByCanine, addNutritionEntry, updateNutritionEntry } =
+    useApp();
 
   const today = new Date().toISOString().split('T')[0];
   const resolvedCanineId = useMemo(() => {
@@ -83,6 +85,11 @@ export default function CreateNutritionPlanScreen() {
 
   const [isSaving, setIsSaving] = useState(false);
 
+  const allergyConflicts = useMemo(() => {
+    if (!resolvedCanineId) return [];
+    return findAllergyConflicts({ foodName, foodType, addOns }, getCanineAllergiesByCanine(resolvedCanineId));
+  }, [resolvedCanineId, foodName, foodType, addOns, getCanineAllergiesByCanine]);
+
   useEffect(() => {
     if (existingEntry) {
       setSelectedDate(existingEntry.date);
@@ -159,6 +166,33 @@ export default function CreateNutritionPlanScreen() {
     }
   };
 
+  const savePlan = async (payload: Omit<NutritionEntry, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      setIsSaving(true);
+      if (existingEntry && recordId) {
+        const result = await updateNutritionEntry(recordId, payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
+        Alert.alert('Updated', 'Meal plan updated successfully.');
+      } else {
+        const result = await addNutritionEntry(payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
+        Alert.alert('Saved', 'Meal plan created successfully.');
+      }
+      router.back();
+    } catch (error) {
+      console.error('Error saving nutrition plan:', error);
+      Alert.alert('Error', 'Unable to save the meal plan. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleSave = async () => {
     if (isSaving) return;
     if (!resolvedCanineId) {
@@ -198,22 +232,27 @@ export default function CreateNutritionPlanScreen() {
       notes: notes.trim() ? notes.trim() : undefined,
     };
 
-    try {
-      setIsSaving(true);
-      if (existingEntry && recordId) {
-        await updateNutritionEntry(recordId, payload);
-        Alert.alert('Updated', 'Meal plan updated successfully.');
-      } else {
-        await addNutritionEntry(payload);
-        Alert.alert('Saved', 'Meal plan created successfully.');
-      }
-      router.back();
-    } catch (error) {
-      console.error('Error saving nutrition plan:', error);
-      Alert.alert('Error', 'Unable to save the meal plan. Please try again.');
-    } finally {
-      setIsSaving(false);
+    // Known allergens can't be planned; near matches such as typos only need confirming
+    const certainConflicts = allergyConflicts.filter((conflict) => conflict.certain);
+    if (certainConflicts.length > 0) {
+      Alert.alert(
+        'Allergy Conflict',
+        `${certainConflicts.map(describeAllergyConflict).join('\n')}\n\nChange the meal, or update the allergy list if it's wrong.`
+      );
+      return;
+    }
+    if (allergyConflicts.length > 0) {
+      Alert.alert(
+        'Possible Allergy Conflict',
+        `${allergyConflicts.map(describeAllergyConflict).join('\n')}\n\nSave this meal anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save Anyway', style: 'destructive', onPress: () => void savePlan(payload) },
+        ]
+      );
+      return;
     }
+    await savePlan(payload);
   };
 
   return (
@@ -329,6 +368,20 @@ export default function CreateNutritionPlanScreen() {
             <ThemedText style={[styles.helperText, { color: colors.secondaryText }]}>{addOns.length}/100</ThemedText>
           </View>
 
+          {allergyConflicts.length > 0 && (
+            <View style={[styles.conflictCard, { borderColor: colors.danger, backgroundColor: colors.surface }]}>
+              <View style={styles.conflictHeader}>
+                <IconSymbol name="exclamationmark.triangle.fill" size={16} color={colors.danger} />
+                <ThemedText style={[styles.conflictTitle, { color: colors.danger }]}>Allergy Conflict</ThemedText>
+              </View>
+              {allergyConflicts.map((conflict) => (
+                <ThemedText key={conflict.allergy.id} style={[styles.conflictText, { color: colors.text }]}>
+                  {describeAllergyConflict(conflict)}
+                </ThemedText>
+              ))}
+            </View>
+          )}
+
           <View style={styles.formGroup}>
             <ThemedText style={[styles.label, { color: colors.text }]}>Repeat plan for days?</ThemedText>
             <TouchableOpacity
@@ -460,6 +513,24 @@ const createStyles = (colors: ThemeColors) =>
       fontSize: 12,
       textAlign: 'right',
     },
+    conflictCard: {
+      borderWidth: 1,
+      borderRadius: 12,
+      padding: 12,
+      gap: 6,
+    },
+    conflictHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    conflictTitle: {
+      fontSize: 14,
+      fontWeight: '700',
+    },
+    conflictText: {
+      fontSize: 13,
+    },
     row: {
       flexDirection: 'row',
       gap: 16,
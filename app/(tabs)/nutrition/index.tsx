@@ -21,6 +21,7 @@ import { Colors, type ThemeColors } from '@/constants/theme';
 import { NUTRITION_DAY_COUNT } from '@/constants/nutrition';
 import { useApp } from '@/context/AppContext';
 import type { NutritionEntry, CanineAllergy } from '@/types';
+import { describeAllergyConflict, getAllergyConflictsByEntry } from '@/utils/allergyConflicts';
 
 const formatDisplayDate = (value: string) => {
   const date = new Date(value);
@@ -87,6 +88,8 @@ export default function NutritionDashboard() {
     return getCanineAllergiesByCanine(activeCanineId);
   }, [activeCanineId, getCanineAllergiesByCanine]);
 
+  const allergyConflicts = useMemo(() => getAllergyConflictsByEntry(meals, allergies), [meals, allergies]);
+
   const handleAddMeal = () => {
     if (!activeCanineId) {
       Alert.alert('Select Pet', 'Please choose or create a canine profile first.');
@@ -117,7 +120,11 @@ export default function NutritionDashboard() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteNutritionEntry(entry.id);
+          const result = await deleteNutritionEntry(entry.id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
         },
       },
     ]);
@@ -253,6 +260,14 @@ export default function NutritionDashboard() {
                   </ThemedText>
                 </View>
               ) : null}
+              {allergyConflicts.get(item.id)?.map((conflict) => (
+                <View key={conflict.allergy.id} style={styles.mealDetailsRow}>
+                  <IconSymbol name="exclamationmark.triangle.fill" size={16} color={colors.danger} />
+                  <ThemedText style={[styles.mealDetailText, { color: colors.danger }]}>
+                    {describeAllergyConflict(conflict)}
+                  </ThemedText>
+                </View>
+              ))}
 
               <View style={[styles.mealFooterBadge, { backgroundColor: `${colors.tint}22` }]}
                 accessibilityRole="text">
@@ -18,8 +18,11 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import { ThemedView } from '@/components/themed-view';
 import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CalorieSummary } from '@/components/calorie-summary';
 import { useApp } from '@/context/AppContext';
 import type { NutritionEntry } from '@/types';
+import { describeAllergyConflict, getAllergyConflictsByEntry } from '@/utils/allergyConflicts';
+import { getCalorieRequirement, getDailyCalories, getSustainedFeedingWarning } from '@/utils/calories';
 
 function formatDisplayDate(value: string) {
   const date = new Date(value);
@@ -54,7 +57,7 @@ export default function NutritionScheduleScreen() {
   const styles = useMemo(() => createStyles(colors), [colors]);
   const insets = useSafeAreaInsets();
 
-  const { canines, getNutritionEntriesByCanine, deleteNutritionEntry } = useApp();
+  const { canines, getNutritionEntriesByCanine, getCanineAllergiesByCanine, deleteNutritionEntry } = useApp();
 
   const dateWindow = useMemo(() => buildDateWindow(NUTRITION_DAY_COUNT), []);
 
@@ -85,6 +88,28 @@ export default function NutritionScheduleScreen() {
     );
   }, [activeCanineId, getNutritionEntriesByCanine, selectedDate, search]);
 
+  const allergyConflicts = useMemo(
+    () => getAllergyConflictsByEntry(entries, activeCanineId ? getCanineAllergiesByCanine(activeCanineId) : []),
+    [activeCanineId, entries, getCanineAllergiesByCanine]
+  );
+
+  const activeCanine = useMemo(
+    () => canines.find((canine) => canine.id === activeCanineId) ?? null,
+    [canines, activeCanineId]
+  );
+
+  const calorieRequirement = useMemo(
+    () => (activeCanine ? getCalorieRequirement(activeCanine) : null),
+    [activeCanine]
+  );
+
+  const dailyCalories = useMemo(() => {
+    if (!activeCanineId || !calorieRequirement) return [];
+    return getDailyCalories(getNutritionEntriesByCanine(activeCanineId), dateWindow, calorieRequirement.maintenanceKcal);
+  }, [activeCanineId, calorieRequirement, getNutritionEntriesByCanine, dateWindow]);
+
+  const feedingWarning = useMemo(() => getSustainedFeedingWarning(dailyCalories), [dailyCalories]);
+
   useEffect(() => {
     if (initialDate && dateWindow.includes(initialDate)) {
       setSelectedDate(initialDate);
@@ -111,7 +136,11 @@ export default function NutritionScheduleScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteNutritionEntry(entry.id);
+          const result = await deleteNutritionEntry(entry.id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
         },
       },
     ]);
@@ -182,6 +211,16 @@ export default function NutritionScheduleScreen() {
               }}
             />
 
+            {activeCanine && (
+              <View style={styles.calorieSummary}>
+                <CalorieSummary
+                  requirement={calorieRequirement}
+                  day={dailyCalories.find((day) => day.date === selectedDate)}
+                  warning={feedingWarning}
+                />
+              </View>
+            )}
+
             <View style={[styles.searchBar, { backgroundColor: colors.surface, borderColor: colors.border, shadowColor: colors.shadow }]}>
               <IconSymbol name="magnifyingglass" size={18} color={colors.icon} />
               <TextInput
@@ -231,6 +270,12 @@ export default function NutritionScheduleScreen() {
                 </ThemedText>
               </View>
             ) : null}
+            {allergyConflicts.get(item.id)?.map((conflict) => (
+              <View key={conflict.allergy.id} style={styles.cardRow}>
+                <IconSymbol name="exclamationmark.triangle.fill" size={16} color={colors.danger} />
+                <ThemedText style={[styles.cardRowText, { color: colors.danger }]}>{describeAllergyConflict(conflict)}</ThemedText>
+              </View>
+            ))}
             <View style={[styles.cardBadge, { backgroundColor: `${colors.tint}22` }]}
               accessibilityRole="text">
               <ThemedText style={[styles.cardBadgeText, { color: colors.tint }]}>{formatDisplayDate(item.createdAt)}</ThemedText>
@@ -304,6 +349,9 @@ const createStyles = (colors: ThemeColors) =>
       fontSize: 14,
       fontWeight: '700',
     },
+    calorieSummary: {
+      marginBottom: 16,
+    },
     searchBar: {
       flexDirection: 'row',
       alignItems: 'center',
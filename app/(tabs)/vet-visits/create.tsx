@@ -20,7 +20,14 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { Colors, type ThemeColors } from '@/constants/theme';
 import { useApp } from '@/context/AppContext';
-import type { VetVisit, VetProfile } from '@/types';
+import type { MedicalRecord, MedicationEntry, VetVisit, VetProfile } from '@/types';
+import {
+  DEFAULT_FOLLOW_UP_TIME,
+  FOLLOW_UP_CATEGORY,
+  getFollowUpEndTime,
+  getFollowUpTitle,
+  getVetVisitLinks,
+} from '@/utils/vetVisitLinks';
 
 interface VetFormState {
   name: string;
@@ -40,6 +47,10 @@ type PickerState = {
   mode: 'date';
 };
 
+type LinkUpdate = (id: string, updates: { vetVisitId?: string }) => Promise<{ ok: boolean }>;
+
+const toggleId = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id]);
+
 export default function VetVisitFormScreen() {
   const { canineId: canineIdParam, visitId } = useLocalSearchParams<{ canineId?: string; visitId?: string }>();
   const colorScheme = useColorScheme();
@@ -53,6 +64,15 @@ export default function VetVisitFormScreen() {
     updateVetVisit,
     vets,
     addVet,
+    canines,
+    medications,
+    medicalRecords,
+    appointments,
+    updateMedicationEntry,
+    updateMedicalRecord,
+    addAppointment,
+    updateAppointment,
+    deleteAppointment,
   } = useApp();
 
   const existingVisit = useMemo<VetVisit | undefined>(
@@ -70,6 +90,35 @@ export default function VetVisitFormScreen() {
   const [visitDate, setVisitDate] = useState(existingVisit?.visitDate ?? '');
   const [notes, setNotes] = useState(existingVisit?.notes ?? '');
 
+  // Vets record visits for shared patients but can't change the owner's medications or calendar
+  const canLinkItems = canines.some((canine) => canine.id === resolvedCanineId);
+  const [initialLinks] = useState(() =>
+    visitId ? getVetVisitLinks(visitId, { medications, medicalRecords, appointments }) : null
+  );
+  const existingFollowUp = initialLinks?.followUps[0];
+  // Items already linked to another visit aren't offered
+  const linkableMedications = useMemo(
+    () =>
+      medications
+        .filter((item) => item.canineId === resolvedCanineId && (!item.vetVisitId || item.vetVisitId === visitId))
+        .sort((a, b) => b.startDate.localeCompare(a.startDate)),
+    [medications, resolvedCanineId, visitId]
+  );
+  const linkableRecords = useMemo(
+    () =>
+      medicalRecords
+        .filter((item) => item.canineId === resolvedCanineId && (!item.vetVisitId || item.vetVisitId === visitId))
+        .sort((a, b) => (b.reportDate ?? b.createdAt).localeCompare(a.reportDate ?? a.createdAt)),
+    [medicalRecords, resolvedCanineId, visitId]
+  );
+  const [medicationIds, setMedicationIds] = useState<string[]>(
+    () => initialLinks?.medications.map((item) => item.id) ?? []
+  );
+  const [recordIds, setRecordIds] = useState<string[]>(() => initialLinks?.medicalRecords.map((item) => item.id) ?? []);
+  const [scheduleFollowUp, setScheduleFollowUp] = useState(Boolean(existingFollowUp));
+  const [followUpDate, setFollowUpDate] = useState(existingFollowUp?.date ?? '');
+  const [followUpTime, setFollowUpTime] = useState(existingFollowUp?.startTime ?? DEFAULT_FOLLOW_UP_TIME);
+
   const [isSaving, setIsSaving] = useState(false);
   const [pickerVisible, setPickerVisible] = useState(false);
   const [iosPickerValue, setIosPickerValue] = useState<Date | null>(null);
@@ -124,7 +173,7 @@ export default function VetVisitFormScreen() {
       Alert.alert('Validation', 'Please enter the veterinarian name.');
       return;
     }
-    const created = await addVet({
+    const result = await addVet({
       name: newVetData.name.trim(),
       clinicName: newVetData.clinicName.trim(),
       phone: newVetData.phone.trim(),
@@ -137,7 +186,11 @@ export default function VetVisitFormScreen() {
       specialization: '',
       notes: '',
     });
-    handleSelectVet(created);
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+      return;
+    }
+    handleSelectVet(result.data);
   };
 
   const openDatePicker = () => {
@@ -205,9 +258,81 @@ export default function VetVisitFormScreen() {
       Alert.alert('Validation', 'Select a visit date.');
       return false;
     }
+    if (canLinkItems && scheduleFollowUp) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(followUpDate.trim())) {
+        Alert.alert('Validation', 'Enter the follow-up date as YYYY-MM-DD.');
+        return false;
+      }
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(followUpTime.trim())) {
+        Alert.alert('Validation', 'Enter the follow-up time as HH:MM.');
+        return false;
+      }
+      if (followUpDate.trim() < visitDate) {
+        Alert.alert('Validation', 'The follow-up must be on or after the visit date.');
+        return false;
+      }
+    }
     return true;
   };
 
+  /**
+   * Link the chosen medications and records to the visit, unlink the ones deselected, and
+   * schedule, move or cancel its follow-up
+   * @returns How many of the changes failed
+   */
+  const saveLinks = async (savedVisitId: string) => {
+    let failures = 0;
+    const relink = async (items: (MedicationEntry | MedicalRecord)[], selectedIds: string[], update: LinkUpdate) => {
+      for (const item of items) {
+        const shouldLink = selectedIds.includes(item.id);
+        if ((item.vetVisitId === savedVisitId) === shouldLink) continue;
+        const result = await update(item.id, { vetVisitId: shouldLink ? savedVisitId : undefined });
+        if (!result.ok) failures += 1;
+      }
+    };
+    await relink(linkableMedications, medicationIds, updateMedicationEntry);
+    await relink(linkableRecords, recordIds, updateMedicalRecord);
+
+    const startTime = followUpTime.trim();
+    if (scheduleFollowUp && existingFollowUp) {
+      const result = await updateAppointment(existingFollowUp.id, {
+        vetId: selectedVetId ?? undefined,
+        date: followUpDate.trim(),
+        startTime,
+        endTime: getFollowUpEndTime(startTime),
+      });
+      if (!result.ok) failures += 1;
+    } else if (scheduleFollowUp) {
+      const result = await addAppointment({
+        canineId: resolvedCanineId!,
+        vetId: selectedVetId ?? undefined,
+        vetVisitId: savedVisitId,
+        category: FOLLOW_UP_CATEGORY,
+        title: getFollowUpTitle(reason),
+        date: followUpDate.trim(),
+        startTime,
+        endTime: getFollowUpEndTime(startTime),
+        status: 'Scheduled',
+      });
+      if (!result.ok) failures += 1;
+    } else if (existingFollowUp) {
+      const result = await deleteAppointment(existingFollowUp.id);
+      if (!result.ok) failures += 1;
+    }
+    return failures;
+  };
+
+  const alertSaved = (title: string, message: string, linkFailures: number) => {
+    if (linkFailures > 0) {
+      Alert.alert(
+        'Some Links Not Saved',
+        `The visit was saved, but ${linkFailures} of its linked medications, records or follow-up couldn't be updated. Edit the visit to try again.`
+      );
+      return;
+    }
+    Alert.alert(title, message);
+  };
+
   const handleSave = async () => {
     if (isSaving) return;
     if (!validateForm()) return;
@@ -225,11 +350,21 @@ export default function VetVisitFormScreen() {
       } satisfies Omit<VetVisit, 'id' | 'createdAt' | 'updatedAt'>;
 
       if (isEditing && visitId) {
-        await updateVetVisit(visitId, payload);
-        Alert.alert('Updated', 'Vet visit updated successfully.');
+        const result = await updateVetVisit(visitId, payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
+        const linkFailures = canLinkItems ? await saveLinks(visitId) : 0;
+        alertSaved('Updated', 'Vet visit updated successfully.', linkFailures);
       } else {
-        await addVetVisit(payload);
-        Alert.alert('Saved', 'Vet visit added successfully.');
+        const result = await addVetVisit(payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
+        const linkFailures = canLinkItems ? await saveLinks(result.data.id) : 0;
+        alertSaved('Saved', 'Vet visit added successfully.', linkFailures);
       }
       router.back();
     } catch (error) {
@@ -345,6 +480,99 @@ export default function VetVisitFormScreen() {
             />
             <ThemedText style={[styles.helperText, { color: colors.secondaryText }]}>{notes.length}/160</ThemedText>
           </View>
+
+          {canLinkItems ? (
+            <>
+              <View style={styles.formGroup}>
+                <ThemedText style={[styles.label, { color: colors.text }]}>Medications Started</ThemedText>
+                {linkableMedications.length === 0 ? (
+                  <ThemedText style={[styles.linkEmptyText, { color: colors.secondaryText }]}>
+                    Add the medications prescribed at this visit in Medications, then link them here.
+                  </ThemedText>
+                ) : (
+                  linkableMedications.map((medication) => (
+                    <LinkOption
+                      key={medication.id}
+                      icon="pills"
+                      title={medication.medicationName}
+                      subtitle={`${medication.quantity} ${medication.dosageUnit} · ${medication.frequency} · from ${medication.startDate}`}
+                      selected={medicationIds.includes(medication.id)}
+                      onPress={() => setMedicationIds((prev) => toggleId(prev, medication.id))}
+                      colors={colors}
+                      styles={styles}
+                    />
+                  ))
+                )}
+              </View>
+
+              <View style={styles.formGroup}>
+                <ThemedText style={[styles.label, { color: colors.text }]}>Records From This Visit</ThemedText>
+                {linkableRecords.length === 0 ? (
+                  <ThemedText style={[styles.linkEmptyText, { color: colors.secondaryText }]}>
+                    Add the reports from this visit in Medical Records, then link them here.
+                  </ThemedText>
+                ) : (
+                  linkableRecords.map((record) => (
+                    <LinkOption
+                      key={record.id}
+                      icon="doc.text.fill"
+                      title={record.reportType}
+                      subtitle={[record.clinicName, record.reportDate].filter(Boolean).join(' · ')}
+                      selected={recordIds.includes(record.id)}
+                      onPress={() => setRecordIds((prev) => toggleId(prev, record.id))}
+                      colors={colors}
+                      styles={styles}
+                    />
+                  ))
+                )}
+              </View>
+
+              <View style={styles.formGroup}>
+                <ThemedText style={[styles.label, { color: colors.text }]}>Follow-up Appointment</ThemedText>
+                <LinkOption
+                  icon="calendar"
+                  title={existingFollowUp ? 'Keep the follow-up' : 'Schedule a follow-up'}
+                  subtitle={
+                    existingFollowUp && !scheduleFollowUp
+                      ? 'The follow-up will be removed from the calendar'
+                      : 'Added to the calendar as a vet appointment'
+                  }
+                  selected={scheduleFollowUp}
+                  onPress={() => setScheduleFollowUp((prev) => !prev)}
+                  colors={colors}
+                  styles={styles}
+                />
+                {scheduleFollowUp ? (
+                  <View style={styles.followUpRow}>
+                    <TextInput
+                      style={[
+                        styles.inputField,
+                        styles.followUpDate,
+                        { borderColor: colors.border, backgroundColor: colors.surface, color: colors.text },
+                      ]}
+                      placeholder="YYYY-MM-DD"
+                      placeholderTextColor={`${colors.icon}99`}
+                      value={followUpDate}
+                      onChangeText={setFollowUpDate}
+                      maxLength={10}
+                    />
+                    <TextInput
+                      style={[
+                        styles.inputField,
+                        styles.followUpTime,
+                        { borderColor: colors.border, backgroundColor: colors.surface, color: colors.text },
+                      ]}
+                      placeholder="HH:MM"
+                      placeholderTextColor={`${colors.icon}99`}
+                      value={followUpTime}
+                      onChangeText={setFollowUpTime}
+                      maxLength={5}
+                    />
+                  </View>
+                ) : null}
+              </View>
+            </>
+          ) : null}
         </ScrollView>
 
         <View style={styles.footerRow}>
@@ -485,6 +713,48 @@ export default function VetVisitFormScreen() {
   );
 }
 
+function LinkOption({
+  icon,
+  title,
+  subtitle,
+  selected,
+  onPress,
+  colors,
+  styles,
+}: {
+  icon: 'pills' | 'doc.text.fill' | 'calendar';
+  title: string;
+  subtitle?: string;
+  selected: boolean;
+  onPress: () => void;
+  colors: ThemeColors;
+  styles: ReturnType<typeof createStyles>;
+}) {
+  return (
+    <TouchableOpacity
+      style={[
+        styles.linkOption,
+        { borderColor: selected ? colors.tint : colors.border, backgroundColor: selected ? colors.tintSoft : colors.surface },
+      ]}
+      onPress={onPress}
+      accessibilityRole="checkbox"
+      accessibilityState={{ checked: selected }}>
+      <IconSymbol name={icon} size={18} color={selected ? colors.tint : colors.icon} />
+      <View style={styles.linkOptionText}>
+        <ThemedText style={[styles.linkOptionTitle, { color: colors.text }]} numberOfLines={1}>
+          {title}
+        </ThemedText>
+        {subtitle ? (
+          <ThemedText style={[styles.linkOptionSubtitle, { color: colors.secondaryText }]} numberOfLines={1}>
+            {subtitle}
+          </ThemedText>
+        ) : null}
+      </View>
+      <IconSymbol name={selected ? 'checkmark.circle.fill' : 'circle'} size={22} color={selected ? colors.tint : colors.icon} />
+    </TouchableOpacity>
+  );
+}
+
 const createStyles = (colors: ThemeColors) =>
   StyleSheet.create({
     screen: {
@@ -574,6 +844,40 @@ const createStyles = (colors: ThemeColors) =>
       fontSize: 16,
       fontWeight: '600',
     },
+    linkEmptyText: {
+      fontSize: 13,
+      lineHeight: 18,
+    },
+    linkOption: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      borderWidth: 1,
+      borderRadius: 12,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+    },
+    linkOptionText: {
+      flex: 1,
+      gap: 2,
+    },
+    linkOptionTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+    },
+    linkOptionSubtitle: {
+      fontSize: 12,
+    },
+    followUpRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    followUpDate: {
+      flex: 2,
+    },
+    followUpTime: {
+      flex: 1,
+    },
     footerRow: {
       flexDirection: 'row',
       alignItems: 'center',
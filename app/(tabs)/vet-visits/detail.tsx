@@ -0,0 +1,352 @@
+import { useMemo } from 'react';
+import { Alert, Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+
+import { LabResultList } from '@/components/lab-result-list';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { Colors, type ThemeColors } from '@/constants/theme';
+import { useApp } from '@/context/AppContext';
+import { getVetVisitDeleteMessage, getVetVisitLinks } from '@/utils/vetVisitLinks';
+
+const formatDisplayDate = (value?: string) => {
+  if (!value) return '—';
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+export default function VetVisitDetailScreen() {
+  const { canineId, visitId } = useLocalSearchParams<{ canineId?: string; visitId?: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const { vetVisits, medications, medicalRecords, appointments, labResults, canines, sharedCanines, deleteVetVisit } =
+    useApp();
+  const visit = vetVisits.find((item) => item.id === visitId);
+  const resolvedCanineId = canineId || visit?.canineId;
+  const canine = [...canines, ...sharedCanines].find((item) => item.id === resolvedCanineId);
+  // Vets looking at a shared patient can read its medications and calendar but not open them for editing
+  const isOwnPet = canines.some((item) => item.id === resolvedCanineId);
+
+  const links = useMemo(
+    () => (visitId ? getVetVisitLinks(visitId, { medications, medicalRecords, appointments }) : null),
+    [visitId, medications, medicalRecords, appointments]
+  );
+
+  if (!visit || !links) {
+    return (
+      <ThemedView style={[styles.container, styles.missing]}>
+        <ThemedText style={styles.emptyTitle}>This visit is no longer available.</ThemedText>
+        <TouchableOpacity onPress={() => router.back()}>
+          <ThemedText style={[styles.missingAction, { color: colors.tint }]}>Go back</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  }
+
+  const handleEdit = () => {
+    router.push(`/(tabs)/vet-visits/create?canineId=${visit.canineId}&visitId=${visit.id}`);
+  };
+
+  const confirmDelete = () => {
+    const remove = async (deleteFollowUps: boolean) => {
+      const result = await deleteVetVisit(visit.id, { deleteFollowUps });
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
+      router.back();
+    };
+    Alert.alert(
+      'Delete Visit',
+      getVetVisitDeleteMessage(visit, links),
+      links.followUps.length > 0
+        ? [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Keep Follow-up', onPress: () => remove(false) },
+            { text: 'Delete Follow-up', style: 'destructive', onPress: () => remove(true) },
+          ]
+        : [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => remove(false) },
+          ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+          <ThemedText style={styles.backLabel}>Back</ThemedText>
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Vet Visit
+        </ThemedText>
+        <TouchableOpacity onPress={handleEdit} style={styles.headerAction} accessibilityLabel="Edit visit">
+          <IconSymbol name="pencil" size={20} color={colors.tint} />
+        </TouchableOpacity>
+      </ThemedView>
+
+      <View style={styles.content}>
+        {canine && <ThemedText style={styles.subtitle}>{canine.name}</ThemedText>}
+
+        <View style={styles.card}>
+          <ThemedText style={styles.cardTitle}>{visit.vetName}</ThemedText>
+          <View style={styles.fieldRow}>
+            <ThemedText style={styles.fieldLabel}>Date</ThemedText>
+            <ThemedText style={styles.fieldValue}>{formatDisplayDate(visit.visitDate)}</ThemedText>
+          </View>
+          <View style={styles.fieldRow}>
+            <ThemedText style={styles.fieldLabel}>Reason</ThemedText>
+            <ThemedText style={styles.fieldValue}>{visit.reason}</ThemedText>
+          </View>
+          <View style={styles.fieldRow}>
+            <ThemedText style={styles.fieldLabel}>End Results</ThemedText>
+            <ThemedText style={styles.fieldValue}>{visit.endResults}</ThemedText>
+          </View>
+          {visit.notes ? (
+            <View style={styles.fieldRow}>
+              <ThemedText style={styles.fieldLabel}>Notes</ThemedText>
+              <ThemedText style={styles.fieldValue}>{visit.notes}</ThemedText>
+            </View>
+          ) : null}
+        </View>
+
+        <View style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Medications Started</ThemedText>
+          {links.medications.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No medications linked to this visit.</ThemedText>
+          ) : (
+            links.medications.map((medication, index) => (
+              <TouchableOpacity
+                key={medication.id}
+                style={[styles.linkRow, index > 0 && styles.linkDivider]}
+                disabled={!isOwnPet}
+                onPress={() =>
+                  router.push(`/(tabs)/medications/create?canineId=${medication.canineId}&entryId=${medication.id}`)
+                }>
+                <IconSymbol name="pills" size={18} color={colors.tint} />
+                <View style={styles.linkText}>
+                  <ThemedText style={styles.linkTitle}>{medication.medicationName}</ThemedText>
+                  <ThemedText style={styles.linkSubtitle}>
+                    {`${medication.quantity} ${medication.dosageUnit} · ${medication.frequency} · from ${formatDisplayDate(medication.startDate)}`}
+                  </ThemedText>
+                </View>
+                {isOwnPet && <IconSymbol name="chevron.right" size={14} color={colors.icon} />}
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Records From This Visit</ThemedText>
+          {links.medicalRecords.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No medical records linked to this visit.</ThemedText>
+          ) : (
+            links.medicalRecords.map((record, index) => {
+              const results = labResults.filter((result) => result.medicalRecordId === record.id);
+              return (
+                <View key={record.id} style={[styles.recordBlock, index > 0 && styles.linkDivider]}>
+                  <TouchableOpacity
+                    style={styles.linkRow}
+                    onPress={() =>
+                      router.push(`/(tabs)/medical-records/create?canineId=${record.canineId}&recordId=${record.id}`)
+                    }>
+                    <IconSymbol name="doc.text.fill" size={18} color={colors.tint} />
+                    <View style={styles.linkText}>
+                      <ThemedText style={styles.linkTitle}>{record.reportType}</ThemedText>
+                      <ThemedText style={styles.linkSubtitle}>
+                        {[record.clinicName, record.reportDate && formatDisplayDate(record.reportDate)]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </ThemedText>
+                    </View>
+                    <IconSymbol name="chevron.right" size={14} color={colors.icon} />
+                  </TouchableOpacity>
+                  {results.length > 0 && (
+                    <LabResultList
+                      results={results}
+                      onPressAnalyte={(analyte) =>
+                        router.push({ pathname: '/(tabs)/medical-records/lab-history', params: { canineId: record.canineId, analyte } })
+                      }
+                    />
+                  )}
+                </View>
+              );
+            })
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Follow-up Appointments</ThemedText>
+          {links.followUps.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No follow-up scheduled.</ThemedText>
+          ) : (
+            links.followUps.map((appointment, index) => (
+              <TouchableOpacity
+                key={appointment.id}
+                style={[styles.linkRow, index > 0 && styles.linkDivider]}
+                disabled={!isOwnPet}
+                onPress={() =>
+                  router.push(`/(tabs)/appointments/create?canineId=${appointment.canineId}&recordId=${appointment.id}`)
+                }>
+                <IconSymbol name="calendar" size={18} color={colors.tint} />
+                <View style={styles.linkText}>
+                  <ThemedText style={styles.linkTitle}>{appointment.title}</ThemedText>
+                  <ThemedText style={styles.linkSubtitle}>
+                    {`${formatDisplayDate(appointment.date)} at ${appointment.startTime} · ${appointment.status}`}
+                  </ThemedText>
+                </View>
+                {isOwnPet && <IconSymbol name="chevron.right" size={14} color={colors.icon} />}
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.deleteButton} onPress={confirmDelete} accessibilityRole="button">
+          <IconSymbol name="trash" size={18} color={colors.danger} />
+          <ThemedText style={[styles.deleteText, { color: colors.danger }]}>Delete Visit</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    missing: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 12,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 20,
+      paddingTop: Platform.OS === 'ios' ? 60 : 24,
+      paddingBottom: 12,
+      justifyContent: 'space-between',
+    },
+    backButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    backLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    headerAction: {
+      width: 44,
+      alignItems: 'flex-end',
+    },
+    content: {
+      paddingHorizontal: 20,
+      gap: 16,
+    },
+    subtitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.secondaryText,
+    },
+    card: {
+      borderRadius: 18,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      padding: 16,
+      gap: 12,
+    },
+    cardTitle: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    fieldRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'flex-start',
+      gap: 12,
+    },
+    fieldLabel: {
+      fontSize: 13,
+      fontWeight: '700',
+      color: colors.secondaryText,
+    },
+    fieldValue: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: '600',
+      textAlign: 'right',
+      color: colors.text,
+    },
+    emptyText: {
+      fontSize: 13,
+      color: colors.secondaryText,
+    },
+    recordBlock: {
+      gap: 10,
+    },
+    linkRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    linkDivider: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: 12,
+    },
+    linkText: {
+      flex: 1,
+      gap: 2,
+    },
+    linkTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    linkSubtitle: {
+      fontSize: 12,
+      color: colors.secondaryText,
+    },
+    deleteButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.danger,
+      paddingVertical: 14,
+    },
+    deleteText: {
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    emptyTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    missingAction: {
+      fontSize: 15,
+      fontWeight: '600',
+    },
+  });
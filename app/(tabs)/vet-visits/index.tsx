@@ -19,6 +19,12 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import { Colors, type ThemeColors } from '@/constants/theme';
 import { useApp } from '@/context/AppContext';
 import type { VetVisit } from '@/types';
+import {
+  countVetVisitLinks,
+  describeVetVisitLinks,
+  getVetVisitDeleteMessage,
+  getVetVisitLinks,
+} from '@/utils/vetVisitLinks';
 
 const formatDisplayDate = (value?: string) => {
   if (!value) return '—';
@@ -40,7 +46,7 @@ export default function VetVisitsScreen() {
   const colors = Colors[colorScheme ?? 'light'];
   const styles = useMemo(() => createStyles(colors), [colors]);
   const insets = useSafeAreaInsets();
-  const { getVetVisitsByCanine, deleteVetVisit } = useApp();
+  const { getVetVisitsByCanine, deleteVetVisit, medications, medicalRecords, appointments } = useApp();
 
   const [search, setSearch] = useState('');
 
@@ -63,22 +69,40 @@ export default function VetVisitsScreen() {
     router.push(`/(tabs)/vet-visits/create?canineId=${canineId}`);
   };
 
+  const getLinks = (visit: VetVisit) => getVetVisitLinks(visit.id, { medications, medicalRecords, appointments });
+
+  const handleOpen = (visit: VetVisit) => {
+    if (!canineId) return;
+    router.push(`/(tabs)/vet-visits/detail?canineId=${canineId}&visitId=${visit.id}`);
+  };
+
   const handleEdit = (visit: VetVisit) => {
     if (!canineId) return;
     router.push(`/(tabs)/vet-visits/create?canineId=${canineId}&visitId=${visit.id}`);
   };
 
   const confirmDelete = (visit: VetVisit) => {
-    Alert.alert('Delete Visit', `Remove visit with ${visit.vetName}?`, [
-      { text: 'Cancel', style: 'cancel' },
-      {
-        text: 'Delete',
-        style: 'destructive',
-        onPress: async () => {
-          await deleteVetVisit(visit.id);
-        },
-      },
-    ]);
+    const links = getLinks(visit);
+    const remove = async (deleteFollowUps: boolean) => {
+      const result = await deleteVetVisit(visit.id, { deleteFollowUps });
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+      }
+    };
+    Alert.alert(
+      'Delete Visit',
+      getVetVisitDeleteMessage(visit, links),
+      links.followUps.length > 0
+        ? [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Keep Follow-up', onPress: () => remove(false) },
+            { text: 'Delete Follow-up', style: 'destructive', onPress: () => remove(true) },
+          ]
+        : [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => remove(false) },
+          ]
+    );
   };
 
   const openMenu = (visit: VetVisit) => {
@@ -148,36 +172,47 @@ export default function VetVisitsScreen() {
             <ThemedText style={[styles.emptySubtitle, { color: colors.secondaryText }]}>Tap the plus button to add one.</ThemedText>
           </ThemedView>
         )}
-        renderItem={({ item }) => (
-          <ThemedView
-            key={item.id}
-            style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border, shadowColor: colors.shadow }]}>
-            <View style={styles.cardHeader}>
-              <ThemedText style={[styles.cardTitle, { color: colors.text }]}>{item.vetName}</ThemedText>
-              <TouchableOpacity style={styles.cardMenuButton} onPress={() => openMenu(item)} accessibilityRole="button">
-                <IconSymbol name="ellipsis" size={18} color={colors.icon} />
-              </TouchableOpacity>
-            </View>
-            <View style={styles.cardBody}>
-              <View style={styles.fieldRow}>
-                <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>Date</ThemedText>
-                <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{formatDisplayDate(item.visitDate)}</ThemedText>
+        renderItem={({ item }) => {
+          const links = getLinks(item);
+          return (
+            <TouchableOpacity
+              key={item.id}
+              style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border, shadowColor: colors.shadow }]}
+              onPress={() => handleOpen(item)}
+              accessibilityRole="button">
+              <View style={styles.cardHeader}>
+                <ThemedText style={[styles.cardTitle, { color: colors.text }]}>{item.vetName}</ThemedText>
+                <TouchableOpacity style={styles.cardMenuButton} onPress={() => openMenu(item)} accessibilityRole="button">
+                  <IconSymbol name="ellipsis" size={18} color={colors.icon} />
+                </TouchableOpacity>
               </View>
-              <View style={styles.fieldRow}>
-                <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>Reason</ThemedText>
-                <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{item.reason}</ThemedText>
+              <View style={styles.cardBody}>
+                <View style={styles.fieldRow}>
+                  <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>Date</ThemedText>
+                  <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{formatDisplayDate(item.visitDate)}</ThemedText>
+                </View>
+                <View style={styles.fieldRow}>
+                  <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>Reason</ThemedText>
+                  <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{item.reason}</ThemedText>
+                </View>
+                <View style={styles.fieldRow}>
+                  <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>End Results</ThemedText>
+                  <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{item.endResults}</ThemedText>
+                </View>
+                {countVetVisitLinks(links) > 0 ? (
+                  <View style={styles.fieldRow}>
+                    <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>Linked</ThemedText>
+                    <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{describeVetVisitLinks(links)}</ThemedText>
+                  </View>
+                ) : null}
               </View>
-              <View style={styles.fieldRow}>
-                <ThemedText style={[styles.fieldLabel, { color: colors.secondaryText }]}>End Results</ThemedText>
-                <ThemedText style={[styles.fieldValue, { color: colors.text }]}>{item.endResults}</ThemedText>
+              <View style={[styles.timestampPill, { backgroundColor: `${colors.tint}1A` }]}
+                accessibilityRole="text">
+                <ThemedText style={[styles.timestampText, { color: colors.tint }]}>{formatTimestamp(item.updatedAt)}</ThemedText>
               </View>
-            </View>
-            <View style={[styles.timestampPill, { backgroundColor: `${colors.tint}1A` }]}
-              accessibilityRole="text">
-              <ThemedText style={[styles.timestampText, { color: colors.tint }]}>{formatTimestamp(item.updatedAt)}</ThemedText>
-            </View>
-          </ThemedView>
-        )}
+            </TouchableOpacity>
+          );
+        }}
       />
 
       <TouchableOpacity
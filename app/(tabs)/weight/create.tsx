@@ -0,0 +1,479 @@
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import DateTimePicker, { DateTimePickerEvent, DateTimePickerAndroid } from '@react-native-community/datetimepicker';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { Colors, type ThemeColors } from '@/constants/theme';
+import { useApp } from '@/context/AppContext';
+import type { WeightMeasurement, WeightUnit } from '@/types';
+import {
+  BODY_CONDITION_SCORES,
+  describeBodyCondition,
+  getPreferredWeightUnit,
+  toMeasurementDate,
+} from '@/utils/weight';
+
+const WEIGHT_UNITS: WeightUnit[] = ['kg', 'lbs'];
+
+const getDateForPicker = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  const parsed = new Date(year, month - 1, day);
+  return Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+};
+
+export default function WeightFormScreen() {
+  const { canineId: canineIdParam, recordId } = useLocalSearchParams<{ canineId?: string; recordId?: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const insets = useSafeAreaInsets();
+
+  const { userProfile, weightMeasurements, addWeightMeasurement, updateWeightMeasurement } = useApp();
+
+  const existingMeasurement = useMemo<WeightMeasurement | undefined>(
+    () => (recordId ? weightMeasurements.find((measurement) => measurement.id === recordId) : undefined),
+    [weightMeasurements, recordId]
+  );
+
+  const resolvedCanineId = canineIdParam || existingMeasurement?.canineId;
+  const isEditing = Boolean(existingMeasurement);
+
+  const [date, setDate] = useState(existingMeasurement?.date ?? toMeasurementDate());
+  const [value, setValue] = useState(existingMeasurement?.value.toString() ?? '');
+  const [unit, setUnit] = useState<WeightUnit>(existingMeasurement?.unit ?? getPreferredWeightUnit(userProfile));
+  const [bodyConditionScore, setBodyConditionScore] = useState<number | undefined>(
+    existingMeasurement?.bodyConditionScore
+  );
+  const [notes, setNotes] = useState(existingMeasurement?.notes ?? '');
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [showNativePicker, setShowNativePicker] = useState(false);
+  const [iosPickerValue, setIosPickerValue] = useState<Date | null>(null);
+
+  const openPicker = () => {
+    if (Platform.OS === 'web') {
+      const nextValue = window.prompt('Enter the date weighed (YYYY-MM-DD)', date);
+      if (nextValue) setDate(nextValue);
+      return;
+    }
+    if (Platform.OS === 'android') {
+      DateTimePickerAndroid.open({
+        mode: 'date',
+        display: 'calendar',
+        value: getDateForPicker(date),
+        maximumDate: new Date(),
+        onChange: (event, picked) => {
+          if (event.type !== 'set' || !picked) return;
+          setDate(toMeasurementDate(picked));
+        },
+      });
+      return;
+    }
+    setIosPickerValue(getDateForPicker(date));
+    setShowNativePicker(true);
+  };
+
+  const dismissPicker = () => {
+    setIosPickerValue(null);
+    setShowNativePicker(false);
+  };
+
+  const handlePickerChange = (event: DateTimePickerEvent, picked?: Date) => {
+    if (event.type === 'dismissed') {
+      dismissPicker();
+      return;
+    }
+    if (!picked) return;
+    setIosPickerValue(picked);
+  };
+
+  const confirmPicker = () => {
+    if (iosPickerValue) {
+      setDate(toMeasurementDate(iosPickerValue));
+    }
+    dismissPicker();
+  };
+
+  const validateForm = () => {
+    if (!resolvedCanineId) {
+      Alert.alert('Error', 'Missing canine information. Please go back and try again.');
+      return false;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      Alert.alert('Validation', 'Enter the date as YYYY-MM-DD.');
+      return false;
+    }
+    if (date > toMeasurementDate()) {
+      Alert.alert('Validation', 'The date weighed is in the future.');
+      return false;
+    }
+    const weight = Number(value);
+    if (!value.trim() || Number.isNaN(weight) || weight <= 0) {
+      Alert.alert('Validation', 'Enter a weight greater than zero.');
+      return false;
+    }
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    if (!validateForm()) return;
+
+    try {
+      setIsSaving(true);
+      const payload = {
+        canineId: resolvedCanineId!,
+        date,
+        value: Number(value),
+        unit,
+        bodyConditionScore,
+        notes: notes.trim() || undefined,
+      } satisfies Omit<WeightMeasurement, 'id' | 'createdAt' | 'updatedAt'>;
+
+      const result =
+        isEditing && recordId ? await updateWeightMeasurement(recordId, payload) : await addWeightMeasurement(payload);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
+      router.back();
+    } catch (error) {
+      console.error('Error saving weight:', error);
+      Alert.alert('Error', 'Unable to save the weight. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ThemedView
+      style={[styles.screen, { paddingTop: insets.top + 12, paddingBottom: Math.max(insets.bottom, 20) }]}
+      darkColor={colors.background}
+      lightColor={colors.background}>
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 32 : 0}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.headerRow}>
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton} accessibilityRole="button">
+              <IconSymbol name="chevron.left" size={24} color={colors.text} />
+              <ThemedText style={[styles.backLabel, { color: colors.text }]}>Back</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={[styles.title, { color: colors.text }]}>
+              {isEditing ? 'Edit Weight' : 'Log Weight'}
+            </ThemedText>
+            <View style={{ width: 44 }} />
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={[styles.label, { color: colors.text }]}>Date Weighed *</ThemedText>
+            <TouchableOpacity
+              style={[styles.selectField, { borderColor: colors.border, backgroundColor: colors.surface }]}
+              onPress={openPicker}>
+              <IconSymbol name="calendar" size={18} color={colors.icon} />
+              <ThemedText style={[styles.selectFieldText, { color: colors.text }]}>{date}</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={[styles.label, { color: colors.text }]}>Weight *</ThemedText>
+            <View style={styles.weightRow}>
+              <TextInput
+                style={[styles.inputField, { flex: 1, borderColor: colors.border, backgroundColor: colors.surface, color: colors.text }]}
+                placeholder="0.0"
+                placeholderTextColor={`${colors.icon}99`}
+                value={value}
+                onChangeText={setValue}
+                keyboardType="decimal-pad"
+              />
+              {WEIGHT_UNITS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.unitButton,
+                    { borderColor: colors.border, backgroundColor: colors.surface },
+                    unit === option && { borderColor: colors.tint, backgroundColor: colors.tint },
+                  ]}
+                  onPress={() => setUnit(option)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: unit === option }}>
+                  <ThemedText style={[styles.unitButtonText, { color: unit === option ? '#FFFFFF' : colors.text }]}>
+                    {option}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={[styles.label, { color: colors.text }]}>Body Condition Score</ThemedText>
+            <View style={styles.scoreRow}>
+              {BODY_CONDITION_SCORES.map((score) => {
+                const isSelected = bodyConditionScore === score;
+                return (
+                  <TouchableOpacity
+                    key={score}
+                    style={[
+                      styles.scoreButton,
+                      { borderColor: colors.border, backgroundColor: colors.surface },
+                      isSelected && { borderColor: colors.tint, backgroundColor: colors.tint },
+                    ]}
+                    onPress={() => setBodyConditionScore(isSelected ? undefined : score)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isSelected }}>
+                    <ThemedText style={[styles.unitButtonText, { color: isSelected ? '#FFFFFF' : colors.text }]}>
+                      {score}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <ThemedText style={[styles.scoreHint, { color: colors.secondaryText }]}>
+              {bodyConditionScore
+                ? describeBodyCondition(bodyConditionScore)
+                : 'Optional. 1 is emaciated, 4–5 ideal, 9 obese.'}
+            </ThemedText>
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={[styles.label, { color: colors.text }]}>Notes</ThemedText>
+            <TextInput
+              style={[styles.textArea, { borderColor: colors.border, backgroundColor: colors.surface, color: colors.text }]}
+              placeholder="Additional notes"
+              placeholderTextColor={`${colors.icon}99`}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              maxLength={180}
+            />
+            <ThemedText style={[styles.helperText, { color: colors.secondaryText }]}>{notes.length}/180</ThemedText>
+          </View>
+        </ScrollView>
+
+        <View style={styles.footerRow}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={[styles.secondaryButton, { borderColor: colors.border }]}
+            disabled={isSaving}
+            accessibilityRole="button">
+            <ThemedText style={[styles.secondaryButtonText, { color: colors.text }]}>Cancel</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleSave}
+            style={[styles.primaryButton, { backgroundColor: colors.tint }]}
+            disabled={isSaving}
+            accessibilityRole="button">
+            <ThemedText style={styles.primaryButtonText}>Save</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+
+      {Platform.OS === 'ios' && showNativePicker ? (
+        <Modal transparent animationType="fade" visible onRequestClose={dismissPicker}>
+          <View style={styles.pickerOverlay}>
+            <View style={[styles.pickerCard, { backgroundColor: colors.surface }]} pointerEvents="box-none">
+              <View style={styles.pickerHeader}>
+                <TouchableOpacity onPress={dismissPicker}>
+                  <ThemedText style={[styles.pickerCancelText, { color: colors.tint }]}>Cancel</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={confirmPicker}>
+                  <ThemedText style={[styles.pickerDoneText, { color: colors.tint }]}>Done</ThemedText>
+                </TouchableOpacity>
+              </View>
+              <DateTimePicker
+                value={iosPickerValue ?? getDateForPicker(date)}
+                mode="date"
+                display="inline"
+                maximumDate={new Date()}
+                onChange={handlePickerChange}
+                style={styles.nativePicker}
+              />
+            </View>
+          </View>
+        </Modal>
+      ) : null}
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    screen: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      paddingHorizontal: 20,
+      paddingBottom: 32,
+      gap: 20,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    backButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    backLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    title: {
+      fontSize: 22,
+      fontWeight: '700',
+    },
+    formGroup: {
+      gap: 6,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '700',
+    },
+    helperText: {
+      fontSize: 12,
+      textAlign: 'right',
+    },
+    inputField: {
+      borderWidth: 1,
+      borderRadius: 12,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    weightRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    unitButton: {
+      borderWidth: 1,
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+    },
+    unitButtonText: {
+      fontSize: 15,
+      fontWeight: '700',
+    },
+    scoreRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    scoreButton: {
+      width: 40,
+      height: 40,
+      borderWidth: 1,
+      borderRadius: 20,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    scoreHint: {
+      fontSize: 12,
+    },
+    textArea: {
+      borderWidth: 1,
+      borderRadius: 16,
+      paddingHorizontal: 14,
+      paddingVertical: 14,
+      fontSize: 16,
+      fontWeight: '600',
+      minHeight: 100,
+      textAlignVertical: 'top',
+    },
+    selectField: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      borderWidth: 1,
+      borderRadius: 12,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+    },
+    selectFieldText: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    footerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 20,
+      paddingBottom: 12,
+      gap: 16,
+    },
+    secondaryButton: {
+      flex: 1,
+      borderRadius: 999,
+      borderWidth: 1,
+      paddingVertical: 16,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    primaryButton: {
+      flex: 1,
+      borderRadius: 999,
+      paddingVertical: 16,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: '#FFFFFF',
+    },
+    pickerOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.35)',
+      justifyContent: 'flex-end',
+    },
+    pickerCard: {
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      paddingTop: 12,
+      paddingHorizontal: 20,
+      paddingBottom: Platform.OS === 'ios' ? 32 : 12,
+    },
+    pickerHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    pickerCancelText: {
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    pickerDoneText: {
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    nativePicker: {
+      backgroundColor: 'transparent',
+    },
+  });
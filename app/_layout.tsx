@@ -64,9 +64,18 @@ export default function RootLayout() {
             <Stack.Screen name="index" options={{ headerShown: false }} />
             <Stack.Screen name="login" options={{ headerShown: false }} />
             <Stack.Screen name="signup" options={{ headerShown: false }} />
+            <Stack.Screen name="forgot-password" options={{ headerShown: false }} />
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
             <Stack.Screen name="admin" options={{ headerShown: false }} />
+            <Stack.Screen name="vet" options={{ headerShown: false }} />
+            <Stack.Screen name="walker" options={{ headerShown: false }} />
             <Stack.Screen name="user-profile" options={{ presentation: 'modal', headerShown: false }} />
+            <Stack.Screen name="vet-access" options={{ presentation: 'modal', headerShown: false }} />
+            <Stack.Screen name="walkers" options={{ presentation: 'modal', headerShown: false }} />
+            <Stack.Screen name="household" options={{ presentation: 'modal', headerShown: false }} />
+            <Stack.Screen name="pet-share" options={{ presentation: 'modal', headerShown: false }} />
+            <Stack.Screen name="shared-pet" options={{ headerShown: false }} />
+            <Stack.Screen name="two-factor" options={{ presentation: 'modal', headerShown: false }} />
             <Stack.Screen
               name="canine-profile"
               options={{ presentation: 'fullScreenModal', headerShown: false, gestureEnabled: false }}
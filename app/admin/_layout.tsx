@@ -1,15 +1,24 @@
-import { Stack } from 'expo-router';
+import { Redirect, Stack } from 'expo-router';
+import { useApp } from '@/context/AppContext';
 
 /**
  * Admin Module Layout
  * Handles routing for all admin screens
+ * Sends admins to two-factor setup first when admins are required to use it
  */
 export default function AdminLayout() {
+  const { twoFactorSetupRequired } = useApp();
+
+  if (twoFactorSetupRequired) {
+    return <Redirect href="/two-factor" />;
+  }
+
   return (
     <Stack>
       <Stack.Screen name="index" options={{ headerShown: false }} />
       <Stack.Screen name="analytics" options={{ title: 'Analytics & Dashboard' }} />
       <Stack.Screen name="users" options={{ title: 'Users Management' }} />
+      <Stack.Screen name="activation-codes" options={{ title: 'Activation Codes' }} />
       <Stack.Screen name="canines" options={{ title: 'Canine Profiles' }} />
       <Stack.Screen name="vets" options={{ title: 'Vet Profiles' }} />
       <Stack.Screen name="contacts" options={{ title: 'Contacts' }} />
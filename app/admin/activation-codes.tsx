@@ -0,0 +1,605 @@
+import { useState } from 'react';
+import {
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  View,
+  Alert,
+  FlatList,
+  Platform,
+} from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useApp } from '@/context/AppContext';
+import { ActivationCode, SubscriptionTier, UserRole } from '@/types';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { generateActivationCode } from '@/services/activationCodes';
+import { checkActivationCode } from '@/utils/giftCodes';
+
+const TIERS: SubscriptionTier[] = ['Free', 'Premium', 'Enterprise'];
+const ROLES: UserRole[] = ['Pet Owner', 'Vet', 'Dog Walker', 'Admin'];
+
+interface CodeFormData {
+  code: string;
+  tier: SubscriptionTier;
+  allowedRoles: UserRole[];
+  description: string;
+  expiresOn: string; // YYYY-MM-DD
+  maxRedemptions: string;
+}
+
+const EMPTY_FORM: CodeFormData = {
+  code: '',
+  tier: 'Free',
+  allowedRoles: ['Pet Owner'],
+  description: '',
+  expiresOn: '',
+  maxRedemptions: '',
+};
+
+/**
+ * Admin screen for creating, disabling and auditing signup activation codes
+ */
+export default function AdminActivationCodesScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { activationCodes, addActivationCode, updateActivationCode, allUsers } = useApp();
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [formData, setFormData] = useState<CodeFormData>(EMPTY_FORM);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setIsAdding(false);
+  };
+
+  const toggleRole = (role: UserRole) => {
+    setFormData((prev) => ({
+      ...prev,
+      allowedRoles: prev.allowedRoles.includes(role)
+        ? prev.allowedRoles.filter((r) => r !== role)
+        : [...prev.allowedRoles, role],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.code.trim()) {
+      Alert.alert('Error', 'Please enter a code or generate one');
+      return;
+    }
+
+    if (formData.allowedRoles.length === 0) {
+      Alert.alert('Error', 'Please select at least one role that can use this code');
+      return;
+    }
+
+    let expiresAt: string | undefined;
+    if (formData.expiresOn.trim()) {
+      const expiry = new Date(`${formData.expiresOn.trim()}T23:59:59`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(formData.expiresOn.trim()) || isNaN(expiry.getTime())) {
+        Alert.alert('Error', 'Please enter the expiry date as YYYY-MM-DD');
+        return;
+      }
+      if (expiry.getTime() <= Date.now()) {
+        Alert.alert('Error', 'The expiry date must be in the future');
+        return;
+      }
+      expiresAt = expiry.toISOString();
+    }
+
+    let maxRedemptions: number | undefined;
+    if (formData.maxRedemptions.trim()) {
+      maxRedemptions = Number(formData.maxRedemptions.trim());
+      if (!Number.isInteger(maxRedemptions) || maxRedemptions < 1) {
+        Alert.alert('Error', 'Maximum redemptions must be a whole number of at least 1');
+        return;
+      }
+    }
+
+    const result = await addActivationCode({
+      code: formData.code,
+      tier: formData.tier,
+      allowedRoles: formData.allowedRoles,
+      description: formData.description.trim() || undefined,
+      expiresAt,
+      maxRedemptions,
+      redemptionCount: 0,
+      isActive: true,
+    });
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+      return;
+    }
+    Alert.alert('Success', `Activation code "${result.data.code}" created`);
+    resetForm();
+  };
+
+  const handleToggleActive = (code: ActivationCode) => {
+    const action = code.isActive ? 'Disable' : 'Enable';
+    Alert.alert(
+      `${action} Code`,
+      code.isActive
+        ? `New users will no longer be able to sign up with "${code.code}". Existing accounts are not affected.`
+        : `New users will be able to sign up with "${code.code}" again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: action,
+          style: code.isActive ? 'destructive' : 'default',
+          onPress: async () => {
+            const result = await updateActivationCode(code.id, { isActive: !code.isActive });
+            if (!result.ok) {
+              Alert.alert('Error', result.error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getStatus = (code: ActivationCode): { label: string; color: string } => {
+    if (!code.isActive) {
+      return { label: 'Disabled', color: colors.icon };
+    }
+    if (!checkActivationCode(code).valid) {
+      const expired = !!code.expiresAt && new Date(code.expiresAt).getTime() <= Date.now();
+      return { label: expired ? 'Expired' : 'Used up', color: colors.warning };
+    }
+    return { label: 'Active', color: colors.success };
+  };
+
+  const InputField = ({
+    label,
+    value,
+    onChangeText,
+    placeholder,
+    keyboardType = 'default',
+  }: {
+    label: string;
+    value: string;
+    onChangeText: (text: string) => void;
+    placeholder?: string;
+    keyboardType?: 'default' | 'number-pad';
+  }) => (
+    <ThemedView style={styles.inputContainer}>
+      <ThemedText style={styles.label}>{label}</ThemedText>
+      <TextInput
+        style={[styles.input, { borderColor: colors.icon, color: colors.text }]}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={colors.icon}
+        keyboardType={keyboardType}
+        autoCapitalize="none"
+      />
+    </ThemedView>
+  );
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+          Activation Codes
+        </ThemedText>
+        <TouchableOpacity
+          onPress={() => {
+            resetForm();
+            setIsAdding(true);
+          }}
+          style={[styles.addButton, { backgroundColor: colors.primary }]}>
+          <IconSymbol name="plus" size={20} color="#fff" />
+          <ThemedText style={styles.addButtonText}>Add</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+
+      {isAdding && (
+        <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+          <ThemedText type="subtitle" style={styles.formTitle}>
+            New Activation Code
+          </ThemedText>
+
+          <View style={styles.codeRow}>
+            <View style={styles.codeInput}>
+              <InputField
+                label="Code *"
+                value={formData.code}
+                onChangeText={(text) => setFormData({ ...formData, code: text })}
+                placeholder="e.g. spring2026"
+              />
+            </View>
+            <TouchableOpacity
+              onPress={() => setFormData({ ...formData, code: generateActivationCode() })}
+              style={[styles.generateButton, { borderColor: colors.primary }]}>
+              <ThemedText style={[styles.generateButtonText, { color: colors.primary }]}>Generate</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>Tier *</ThemedText>
+            <View style={styles.optionButtons}>
+              {TIERS.map((tier) => (
+                <TouchableOpacity
+                  key={tier}
+                  style={[
+                    styles.optionButton,
+                    { borderColor: colors.icon },
+                    formData.tier === tier && { backgroundColor: colors.primary },
+                  ]}
+                  onPress={() => setFormData({ ...formData, tier })}>
+                  <ThemedText style={[styles.optionButtonText, formData.tier === tier && { color: '#fff' }]}>
+                    {tier}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ThemedView>
+
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>Allowed Roles *</ThemedText>
+            <View style={styles.optionButtons}>
+              {ROLES.map((role) => {
+                const selected = formData.allowedRoles.includes(role);
+                return (
+                  <TouchableOpacity
+                    key={role}
+                    style={[
+                      styles.optionButton,
+                      { borderColor: colors.icon },
+                      selected && { backgroundColor: colors.primary },
+                    ]}
+                    onPress={() => toggleRole(role)}>
+                    <ThemedText style={[styles.optionButtonText, selected && { color: '#fff' }]}>{role}</ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ThemedView>
+
+          <InputField
+            label="Description"
+            value={formData.description}
+            onChangeText={(text) => setFormData({ ...formData, description: text })}
+            placeholder="e.g. Spring promotion"
+          />
+
+          <View style={styles.row}>
+            <View style={styles.halfWidth}>
+              <InputField
+                label="Expires On"
+                value={formData.expiresOn}
+                onChangeText={(text) => setFormData({ ...formData, expiresOn: text })}
+                placeholder="YYYY-MM-DD (optional)"
+              />
+            </View>
+            <View style={styles.halfWidth}>
+              <InputField
+                label="Max Redemptions"
+                value={formData.maxRedemptions}
+                onChangeText={(text) => setFormData({ ...formData, maxRedemptions: text })}
+                placeholder="Unlimited"
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+
+          <View style={styles.formActions}>
+            <TouchableOpacity
+              onPress={resetForm}
+              style={[styles.cancelButton, { borderColor: colors.icon }]}>
+              <ThemedText style={styles.cancelButtonText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleSave}
+              style={[styles.saveButton, { backgroundColor: colors.primary }]}>
+              <ThemedText style={styles.saveButtonText}>Save</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      )}
+
+      <ThemedView style={styles.content}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          All Activation Codes ({activationCodes.length})
+        </ThemedText>
+
+        {activationCodes.length === 0 ? (
+          <ThemedView style={styles.emptyState}>
+            <IconSymbol name="ticket.fill" size={48} color={colors.icon} />
+            <ThemedText style={styles.emptyText}>No activation codes yet</ThemedText>
+            <ThemedText style={styles.emptySubtext}>
+              Nobody can sign up until you tap &quot;Add&quot; and create a code
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          <FlatList
+            data={activationCodes}
+            keyExtractor={(item) => item.id}
+            scrollEnabled={false}
+            renderItem={({ item }) => {
+              const status = getStatus(item);
+              const redeemedBy = allUsers.filter((user) => user.activationCodeId === item.id);
+              const isExpanded = expandedId === item.id;
+              return (
+                <View style={[styles.codeCard, { borderColor: colors.icon }]}>
+                  <View style={styles.codeHeader}>
+                    <TouchableOpacity
+                      style={styles.codeHeaderLeft}
+                      onPress={() => setExpandedId(isExpanded ? null : item.id)}
+                      accessibilityLabel="Show redemptions">
+                      <View style={styles.codeTitleRow}>
+                        <ThemedText type="defaultSemiBold" style={styles.codeText} numberOfLines={1}>
+                          {item.code}
+                        </ThemedText>
+                        <View style={[styles.statusBadge, { borderColor: status.color }]}>
+                          <ThemedText style={[styles.statusText, { color: status.color }]}>{status.label}</ThemedText>
+                        </View>
+                      </View>
+                      <ThemedText style={styles.codeSummary} numberOfLines={1}>
+                        {item.tier} • {item.allowedRoles.join(', ')}
+                      </ThemedText>
+                      <ThemedText style={styles.codeSummary} numberOfLines={1}>
+                        {item.redemptionCount}
+                        {item.maxRedemptions != null ? ` / ${item.maxRedemptions}` : ''} redeemed
+                        {item.expiresAt ? ` • Expires ${new Date(item.expiresAt).toLocaleDateString()}` : ' • No expiry'}
+                      </ThemedText>
+                      {!!item.description && (
+                        <ThemedText style={styles.codeSummary} numberOfLines={2}>
+                          {item.description}
+                        </ThemedText>
+                      )}
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleToggleActive(item)}
+                      style={styles.iconButton}
+                      accessibilityLabel={item.isActive ? 'Disable code' : 'Enable code'}>
+                      <IconSymbol
+                        name={item.isActive ? 'pause.circle.fill' : 'play.circle.fill'}
+                        size={22}
+                        color={item.isActive ? colors.warning : colors.success}
+                      />
+                    </TouchableOpacity>
+                  </View>
+
+                  {isExpanded && (
+                    <View style={[styles.redemptions, { borderTopColor: colors.icon }]}>
+                      <ThemedText style={styles.redemptionsTitle}>Redeemed by</ThemedText>
+                      {redeemedBy.length === 0 ? (
+                        <ThemedText style={styles.codeSummary}>No accounts have used this code yet</ThemedText>
+                      ) : (
+                        redeemedBy.map((user) => (
+                          <ThemedText key={user.id} style={styles.codeSummary} numberOfLines={1}>
+                            {user.firstName} {user.lastName} • {user.email} •{' '}
+                            {new Date(user.createdAt).toLocaleDateString()}
+                          </ThemedText>
+                        ))
+                      )}
+                    </View>
+                  )}
+                </View>
+              );
+            }}
+          />
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  formContainer: {
+    margin: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderRadius: 12,
+    backgroundColor: '#F9F9F9',
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  content: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  codeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 12,
+  },
+  codeInput: {
+    flex: 1,
+  },
+  generateButton: {
+    marginBottom: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 13,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  generateButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  optionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  halfWidth: {
+    flex: 1,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  codeCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  codeHeaderLeft: {
+    flex: 1,
+    gap: 4,
+  },
+  codeTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  codeText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  statusBadge: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  codeSummary: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  redemptions: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    gap: 4,
+  },
+  redemptionsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
@@ -64,17 +64,25 @@ export default function AppointmentsScreen() {
     setEditingId(null);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!formData.canineId || !formData.title || !formData.date) {
       Alert.alert('Error', 'Please fill in pet, title, and date');
       return;
     }
 
     if (editingId) {
-      updateAppointment(editingId, formData);
+      const result = await updateAppointment(editingId, formData);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Appointment updated successfully');
     } else {
-      addAppointment(formData as Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>);
+      const result = await addAppointment(formData as Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Appointment added successfully');
     }
     resetForm();
@@ -95,16 +103,24 @@ export default function AppointmentsScreen() {
       {
         text: 'Delete',
         style: 'destructive',
-        onPress: () => {
-          deleteAppointment(id);
+        onPress: async () => {
+          const result = await deleteAppointment(id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
           Alert.alert('Success', 'Appointment deleted successfully');
         },
       },
     ]);
   };
 
-  const handleStatusChange = (id: string, status: AppointmentStatus) => {
-    updateAppointment(id, { status });
+  const handleStatusChange = async (id: string, status: AppointmentStatus) => {
+    const result = await updateAppointment(id, { status });
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+      return;
+    }
     Alert.alert('Success', `Appointment marked as ${status}`);
   };
 
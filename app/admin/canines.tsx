@@ -63,10 +63,18 @@ export default function AdminCaninesScreen() {
 
     try {
       if (editingId) {
-        await updateCanine(editingId, formData);
+        const result = await updateCanine(editingId, formData);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Success', 'Canine profile updated successfully');
       } else {
-        await addCanine(formData as Omit<CanineProfile, 'id' | 'createdAt' | 'updatedAt'>);
+        const result = await addCanine(formData as Omit<CanineProfile, 'id' | 'createdAt' | 'updatedAt'>);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Success', 'Canine profile created successfully');
       }
       resetForm();
@@ -89,7 +97,11 @@ export default function AdminCaninesScreen() {
         style: 'destructive',
         onPress: async () => {
           try {
-            await deleteCanine(id);
+            const result = await deleteCanine(id);
+            if (!result.ok) {
+              Alert.alert('Error', result.error.message);
+              return;
+            }
             Alert.alert('Success', 'Canine profile deleted successfully');
           } catch (error: any) {
             Alert.alert('Error', error.message || 'Failed to delete canine profile');
@@ -50,17 +50,25 @@ export default function AdminContactsScreen() {
     setEditingId(null);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!formData.name || !formData.phone) {
       Alert.alert('Error', 'Please fill in name and phone number');
       return;
     }
 
     if (editingId) {
-      updateContact(editingId, formData);
+      const result = await updateContact(editingId, formData);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Contact updated successfully');
     } else {
-      addContact(formData as Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>);
+      const result = await addContact(formData as Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Contact added successfully');
     }
     resetForm();
@@ -78,8 +86,12 @@ export default function AdminContactsScreen() {
       {
         text: 'Delete',
         style: 'destructive',
-        onPress: () => {
-          deleteContact(id);
+        onPress: async () => {
+          const result = await deleteContact(id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
           Alert.alert('Success', 'Contact deleted successfully');
         },
       },
@@ -1,4 +1,4 @@
-import { StyleSheet, ScrollView, TouchableOpacity, View, Platform, Alert } from 'react-native';
+import { StyleSheet, ScrollView, TouchableOpacity, View, Platform, Alert, Switch } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { Colors } from '@/constants/theme';
@@ -14,7 +14,25 @@ import { useApp } from '@/context/AppContext';
 export default function AdminDashboard() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
-  const { userProfile, logout, allUsers, vets, contacts, mediaItems } = useApp();
+  const {
+    userProfile,
+    logout,
+    allUsers,
+    activationCodes,
+    vets,
+    contacts,
+    mediaItems,
+    appSettings,
+    updateAppSettings,
+    twoFactorStatus,
+  } = useApp();
+
+  const handleRequireTwoFactor = async (value: boolean) => {
+    const result = await updateAppSettings({ requireAdminTwoFactor: value });
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+    }
+  };
 
   const confirmAndLogout = async () => {
     try {
@@ -55,6 +73,7 @@ export default function AdminDashboard() {
   const menuItems = [
     { title: 'Dashboard & Analytics', route: '/admin/analytics', icon: 'chart.bar.fill', count: null },
     { title: 'Users', route: '/admin/users', icon: 'person.2.fill', count: allUsers.length },
+    { title: 'Activation Codes', route: '/admin/activation-codes', icon: 'ticket.fill', count: activationCodes.length },
     { title: 'Vet Profiles', route: '/admin/vets', icon: 'cross.case.fill', count: vets.length },
     { title: 'Contacts', route: '/admin/contacts', icon: 'person.3.fill', count: contacts.length },
     { title: 'Media Items', route: '/admin/media', icon: 'photo.fill', count: mediaItems.length },
@@ -122,6 +141,40 @@ export default function AdminDashboard() {
           ))}
         </View>
       </ThemedView>
+
+      <ThemedView style={styles.content}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          Security
+        </ThemedText>
+        <View style={[styles.menuList, styles.settingsList]}>
+          <View style={styles.settingRow}>
+            <View style={styles.settingText}>
+              <ThemedText style={styles.settingTitle}>Require two-factor for admins</ThemedText>
+              <ThemedText style={styles.settingHint}>
+                Admin accounts must set up an authenticator app before they can use the admin module.
+              </ThemedText>
+            </View>
+            <Switch value={!!appSettings?.requireAdminTwoFactor} onValueChange={handleRequireTwoFactor} />
+          </View>
+          <TouchableOpacity
+            style={[styles.menuLink, { borderBottomColor: colors.icon }]}
+            onPress={() => router.push('/two-factor')}
+            activeOpacity={0.7}>
+            <View style={styles.menuLinkContent}>
+              <View style={styles.menuLinkLeft}>
+                <IconSymbol name="key.fill" size={18} color={colors.primary} />
+                <ThemedText style={[styles.menuLinkText, { color: colors.primary }]}>
+                  My Two-Factor Authentication
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.menuLinkCount, { color: colors.icon }]}>
+                {twoFactorStatus.enabled ? 'On' : 'Off'}
+              </ThemedText>
+              <IconSymbol name="chevron.right" size={16} color={colors.icon} />
+            </View>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
     </ScrollView>
   );
 }
@@ -237,6 +290,29 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginRight: 8,
   },
+  settingsList: {
+    marginBottom: 24,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  settingText: {
+    flex: 1,
+    gap: 4,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  settingHint: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
 });
 
 
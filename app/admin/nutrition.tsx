@@ -205,7 +205,11 @@ export default function AdminNutritionScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteNutritionEntry(entry.id);
+          const result = await deleteNutritionEntry(entry.id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
         },
       },
     ]);
@@ -253,10 +257,18 @@ export default function AdminNutritionScreen() {
     try {
       setIsSaving(true);
       if (editingEntry) {
-        await updateNutritionEntry(editingEntry.id, payload);
+        const result = await updateNutritionEntry(editingEntry.id, payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Updated', 'Nutrition plan updated successfully.');
       } else {
-        await addNutritionEntry(payload);
+        const result = await addNutritionEntry(payload);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Saved', 'Nutrition plan created successfully.');
       }
       setShowForm(false);
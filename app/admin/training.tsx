@@ -264,17 +264,25 @@ export default function TrainingScreen() {
     setEditingId(null);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!formData.canineId || !formData.skill) {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
 
     if (editingId) {
-      updateTrainingLog(editingId, formData);
+      const result = await updateTrainingLog(editingId, formData);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Training log updated successfully');
     } else {
-      addTrainingLog(formData as Omit<TrainingLog, 'id' | 'createdAt' | 'updatedAt'>);
+      const result = await addTrainingLog(formData as Omit<TrainingLog, 'id' | 'createdAt' | 'updatedAt'>);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Training log added successfully');
     }
     resetForm();
@@ -299,8 +307,12 @@ export default function TrainingScreen() {
       {
         text: 'Delete',
         style: 'destructive',
-        onPress: () => {
-          deleteTrainingLog(id);
+        onPress: async () => {
+          const result = await deleteTrainingLog(id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
           Alert.alert('Success', 'Log deleted successfully');
         },
       },
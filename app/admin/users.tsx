@@ -14,14 +14,16 @@ import { ThemedView } from '@/components/themed-view';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useApp } from '@/context/AppContext';
-import { UserProfile, UserRole } from '@/types';
+import { SubscriptionTier, UserProfile, UserRole } from '@/types';
 import { router } from 'expo-router';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { isAccountLocked } from '@/services/loginThrottle';
 
 export default function AdminUsersScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
-  const { allUsers, addUser, updateUser, deleteUser, userProfile } = useApp();
+  const { allUsers, addUser, updateUser, deleteUser, revokeUserSessions, unlockUser, resetUserTwoFactor, userProfile } =
+    useApp();
 
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -32,9 +34,12 @@ export default function AdminUsersScreen() {
     phone: '',
     country: 'US',
     role: 'Pet Owner',
+    subscriptionTier: 'Free',
   });
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [showLockedOnly, setShowLockedOnly] = useState(false);
+  const lockedUsers = allUsers.filter(isAccountLocked);
 
   const resetForm = () => {
     setFormData({
@@ -44,6 +49,7 @@ export default function AdminUsersScreen() {
       phone: '',
       country: 'US',
       role: 'Pet Owner',
+      subscriptionTier: 'Free',
     });
     setPassword('');
     setConfirmPassword('');
@@ -64,7 +70,11 @@ export default function AdminUsersScreen() {
           Alert.alert('Error', 'Passwords do not match');
           return;
         }
-        await updateUser(editingId, formData);
+        const result = await updateUser(editingId, formData);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         if (password) {
           // Note: Password update would require additional backend support
           Alert.alert('Success', 'User updated successfully. Note: Password update requires separate functionality.');
@@ -81,7 +91,11 @@ export default function AdminUsersScreen() {
           Alert.alert('Error', 'Passwords do not match');
           return;
         }
-        await addUser(formData as Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'>, password);
+        const result = await addUser(formData as Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'>, password);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Success', 'User created successfully');
       }
       resetForm();
@@ -110,7 +124,11 @@ export default function AdminUsersScreen() {
         style: 'destructive',
         onPress: async () => {
           try {
-            await deleteUser(id);
+            const result = await deleteUser(id);
+            if (!result.ok) {
+              Alert.alert('Error', result.error.message);
+              return;
+            }
             Alert.alert('Success', 'User deleted successfully');
           } catch (error: any) {
             Alert.alert('Error', error.message || 'Failed to delete user');
@@ -120,6 +138,78 @@ export default function AdminUsersScreen() {
     ]);
   };
 
+  const handleUnlock = (user: UserProfile) => {
+    Alert.alert('Unlock User', `Allow ${user.firstName} ${user.lastName} to log in again now?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Unlock',
+        onPress: async () => {
+          const result = await unlockUser(user.id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
+          Alert.alert('Success', 'User unlocked successfully');
+        },
+      },
+    ]);
+  };
+
+  const handleResetTwoFactor = (user: UserProfile) => {
+    Alert.alert(
+      'Reset Two-Factor',
+      `Let ${user.firstName} ${user.lastName} log in with just their password? Only do this once you're sure it's them.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await resetUserTwoFactor(user.id);
+            if (!result.ok) {
+              Alert.alert('Error', result.error.message);
+              return;
+            }
+            Alert.alert(
+              'Success',
+              result.data ? 'Two-factor authentication was reset' : 'This user had not set up two-factor authentication'
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRevokeSessions = (user: UserProfile) => {
+    const isSelf = userProfile?.id === user.id;
+    Alert.alert(
+      'Revoke Sessions',
+      isSelf
+        ? 'This signs you out on every device, including this one. Continue?'
+        : `Sign ${user.firstName} ${user.lastName} out on every device?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await revokeUserSessions(user.id);
+            if (!result.ok) {
+              Alert.alert('Error', result.error.message);
+              return;
+            }
+            if (!isSelf) {
+              Alert.alert(
+                'Success',
+                result.data === 0 ? 'This user has no active sessions.' : `Revoked ${result.data} session(s).`
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const InputField = ({
     label,
     value,
@@ -253,6 +343,27 @@ export default function AdminUsersScreen() {
             </View>
           </ThemedView>
 
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>Subscription Tier *</ThemedText>
+            <View style={styles.roleButtons}>
+              {(['Free', 'Premium', 'Enterprise'] as SubscriptionTier[]).map((tier) => {
+                const selected = (formData.subscriptionTier ?? 'Free') === tier;
+                return (
+                  <TouchableOpacity
+                    key={tier}
+                    style={[
+                      styles.roleButton,
+                      { borderColor: colors.icon },
+                      selected && { backgroundColor: colors.primary },
+                    ]}
+                    onPress={() => setFormData({ ...formData, subscriptionTier: tier })}>
+                    <ThemedText style={[styles.roleButtonText, selected && { color: '#fff' }]}>{tier}</ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ThemedView>
+
           {!editingId && (
             <>
               <InputField
@@ -311,11 +422,23 @@ export default function AdminUsersScreen() {
       )}
 
       <ThemedView style={styles.content}>
-        <ThemedText type="subtitle" style={styles.sectionTitle}>
-          All Users ({allUsers.length})
-        </ThemedText>
+        <View style={styles.sectionHeader}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            {showLockedOnly ? `Locked Users (${lockedUsers.length})` : `All Users (${allUsers.length})`}
+          </ThemedText>
+          {(lockedUsers.length > 0 || showLockedOnly) && (
+            <TouchableOpacity
+              onPress={() => setShowLockedOnly((prev) => !prev)}
+              style={[styles.filterChip, { borderColor: colors.warning }]}>
+              <IconSymbol name="lock.fill" size={14} color={colors.warning} />
+              <ThemedText style={[styles.filterChipText, { color: colors.warning }]}>
+                {showLockedOnly ? 'Show all' : `${lockedUsers.length} locked`}
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
         <FlatList
-          data={allUsers}
+          data={showLockedOnly ? lockedUsers : allUsers}
           keyExtractor={(item) => item.id}
           scrollEnabled={false}
           renderItem={({ item }) => (
@@ -326,13 +449,45 @@ export default function AdminUsersScreen() {
                     {item.firstName} {item.lastName}
                   </ThemedText>
                   <ThemedText style={styles.userSummary} numberOfLines={1}>
-                    {item.role} • {item.email}
+                    {item.role} • {item.subscriptionTier ?? 'Free'} • {item.email}
                   </ThemedText>
+                  {isAccountLocked(item) ? (
+                    <ThemedText style={[styles.lockStatus, { color: colors.danger }]}>
+                      Locked until {new Date(item.lockedUntil as string).toLocaleTimeString()} after{' '}
+                      {item.failedLoginAttempts} failed logins
+                    </ThemedText>
+                  ) : !!item.failedLoginAttempts && (
+                    <ThemedText style={[styles.lockStatus, { color: colors.warning }]}>
+                      {item.failedLoginAttempts} recent failed login(s)
+                    </ThemedText>
+                  )}
                 </View>
                 <View style={styles.userActions}>
+                  {(isAccountLocked(item) || !!item.failedLoginAttempts) && (
+                    <TouchableOpacity
+                      onPress={() => handleUnlock(item)}
+                      style={styles.iconButton}
+                      accessibilityLabel="Unlock user">
+                      <IconSymbol name="lock.open.fill" size={18} color={colors.success} />
+                    </TouchableOpacity>
+                  )}
                   <TouchableOpacity onPress={() => handleEdit(item)} style={styles.iconButton}>
                     <IconSymbol name="pencil" size={18} color={colors.primary} />
                   </TouchableOpacity>
+                  {userProfile?.id !== item.id && (
+                    <TouchableOpacity
+                      onPress={() => handleResetTwoFactor(item)}
+                      style={styles.iconButton}
+                      accessibilityLabel="Reset two-factor">
+                      <IconSymbol name="key.fill" size={18} color={colors.warning} />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    onPress={() => handleRevokeSessions(item)}
+                    style={styles.iconButton}
+                    accessibilityLabel="Revoke sessions">
+                    <IconSymbol name="rectangle.portrait.and.arrow.right" size={18} color={colors.warning} />
+                  </TouchableOpacity>
                   {userProfile?.id !== item.id && (
                     <TouchableOpacity onPress={() => handleDelete(item.id)} style={styles.iconButton}>
                       <IconSymbol name="trash" size={18} color="#F44336" />
@@ -462,10 +617,33 @@ const styles = StyleSheet.create({
   content: {
     padding: 20,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
-    marginBottom: 16,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  lockStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
   },
   userCard: {
     borderWidth: 1,
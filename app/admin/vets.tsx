@@ -57,17 +57,25 @@ export default function AdminVetsScreen() {
     setEditingId(null);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!formData.name || !formData.phone) {
       Alert.alert('Error', 'Please fill in name and phone number');
       return;
     }
 
     if (editingId) {
-      updateVet(editingId, formData);
+      const result = await updateVet(editingId, formData);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Vet profile updated successfully');
     } else {
-      addVet(formData as Omit<VetProfile, 'id' | 'createdAt' | 'updatedAt'>);
+      const result = await addVet(formData as Omit<VetProfile, 'id' | 'createdAt' | 'updatedAt'>);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Vet profile added successfully');
     }
     resetForm();
@@ -85,8 +93,12 @@ export default function AdminVetsScreen() {
       {
         text: 'Delete',
         style: 'destructive',
-        onPress: () => {
-          deleteVet(id);
+        onPress: async () => {
+          const result = await deleteVet(id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
           Alert.alert('Success', 'Vet profile deleted successfully');
         },
       },
@@ -23,12 +23,33 @@ import { Image } from 'expo-image';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { WeightTrendChart } from '@/components/weight-trend-chart';
+import { CalorieSummary } from '@/components/calorie-summary';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useApp } from '@/context/AppContext';
 import { CanineProfile } from '@/types';
-import { uploadMediaToSupabase, deleteMediaFromSupabase, extractFilePathFromUrl } from '@/services/storage';
-import type { MediaItem } from '@/types';
+import { uploadMediaToSupabase, deleteMediaFromSupabase, extractFilePathFromUrl, getLocalFileSize } from '@/services/storage';
+import { checkMediaStorage } from '@/utils/entitlements';
+import { describeVaccineDue, needsVaccineAttention, type VaccineDue } from '@/utils/vaccineSchedule';
+import { formatCanineAge, getImmunizationAgeMismatch } from '@/utils/canineAge';
+import { describeAllergyConflict, getAllergyConflictsByEntry } from '@/utils/allergyConflicts';
+import {
+  ACTIVITY_LEVELS,
+  getCalorieRequirement,
+  getDailyCalories,
+  getSustainedFeedingWarning,
+} from '@/utils/calories';
+import {
+  convertWeight,
+  describeBodyCondition,
+  formatWeight,
+  formatWeightChange,
+  getPreferredWeightUnit,
+  getWeightTrend,
+  toMeasurementDate,
+} from '@/utils/weight';
+import type { MediaItem, WalkStatus } from '@/types';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { NUTRITION_DAY_COUNT } from '@/constants/nutrition';
 
@@ -38,7 +59,9 @@ const TAB_ITEMS = [
   { key: 'schedule', label: 'Canine Schedule', icon: 'calendar' },
   { key: 'nutrition', label: 'Nutrition', icon: 'leaf.fill' },
   { key: 'training', label: 'Training', icon: 'star.fill' },
+  { key: 'weight', label: 'Weight', icon: 'scalemass.fill' },
   { key: 'media', label: 'Media', icon: 'photo.on.rectangle' },
+  { key: 'walks', label: 'Walks', icon: 'figure.walk' },
 ] as const;
 type TabKey = (typeof TAB_ITEMS)[number]['key'];
 type PetNote = {
@@ -50,6 +73,13 @@ type PetNote = {
 type VetSectionKey = 'medical' | 'medications' | 'visits' | 'immunization' | 'appointments';
 type OverlayTab = TabKey | null;
 
+const WALK_STATUS_LABELS: Record<WalkStatus, string> = {
+  scheduled: 'Scheduled',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
 const formatDateSafe = (value?: string) => {
   if (!value) return '—';
   const date = new Date(value);
@@ -111,6 +141,8 @@ export default function CanineProfileScreen() {
     deleteCanine,
     addMediaItem,
     deleteMediaItem,
+    subscriptionTier,
+    entitlementUsage,
     medicalRecords,
     medications,
     vetVisits,
@@ -119,9 +151,22 @@ export default function CanineProfileScreen() {
     deleteNutritionEntry,
     getCanineAllergiesByCanine,
     deleteCanineAllergy,
+    walkLogs,
+    getCanineRole,
+    getVaccineScheduleByCanine,
+    weightMeasurements,
+    addWeightMeasurement,
+    deleteWeightMeasurement,
   } = useApp();
 
   const existingCanine = params.id ? canines.find((c) => c.id === params.id) : null;
+  // Household caregivers can add records, read-only members can only look
+  const canineRole = existingCanine ? getCanineRole(existingCanine.id) : 'owner';
+  const canManageCanine = canineRole === 'owner';
+  const canAddRecords = canineRole === 'owner' || canineRole === 'caregiver';
+  const vaccineSchedule = existingCanine ? getVaccineScheduleByCanine(existingCanine.id) : [];
+  const vaccineAlerts = vaccineSchedule.filter(needsVaccineAttention);
+  const preferredWeightUnit = getPreferredWeightUnit(userProfile);
   const [isEditing, setIsEditing] = useState(!existingCanine);
   const [isUploading, setIsUploading] = useState(false);
   const [activeTab, setActiveTab] = useState<TabKey | null>(null);
@@ -206,6 +251,21 @@ export default function CanineProfileScreen() {
     [filteredNutrition, selectedNutritionDate]
   );
 
+  const calorieRequirement = useMemo(
+    () => (existingCanine ? getCalorieRequirement(existingCanine) : null),
+    [existingCanine]
+  );
+
+  const dailyCalories = useMemo(
+    () =>
+      calorieRequirement
+        ? getDailyCalories(filteredNutrition, nutritionDateWindow, calorieRequirement.maintenanceKcal)
+        : [],
+    [calorieRequirement, filteredNutrition, nutritionDateWindow]
+  );
+
+  const feedingWarning = useMemo(() => getSustainedFeedingWarning(dailyCalories), [dailyCalories]);
+
   const allergiesForCanine = useMemo(() => {
     if (!existingCanine?.id) return [];
     return [...getCanineAllergiesByCanine(existingCanine.id)].sort(
@@ -213,6 +273,11 @@ export default function CanineProfileScreen() {
     );
   }, [existingCanine?.id, getCanineAllergiesByCanine]);
 
+  const mealAllergyConflicts = useMemo(
+    () => getAllergyConflictsByEntry(mealsForSelectedDate, allergiesForCanine),
+    [mealsForSelectedDate, allergiesForCanine]
+  );
+
   useEffect(() => {
     if (existingCanine) {
       setFormData(existingCanine);
@@ -317,16 +382,19 @@ export default function CanineProfileScreen() {
     metrics.push({ label: 'Age', value: ageDisplay });
 
     const weightValue = existingCanine?.weight ?? formData.weight;
-    const weightUnit = existingCanine?.weightUnit ?? formData.weightUnit ?? '';
-    const hasWeightValue =
-      typeof weightValue === 'number'
-        ? !Number.isNaN(weightValue)
-        : typeof weightValue === 'string' && weightValue.trim().length > 0;
+    const weightUnit = existingCanine?.weightUnit ?? formData.weightUnit ?? 'lbs';
+    const hasWeightValue = typeof weightValue === 'number' && !Number.isNaN(weightValue);
     metrics.push({
       label: 'Weight',
-      value: hasWeightValue ? `${weightValue}${weightUnit ? ` ${weightUnit}` : ''}` : '—',
+      value: hasWeightValue
+        ? formatWeight(convertWeight(weightValue, weightUnit, preferredWeightUnit), preferredWeightUnit)
+        : '—',
     });
 
+    if (calorieRequirement) {
+      metrics.push({ label: 'Daily Calories', value: `${calorieRequirement.maintenanceKcal} kcal` });
+    }
+
     const breedValue = existingCanine?.breed ?? formData.breed;
     metrics.push({ label: 'Breed', value: breedValue && breedValue.length > 0 ? breedValue : 'Unknown' });
 
@@ -339,9 +407,9 @@ export default function CanineProfileScreen() {
     }
 
     return metrics;
-  }, [ageDisplay, existingCanine?.weight, existingCanine?.weightUnit, existingCanine?.breed, existingCanine?.gender, existingCanine?.color, formData.weight, formData.weightUnit, formData.breed, formData.gender, formData.color]);
+  }, [ageDisplay, existingCanine?.weight, existingCanine?.weightUnit, existingCanine?.breed, existingCanine?.gender, existingCanine?.color, formData.weight, formData.weightUnit, formData.breed, formData.gender, formData.color, preferredWeightUnit, calorieRequirement]);
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!formData.name) {
       Alert.alert('Error', 'Please enter a name');
       return;
@@ -352,11 +420,39 @@ export default function CanineProfileScreen() {
       return;
     }
 
+    // A new or changed weight goes into the weight history as today's measurement
+    const formWeight = typeof formData.weight === 'number' && formData.weight > 0 ? formData.weight : undefined;
+    const weightChanged =
+      formWeight !== undefined &&
+      (formWeight !== existingCanine?.weight || formData.weightUnit !== existingCanine?.weightUnit);
+    const recordFormWeight = async (canineId: string) => {
+      if (!weightChanged || formWeight === undefined) return;
+      const weightResult = await addWeightMeasurement({
+        canineId,
+        date: toMeasurementDate(),
+        value: formWeight,
+        unit: formData.weightUnit ?? 'lbs',
+      });
+      if (!weightResult.ok) {
+        Alert.alert('Error', weightResult.error.message);
+      }
+    };
+
     if (existingCanine) {
-      updateCanine(existingCanine.id, formData);
+      const result = await updateCanine(existingCanine.id, formData);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
+      await recordFormWeight(existingCanine.id);
       Alert.alert('Success', 'Canine profile updated successfully');
     } else {
-      addCanine(formData as Omit<CanineProfile, 'id' | 'createdAt' | 'updatedAt'>);
+      const result = await addCanine(formData as Omit<CanineProfile, 'id' | 'createdAt' | 'updatedAt'>);
+      if (!result.ok) {
+        Alert.alert(result.error.code === 'limit_reached' ? 'Upgrade Required' : 'Error', result.error.message);
+        return;
+      }
+      await recordFormWeight(result.data.id);
       Alert.alert('Success', 'Canine profile created successfully');
       router.back();
     }
@@ -368,6 +464,24 @@ export default function CanineProfileScreen() {
     setIsEditing(true);
   };
 
+  const handleVetAccessFromMenu = () => {
+    if (!existingCanine) return;
+    setInfoMenuVisible(false);
+    router.push(`/vet-access?canineId=${existingCanine.id}`);
+  };
+
+  const handleShareLinkFromMenu = () => {
+    if (!existingCanine) return;
+    setInfoMenuVisible(false);
+    router.push(`/pet-share?canineId=${existingCanine.id}`);
+  };
+
+  const handleWalkersFromMenu = () => {
+    if (!existingCanine) return;
+    setInfoMenuVisible(false);
+    router.push(`/walkers?canineId=${existingCanine.id}`);
+  };
+
   const handleDelete = () => {
     if (!existingCanine) return;
 
@@ -377,8 +491,12 @@ export default function CanineProfileScreen() {
       {
         text: 'Delete',
         style: 'destructive',
-        onPress: () => {
-          deleteCanine(existingCanine.id);
+        onPress: async () => {
+          const result = await deleteCanine(existingCanine.id);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+          }
           Alert.alert('Success', 'Pet deleted successfully');
           router.back();
         },
@@ -397,13 +515,22 @@ export default function CanineProfileScreen() {
         style: 'destructive',
         onPress: async () => {
           try {
+            // Remove the record first so a failed delete doesn't leave it pointing at a missing file
+            const result = await deleteMediaItem(mediaId);
+            if (!result.ok) {
+              Alert.alert('Error', result.error.message);
+              return;
+            }
             const filePath = extractFilePathFromUrl(mediaItem.uri);
             if (filePath) {
               await deleteMediaFromSupabase(filePath);
             }
-            await deleteMediaItem(mediaId);
             if (existingCanine?.profilePhotoId === mediaId) {
-              await updateCanine(existingCanine.id, { profilePhotoId: undefined });
+              const photoResult = await updateCanine(existingCanine.id, { profilePhotoId: undefined });
+              if (!photoResult.ok) {
+                Alert.alert('Error', photoResult.error.message);
+                return;
+              }
             }
             Alert.alert('Deleted', 'Media item removed');
           } catch (error) {
@@ -528,6 +655,35 @@ export default function CanineProfileScreen() {
     openTabOverlay(tab);
   };
 
+  const handleVaccineAlertsPress = () => {
+    setActiveTab('vet');
+    openTabOverlay('vet');
+    setActiveVetSection('immunization');
+  };
+
+  const handleFeedingWarningPress = () => {
+    if (feedingWarning) {
+      setSelectedNutritionDate(feedingWarning.startDate);
+    }
+    setActiveTab('nutrition');
+    openTabOverlay('nutrition');
+  };
+
+  const vaccineStatusColor = (due: VaccineDue) => {
+    if (due.status === 'overdue') return colors.danger;
+    if (due.status === 'current') return colors.success;
+    return colors.warning;
+  };
+
+  const renderVaccineRow = (due: VaccineDue) => (
+    <View key={due.vaccineName} style={styles.vaccineRow}>
+      <ThemedText style={[styles.vaccineName, { color: colors.text }]} numberOfLines={1}>
+        {due.vaccineName}
+      </ThemedText>
+      <ThemedText style={[styles.vaccineStatus, { color: vaccineStatusColor(due) }]}>{describeVaccineDue(due)}</ThemedText>
+    </View>
+  );
+
   const navigateAfterClose = (href: string) => {
     closeTabOverlay(() => router.push(href as any));
   };
@@ -569,7 +725,11 @@ export default function CanineProfileScreen() {
         style: 'destructive',
         onPress: async () => {
           try {
-            await deleteNutritionEntry(entryId);
+            const result = await deleteNutritionEntry(entryId);
+            if (!result.ok) {
+              Alert.alert('Error', result.error.message);
+              return;
+            }
           } catch (error) {
             console.error('Error deleting nutrition entry:', error);
             Alert.alert('Error', 'Unable to delete meal. Please try again.');
@@ -631,7 +791,11 @@ export default function CanineProfileScreen() {
         style: 'destructive',
         onPress: async () => {
           try {
-            await deleteCanineAllergy(recordId);
+            const result = await deleteCanineAllergy(recordId);
+            if (!result.ok) {
+              Alert.alert('Error', result.error.message);
+              return;
+            }
           } catch (error) {
             console.error('Error deleting allergy:', error);
             Alert.alert('Error', 'Unable to delete allergy. Please try again.');
@@ -676,6 +840,35 @@ export default function CanineProfileScreen() {
     navigateAfterClose('/(tabs)/training?mode=add');
   };
 
+  const handleWeightAdd = () => {
+    if (!existingCanine) {
+      Alert.alert('Save Pet First', 'Please save the pet profile before logging weights.');
+      return;
+    }
+    navigateAfterClose(`/(tabs)/weight/create?canineId=${existingCanine.id}`);
+  };
+
+  const handleWeightEdit = (recordId: string) => {
+    if (!existingCanine) return;
+    navigateAfterClose(`/(tabs)/weight/create?canineId=${existingCanine.id}&recordId=${recordId}`);
+  };
+
+  const handleWeightDelete = (recordId: string) => {
+    Alert.alert('Delete Weight', 'Remove this weight measurement?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteWeightMeasurement(recordId);
+          if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+          }
+        },
+      },
+    ]);
+  };
+
   const handleMedicationAdd = () => {
     if (!existingCanine) {
       Alert.alert('Save Pet First', 'Please save the pet profile before adding medications.');
@@ -754,7 +947,11 @@ export default function CanineProfileScreen() {
 
   const handleScheduleDelete = async (appointmentId: string) => {
     try {
-      await deleteAppointment(appointmentId);
+      const result = await deleteAppointment(appointmentId);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
     } catch (error) {
       console.error('Error deleting appointment:', error);
       Alert.alert('Error', 'Unable to delete appointment. Please try again.');
@@ -831,7 +1028,11 @@ export default function CanineProfileScreen() {
 
   const handleSetProfilePhoto = async (mediaId: string) => {
     if (existingCanine) {
-      await updateCanine(existingCanine.id, { profilePhotoId: mediaId });
+      const result = await updateCanine(existingCanine.id, { profilePhotoId: mediaId });
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Profile photo updated');
     }
   };
@@ -858,20 +1059,32 @@ export default function CanineProfileScreen() {
         const asset = result.assets[0];
         const mediaType = asset.type === 'video' ? 'video' : 'photo';
 
-        if (asset.fileSize) {
-          const maxSize = mediaType === 'video' ? 100 * 1024 * 1024 : 50 * 1024 * 1024;
-          if (asset.fileSize > maxSize) {
-            const maxSizeMB = Math.round(maxSize / (1024 * 1024));
-            const fileSizeMB = (asset.fileSize / (1024 * 1024)).toFixed(2);
-            Alert.alert(
-              'File Too Large',
-              `File size (${fileSizeMB}MB) exceeds the maximum allowed size of ${maxSizeMB}MB. Please compress and try again.`
-            );
-            return;
-          }
+        // Some pickers leave the size out; without one the quota can't be checked
+        const fileSize = asset.fileSize || (await getLocalFileSize(asset.uri));
+        if (!fileSize) {
+          Alert.alert('Unable to Add File', "We couldn't read the size of this file. Please try a different one.");
+          return;
         }
 
-        await uploadMedia(asset.uri, mediaType);
+        const maxSize = mediaType === 'video' ? 100 * 1024 * 1024 : 50 * 1024 * 1024;
+        if (fileSize > maxSize) {
+          const maxSizeMB = Math.round(maxSize / (1024 * 1024));
+          const fileSizeMB = (fileSize / (1024 * 1024)).toFixed(2);
+          Alert.alert(
+            'File Too Large',
+            `File size (${fileSizeMB}MB) exceeds the maximum allowed size of ${maxSizeMB}MB. Please compress and try again.`
+          );
+          return;
+        }
+
+        // Check the storage quota before uploading so a rejected file isn't left in storage
+        const storage = checkMediaStorage(subscriptionTier, entitlementUsage, fileSize);
+        if (!storage.allowed && userProfile?.role !== 'Admin') {
+          Alert.alert('Upgrade Required', storage.message);
+          return;
+        }
+
+        await uploadMedia(asset.uri, mediaType, fileSize);
       }
     } catch (error) {
       console.error('Error picking media:', error);
@@ -894,19 +1107,24 @@ export default function CanineProfileScreen() {
     await launchImageLibrary();
   };
 
-  const uploadMedia = async (uri: string, type: 'photo' | 'video') => {
+  const uploadMedia = async (uri: string, type: 'photo' | 'video', fileSize?: number) => {
     if (!existingCanine) return;
 
     setIsUploading(true);
     try {
       const uploadedUrl = await uploadMediaToSupabase(uri, existingCanine.id, type);
-      await addMediaItem({
+      const result = await addMediaItem({
         canineId: existingCanine.id,
         type,
         uri: uploadedUrl,
         caption: '',
         date: new Date().toISOString().split('T')[0],
+        fileSize,
       });
+      if (!result.ok) {
+        Alert.alert(result.error.code === 'limit_reached' ? 'Upgrade Required' : 'Upload failed', result.error.message);
+        return;
+      }
       Alert.alert('Success', 'Media uploaded successfully');
     } catch (error: any) {
       console.error('Error uploading media:', error);
@@ -946,6 +1164,28 @@ export default function CanineProfileScreen() {
     [trainingLogs, existingCanine?.id]
   );
 
+  // Walks that have happened, most recent first; scheduled ones are managed from Dog Walkers
+  const filteredWalks = useMemo(
+    () =>
+      walkLogs
+        .filter((walk) => walk.canineId === existingCanine?.id && walk.status !== 'scheduled')
+        .sort((a, b) => (b.checkedInAt ?? b.createdAt).localeCompare(a.checkedInAt ?? a.createdAt)),
+    [walkLogs, existingCanine?.id]
+  );
+
+  const canineWeights = useMemo(
+    () =>
+      weightMeasurements
+        .filter((measurement) => measurement.canineId === existingCanine?.id)
+        .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt)),
+    [weightMeasurements, existingCanine?.id]
+  );
+
+  const weightTrend = useMemo(
+    () => getWeightTrend(canineWeights, preferredWeightUnit),
+    [canineWeights, preferredWeightUnit]
+  );
+
   const filteredMedications = useMemo(
     () =>
       existingCanine
@@ -1506,6 +1746,13 @@ export default function CanineProfileScreen() {
             title: detailTitle,
             body: (
               <View style={styles.vetDetailContainer}>
+                {vaccineSchedule.length > 0 && (
+                  <ThemedView style={[styles.vaccineCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                    <ThemedText style={[styles.vaccineCardTitle, { color: colors.text }]}>Next Due</ThemedText>
+                    {vaccineSchedule.map(renderVaccineRow)}
+                  </ThemedView>
+                )}
+
                 <View style={styles.vetDetailCountRow}>
                   <View style={styles.vetDetailCountLeft}>
                     <ThemedText style={[styles.vetDetailCountLabel, { color: colors.text }]}>Immunizations</ThemedText>
@@ -1562,9 +1809,14 @@ export default function CanineProfileScreen() {
                         <View style={styles.immunizationOverlayRow}>
                           <ThemedText style={[styles.immunizationOverlayLabel, { color: colors.secondaryText }]}>Age</ThemedText>
                           <ThemedText style={[styles.immunizationOverlayValue, { color: colors.text }]}>
-                            {`${record.ageYears}y${record.ageMonths}m`}
+                            {formatCanineAge({ years: record.ageYears, months: record.ageMonths })}
                           </ThemedText>
                         </View>
+                        {getImmunizationAgeMismatch(record, existingCanine?.dateOfBirth) ? (
+                          <ThemedText style={[styles.immunizationOverlayLabel, { color: colors.warning }]}>
+                            Age doesn&apos;t match the date of birth; saving the record corrects it
+                          </ThemedText>
+                        ) : null}
                         <View style={styles.immunizationOverlayRow}>
                           <ThemedText style={[styles.immunizationOverlayLabel, { color: colors.secondaryText }]}>Immunized</ThemedText>
                           <ThemedText style={[styles.immunizationOverlayValue, { color: colors.text }]}>
@@ -1636,6 +1888,12 @@ export default function CanineProfileScreen() {
               })}
             </ScrollView>
 
+            <CalorieSummary
+              requirement={calorieRequirement}
+              day={dailyCalories.find((day) => day.date === selectedNutritionDate)}
+              warning={feedingWarning}
+            />
+
             <View style={styles.nutritionSectionHeader}>
               <ThemedText style={[styles.nutritionSectionTitle, { color: colors.text }]}>Schedule Daily Meal</ThemedText>
               <TouchableOpacity onPress={handleNutritionSeeAll} accessibilityRole="button">
@@ -1706,6 +1964,14 @@ export default function CanineProfileScreen() {
                         </ThemedText>
                       </View>
                     ) : null}
+                    {mealAllergyConflicts.get(entry.id)?.map((conflict) => (
+                      <View key={conflict.allergy.id} style={styles.nutritionSummaryMetaRow}>
+                        <IconSymbol name="exclamationmark.triangle.fill" size={14} color={colors.danger} />
+                        <ThemedText style={[styles.nutritionSummaryMeta, { color: colors.danger }]} numberOfLines={2}>
+                          {describeAllergyConflict(conflict)}
+                        </ThemedText>
+                      </View>
+                    ))}
                     <View
                       style={[styles.nutritionSummaryBadge, { backgroundColor: `${colors.tint}1A` }]}
                       accessibilityRole="text">
@@ -1798,6 +2064,57 @@ export default function CanineProfileScreen() {
           fabLabel: 'Add Training Log',
         };
       }
+      case 'weight': {
+        const { latest, changeSincePrevious, ratePerWeek, unit } = weightTrend;
+        const body = !latest ? (
+          <ThemedText style={styles.emptyText}>No weights logged yet.</ThemedText>
+        ) : (
+          <View style={styles.overlayList}>
+            <View style={styles.tabCard}>
+              <ThemedText style={styles.tabPrimary}>{formatWeight(latest.value, unit)}</ThemedText>
+              <ThemedText style={styles.tabSecondary}>Current weight • {formatDateSafe(latest.date)}</ThemedText>
+              {changeSincePrevious !== undefined && (
+                <ThemedText style={styles.tabDetailText}>
+                  Since last: {formatWeightChange(changeSincePrevious, unit)}
+                </ThemedText>
+              )}
+              {ratePerWeek !== undefined && (
+                <ThemedText style={styles.tabDetailText}>
+                  Trend: {formatWeightChange(ratePerWeek, unit)} per week
+                </ThemedText>
+              )}
+              {weightTrend.points.length > 1 && <WeightTrendChart trend={weightTrend} />}
+            </View>
+            {canineWeights.map((measurement) => (
+              <TouchableOpacity
+                key={measurement.id}
+                style={styles.tabCard}
+                activeOpacity={0.85}
+                disabled={!canAddRecords}
+                onPress={() => handleWeightEdit(measurement.id)}
+                onLongPress={() => handleWeightDelete(measurement.id)}>
+                <ThemedText style={styles.tabPrimary}>
+                  {formatWeight(convertWeight(measurement.value, measurement.unit, unit), unit)}
+                </ThemedText>
+                <ThemedText style={styles.tabSecondary}>{formatDateSafe(measurement.date)}</ThemedText>
+                {measurement.bodyConditionScore !== undefined && (
+                  <ThemedText style={styles.tabDetailText}>
+                    Body condition: {describeBodyCondition(measurement.bodyConditionScore)}
+                  </ThemedText>
+                )}
+                {measurement.notes && <ThemedText style={styles.tabDetailText}>{measurement.notes}</ThemedText>}
+              </TouchableOpacity>
+            ))}
+          </View>
+        );
+        return {
+          title: 'Weight',
+          body,
+          showFab: true,
+          fabAction: handleWeightAdd,
+          fabLabel: 'Log Weight',
+        };
+      }
       case 'media': {
         const body =
           canineMedia.length === 0 ? (
@@ -1858,6 +2175,48 @@ export default function CanineProfileScreen() {
           );
         return { title: 'Media', body, showFab: false };
       }
+      case 'walks': {
+        const body =
+          filteredWalks.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No walks logged yet. Assign a walker to get started.</ThemedText>
+          ) : (
+            <View style={styles.overlayList}>
+              {filteredWalks.map((walk) => {
+                const pees = walk.bathroomEvents.filter((event) => event.type === 'pee').length;
+                const poops = walk.bathroomEvents.filter((event) => event.type === 'poop').length;
+                return (
+                  <View key={walk.id} style={styles.tabCard}>
+                    <ThemedText style={styles.tabPrimary}>{walk.walkerName}</ThemedText>
+                    <ThemedText style={styles.tabSecondary}>
+                      {formatTimestampSafe(walk.checkedInAt ?? walk.scheduledAt)} •{' '}
+                      {walk.status === 'completed' ? `${walk.durationMinutes ?? 0} mins` : WALK_STATUS_LABELS[walk.status]}
+                    </ThemedText>
+                    {walk.status === 'completed' && (
+                      <ThemedText style={styles.tabDetailText}>
+                        Pee: {pees} • Poop: {poops}
+                      </ThemedText>
+                    )}
+                    {walk.notes && <ThemedText style={styles.tabDetailText}>{walk.notes}</ThemedText>}
+                    {walk.photoUrls.length > 0 && (
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.walkPhotos}>
+                        {walk.photoUrls.map((url) => (
+                          <Image key={url} source={{ uri: url }} style={styles.walkPhoto} contentFit="cover" />
+                        ))}
+                      </ScrollView>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          );
+        return {
+          title: 'Walks',
+          body,
+          showFab: true,
+          fabAction: handleWalkersFromMenu,
+          fabLabel: 'Dog Walkers',
+        };
+      }
       default:
         return { title: '', body: null, showFab: false };
     }
@@ -1911,7 +2270,7 @@ export default function CanineProfileScreen() {
               showsVerticalScrollIndicator={false}>
               {body}
             </ScrollView>
-            {showFab && fabAction ? (
+            {showFab && fabAction && canAddRecords ? (
               <TouchableOpacity
                 style={[styles.overlayFab, { backgroundColor: colors.tint, bottom: 24 + insets.bottom }]}
                 onPress={fabAction}
@@ -1964,7 +2323,7 @@ export default function CanineProfileScreen() {
         <View style={styles.infoCard}>
           <View style={styles.infoHeader}>
             <ThemedText style={styles.petName}>{existingCanine?.name || 'New Pet'}</ThemedText>
-            {existingCanine && (
+            {existingCanine && canManageCanine && (
               <TouchableOpacity
                 onPress={() => setInfoMenuVisible(true)}
                 style={styles.moreButton}
@@ -1992,6 +2351,21 @@ export default function CanineProfileScreen() {
                     <ThemedText style={styles.menuItemText}>Edit</ThemedText>
                   </TouchableOpacity>
                   <View style={styles.menuDivider} />
+                  <TouchableOpacity style={styles.menuItem} onPress={handleVetAccessFromMenu}>
+                    <IconSymbol name="stethoscope" size={18} color={colors.text} />
+                    <ThemedText style={styles.menuItemText}>Share with Vet</ThemedText>
+                  </TouchableOpacity>
+                  <View style={styles.menuDivider} />
+                  <TouchableOpacity style={styles.menuItem} onPress={handleShareLinkFromMenu}>
+                    <IconSymbol name="link" size={18} color={colors.text} />
+                    <ThemedText style={styles.menuItemText}>Share Link</ThemedText>
+                  </TouchableOpacity>
+                  <View style={styles.menuDivider} />
+                  <TouchableOpacity style={styles.menuItem} onPress={handleWalkersFromMenu}>
+                    <IconSymbol name="figure.walk" size={18} color={colors.text} />
+                    <ThemedText style={styles.menuItemText}>Dog Walkers</ThemedText>
+                  </TouchableOpacity>
+                  <View style={styles.menuDivider} />
                   <TouchableOpacity style={styles.menuItem} onPress={handleDelete}>
                     <IconSymbol name="trash" size={18} color="#DC2626" />
                     <ThemedText style={[styles.menuItemText, styles.menuItemDanger]}>Delete</ThemedText>
@@ -2018,6 +2392,40 @@ export default function CanineProfileScreen() {
           </ScrollView>
         </View>
 
+        {vaccineAlerts.length > 0 && (
+          <TouchableOpacity
+            style={[styles.vaccineCard, styles.vaccineAlertCard, { backgroundColor: colors.surface, borderColor: colors.warning }]}
+            onPress={handleVaccineAlertsPress}
+            accessibilityRole="button"
+            accessibilityLabel="View vaccine schedule">
+            <View style={styles.vaccineCardHeader}>
+              <IconSymbol name="syringe" size={18} color={colors.warning} />
+              <ThemedText style={[styles.vaccineCardTitle, { color: colors.text }]}>Vaccines Due</ThemedText>
+              <IconSymbol name="chevron.right" size={16} color={colors.icon} />
+            </View>
+            {vaccineAlerts.map(renderVaccineRow)}
+          </TouchableOpacity>
+        )}
+
+        {feedingWarning && (
+          <TouchableOpacity
+            style={[styles.vaccineCard, styles.vaccineAlertCard, { backgroundColor: colors.surface, borderColor: colors.warning }]}
+            onPress={handleFeedingWarningPress}
+            accessibilityRole="button"
+            accessibilityLabel="View nutrition summary">
+            <View style={styles.vaccineCardHeader}>
+              <IconSymbol name="exclamationmark.triangle.fill" size={18} color={colors.warning} />
+              <ThemedText style={[styles.vaccineCardTitle, { color: colors.text }]}>
+                {feedingWarning.status === 'over' ? 'Overfeeding' : 'Underfeeding'}
+              </ThemedText>
+              <IconSymbol name="chevron.right" size={16} color={colors.icon} />
+            </View>
+            <ThemedText style={[styles.vaccineStatus, { color: colors.secondaryText }]}>
+              {`Meals are ${feedingWarning.status} the ${calorieRequirement?.maintenanceKcal} kcal daily target for ${feedingWarning.days} days in a row, from ${formatNutritionChipLabel(feedingWarning.startDate)}.`}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+
         <ScrollView
           horizontal
           showsHorizontalScrollIndicator={false}
@@ -2137,6 +2545,42 @@ export default function CanineProfileScreen() {
                 </View>
               </View>
             </View>
+            <ThemedText style={styles.label}>Activity Level</ThemedText>
+            <View style={styles.roleButtons}>
+              {ACTIVITY_LEVELS.map((level) => (
+                <TouchableOpacity
+                  key={level.value}
+                  style={[styles.roleButton, formData.activityLevel === level.value && { backgroundColor: colors.tint }]}
+                  onPress={() => setFormData((prev) => ({ ...prev, activityLevel: level.value }))}>
+                  <ThemedText
+                    style={[styles.roleButtonText, formData.activityLevel === level.value && { color: '#FFFFFF' }]}>
+                    {level.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <ThemedText style={styles.fieldHint}>
+              {ACTIVITY_LEVELS.find((level) => level.value === formData.activityLevel)?.description ??
+                'Used for the daily calorie target; moderate until chosen'}
+            </ThemedText>
+            <ThemedText style={styles.label}>Spayed / Neutered</ThemedText>
+            <View style={styles.roleButtons}>
+              {([
+                { label: 'Yes', value: true },
+                { label: 'No', value: false },
+                { label: 'Unknown', value: undefined },
+              ] as const).map((option) => (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.roleButton, (formData.neutered ?? undefined) === option.value && { backgroundColor: colors.tint }]}
+                  onPress={() => setFormData((prev) => ({ ...prev, neutered: option.value }))}>
+                  <ThemedText
+                    style={[styles.roleButtonText, (formData.neutered ?? undefined) === option.value && { color: '#FFFFFF' }]}>
+                    {option.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
             {renderInputField('Color', formData.color || '', (text) => setFormData((prev) => ({ ...prev, color: text })), {
               placeholder: 'Enter color',
             })}
@@ -2527,6 +2971,41 @@ const styles = StyleSheet.create({
     marginTop: 16,
     gap: 12,
   },
+  vaccineCard: {
+    borderWidth: 1,
+    borderRadius: 16,
+    padding: 14,
+    gap: 8,
+  },
+  vaccineAlertCard: {
+    marginHorizontal: 12,
+    marginTop: 12,
+  },
+  vaccineCardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  vaccineCardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  vaccineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  vaccineName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  vaccineStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   notesSection: {
     marginHorizontal: 20,
     marginTop: 12,
@@ -2872,6 +3351,15 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#475569',
   },
+  walkPhotos: {
+    gap: 8,
+    marginTop: 8,
+  },
+  walkPhoto: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+  },
   emptyText: {
     textAlign: 'center',
     color: '#64748B',
@@ -3137,6 +3625,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#475569',
   },
+  fieldHint: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 6,
+    marginBottom: 12,
+  },
   editActions: {
     flexDirection: 'row',
     gap: 12,
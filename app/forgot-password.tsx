@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { router } from 'expo-router';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useApp } from '@/context/AppContext';
+
+type Step = 'request' | 'reset';
+
+export default function ForgotPasswordScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { requestPasswordReset, resetPassword } = useApp();
+
+  const [step, setStep] = useState<Step>('request');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleRequestCode = async () => {
+    if (!email.trim()) {
+      Alert.alert('Missing information', 'Please enter the email address for your account.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await requestPasswordReset(email);
+      setStep('reset');
+      Alert.alert(
+        'Check your email',
+        'If an account exists for this address, we sent it a 6-digit code. The code expires in 15 minutes.'
+      );
+    } catch (error: any) {
+      console.error('Password reset request error:', error);
+      Alert.alert('Unable to send code', error?.message || 'Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!code || !newPassword || !confirmPassword) {
+      Alert.alert('Missing information', 'Please fill in all fields.');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Password mismatch', 'New password and confirmation do not match.');
+      return;
+    }
+
+    if (newPassword.length < 8) {
+      Alert.alert('Weak password', 'New password must be at least 8 characters long.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await resetPassword(email, code, newPassword);
+      setCode('');
+      setNewPassword('');
+      setConfirmPassword('');
+      Alert.alert('Password reset', 'Your password has been changed. Please log in with your new password.', [
+        {
+          text: 'OK',
+          onPress: () => router.replace('/login'),
+        },
+      ]);
+    } catch (error: any) {
+      console.error('Password reset error:', error);
+      Alert.alert('Unable to reset password', error?.message || 'Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.screen, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          accessibilityRole="button"
+          accessibilityLabel="Go back">
+          <IconSymbol name="chevron.left" size={22} color={colors.text} />
+          <ThemedText style={styles.backText}>Back</ThemedText>
+        </TouchableOpacity>
+
+        <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+          Forgot Password
+        </ThemedText>
+        <ThemedText style={styles.subtitle}>
+          {step === 'request'
+            ? 'Enter the email address for your account and we will send you a one-time code.'
+            : `Enter the code sent to ${email.trim()} and choose a new password.`}
+        </ThemedText>
+
+        <ThemedView style={styles.card}>
+          {step === 'request' ? (
+            <Field
+              label="Email"
+              value={email}
+              onChangeText={setEmail}
+              placeholder="Enter your email"
+              keyboardType="email-address"
+            />
+          ) : (
+            <>
+              <Field
+                label="Reset Code"
+                value={code}
+                onChangeText={setCode}
+                placeholder="6-digit code"
+                keyboardType="number-pad"
+                maxLength={6}
+              />
+              <Field
+                label="New Password"
+                value={newPassword}
+                onChangeText={setNewPassword}
+                placeholder="Enter new password"
+                secureTextEntry
+              />
+              <Field
+                label="Confirm Password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                placeholder="Re-enter new password"
+                secureTextEntry
+              />
+            </>
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              { backgroundColor: isSubmitting ? `${colors.primary}80` : colors.primary },
+            ]}
+            onPress={step === 'request' ? handleRequestCode : handleResetPassword}
+            disabled={isSubmitting}>
+            <ThemedText style={styles.submitText}>
+              {isSubmitting ? 'Please wait...' : step === 'request' ? 'Send Code' : 'Reset Password'}
+            </ThemedText>
+          </TouchableOpacity>
+
+          {step === 'reset' && (
+            <TouchableOpacity
+              onPress={handleRequestCode}
+              disabled={isSubmitting}
+              style={styles.secondaryLink}
+              accessibilityRole="button"
+              accessibilityLabel="Send a new code">
+              <ThemedText style={[styles.secondaryLinkText, { color: colors.primary }]}>
+                Send a new code
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+        </ThemedView>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+function Field({
+  label,
+  value,
+  onChangeText,
+  placeholder,
+  secureTextEntry,
+  keyboardType,
+  maxLength,
+}: {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  placeholder?: string;
+  secureTextEntry?: boolean;
+  keyboardType?: 'default' | 'email-address' | 'number-pad';
+  maxLength?: number;
+}) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  return (
+    <View style={styles.field}>
+      <ThemedText style={styles.fieldLabel}>{label}</ThemedText>
+      <TextInput
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={`${colors.icon}AA`}
+        secureTextEntry={secureTextEntry}
+        keyboardType={keyboardType}
+        maxLength={maxLength}
+        autoCapitalize="none"
+        style={[styles.fieldInput, { borderColor: colors.icon, color: colors.text }]}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingVertical: 32,
+    gap: 20,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  backText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  card: {
+    borderRadius: 20,
+    padding: 24,
+    gap: 16,
+    backgroundColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.08,
+    shadowRadius: 16,
+    elevation: 4,
+  },
+  field: {
+    gap: 8,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  fieldInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: Platform.OS === 'ios' ? 14 : 10,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  submitButton: {
+    marginTop: 8,
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  submitText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryLink: {
+    alignSelf: 'center',
+  },
+  secondaryLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+});
@@ -0,0 +1,471 @@
+import { useState } from 'react';
+import { StyleSheet, ScrollView, TextInput, TouchableOpacity, View, Alert, Platform } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useApp } from '@/context/AppContext';
+import type { MutationResult } from '@/services/mutations';
+import type { CanineProfile, HouseholdMember, HouseholdRole } from '@/types';
+
+const ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  caregiver: 'Caregiver',
+  'read-only': 'Read-only',
+};
+
+const ROLE_DESCRIPTIONS: Record<HouseholdRole, string> = {
+  owner: 'Manages the pets and the household',
+  caregiver: 'Logs meals, meds, walks and other records',
+  'read-only': 'Sees the pets and their records',
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as HouseholdRole[];
+
+/**
+ * Household
+ * Lets family members share pets: owners invite people with a role,
+ * choose which of their pets the household sees, and manage members.
+ */
+export default function HouseholdScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const {
+    userProfile,
+    canines,
+    households,
+    householdMembers,
+    createHousehold,
+    deleteHousehold,
+    inviteHouseholdMember,
+    updateHouseholdMemberRole,
+    removeHouseholdMember,
+    setCanineHousehold,
+  } = useApp();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [householdName, setHouseholdName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>('caregiver');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const household = households.find((candidate) => candidate.id === selectedId) ?? households[0];
+  const members = household ? householdMembers.filter((member) => member.householdId === household.id) : [];
+  const myMembership = members.find((member) => member.userId === userProfile?.id);
+  const isOwner = myMembership?.role === 'owner';
+  const myCanines = canines.filter((canine) => canine.userId === userProfile?.id);
+  const otherHouseholdCanines = household
+    ? canines.filter((canine) => canine.householdId === household.id && canine.userId !== userProfile?.id)
+    : [];
+
+  const run = async (action: () => Promise<MutationResult<unknown>>) => {
+    if (isSaving) return false;
+    setIsSaving(true);
+    try {
+      const result = await action();
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+      }
+      return result.ok;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirm = (title: string, message: string, action: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (typeof window !== 'undefined' && window.confirm(message)) {
+        onConfirm();
+      }
+      return;
+    }
+
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: action, style: 'destructive', onPress: onConfirm },
+    ]);
+  };
+
+  const handleCreate = async () => {
+    let createdId: string | null = null;
+    const created = await run(async () => {
+      const result = await createHousehold(householdName);
+      if (result.ok) createdId = result.data.id;
+      return result;
+    });
+    if (created) {
+      setHouseholdName('');
+      setSelectedId(createdId);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!household) return;
+    const invited = await run(() => inviteHouseholdMember(household.id, inviteEmail, inviteRole));
+    if (invited) {
+      setInviteEmail('');
+    }
+  };
+
+  const handleRemove = (member: HouseholdMember) => {
+    const isSelf = member.userId === userProfile?.id;
+    confirm(
+      isSelf ? 'Leave Household' : 'Remove Member',
+      isSelf
+        ? `You will no longer see the pets other members shared with ${household?.name ?? 'this household'}.`
+        : `${member.memberName} will no longer see this household's pets.`,
+      isSelf ? 'Leave' : 'Remove',
+      () => run(() => removeHouseholdMember(member.id))
+    );
+  };
+
+  const handleDeleteHousehold = () => {
+    if (!household) return;
+    confirm(
+      'Delete Household',
+      `Everyone in ${household.name} keeps the pets they added, but stops seeing each other's.`,
+      'Delete',
+      () => run(() => deleteHousehold(household.id))
+    );
+  };
+
+  const toggleCanine = (canine: CanineProfile) => {
+    if (!household) return;
+    run(() => setCanineHousehold(canine.id, canine.householdId === household.id ? undefined : household.id));
+  };
+
+  const renderRolePicker = (selected: HouseholdRole, onSelect: (role: HouseholdRole) => void) => (
+    <View style={styles.chipRow}>
+      {ROLES.map((role) => (
+        <TouchableOpacity
+          key={role}
+          onPress={() => onSelect(role)}
+          disabled={isSaving}
+          style={[
+            styles.chip,
+            { borderColor: colors.primary },
+            role === selected && { backgroundColor: colors.primary },
+          ]}>
+          <ThemedText style={[styles.chipText, { color: role === selected ? '#fff' : colors.primary }]}>
+            {ROLE_LABELS[role]}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+          Household
+        </ThemedText>
+      </ThemedView>
+
+      {households.length > 1 && (
+        <ThemedView style={styles.content}>
+          <View style={styles.chipRow}>
+            {households.map((candidate) => (
+              <TouchableOpacity
+                key={candidate.id}
+                onPress={() => setSelectedId(candidate.id)}
+                style={[
+                  styles.chip,
+                  { borderColor: colors.primary },
+                  candidate.id === household?.id && { backgroundColor: colors.primary },
+                ]}>
+                <ThemedText style={[styles.chipText, { color: candidate.id === household?.id ? '#fff' : colors.primary }]}>
+                  {candidate.name}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ThemedView>
+      )}
+
+      {household && (
+        <>
+          <ThemedView style={styles.content}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              {household.name}
+            </ThemedText>
+            <ThemedText style={styles.helpText}>
+              Your role: {myMembership ? ROLE_LABELS[myMembership.role] : '—'}
+              {myMembership ? ` • ${ROLE_DESCRIPTIONS[myMembership.role]}` : ''}
+            </ThemedText>
+
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Members ({members.length})
+            </ThemedText>
+            {members.map((member) => {
+              const isSelf = member.userId === userProfile?.id;
+              return (
+                <View key={member.id} style={[styles.card, { borderColor: colors.icon }]}>
+                  <View style={styles.cardHeader}>
+                    <View style={styles.cardInfo}>
+                      <ThemedText type="defaultSemiBold">
+                        {member.memberName}
+                        {isSelf ? ' (you)' : ''}
+                      </ThemedText>
+                      <ThemedText style={styles.cardMeta}>{member.memberEmail}</ThemedText>
+                      {!isOwner && <ThemedText style={styles.cardMeta}>{ROLE_LABELS[member.role]}</ThemedText>}
+                    </View>
+                    {(isOwner || isSelf) && (
+                      <TouchableOpacity
+                        onPress={() => handleRemove(member)}
+                        style={[styles.removeButton, { borderColor: colors.danger }]}
+                        accessibilityLabel={isSelf ? 'Leave household' : `Remove ${member.memberName}`}>
+                        <ThemedText style={[styles.removeButtonText, { color: colors.danger }]}>
+                          {isSelf ? 'Leave' : 'Remove'}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  {isOwner &&
+                    renderRolePicker(member.role, (role) => {
+                      if (role !== member.role) {
+                        run(() => updateHouseholdMemberRole(member.id, role));
+                      }
+                    })}
+                </View>
+              );
+            })}
+          </ThemedView>
+
+          {isOwner && (
+            <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+              <ThemedText type="subtitle" style={styles.formTitle}>
+                Invite a Member
+              </ThemedText>
+              <ThemedText style={styles.label}>Their account email</ThemedText>
+              <TextInput
+                style={[styles.input, { borderColor: colors.icon, color: colors.text }]}
+                value={inviteEmail}
+                onChangeText={setInviteEmail}
+                placeholder="partner@example.com"
+                placeholderTextColor={colors.icon}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="email-address"
+              />
+              <ThemedText style={styles.label}>Role</ThemedText>
+              {renderRolePicker(inviteRole, setInviteRole)}
+              <ThemedText style={styles.helpText}>{ROLE_DESCRIPTIONS[inviteRole]}</ThemedText>
+              <TouchableOpacity
+                onPress={handleInvite}
+                disabled={isSaving}
+                style={[styles.saveButton, { backgroundColor: colors.primary, opacity: isSaving ? 0.6 : 1 }]}>
+                <ThemedText style={styles.saveButtonText}>Invite</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          )}
+
+          <ThemedView style={styles.content}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Pets
+            </ThemedText>
+            {isOwner && myCanines.length > 0 && (
+              <ThemedText style={styles.helpText}>Choose which of your pets the household can see.</ThemedText>
+            )}
+            {isOwner &&
+              myCanines.map((canine) => {
+                const isShared = canine.householdId === household.id;
+                return (
+                  <View key={canine.id} style={[styles.card, styles.cardHeader, { borderColor: colors.icon }]}>
+                    <View style={styles.cardInfo}>
+                      <ThemedText type="defaultSemiBold">{canine.name}</ThemedText>
+                      <ThemedText style={styles.cardMeta}>
+                        {isShared ? 'Shared with the household' : 'Only you'}
+                      </ThemedText>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => toggleCanine(canine)}
+                      disabled={isSaving}
+                      style={[styles.removeButton, { borderColor: isShared ? colors.danger : colors.primary }]}>
+                      <ThemedText style={[styles.removeButtonText, { color: isShared ? colors.danger : colors.primary }]}>
+                        {isShared ? 'Stop Sharing' : 'Share'}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            {otherHouseholdCanines.map((canine) => (
+              <View key={canine.id} style={[styles.card, { borderColor: colors.icon }]}>
+                <ThemedText type="defaultSemiBold">{canine.name}</ThemedText>
+                <ThemedText style={styles.cardMeta}>
+                  Added by {members.find((member) => member.userId === canine.userId)?.memberName ?? 'a former member'}
+                </ThemedText>
+              </View>
+            ))}
+            {otherHouseholdCanines.length === 0 && (!isOwner || myCanines.length === 0) && (
+              <ThemedText style={styles.cardMeta}>No pets are shared with this household yet.</ThemedText>
+            )}
+          </ThemedView>
+
+          {isOwner && (
+            <ThemedView style={styles.content}>
+              <TouchableOpacity
+                onPress={handleDeleteHousehold}
+                disabled={isSaving}
+                style={[styles.deleteButton, { borderColor: colors.danger }]}>
+                <ThemedText style={[styles.removeButtonText, { color: colors.danger }]}>Delete Household</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          )}
+        </>
+      )}
+
+      <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+        <ThemedText type="subtitle" style={styles.formTitle}>
+          {household ? 'New Household' : 'Create a Household'}
+        </ThemedText>
+        <ThemedText style={styles.helpText}>
+          Share pets with family members so they can log meals, meds and walks too.
+        </ThemedText>
+        <TextInput
+          style={[styles.input, { borderColor: colors.icon, color: colors.text }]}
+          value={householdName}
+          onChangeText={setHouseholdName}
+          placeholder="e.g. The Smiths"
+          placeholderTextColor={colors.icon}
+        />
+        <TouchableOpacity
+          onPress={handleCreate}
+          disabled={isSaving}
+          style={[styles.saveButton, { backgroundColor: colors.primary, opacity: isSaving ? 0.6 : 1 }]}>
+          <ThemedText style={styles.saveButtonText}>Create</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  formContainer: {
+    margin: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderRadius: 12,
+    backgroundColor: '#F9F9F9',
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  saveButton: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cardInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  cardMeta: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  removeButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 12,
+  },
+  removeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+});
@@ -1,24 +1,53 @@
+import { ActivityIndicator, StyleSheet } from 'react-native';
 import { Redirect } from 'expo-router';
+import { ThemedView } from '@/components/themed-view';
 import { useApp } from '@/context/AppContext';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
 
 /**
  * Initial route handler
- * Redirects based on authentication status and user role
+ * Waits for a saved session to be restored, then redirects based on
+ * authentication status and user role
  */
 export default function Index() {
-  const { isAuthenticated, userProfile } = useApp();
+  const { isAuthenticated, isRestoringSession, userProfile } = useApp();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  if (isRestoringSession) {
+    return (
+      <ThemedView style={styles.loading}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </ThemedView>
+    );
+  }
 
   // Redirect to login if not authenticated
   if (!isAuthenticated) {
     return <Redirect href="/login" />;
   }
 
-  // Redirect Admin users to admin module, others to dashboard
+  // Redirect Admin users to admin module, vets and walkers to their portals, others to dashboard
   if (userProfile?.role === 'Admin') {
     return <Redirect href="/admin" />;
   }
 
+  if (userProfile?.role === 'Vet') {
+    return <Redirect href="/vet" />;
+  }
+
+  if (userProfile?.role === 'Dog Walker') {
+    return <Redirect href="/walker" />;
+  }
+
   return <Redirect href="/(tabs)/dashboard" />;
 }
 
-
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -15,7 +15,7 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { router } from 'expo-router';
 import { useApp } from '@/context/AppContext';
-import { isSupabaseConfigured } from '@/lib/supabase';
+import { getDataBackend } from '@/services/backends';
 import { Image } from 'expo-image';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors, type ThemeColors } from '@/constants/theme';
@@ -29,15 +29,20 @@ const STORAGE_KEYS = {
 const HERO_IMAGE = require('../assets/images/login-hero.png');
 
 export default function LoginScreen() {
-  const { login } = useApp();
+  const { login, verifyTwoFactorLogin, cancelTwoFactorLogin, sessionNotice, clearSessionNotice } = useApp();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const [showLoginForm, setShowLoginForm] = useState(false);
+  // Set once the password is accepted for an account with two-factor on
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  // Go straight to the form when the user was signed out automatically
+  const [showLoginForm, setShowLoginForm] = useState(!!sessionNotice);
   const heroHeight = Math.max(Dimensions.get('window').height * 0.55, 360);
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const styles = useMemo(() => createStyles(colors), [colors]);
+  const isTestDataBackend = getDataBackend().kind !== 'supabase';
 
   // Load saved credentials on mount
   useEffect(() => {
@@ -61,23 +66,22 @@ export default function LoginScreen() {
     }
 
     setLoading(true);
+    clearSessionNotice();
     try {
-      const success = await login(email, password);
-      if (success) {
-        // Save credentials for next time
-        try {
-          await AsyncStorage.setItem(STORAGE_KEYS.LAST_EMAIL, email);
-          await AsyncStorage.setItem(STORAGE_KEYS.LAST_PASSWORD, password);
-        } catch (error) {
-          console.error('Error saving credentials:', error);
-        }
-        router.replace('/(tabs)');
-      } else {
-        Alert.alert(
-          'Login Failed',
-          'Invalid email or password. Please check your credentials and try again.'
-        );
+      const result = await login(email, password);
+      // Save credentials for next time
+      try {
+        await AsyncStorage.setItem(STORAGE_KEYS.LAST_EMAIL, email);
+        await AsyncStorage.setItem(STORAGE_KEYS.LAST_PASSWORD, password);
+      } catch (error) {
+        console.error('Error saving credentials:', error);
       }
+      if (result === 'two_factor_required') {
+        setTwoFactorCode('');
+        setNeedsTwoFactor(true);
+        return;
+      }
+      router.replace('/(tabs)');
     } catch (error: any) {
       console.error('Login error details:', error);
       Alert.alert(
@@ -89,6 +93,31 @@ export default function LoginScreen() {
     }
   };
 
+  const handleVerifyCode = async () => {
+    if (!twoFactorCode.trim()) {
+      Alert.alert('Error', 'Please enter the code from your authenticator app');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await verifyTwoFactorLogin(twoFactorCode);
+      setNeedsTwoFactor(false);
+      router.replace('/(tabs)');
+    } catch (error: any) {
+      console.error('Two-factor verification error:', error);
+      Alert.alert('Verification Failed', error?.message || 'An unexpected error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    cancelTwoFactorLogin();
+    setNeedsTwoFactor(false);
+    setTwoFactorCode('');
+  };
+
   const handleSwitchToSignup = () => {
     router.push('/signup');
   };
@@ -111,13 +140,9 @@ export default function LoginScreen() {
         </TouchableOpacity>
         <View style={styles.linkRow}>
           <ThemedText style={styles.linkText}>New user registration</ThemedText>
-          {isSupabaseConfigured ? (
-            <TouchableOpacity onPress={handleSwitchToSignup}>
-              <ThemedText style={styles.linkAction}>Sign Up</ThemedText>
-            </TouchableOpacity>
-          ) : (
-            <ThemedText style={styles.linkActionDisabled}>Sign Up</ThemedText>
-          )}
+          <TouchableOpacity onPress={handleSwitchToSignup}>
+            <ThemedText style={styles.linkAction}>Sign Up</ThemedText>
+          </TouchableOpacity>
         </View>
       </ThemedView>
     </View>
@@ -147,6 +172,13 @@ export default function LoginScreen() {
           </View>
 
           <View style={styles.form}>
+            {sessionNotice && (
+              <View style={styles.noticeBanner}>
+                <IconSymbol name="exclamationmark.triangle.fill" size={18} color={colors.warning} />
+                <ThemedText style={styles.noticeText}>{sessionNotice}</ThemedText>
+              </View>
+            )}
+
             <ThemedView style={styles.inputContainer}>
               <ThemedText style={styles.label}>Email</ThemedText>
               <TextInput
@@ -176,6 +208,15 @@ export default function LoginScreen() {
               />
             </ThemedView>
 
+            <TouchableOpacity
+              style={styles.forgotLink}
+              onPress={() => router.push('/forgot-password')}
+              disabled={loading}
+              accessibilityRole="button"
+              accessibilityLabel="Forgot password">
+              <ThemedText style={styles.forgotLinkText}>Forgot password?</ThemedText>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={[
                 styles.actionButton,
@@ -193,19 +234,92 @@ export default function LoginScreen() {
             </TouchableOpacity>
 
             <ThemedText style={styles.secondaryText}>
-              {isSupabaseConfigured
-                ? 'Don\'t have an account? Sign up below'
-                : 'Test mode: john.doe@example.com / any password'}
+              {isTestDataBackend
+                ? 'Test mode: john.doe@example.com / any password'
+                : 'Don\'t have an account? Sign up below'}
             </ThemedText>
 
-            {isSupabaseConfigured && (
-              <TouchableOpacity
-                style={styles.signupButton}
-                onPress={handleSwitchToSignup}
-                disabled={loading}>
-                <ThemedText style={styles.signupButtonText}>Sign Up</ThemedText>
-              </TouchableOpacity>
-            )}
+            <TouchableOpacity
+              style={styles.signupButton}
+              onPress={handleSwitchToSignup}
+              disabled={loading}>
+              <ThemedText style={styles.signupButtonText}>Sign Up</ThemedText>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.sharedPetLink}
+              onPress={() => router.push('/shared-pet')}
+              disabled={loading}
+              accessibilityRole="button"
+              accessibilityLabel="View a shared pet">
+              <ThemedText style={styles.forgotLinkText}>Have a share code? View a shared pet</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+
+  const renderTwoFactorForm = () => (
+    <KeyboardAvoidingView
+      style={styles.formWrapper}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      enabled={Platform.OS !== 'web'}>
+      <ScrollView
+        contentContainerStyle={styles.formScrollContent}
+        keyboardShouldPersistTaps="handled">
+        <ThemedView style={styles.formCard}>
+          <View style={styles.formHeaderRow}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={handleCancelTwoFactor}
+              accessibilityRole="button"
+              accessibilityLabel="Back to password">
+              <IconSymbol name="chevron.left" size={22} color={colors.text} />
+              <ThemedText style={styles.backButtonLabel}>Back</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="title" style={styles.formTitle}>
+              Two-Factor Check
+            </ThemedText>
+          </View>
+
+          <View style={styles.form}>
+            <ThemedText style={styles.secondaryText}>
+              Enter the 6-digit code from your authenticator app, or one of your backup codes.
+            </ThemedText>
+
+            <ThemedView style={styles.inputContainer}>
+              <ThemedText style={styles.label}>Code</ThemedText>
+              <TextInput
+                style={styles.input}
+                placeholder="123456"
+                placeholderTextColor={`${colors.tertiaryText}B0`}
+                value={twoFactorCode}
+                onChangeText={setTwoFactorCode}
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoComplete="one-time-code"
+                textContentType="oneTimeCode"
+                editable={!loading}
+                onSubmitEditing={handleVerifyCode}
+              />
+            </ThemedView>
+
+            <TouchableOpacity
+              style={[
+                styles.actionButton,
+                {
+                  opacity: loading ? 0.6 : 1,
+                },
+                Platform.OS === 'web' && styles.webButton,
+              ]}
+              onPress={handleVerifyCode}
+              disabled={loading}
+              {...(Platform.OS === 'web' && !loading && { 'data-web-hover': true })}>
+              <ThemedText style={styles.actionButtonText}>
+                {loading ? 'Verifying...' : 'Verify'}
+              </ThemedText>
+            </TouchableOpacity>
           </View>
         </ThemedView>
       </ScrollView>
@@ -216,6 +330,10 @@ export default function LoginScreen() {
     return renderLanding();
   }
 
+  if (needsTwoFactor) {
+    return renderTwoFactorForm();
+  }
+
   return renderLoginForm();
 }
 
@@ -295,11 +413,6 @@ const createStyles = (colors: ThemeColors) =>
       color: colors.tint,
       fontWeight: '600',
     },
-    linkActionDisabled: {
-      fontSize: 14,
-      color: `${colors.secondaryText}80`,
-      fontWeight: '600',
-    },
     formWrapper: {
       flex: 1,
       backgroundColor: colors.background,
@@ -346,6 +459,36 @@ const createStyles = (colors: ThemeColors) =>
     form: {
       width: '100%',
     },
+    forgotLink: {
+      alignSelf: 'flex-end',
+      marginTop: -8,
+      marginBottom: 20,
+    },
+    sharedPetLink: {
+      alignSelf: 'center',
+      marginTop: 20,
+    },
+    forgotLinkText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    noticeBanner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      padding: 12,
+      marginBottom: 20,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.warning,
+      backgroundColor: colors.surfaceMuted,
+    },
+    noticeText: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.text,
+    },
     inputContainer: {
       marginBottom: 20,
     },
@@ -0,0 +1,464 @@
+import { useState } from 'react';
+import { StyleSheet, ScrollView, TextInput, TouchableOpacity, View, Alert, Platform, Share, Switch } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useApp } from '@/context/AppContext';
+import { getPetShareUrl } from '@/services/petShares';
+import type { PetShareAccessOutcome, PetShareLink, PetShareSection } from '@/types';
+
+const SECTION_LABELS: Record<PetShareSection, string> = {
+  medicalRecords: 'Medical Records',
+  immunizations: 'Immunizations',
+  medications: 'Medications',
+  allergies: 'Allergies',
+  emergencyContacts: 'Emergency Contacts',
+};
+
+const SECTIONS = Object.keys(SECTION_LABELS) as PetShareSection[];
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: '1 week' },
+  { days: 30, label: '30 days' },
+];
+
+const OUTCOME_LABELS: Record<PetShareAccessOutcome, string> = {
+  viewed: 'Viewed',
+  expired: 'Tried after it expired',
+  revoked: 'Tried after it was revoked',
+};
+
+/**
+ * Share Links
+ * Lets an owner give one pet's health details to someone without an account
+ * through an expiring code, revoke it, and see every time a link was opened.
+ */
+export default function PetShareScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { canineId } = useLocalSearchParams<{ canineId?: string }>();
+  const { getCanine, contacts, petShareLinks, petShareAccesses, createPetShareLink, revokePetShareLink } = useApp();
+  const [label, setLabel] = useState('');
+  const [sections, setSections] = useState<PetShareSection[]>(SECTIONS);
+  // Every emergency contact is shared unless switched off here
+  const [excludedContactIds, setExcludedContactIds] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(3);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newCode, setNewCode] = useState<string | null>(null);
+
+  const canine = canineId ? getCanine(canineId) : undefined;
+  const links = petShareLinks.filter((link) => link.canineId === canineId);
+  const now = Date.now();
+  const isActive = (link: PetShareLink) => !link.revokedAt && new Date(link.expiresAt).getTime() > now;
+  const activeLinks = links.filter(isActive);
+  const pastLinks = links.filter((link) => !isActive(link));
+  const accesses = petShareAccesses.filter((access) => access.canineId === canineId);
+  const accessesFor = (link: PetShareLink) => accesses.filter((access) => access.shareLinkId === link.id);
+  const linkName = (shareLinkId: string) =>
+    links.find((link) => link.id === shareLinkId)?.label || 'Unnamed link';
+
+  const emergencyContacts = contacts.filter((contact) => contact.isEmergency);
+  const sharedContacts = emergencyContacts.filter((contact) => !excludedContactIds.includes(contact.id));
+
+  const toggleSection = (section: PetShareSection, enabled: boolean) =>
+    setSections((prev) => (enabled ? [...prev, section] : prev.filter((candidate) => candidate !== section)));
+
+  const toggleContact = (contactId: string, enabled: boolean) =>
+    setExcludedContactIds((prev) => (enabled ? prev.filter((id) => id !== contactId) : [...prev, contactId]));
+
+  const handleCreate = async () => {
+    if (!canine || isCreating) return;
+    setIsCreating(true);
+    try {
+      const result = await createPetShareLink(canine.id, sections, expiresInDays, label, sharedContacts);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
+      setLabel('');
+      setNewCode(result.data.code);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleShareCode = async (code: string) => {
+    const url = getPetShareUrl(code);
+    try {
+      await Share.share({
+        message: `View ${canine?.name ?? 'my pet'}'s health details: ${url}\nShare code: ${code}`,
+      });
+    } catch (error) {
+      console.error('Error sharing link:', error);
+    }
+  };
+
+  const revoke = async (link: PetShareLink) => {
+    const result = await revokePetShareLink(link.id);
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+    }
+  };
+
+  const handleRevoke = (link: PetShareLink) => {
+    const message = `${link.label || 'Whoever has this link'} will no longer be able to see ${canine?.name ?? 'this pet'}.`;
+    if (Platform.OS === 'web') {
+      if (typeof window !== 'undefined' && window.confirm(message)) {
+        revoke(link);
+      }
+      return;
+    }
+
+    Alert.alert('Revoke Link', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Revoke', style: 'destructive', onPress: () => revoke(link) },
+    ]);
+  };
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+          Share Links
+        </ThemedText>
+      </ThemedView>
+
+      {!canine ? (
+        <ThemedView style={styles.content}>
+          <ThemedText style={styles.emptySubtext}>This pet could not be found.</ThemedText>
+        </ThemedView>
+      ) : (
+        <>
+          {newCode && (
+            <ThemedView style={[styles.formContainer, { borderColor: colors.success }]}>
+              <ThemedText type="subtitle" style={styles.formTitle}>
+                Link Created
+              </ThemedText>
+              <ThemedText style={styles.helpText}>
+                Send this now. For your pet&apos;s privacy the code isn&apos;t stored and can&apos;t be shown again.
+              </ThemedText>
+              <ThemedText style={styles.code} selectable>
+                {newCode}
+              </ThemedText>
+              <ThemedText style={styles.grantMeta} selectable>
+                {getPetShareUrl(newCode)}
+              </ThemedText>
+              <TouchableOpacity
+                onPress={() => handleShareCode(newCode)}
+                style={[styles.saveButton, styles.shareButton, { backgroundColor: colors.primary }]}>
+                <ThemedText style={styles.saveButtonText}>Send Link</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setNewCode(null)} style={styles.doneButton}>
+                <ThemedText style={[styles.revokeButtonText, { color: colors.primary }]}>Done</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          )}
+
+          <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+            <ThemedText type="subtitle" style={styles.formTitle}>
+              Share {canine.name}
+            </ThemedText>
+            <ThemedText style={styles.helpText}>
+              Anyone with the link can see the sections you choose, without an account, until it expires or you
+              revoke it. They can&apos;t change anything.
+            </ThemedText>
+            <ThemedText style={styles.label}>Who is it for? (optional)</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: colors.icon, color: colors.text }]}
+              value={label}
+              onChangeText={setLabel}
+              placeholder="e.g. Happy Tails Boarding"
+              placeholderTextColor={colors.icon}
+            />
+            <ThemedText style={styles.label}>Sections</ThemedText>
+            {SECTIONS.map((section) => (
+              <View key={section} style={styles.switchRow}>
+                <ThemedText>{SECTION_LABELS[section]}</ThemedText>
+                <Switch value={sections.includes(section)} onValueChange={(value) => toggleSection(section, value)} />
+              </View>
+            ))}
+            {sections.includes('emergencyContacts') &&
+              (emergencyContacts.length === 0 ? (
+                <ThemedText style={[styles.grantMeta, styles.contactOption]}>
+                  Mark contacts as emergency contacts in Contacts to share them.
+                </ThemedText>
+              ) : (
+                emergencyContacts.map((contact) => (
+                  <View key={contact.id} style={[styles.switchRow, styles.contactOption]}>
+                    <View style={styles.grantInfo}>
+                      <ThemedText>{contact.name}</ThemedText>
+                      <ThemedText style={styles.grantMeta}>{contact.relationship || contact.phone}</ThemedText>
+                    </View>
+                    <Switch
+                      value={!excludedContactIds.includes(contact.id)}
+                      onValueChange={(value) => toggleContact(contact.id, value)}
+                    />
+                  </View>
+                ))
+              ))}
+            <ThemedText style={[styles.label, styles.expiryLabel]}>Expires after</ThemedText>
+            <View style={styles.chipRow}>
+              {EXPIRY_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.days}
+                  onPress={() => setExpiresInDays(option.days)}
+                  style={[
+                    styles.chip,
+                    { borderColor: colors.primary },
+                    option.days === expiresInDays && { backgroundColor: colors.primary },
+                  ]}>
+                  <ThemedText
+                    style={[styles.chipText, { color: option.days === expiresInDays ? '#fff' : colors.primary }]}>
+                    {option.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              onPress={handleCreate}
+              disabled={isCreating}
+              style={[styles.saveButton, { backgroundColor: colors.primary, opacity: isCreating ? 0.6 : 1 }]}>
+              <ThemedText style={styles.saveButtonText}>{isCreating ? 'Creating...' : 'Create Link'}</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+
+          <ThemedView style={styles.content}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Active Links ({activeLinks.length})
+            </ThemedText>
+            {activeLinks.length === 0 ? (
+              <ThemedText style={styles.emptySubtext}>{canine.name} isn&apos;t shared by link.</ThemedText>
+            ) : (
+              activeLinks.map((link) => {
+                const views = accessesFor(link).filter((access) => access.outcome === 'viewed');
+                return (
+                  <View key={link.id} style={[styles.grantCard, { borderColor: colors.icon }]}>
+                    <View style={styles.grantInfo}>
+                      <ThemedText type="defaultSemiBold">{link.label || 'Unnamed link'}</ThemedText>
+                      <ThemedText style={styles.grantMeta}>
+                        {link.sections.map((section) => SECTION_LABELS[section]).join(', ')}
+                      </ThemedText>
+                      <ThemedText style={styles.grantMeta}>
+                        Expires {new Date(link.expiresAt).toLocaleString()}
+                      </ThemedText>
+                      <ThemedText style={styles.grantMeta}>
+                        {views.length === 0
+                          ? 'Not opened yet'
+                          : `Opened ${views.length} time${views.length === 1 ? '' : 's'}, last ${new Date(views[0].createdAt).toLocaleString()}`}
+                      </ThemedText>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => handleRevoke(link)}
+                      style={[styles.revokeButton, { borderColor: colors.danger }]}
+                      accessibilityLabel={`Revoke ${link.label || 'share link'}`}>
+                      <ThemedText style={[styles.revokeButtonText, { color: colors.danger }]}>Revoke</ThemedText>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })
+            )}
+
+            {pastLinks.length > 0 && (
+              <>
+                <ThemedText type="subtitle" style={[styles.sectionTitle, styles.historyTitle]}>
+                  Expired or Revoked
+                </ThemedText>
+                {pastLinks.map((link) => (
+                  <View key={link.id} style={[styles.grantCard, { borderColor: colors.icon }]}>
+                    <View style={styles.grantInfo}>
+                      <ThemedText type="defaultSemiBold">{link.label || 'Unnamed link'}</ThemedText>
+                      <ThemedText style={styles.grantMeta}>
+                        {new Date(link.createdAt).toLocaleDateString()} –{' '}
+                        {new Date(link.revokedAt ?? link.expiresAt).toLocaleDateString()}
+                        {link.revokedAt ? ' (revoked)' : ' (expired)'}
+                      </ThemedText>
+                    </View>
+                  </View>
+                ))}
+              </>
+            )}
+
+            <ThemedText type="subtitle" style={[styles.sectionTitle, styles.historyTitle]}>
+              Access Log ({accesses.length})
+            </ThemedText>
+            {accesses.length === 0 ? (
+              <ThemedText style={styles.emptySubtext}>No one has opened a link yet.</ThemedText>
+            ) : (
+              accesses.map((access) => (
+                <View key={access.id} style={styles.logRow}>
+                  <ThemedText style={styles.grantMeta}>{new Date(access.createdAt).toLocaleString()}</ThemedText>
+                  <ThemedText>
+                    {linkName(access.shareLinkId)} • {OUTCOME_LABELS[access.outcome]} ({access.platform})
+                  </ThemedText>
+                </View>
+              ))
+            )}
+          </ThemedView>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  formContainer: {
+    margin: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderRadius: 12,
+    backgroundColor: '#F9F9F9',
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  contactOption: {
+    paddingLeft: 16,
+  },
+  expiryLabel: {
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  code: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    letterSpacing: 4,
+    lineHeight: 36,
+    marginBottom: 8,
+  },
+  saveButton: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  shareButton: {
+    marginTop: 16,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  doneButton: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  content: {
+    padding: 20,
+    paddingTop: 0,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  historyTitle: {
+    marginTop: 12,
+  },
+  grantCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  grantInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  grantMeta: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  revokeButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 12,
+  },
+  revokeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  logRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { StyleSheet, ScrollView, TextInput, TouchableOpacity, View, Platform } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { openPetShareLink, type SharedPetView } from '@/services/petShares';
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : '—');
+
+/**
+ * Shared Pet
+ * The read-only view behind a share link. Works without an account: the code
+ * from the link (or typed in) decides which pet and sections are shown.
+ */
+export default function SharedPetScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const params = useLocalSearchParams<{ code?: string }>();
+  const [code, setCode] = useState(params.code ?? '');
+  const [view, setView] = useState<SharedPetView | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  // Guards against a second open while one is running without making `open` change with every render
+  const isOpeningRef = useRef(false);
+
+  const open = useCallback(async (value: string) => {
+    if (!value.trim() || isOpeningRef.current) return;
+    isOpeningRef.current = true;
+    setIsOpening(true);
+    setErrorMessage(null);
+    try {
+      setView(await openPetShareLink(value));
+    } catch (error: any) {
+      console.error('Error opening share link:', error);
+      setView(null);
+      setErrorMessage(error.message || 'Unable to open this share link. Please try again later.');
+    } finally {
+      isOpeningRef.current = false;
+      setIsOpening(false);
+    }
+  }, []);
+
+  // Links carry the code, so open them straight away
+  useEffect(() => {
+    if (params.code) {
+      open(params.code);
+    }
+  }, [params.code, open]);
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/login');
+    }
+  };
+
+  const renderSection = (title: string, items: { key: string; title: string; lines: string[] }[] | undefined) => {
+    if (!items) return null;
+    return (
+      <ThemedView style={styles.content}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          {title} ({items.length})
+        </ThemedText>
+        {items.length === 0 ? (
+          <ThemedText style={styles.cardMeta}>Nothing recorded.</ThemedText>
+        ) : (
+          items.map((item) => (
+            <View key={item.key} style={[styles.card, { borderColor: colors.icon }]}>
+              <ThemedText type="defaultSemiBold">{item.title}</ThemedText>
+              {item.lines.filter(Boolean).map((line, index) => (
+                <ThemedText key={index} style={styles.cardMeta}>
+                  {line}
+                </ThemedText>
+              ))}
+            </View>
+          ))
+        )}
+      </ThemedView>
+    );
+  };
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+          {view ? view.canine.name : 'Shared Pet'}
+        </ThemedText>
+      </ThemedView>
+
+      {!view ? (
+        <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+          <ThemedText style={styles.helpText}>
+            Enter the share code the pet&apos;s owner gave you to see their pet&apos;s health details.
+          </ThemedText>
+          <TextInput
+            style={[styles.input, { borderColor: colors.icon, color: colors.text }]}
+            value={code}
+            onChangeText={setCode}
+            placeholder="Share code"
+            placeholderTextColor={colors.icon}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {!!errorMessage && (
+            <ThemedText style={[styles.errorText, { color: colors.danger }]}>{errorMessage}</ThemedText>
+          )}
+          <TouchableOpacity
+            onPress={() => open(code)}
+            disabled={isOpening}
+            style={[styles.saveButton, { backgroundColor: colors.primary, opacity: isOpening ? 0.6 : 1 }]}>
+            <ThemedText style={styles.saveButtonText}>{isOpening ? 'Opening...' : 'View Pet'}</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      ) : (
+        <>
+          <ThemedView style={styles.content}>
+            <View style={[styles.card, { borderColor: colors.icon }]}>
+              <ThemedText style={styles.cardMeta}>
+                {[view.canine.breed, view.canine.gender, view.canine.color].filter(Boolean).join(' • ') || 'No details'}
+              </ThemedText>
+              {!!view.canine.dateOfBirth && (
+                <ThemedText style={styles.cardMeta}>Born {formatDate(view.canine.dateOfBirth)}</ThemedText>
+              )}
+              {view.canine.weight != null && (
+                <ThemedText style={styles.cardMeta}>
+                  Weight {view.canine.weight} {view.canine.weightUnit ?? 'kg'}
+                </ThemedText>
+              )}
+              {!!view.canine.microchipNumber && (
+                <ThemedText style={styles.cardMeta}>Microchip {view.canine.microchipNumber}</ThemedText>
+              )}
+            </View>
+            <ThemedText style={styles.helpText}>
+              Shared read-only until {new Date(view.expiresAt).toLocaleString()}.
+            </ThemedText>
+          </ThemedView>
+
+          {renderSection(
+            'Allergies',
+            view.allergies?.map((allergy) => ({
+              key: allergy.id,
+              title: allergy.name,
+              lines: [allergy.foodType],
+            }))
+          )}
+          {renderSection(
+            'Medications',
+            view.medications?.map((medication) => ({
+              key: medication.id,
+              title: medication.medicationName,
+              lines: [
+                `${medication.quantity} ${medication.dosageUnit} • ${medication.frequency}`,
+                medication.reason,
+                `${formatDate(medication.startDate)} – ${medication.endDate ? formatDate(medication.endDate) : 'ongoing'}`,
+                medication.notes ?? '',
+              ],
+            }))
+          )}
+          {renderSection(
+            'Immunizations',
+            view.immunizations?.map((record) => ({
+              key: record.id,
+              title: record.vaccineName,
+              lines: [`Given ${formatDate(record.immunizationDate)}`, record.vetName, record.notes ?? ''],
+            }))
+          )}
+          {renderSection(
+            'Medical Records',
+            view.medicalRecords?.map((record) => ({
+              key: record.id,
+              title: record.reportType,
+              lines: [
+                `${formatDate(record.reportDate ?? record.createdAt)} • ${record.vetName}, ${record.clinicName}`,
+                record.notes ?? '',
+                record.attachments.length > 0
+                  ? `${record.attachments.length} attachment${record.attachments.length === 1 ? '' : 's'}`
+                  : '',
+              ],
+            }))
+          )}
+          {renderSection(
+            'Emergency Contacts',
+            view.emergencyContacts?.map((contact) => ({
+              key: contact.id,
+              title: contact.name,
+              lines: [contact.relationship ?? '', contact.phone, contact.email ?? ''],
+            }))
+          )}
+          <View style={styles.footer} />
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  formContainer: {
+    margin: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderRadius: 12,
+    backgroundColor: '#F9F9F9',
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  saveButton: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+    gap: 4,
+  },
+  cardMeta: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  footer: {
+    height: 40,
+  },
+});
@@ -15,7 +15,6 @@ import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { router } from 'expo-router';
 import { useApp } from '@/context/AppContext';
-import { validateActivationCode } from '@/utils/giftCodes';
 
 const STORAGE_KEYS = {
   LAST_EMAIL: '@ava_last_email',
@@ -66,13 +65,6 @@ export default function SignupScreen() {
       return;
     }
 
-    // Validate activation code
-    const activationCodeInfo = validateActivationCode(activationCode);
-    if (!activationCodeInfo.valid) {
-      Alert.alert('Invalid Activation Code', activationCodeInfo.description || 'Please enter a valid activation code to sign up.');
-      return;
-    }
-
     setLoading(true);
     try {
       const result = await signup(email, password, firstName, lastName, activationCode);
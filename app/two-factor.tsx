@@ -0,0 +1,365 @@
+import { useState } from 'react';
+import { StyleSheet, ScrollView, TextInput, TouchableOpacity, View, Alert, Platform, Share, Linking } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useApp } from '@/context/AppContext';
+import QRCode from 'react-native-qrcode-svg';
+
+// Large enough for phone cameras to pick up the otpauth link from a screen
+const QR_CODE_SIZE = 200;
+
+// Groups of four are easier to type into an authenticator app
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+/**
+ * Two-Factor Authentication
+ * Sets up an authenticator app for login codes, shows backup codes once, and
+ * turns two-factor login off again. Admin accounts are sent here when admins
+ * are required to use it.
+ */
+export default function TwoFactorScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const {
+    twoFactorStatus,
+    twoFactorSetupRequired,
+    appSettings,
+    userProfile,
+    startTwoFactorEnrollment,
+    confirmTwoFactorEnrollment,
+    regenerateTwoFactorBackupCodes,
+    disableTwoFactor,
+    logout,
+  } = useApp();
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isRequired = userProfile?.role === 'Admin' && !!appSettings?.requireAdminTwoFactor;
+
+  const run = async <T,>(task: () => Promise<T>, onDone: (value: T) => void) => {
+    if (isWorking) return;
+    setIsWorking(true);
+    try {
+      onDone(await task());
+      setCode('');
+    } catch (error: any) {
+      console.error('Two-factor error:', error);
+      Alert.alert('Error', error?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStart = () => run(startTwoFactorEnrollment, setEnrollment);
+
+  const handleConfirm = () =>
+    run(
+      () => confirmTwoFactorEnrollment(code),
+      (codes) => {
+        setEnrollment(null);
+        setBackupCodes(codes);
+      }
+    );
+
+  const handleRegenerate = () => run(() => regenerateTwoFactorBackupCodes(code), setBackupCodes);
+
+  const handleDisable = () => {
+    const message = 'Logging in will only need your password. You can turn two-factor back on at any time.';
+    const disable = () =>
+      run(
+        () => disableTwoFactor(code),
+        () => Alert.alert('Two-factor is off', 'Your authenticator app is no longer needed to log in.')
+      );
+    if (Platform.OS === 'web') {
+      if (typeof window !== 'undefined' && window.confirm(message)) {
+        disable();
+      }
+      return;
+    }
+
+    Alert.alert('Turn Off Two-Factor', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Turn Off', style: 'destructive', onPress: disable },
+    ]);
+  };
+
+  const handleOpenAuthenticator = async (otpauthUri: string) => {
+    try {
+      await Linking.openURL(otpauthUri);
+    } catch (error) {
+      console.error('Error opening authenticator app:', error);
+      Alert.alert('No authenticator app found', 'Type the setup key into your authenticator app instead.');
+    }
+  };
+
+  const handleShareBackupCodes = async (codes: string[]) => {
+    try {
+      await Share.share({ message: `AVA backup codes (each works once):\n${codes.join('\n')}` });
+    } catch (error) {
+      console.error('Error sharing backup codes:', error);
+    }
+  };
+
+  const handleBack = async () => {
+    if (!twoFactorSetupRequired) {
+      // Admins are redirected here without a screen to go back to
+      if (router.canGoBack()) {
+        router.back();
+      } else {
+        router.replace('/');
+      }
+      return;
+    }
+    // Nothing else is available until setup is done, so leaving means logging out
+    await logout();
+    router.replace('/login');
+  };
+
+  const renderCodeInput = (placeholder: string) => (
+    <TextInput
+      style={[styles.input, { borderColor: colors.icon, color: colors.text }]}
+      value={code}
+      onChangeText={setCode}
+      placeholder={placeholder}
+      placeholderTextColor={colors.icon}
+      autoCapitalize="none"
+      autoCorrect={false}
+      autoComplete="one-time-code"
+      textContentType="oneTimeCode"
+    />
+  );
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+          Two-Factor
+        </ThemedText>
+      </ThemedView>
+
+      {twoFactorSetupRequired && (
+        <ThemedView style={[styles.formContainer, { borderColor: colors.warning }]}>
+          <ThemedText style={styles.helpText}>
+            Two-factor authentication is required for admin accounts. Set it up to continue, or go back to log out.
+          </ThemedText>
+        </ThemedView>
+      )}
+
+      {backupCodes && (
+        <ThemedView style={[styles.formContainer, { borderColor: colors.success }]}>
+          <ThemedText type="subtitle" style={styles.formTitle}>
+            Backup Codes
+          </ThemedText>
+          <ThemedText style={styles.helpText}>
+            Keep these somewhere safe. Each one logs you in once if you lose your phone. They won&apos;t be shown
+            again.
+          </ThemedText>
+          <View style={styles.codeGrid}>
+            {backupCodes.map((backupCode) => (
+              <ThemedText key={backupCode} style={styles.backupCode} selectable>
+                {backupCode}
+              </ThemedText>
+            ))}
+          </View>
+          <TouchableOpacity
+            onPress={() => handleShareBackupCodes(backupCodes)}
+            style={[styles.saveButton, styles.shareButton, { backgroundColor: colors.primary }]}>
+            <ThemedText style={styles.saveButtonText}>Save Codes</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setBackupCodes(null)} style={styles.doneButton}>
+            <ThemedText style={[styles.linkButtonText, { color: colors.primary }]}>Done</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      )}
+
+      {twoFactorStatus.enabled ? (
+        <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+          <ThemedText type="subtitle" style={styles.formTitle}>
+            Two-factor is on
+          </ThemedText>
+          <ThemedText style={styles.helpText}>
+            Logging in needs your password and a code from your authenticator app.{' '}
+            {twoFactorStatus.backupCodesRemaining} backup code
+            {twoFactorStatus.backupCodesRemaining === 1 ? '' : 's'} left.
+          </ThemedText>
+          <ThemedText style={styles.label}>Current code</ThemedText>
+          {renderCodeInput('Authenticator or backup code')}
+          <TouchableOpacity
+            onPress={handleRegenerate}
+            disabled={isWorking}
+            style={[styles.saveButton, { backgroundColor: colors.primary, opacity: isWorking ? 0.6 : 1 }]}>
+            <ThemedText style={styles.saveButtonText}>New Backup Codes</ThemedText>
+          </TouchableOpacity>
+          {!isRequired && (
+            <TouchableOpacity onPress={handleDisable} disabled={isWorking} style={styles.doneButton}>
+              <ThemedText style={[styles.linkButtonText, { color: colors.danger }]}>Turn Off Two-Factor</ThemedText>
+            </TouchableOpacity>
+          )}
+        </ThemedView>
+      ) : enrollment ? (
+        <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+          <ThemedText type="subtitle" style={styles.formTitle}>
+            Add AVA to your authenticator app
+          </ThemedText>
+          <ThemedText style={styles.helpText}>
+            Scan this code with your authenticator app. If you can&apos;t scan it, add an account in the app and type in
+            the key below.
+          </ThemedText>
+          <View style={styles.qrCode}>
+            <QRCode value={enrollment.otpauthUri} size={QR_CODE_SIZE} />
+          </View>
+          <ThemedText style={[styles.label, styles.codeLabel]}>Setup key</ThemedText>
+          <ThemedText style={styles.secret} selectable>
+            {formatSecret(enrollment.secret)}
+          </ThemedText>
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity
+              onPress={() => handleOpenAuthenticator(enrollment.otpauthUri)}
+              style={[styles.saveButton, styles.shareButton, { backgroundColor: colors.primary }]}>
+              <ThemedText style={styles.saveButtonText}>Open Authenticator App</ThemedText>
+            </TouchableOpacity>
+          )}
+          <ThemedText style={[styles.label, styles.codeLabel]}>Code from the app</ThemedText>
+          {renderCodeInput('123456')}
+          <TouchableOpacity
+            onPress={handleConfirm}
+            disabled={isWorking}
+            style={[styles.saveButton, { backgroundColor: colors.primary, opacity: isWorking ? 0.6 : 1 }]}>
+            <ThemedText style={styles.saveButtonText}>{isWorking ? 'Checking...' : 'Turn On'}</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setEnrollment(null)} style={styles.doneButton}>
+            <ThemedText style={[styles.linkButtonText, { color: colors.primary }]}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      ) : (
+        <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+          <ThemedText type="subtitle" style={styles.formTitle}>
+            Protect your account
+          </ThemedText>
+          <ThemedText style={styles.helpText}>
+            Your account holds your pets&apos; medical records and your home address. With two-factor on, logging
+            in also needs a code from an authenticator app such as Google Authenticator, 1Password or Authy.
+          </ThemedText>
+          <TouchableOpacity
+            onPress={handleStart}
+            disabled={isWorking}
+            style={[styles.saveButton, { backgroundColor: colors.primary, opacity: isWorking ? 0.6 : 1 }]}>
+            <ThemedText style={styles.saveButtonText}>Set Up Two-Factor</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  formContainer: {
+    margin: 20,
+    marginBottom: 0,
+    padding: 20,
+    borderWidth: 1,
+    borderRadius: 12,
+    backgroundColor: '#F9F9F9',
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  codeLabel: {
+    marginTop: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  qrCode: {
+    alignSelf: 'center',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+  },
+  secret: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+    lineHeight: 28,
+    marginBottom: 8,
+  },
+  codeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  backupCode: {
+    width: '48%',
+    fontSize: 16,
+    fontWeight: '600',
+    letterSpacing: 1,
+  },
+  saveButton: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  shareButton: {
+    marginTop: 16,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  doneButton: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
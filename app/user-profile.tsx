@@ -19,10 +19,14 @@ import { ThemedView } from '@/components/themed-view';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useApp } from '@/context/AppContext';
-import { UserProfile } from '@/types';
+import { UserProfile, WeightUnit } from '@/types';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { isSupabaseConfigured } from '@/lib/supabase';
 import { uploadMediaToSupabase } from '@/services/storage';
+import { formatBytes, getEntitlements } from '@/utils/entitlements';
+import { getPreferredWeightUnit } from '@/utils/weight';
+
+const WEIGHT_UNITS: WeightUnit[] = ['kg', 'lbs'];
 
 function createInitialForm(profile?: UserProfile | null): Partial<UserProfile> {
   return {
@@ -46,7 +50,16 @@ export default function UserProfileScreen() {
   const colors = Colors[colorScheme ?? 'light'];
   const { mode } = useLocalSearchParams<{ mode?: string }>();
   const normalizedMode = Array.isArray(mode) ? mode[0] : mode;
-  const { userProfile, setUserProfile, updateUserProfile, canines, appointments } = useApp();
+  const {
+    userProfile,
+    setUserProfile,
+    updateUserProfile,
+    canines,
+    appointments,
+    subscriptionTier,
+    entitlementUsage,
+    twoFactorStatus,
+  } = useApp();
 
   const [isEditing, setIsEditing] = useState(!userProfile || normalizedMode === 'edit');
   const [formData, setFormData] = useState<Partial<UserProfile>>(() => createInitialForm(userProfile));
@@ -108,10 +121,14 @@ export default function UserProfileScreen() {
 
     try {
       if (userProfile) {
-        await updateUserProfile({
+        const result = await updateUserProfile({
           ...formData,
           updatedAt: now,
         });
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+          return;
+        }
         Alert.alert('Success', 'Profile updated successfully.');
       } else {
         const newProfile: UserProfile = {
@@ -152,6 +169,90 @@ export default function UserProfileScreen() {
     </View>
   );
 
+  const renderSubscription = () => {
+    const limits = getEntitlements(subscriptionTier);
+    const describe = (used: number, limit: number | null, format: (value: number) => string = String) =>
+      limit === null ? `${format(used)} (unlimited)` : `${format(used)} of ${format(limit)}`;
+    return (
+      <>
+        <ThemedText type="subtitle" style={styles.sectionHeading}>
+          Subscription
+        </ThemedText>
+        <View style={styles.infoGrid}>
+          {renderInfoItem('Plan', subscriptionTier)}
+          {renderInfoItem('Pets', describe(entitlementUsage.canines, limits.maxCanines))}
+          {renderInfoItem(
+            'Photo & Video Storage',
+            describe(entitlementUsage.mediaStorageBytes, limits.mediaStorageBytes, formatBytes)
+          )}
+          {renderInfoItem(
+            'Medical Attachments',
+            describe(entitlementUsage.medicalAttachments, limits.maxMedicalAttachments)
+          )}
+        </View>
+      </>
+    );
+  };
+
+  const renderTwoFactor = () => (
+    <>
+      <ThemedText type="subtitle" style={styles.sectionHeading}>
+        Two-Factor Authentication
+      </ThemedText>
+      <ThemedText style={styles.twoFactorText}>
+        {twoFactorStatus.enabled
+          ? `On. ${twoFactorStatus.backupCodesRemaining} backup code${twoFactorStatus.backupCodesRemaining === 1 ? '' : 's'} left.`
+          : 'Off. Turn it on to need a code from an authenticator app as well as your password.'}
+      </ThemedText>
+      <TouchableOpacity
+        style={[styles.twoFactorButton, { backgroundColor: colors.primary }]}
+        onPress={() => router.push('/two-factor')}
+        accessibilityRole="button">
+        <ThemedText style={styles.primaryButtonText}>{twoFactorStatus.enabled ? 'Manage' : 'Set Up'}</ThemedText>
+      </TouchableOpacity>
+    </>
+  );
+
+  const handleWeightUnitChange = async (unit: WeightUnit) => {
+    const result = await updateUserProfile({ preferredWeightUnit: unit });
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+    }
+  };
+
+  const renderWeightUnits = () => {
+    const selectedUnit = getPreferredWeightUnit(userProfile);
+    return (
+      <>
+        <ThemedText type="subtitle" style={styles.sectionHeading}>
+          Weight Units
+        </ThemedText>
+        <ThemedText style={styles.twoFactorText}>
+          Pet weights are shown in this unit; each measurement keeps the unit it was logged in.
+        </ThemedText>
+        <View style={styles.unitRow}>
+          {WEIGHT_UNITS.map((unit) => {
+            const isSelected = unit === selectedUnit;
+            return (
+              <TouchableOpacity
+                key={unit}
+                style={
+                  isSelected
+                    ? [styles.primaryButton, { backgroundColor: colors.primary }]
+                    : [styles.secondaryButton, { borderColor: colors.border }]
+                }
+                onPress={() => handleWeightUnitChange(unit)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}>
+                <ThemedText style={isSelected ? styles.primaryButtonText : styles.secondaryButtonText}>{unit}</ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </>
+    );
+  };
+
   const renderProfileDetails = () => {
     const displayProfile = userProfile ?? (formData as UserProfile);
     return (
@@ -370,6 +471,11 @@ export default function UserProfileScreen() {
         </View>
 
         <ThemedView style={styles.card}>{renderForm()}</ThemedView>
+        {userProfile && userProfile.role !== 'Admin' && !isEditing && (
+          <ThemedView style={styles.card}>{renderSubscription()}</ThemedView>
+        )}
+        {userProfile && !isEditing && <ThemedView style={styles.card}>{renderWeightUnits()}</ThemedView>}
+        {userProfile && !isEditing && <ThemedView style={styles.card}>{renderTwoFactor()}</ThemedView>}
       </ScrollView>
     </KeyboardAvoidingView>
   );
@@ -568,6 +674,21 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  twoFactorText: {
+    fontSize: 15,
+    color: '#4B5563',
+    marginBottom: 16,
+  },
+  unitRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  twoFactorButton: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   inputContainer: {
     width: '100%',
     gap: 8,
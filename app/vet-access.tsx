@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { StyleSheet, ScrollView, TextInput, TouchableOpacity, View, Alert, Platform } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useApp } from '@/context/AppContext';
+import type { VetAccessGrant } from '@/types';
+
+/**
+ * Vet Access
+ * Lets an owner share one pet with vets, who can then see its health history
+ * in the vet portal and add visits and medical records, and revoke that access.
+ */
+export default function VetAccessScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { canineId } = useLocalSearchParams<{ canineId?: string }>();
+  const { getCanine, vetAccessGrants, shareCanineWithVet, revokeVetAccess } = useApp();
+  const [vetEmail, setVetEmail] = useState('');
+  const [isSharing, setIsSharing] = useState(false);
+
+  const canine = canineId ? getCanine(canineId) : undefined;
+  const grants = vetAccessGrants.filter((grant) => grant.canineId === canineId);
+  const activeGrants = grants.filter((grant) => !grant.revokedAt);
+  const revokedGrants = grants.filter((grant) => grant.revokedAt);
+
+  const handleShare = async () => {
+    if (!canine || isSharing) return;
+    setIsSharing(true);
+    try {
+      const result = await shareCanineWithVet(canine.id, vetEmail);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
+      setVetEmail('');
+      Alert.alert('Shared', `${canine.name} is now shared with ${result.data.vetName}.`);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const revoke = async (grant: VetAccessGrant) => {
+    const result = await revokeVetAccess(grant.id);
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+    }
+  };
+
+  const handleRevoke = (grant: VetAccessGrant) => {
+    const message = `${grant.vetName} will no longer be able to see ${canine?.name ?? 'this pet'}'s records.`;
+    if (Platform.OS === 'web') {
+      if (typeof window !== 'undefined' && window.confirm(message)) {
+        revoke(grant);
+      }
+      return;
+    }
+
+    Alert.alert('Revoke Access', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Revoke', style: 'destructive', onPress: () => revoke(grant) },
+    ]);
+  };
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+          Vet Access
+        </ThemedText>
+      </ThemedView>
+
+      {!canine ? (
+        <ThemedView style={styles.content}>
+          <ThemedText style={styles.emptySubtext}>This pet could not be found.</ThemedText>
+        </ThemedView>
+      ) : (
+        <>
+          <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+            <ThemedText type="subtitle" style={styles.formTitle}>
+              Share {canine.name} with a Vet
+            </ThemedText>
+            <ThemedText style={styles.helpText}>
+              The vet will be able to see medical records, immunizations, medications, allergies and vet visits, and
+              add visits and medical records. They can&apos;t change or delete anything you entered.
+            </ThemedText>
+            <ThemedText style={styles.label}>Vet&apos;s account email</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: colors.icon, color: colors.text }]}
+              value={vetEmail}
+              onChangeText={setVetEmail}
+              placeholder="vet@example.com"
+              placeholderTextColor={colors.icon}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+            />
+            <TouchableOpacity
+              onPress={handleShare}
+              disabled={isSharing}
+              style={[styles.saveButton, { backgroundColor: colors.primary, opacity: isSharing ? 0.6 : 1 }]}>
+              <ThemedText style={styles.saveButtonText}>{isSharing ? 'Sharing...' : 'Share'}</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+
+          <ThemedView style={styles.content}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Shared With ({activeGrants.length})
+            </ThemedText>
+            {activeGrants.length === 0 ? (
+              <ThemedText style={styles.emptySubtext}>{canine.name} isn&apos;t shared with any vets.</ThemedText>
+            ) : (
+              activeGrants.map((grant) => (
+                <View key={grant.id} style={[styles.grantCard, { borderColor: colors.icon }]}>
+                  <View style={styles.grantInfo}>
+                    <ThemedText type="defaultSemiBold">{grant.vetName}</ThemedText>
+                    <ThemedText style={styles.grantMeta}>{grant.vetEmail}</ThemedText>
+                    <ThemedText style={styles.grantMeta}>
+                      Shared {new Date(grant.createdAt).toLocaleDateString()}
+                    </ThemedText>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => handleRevoke(grant)}
+                    style={[styles.revokeButton, { borderColor: colors.danger }]}
+                    accessibilityLabel={`Revoke access for ${grant.vetName}`}>
+                    <ThemedText style={[styles.revokeButtonText, { color: colors.danger }]}>Revoke</ThemedText>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+
+            {revokedGrants.length > 0 && (
+              <>
+                <ThemedText type="subtitle" style={[styles.sectionTitle, styles.historyTitle]}>
+                  Revoked
+                </ThemedText>
+                {revokedGrants.map((grant) => (
+                  <View key={grant.id} style={[styles.grantCard, { borderColor: colors.icon }]}>
+                    <View style={styles.grantInfo}>
+                      <ThemedText type="defaultSemiBold">{grant.vetName}</ThemedText>
+                      <ThemedText style={styles.grantMeta}>
+                        {new Date(grant.createdAt).toLocaleDateString()} –{' '}
+                        {new Date(grant.revokedAt!).toLocaleDateString()}
+                      </ThemedText>
+                    </View>
+                  </View>
+                ))}
+              </>
+            )}
+          </ThemedView>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  formContainer: {
+    margin: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderRadius: 12,
+    backgroundColor: '#F9F9F9',
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  saveButton: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 0,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  historyTitle: {
+    marginTop: 12,
+  },
+  grantCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  grantInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  grantMeta: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  revokeButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 12,
+  },
+  revokeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+});
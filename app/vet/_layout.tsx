@@ -0,0 +1,14 @@
+import { Stack } from 'expo-router';
+
+/**
+ * Vet Portal Layout
+ * Handles routing for the screens vets use to see pets shared with them
+ */
+export default function VetLayout() {
+  return (
+    <Stack>
+      <Stack.Screen name="index" options={{ headerShown: false }} />
+      <Stack.Screen name="patient" options={{ headerShown: false }} />
+    </Stack>
+  );
+}
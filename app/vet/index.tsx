@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { StyleSheet, ScrollView, TouchableOpacity, View, Platform, Alert, FlatList, RefreshControl } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useApp } from '@/context/AppContext';
+
+/**
+ * Vet Portal
+ * Lists the pets whose owners have shared them with the signed-in vet
+ */
+export default function VetPortalScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { userProfile, sharedCanines, medicalRecords, vetVisits, logout, refreshData } = useApp();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await refreshData();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const confirmAndLogout = async () => {
+    try {
+      await logout();
+      router.replace('/login');
+    } catch (error) {
+      console.error('Logout error:', error);
+      Alert.alert('Error', 'Failed to logout. Please try again.');
+    }
+  };
+
+  const handleLogout = () => {
+    if (Platform.OS === 'web') {
+      if (typeof window !== 'undefined' && window.confirm('Are you sure you want to logout?')) {
+        confirmAndLogout();
+      }
+      return;
+    }
+
+    Alert.alert('Logout', 'Are you sure you want to logout?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Logout', style: 'destructive', onPress: confirmAndLogout },
+    ]);
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}>
+      <ThemedView style={styles.header}>
+        <View style={styles.headerTop}>
+          <View style={styles.headerTextContainer}>
+            <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+              Vet Portal
+            </ThemedText>
+            <ThemedText style={styles.subtitle}>
+              Welcome, {userProfile?.firstName} {userProfile?.lastName}
+            </ThemedText>
+          </View>
+          <TouchableOpacity
+            onPress={handleLogout}
+            style={[styles.logoutButton, { borderColor: colors.icon }]}
+            accessibilityLabel="Logout">
+            <IconSymbol name="rectangle.portrait.and.arrow.right" size={20} color={colors.text} />
+            <ThemedText style={styles.logoutButtonText}>Logout</ThemedText>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.navBar}>
+          <TouchableOpacity
+            style={[styles.navItem, { borderColor: colors.icon }]}
+            onPress={() => router.push('/(tabs)')}
+            activeOpacity={0.8}>
+            <ThemedText style={[styles.navItemText, { color: colors.primary }]}>My Pets</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.navItem, { borderColor: colors.icon }]}
+            onPress={() => router.push('/user-profile')}
+            activeOpacity={0.8}>
+            <ThemedText style={[styles.navItemText, { color: colors.primary }]}>My Account</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+
+      <ThemedView style={styles.content}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          Shared Patients ({sharedCanines.length})
+        </ThemedText>
+
+        {sharedCanines.length === 0 ? (
+          <ThemedView style={styles.emptyState}>
+            <IconSymbol name="stethoscope" size={48} color={colors.icon} />
+            <ThemedText style={styles.emptyText}>No shared patients yet</ThemedText>
+            <ThemedText style={styles.emptySubtext}>
+              Pet owners can share a pet with you from its profile using your account email, {userProfile?.email}.
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          <FlatList
+            data={sharedCanines}
+            keyExtractor={(item) => item.id}
+            scrollEnabled={false}
+            renderItem={({ item }) => {
+              const recordCount = medicalRecords.filter((record) => record.canineId === item.id).length;
+              const visitCount = vetVisits.filter((visit) => visit.canineId === item.id).length;
+              return (
+                <TouchableOpacity
+                  style={[styles.patientCard, { borderColor: colors.icon }]}
+                  onPress={() => router.push(`/vet/patient?id=${item.id}`)}
+                  activeOpacity={0.7}>
+                  <View style={styles.patientInfo}>
+                    <ThemedText type="defaultSemiBold" style={styles.patientName}>
+                      {item.name}
+                    </ThemedText>
+                    <ThemedText style={styles.patientSummary} numberOfLines={1}>
+                      {[item.breed, item.gender, item.dateOfBirth && `Born ${new Date(item.dateOfBirth).toLocaleDateString()}`]
+                        .filter(Boolean)
+                        .join(' • ') || 'No details'}
+                    </ThemedText>
+                    <ThemedText style={styles.patientSummary}>
+                      {visitCount} visit{visitCount === 1 ? '' : 's'} • {recordCount} medical record{recordCount === 1 ? '' : 's'}
+                    </ThemedText>
+                  </View>
+                  <IconSymbol name="chevron.right" size={16} color={colors.icon} />
+                </TouchableOpacity>
+              );
+            }}
+          />
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  headerTop: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  logoutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 6,
+    marginLeft: 12,
+    ...(Platform.OS === 'web' && {
+      cursor: 'pointer',
+    }),
+  },
+  logoutButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  navBar: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 16,
+  },
+  navItem: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderRadius: 999,
+    backgroundColor: '#FFFFFF',
+    ...(Platform.OS === 'web' && {
+      cursor: 'pointer',
+    }),
+  },
+  navItemText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  patientCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+    ...(Platform.OS === 'web' && {
+      cursor: 'pointer',
+    }),
+  },
+  patientInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  patientName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  patientSummary: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
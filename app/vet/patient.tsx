@@ -0,0 +1,325 @@
+import { ReactNode } from 'react';
+import { StyleSheet, ScrollView, TouchableOpacity, View, Platform } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { LabResultList } from '@/components/lab-result-list';
+import { useApp } from '@/context/AppContext';
+
+const formatDate = (value?: string) => {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString();
+};
+
+/**
+ * Shared Patient
+ * A pet's health history as seen by a vet it was shared with. Vets can add
+ * visits and medical records; everything else is read-only.
+ */
+export default function VetPatientScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const {
+    getSharedCanine,
+    medicalRecords,
+    getLabResultsByCanine,
+    getVetVisitsByCanine,
+    getMedicationsByCanine,
+    getImmunizationsByCanine,
+    getCanineAllergiesByCanine,
+  } = useApp();
+
+  const canine = id ? getSharedCanine(id) : undefined;
+  const canineId = canine?.id ?? '';
+
+  const visits = [...getVetVisitsByCanine(canineId)].sort((a, b) => b.visitDate.localeCompare(a.visitDate));
+  const records = medicalRecords
+    .filter((record) => record.canineId === canineId)
+    .sort((a, b) => (b.reportDate ?? b.createdAt).localeCompare(a.reportDate ?? a.createdAt));
+  const labResults = getLabResultsByCanine(canineId);
+  const medications = getMedicationsByCanine(canineId);
+  const immunizations = getImmunizationsByCanine(canineId);
+  const allergies = getCanineAllergiesByCanine(canineId);
+
+  if (!canine) {
+    return (
+      <ThemedView style={[styles.container, styles.emptyState, { backgroundColor: colors.background }]}>
+        <IconSymbol name="lock.fill" size={48} color={colors.icon} />
+        <ThemedText style={styles.emptyText}>This pet is not shared with you</ThemedText>
+        <ThemedText style={styles.emptySubtext}>The owner may have revoked your access.</ThemedText>
+        <TouchableOpacity onPress={() => router.back()} style={[styles.actionButton, { backgroundColor: colors.primary }]}>
+          <ThemedText style={styles.actionButtonText}>Back to Patients</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  }
+
+  const renderSection = (title: string, count: number, emptyText: string, children: ReactNode) => (
+    <ThemedView style={styles.section}>
+      <ThemedText type="subtitle" style={styles.sectionTitle}>
+        {title} ({count})
+      </ThemedText>
+      {count === 0 ? <ThemedText style={styles.emptySection}>{emptyText}</ThemedText> : children}
+    </ThemedView>
+  );
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerTextContainer}>
+          <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+            {canine.name}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>
+            {[
+              canine.breed,
+              canine.gender,
+              canine.dateOfBirth && `Born ${formatDate(canine.dateOfBirth)}`,
+              canine.weight && `${canine.weight} ${canine.weightUnit ?? 'lbs'}`,
+            ]
+              .filter(Boolean)
+              .join(' • ')}
+          </ThemedText>
+          {!!canine.microchipNumber && (
+            <ThemedText style={styles.subtitle}>Microchip {canine.microchipNumber}</ThemedText>
+          )}
+        </View>
+      </ThemedView>
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, { backgroundColor: colors.primary }]}
+          onPress={() => router.push(`/(tabs)/vet-visits/create?canineId=${canine.id}`)}>
+          <IconSymbol name="plus" size={18} color="#fff" />
+          <ThemedText style={styles.actionButtonText}>Add Visit</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, { backgroundColor: colors.primary }]}
+          onPress={() => router.push(`/(tabs)/medical-records/create?canineId=${canine.id}`)}>
+          <IconSymbol name="plus" size={18} color="#fff" />
+          <ThemedText style={styles.actionButtonText}>Add Medical Record</ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      {renderSection(
+        'Allergies',
+        allergies.length,
+        'No known allergies.',
+        <View style={styles.chips}>
+          {allergies.map((allergy) => (
+            <View key={allergy.id} style={[styles.chip, { borderColor: colors.danger }]}>
+              <ThemedText style={[styles.chipText, { color: colors.danger }]}>
+                {allergy.name} ({allergy.foodType})
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {renderSection(
+        'Vet Visits',
+        visits.length,
+        'No visits recorded yet.',
+        visits.map((visit) => (
+          <View key={visit.id} style={[styles.card, { borderColor: colors.icon }]}>
+            <ThemedText type="defaultSemiBold">{visit.reason}</ThemedText>
+            <ThemedText style={styles.cardMeta}>
+              {formatDate(visit.visitDate)} • {visit.vetName}
+            </ThemedText>
+            <ThemedText style={styles.cardBody}>{visit.endResults}</ThemedText>
+            {!!visit.notes && <ThemedText style={styles.cardMeta}>{visit.notes}</ThemedText>}
+          </View>
+        ))
+      )}
+
+      {renderSection(
+        'Medical Records',
+        records.length,
+        'No medical records yet.',
+        records.map((record) => (
+          <View key={record.id} style={[styles.card, { borderColor: colors.icon }]}>
+            <ThemedText type="defaultSemiBold">{record.reportType}</ThemedText>
+            <ThemedText style={styles.cardMeta}>
+              {formatDate(record.reportDate ?? record.createdAt)} • {record.vetName}
+              {record.clinicName ? `, ${record.clinicName}` : ''}
+            </ThemedText>
+            {!!record.notes && <ThemedText style={styles.cardBody}>{record.notes}</ThemedText>}
+            {record.attachments.length > 0 && (
+              <ThemedText style={styles.cardMeta}>
+                {record.attachments.length} attachment{record.attachments.length === 1 ? '' : 's'}
+              </ThemedText>
+            )}
+            {labResults.some((result) => result.medicalRecordId === record.id) && (
+              <LabResultList
+                results={labResults.filter((result) => result.medicalRecordId === record.id)}
+                onPressAnalyte={(analyte) =>
+                  router.push({ pathname: '/(tabs)/medical-records/lab-history', params: { canineId, analyte } })
+                }
+              />
+            )}
+          </View>
+        ))
+      )}
+
+      {renderSection(
+        'Medications',
+        medications.length,
+        'No medications recorded.',
+        medications.map((medication) => (
+          <View key={medication.id} style={[styles.card, { borderColor: colors.icon }]}>
+            <ThemedText type="defaultSemiBold">{medication.medicationName}</ThemedText>
+            <ThemedText style={styles.cardMeta}>
+              {medication.quantity} {medication.dosageUnit} • {medication.frequency}
+            </ThemedText>
+            <ThemedText style={styles.cardMeta}>
+              {formatDate(medication.startDate)}
+              {medication.endDate ? ` – ${formatDate(medication.endDate)}` : ' – ongoing'} • {medication.vetName}
+            </ThemedText>
+            <ThemedText style={styles.cardBody}>{medication.reason}</ThemedText>
+          </View>
+        ))
+      )}
+
+      {renderSection(
+        'Immunizations',
+        immunizations.length,
+        'No immunizations recorded.',
+        immunizations.map((immunization) => (
+          <View key={immunization.id} style={[styles.card, { borderColor: colors.icon }]}>
+            <ThemedText type="defaultSemiBold">{immunization.vaccineName}</ThemedText>
+            <ThemedText style={styles.cardMeta}>
+              {formatDate(immunization.immunizationDate)} • {immunization.vetName}
+            </ThemedText>
+            <ThemedText style={styles.cardMeta}>
+              Last vaccinated {formatDate(immunization.lastVaccinatedDate)}
+            </ThemedText>
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  backButton: {
+    marginRight: 12,
+    marginTop: 4,
+  },
+  headerTextContainer: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    ...(Platform.OS === 'web' && {
+      cursor: 'pointer',
+    }),
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  emptySection: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 4,
+    backgroundColor: '#FFFFFF',
+  },
+  cardMeta: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  cardBody: {
+    fontSize: 15,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,14 @@
+import { Stack } from 'expo-router';
+
+/**
+ * Walker Portal Layout
+ * Handles routing for the screens dog walkers use to walk the dogs assigned to them
+ */
+export default function WalkerLayout() {
+  return (
+    <Stack>
+      <Stack.Screen name="index" options={{ headerShown: false }} />
+      <Stack.Screen name="walk" options={{ headerShown: false }} />
+    </Stack>
+  );
+}
@@ -0,0 +1,345 @@
+import { useState } from 'react';
+import { StyleSheet, ScrollView, TouchableOpacity, View, Platform, Alert, RefreshControl } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useApp } from '@/context/AppContext';
+import type { CanineProfile } from '@/types';
+
+const formatWhen = (value?: string) => (value ? new Date(value).toLocaleString() : 'Not scheduled');
+
+/**
+ * Walker Portal
+ * Lists the dogs assigned to the signed-in walker and their upcoming walks
+ */
+export default function WalkerPortalScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { userProfile, sharedCanines, walkLogs, startWalk, logout, refreshData } = useApp();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [startingCanineId, setStartingCanineId] = useState<string | null>(null);
+
+  const myWalks = walkLogs.filter((walk) => walk.walkerUserId === userProfile?.id);
+  const activeWalks = myWalks.filter((walk) => walk.status === 'in_progress');
+  const upcomingWalks = myWalks
+    .filter((walk) => walk.status === 'scheduled')
+    .sort((a, b) => (a.scheduledAt ?? '').localeCompare(b.scheduledAt ?? ''));
+  const canineName = (canineId: string) =>
+    sharedCanines.find((canine) => canine.id === canineId)?.name ?? 'Unknown dog';
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await refreshData();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const handleStartWalk = async (canine: CanineProfile) => {
+    if (startingCanineId) return;
+    setStartingCanineId(canine.id);
+    try {
+      const result = await startWalk(canine.id);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
+      router.push(`/walker/walk?id=${result.data.id}`);
+    } finally {
+      setStartingCanineId(null);
+    }
+  };
+
+  const confirmAndLogout = async () => {
+    try {
+      await logout();
+      router.replace('/login');
+    } catch (error) {
+      console.error('Logout error:', error);
+      Alert.alert('Error', 'Failed to logout. Please try again.');
+    }
+  };
+
+  const handleLogout = () => {
+    if (Platform.OS === 'web') {
+      if (typeof window !== 'undefined' && window.confirm('Are you sure you want to logout?')) {
+        confirmAndLogout();
+      }
+      return;
+    }
+
+    Alert.alert('Logout', 'Are you sure you want to logout?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Logout', style: 'destructive', onPress: confirmAndLogout },
+    ]);
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}>
+      <ThemedView style={styles.header}>
+        <View style={styles.headerTop}>
+          <View style={styles.headerTextContainer}>
+            <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+              Walker Portal
+            </ThemedText>
+            <ThemedText style={styles.subtitle}>
+              Welcome, {userProfile?.firstName} {userProfile?.lastName}
+            </ThemedText>
+          </View>
+          <TouchableOpacity
+            onPress={handleLogout}
+            style={[styles.logoutButton, { borderColor: colors.icon }]}
+            accessibilityLabel="Logout">
+            <IconSymbol name="rectangle.portrait.and.arrow.right" size={20} color={colors.text} />
+            <ThemedText style={styles.logoutButtonText}>Logout</ThemedText>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.navBar}>
+          <TouchableOpacity
+            style={[styles.navItem, { borderColor: colors.icon }]}
+            onPress={() => router.push('/(tabs)')}
+            activeOpacity={0.8}>
+            <ThemedText style={[styles.navItemText, { color: colors.primary }]}>My Pets</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.navItem, { borderColor: colors.icon }]}
+            onPress={() => router.push('/user-profile')}
+            activeOpacity={0.8}>
+            <ThemedText style={[styles.navItemText, { color: colors.primary }]}>My Account</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+
+      {activeWalks.length > 0 && (
+        <ThemedView style={styles.content}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Walking Now
+          </ThemedText>
+          {activeWalks.map((walk) => (
+            <TouchableOpacity
+              key={walk.id}
+              style={[styles.card, { borderColor: colors.success }]}
+              onPress={() => router.push(`/walker/walk?id=${walk.id}`)}
+              activeOpacity={0.7}>
+              <View style={styles.cardInfo}>
+                <ThemedText type="defaultSemiBold" style={styles.cardTitle}>
+                  {canineName(walk.canineId)}
+                </ThemedText>
+                <ThemedText style={styles.cardMeta}>Checked in {formatWhen(walk.checkedInAt)}</ThemedText>
+              </View>
+              <IconSymbol name="chevron.right" size={16} color={colors.icon} />
+            </TouchableOpacity>
+          ))}
+        </ThemedView>
+      )}
+
+      <ThemedView style={styles.content}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          Upcoming Walks ({upcomingWalks.length})
+        </ThemedText>
+        {upcomingWalks.length === 0 ? (
+          <ThemedText style={styles.emptySubtext}>No walks scheduled. Owners schedule walks from their pet&apos;s profile.</ThemedText>
+        ) : (
+          upcomingWalks.map((walk) => (
+            <TouchableOpacity
+              key={walk.id}
+              style={[styles.card, { borderColor: colors.icon }]}
+              onPress={() => router.push(`/walker/walk?id=${walk.id}`)}
+              activeOpacity={0.7}>
+              <View style={styles.cardInfo}>
+                <ThemedText type="defaultSemiBold" style={styles.cardTitle}>
+                  {canineName(walk.canineId)}
+                </ThemedText>
+                <ThemedText style={styles.cardMeta}>{formatWhen(walk.scheduledAt)}</ThemedText>
+              </View>
+              <IconSymbol name="chevron.right" size={16} color={colors.icon} />
+            </TouchableOpacity>
+          ))
+        )}
+      </ThemedView>
+
+      <ThemedView style={styles.content}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          My Dogs ({sharedCanines.length})
+        </ThemedText>
+
+        {sharedCanines.length === 0 ? (
+          <ThemedView style={styles.emptyState}>
+            <IconSymbol name="figure.walk" size={48} color={colors.icon} />
+            <ThemedText style={styles.emptyText}>No dogs assigned yet</ThemedText>
+            <ThemedText style={styles.emptySubtext}>
+              Pet owners can assign you to their dog from its profile using your account email, {userProfile?.email}.
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          sharedCanines.map((canine) => {
+            const completedCount = myWalks.filter(
+              (walk) => walk.canineId === canine.id && walk.status === 'completed'
+            ).length;
+            return (
+              <View key={canine.id} style={[styles.card, { borderColor: colors.icon }]}>
+                <View style={styles.cardInfo}>
+                  <ThemedText type="defaultSemiBold" style={styles.cardTitle}>
+                    {canine.name}
+                  </ThemedText>
+                  <ThemedText style={styles.cardMeta} numberOfLines={1}>
+                    {[canine.breed, canine.gender].filter(Boolean).join(' • ') || 'No details'}
+                  </ThemedText>
+                  <ThemedText style={styles.cardMeta}>
+                    {completedCount} walk{completedCount === 1 ? '' : 's'} completed
+                  </ThemedText>
+                </View>
+                <TouchableOpacity
+                  onPress={() => handleStartWalk(canine)}
+                  disabled={startingCanineId !== null}
+                  style={[
+                    styles.startButton,
+                    { backgroundColor: colors.primary, opacity: startingCanineId === canine.id ? 0.6 : 1 },
+                  ]}
+                  accessibilityLabel={`Start a walk with ${canine.name}`}>
+                  <ThemedText style={styles.startButtonText}>Start Walk</ThemedText>
+                </TouchableOpacity>
+              </View>
+            );
+          })
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  headerTop: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  logoutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 6,
+    marginLeft: 12,
+    ...(Platform.OS === 'web' && {
+      cursor: 'pointer',
+    }),
+  },
+  logoutButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  navBar: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 16,
+  },
+  navItem: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderRadius: 999,
+    backgroundColor: '#FFFFFF',
+    ...(Platform.OS === 'web' && {
+      cursor: 'pointer',
+    }),
+  },
+  navItemText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+    ...(Platform.OS === 'web' && {
+      cursor: 'pointer',
+    }),
+  },
+  cardInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  cardMeta: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  startButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 12,
+  },
+  startButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
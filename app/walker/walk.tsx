@@ -0,0 +1,350 @@
+import { useState } from 'react';
+import { StyleSheet, ScrollView, TextInput, TouchableOpacity, View, Alert, Platform, Image } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useApp } from '@/context/AppContext';
+import { uploadMediaToSupabase } from '@/services/storage';
+import type { MutationResult } from '@/services/mutations';
+import type { BathroomEventType, WalkLog } from '@/types';
+
+const BATHROOM_LABELS: Record<BathroomEventType, string> = {
+  pee: 'Pee',
+  poop: 'Poop',
+};
+
+const formatTime = (value?: string) => (value ? new Date(value).toLocaleTimeString() : '—');
+
+/**
+ * Walk
+ * Where a walker checks in to a walk, records bathroom breaks and photos
+ * along the way, and checks out with notes for the owner.
+ */
+export default function WalkScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { walkLogs, getSharedCanine, checkInWalk, checkOutWalk, updateWalkLog } = useApp();
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const walk = walkLogs.find((candidate) => candidate.id === id);
+  const canine = walk ? getSharedCanine(walk.canineId) : undefined;
+
+  const save = async (action: () => Promise<MutationResult<WalkLog>>) => {
+    if (isSaving) return false;
+    setIsSaving(true);
+    try {
+      const result = await action();
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+      }
+      return result.ok;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBathroomEvent = (current: WalkLog, type: BathroomEventType) =>
+    save(() =>
+      updateWalkLog(current.id, {
+        bathroomEvents: [...current.bathroomEvents, { type, at: new Date().toISOString() }],
+      })
+    );
+
+  const handleAddPhoto = async (current: WalkLog) => {
+    const permission =
+      Platform.OS === 'web'
+        ? await ImagePicker.requestMediaLibraryPermissionsAsync()
+        : await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission needed', 'Please allow camera access to add photos to the walk.');
+      return;
+    }
+
+    const mediaTypeModule: any = ImagePicker as any;
+    const hasNewMediaType = !!mediaTypeModule.MediaType;
+    const mediaTypeValue = hasNewMediaType
+      ? mediaTypeModule.MediaType.Images ?? mediaTypeModule.MediaType.IMAGE
+      : ImagePicker.MediaTypeOptions.Images;
+    const options = { mediaTypes: hasNewMediaType ? [mediaTypeValue] : mediaTypeValue, quality: 0.8 };
+
+    const result =
+      Platform.OS === 'web'
+        ? await ImagePicker.launchImageLibraryAsync(options)
+        : await ImagePicker.launchCameraAsync(options);
+    if (result.canceled || !result.assets?.length) return;
+
+    setIsUploading(true);
+    try {
+      const uploadedUrl = await uploadMediaToSupabase(result.assets[0].uri, current.canineId, 'photo');
+      await save(() => updateWalkLog(current.id, { photoUrls: [...current.photoUrls, uploadedUrl] }));
+    } catch (error: any) {
+      console.error('Error uploading walk photo:', error);
+      Alert.alert('Upload failed', error.message || 'Please try again later.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleCheckOut = async (current: WalkLog) => {
+    const saved = await save(() => checkOutWalk(current.id, notes.trim() || undefined));
+    if (saved) {
+      router.back();
+    }
+  };
+
+  if (!walk || !canine) {
+    return (
+      <ThemedView style={[styles.container, styles.emptyState, { backgroundColor: colors.background }]}>
+        <IconSymbol name="lock.fill" size={48} color={colors.icon} />
+        <ThemedText style={styles.emptyText}>This walk isn&apos;t available</ThemedText>
+        <ThemedText style={styles.emptySubtext}>The owner may have cancelled it or removed you as a walker.</ThemedText>
+        <TouchableOpacity onPress={() => router.back()} style={[styles.primaryButton, { backgroundColor: colors.primary }]}>
+          <ThemedText style={styles.primaryButtonText}>Back to Walks</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerTextContainer}>
+          <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+            Walk with {canine.name}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>
+            {walk.scheduledAt ? `Scheduled ${new Date(walk.scheduledAt).toLocaleString()}` : 'Unscheduled walk'}
+          </ThemedText>
+        </View>
+      </ThemedView>
+
+      {walk.status === 'scheduled' && (
+        <ThemedView style={styles.section}>
+          <ThemedText style={styles.helpText}>Check in when you pick {canine.name} up.</ThemedText>
+          <TouchableOpacity
+            onPress={() => save(() => checkInWalk(walk.id))}
+            disabled={isSaving}
+            style={[styles.primaryButton, { backgroundColor: colors.primary, opacity: isSaving ? 0.6 : 1 }]}>
+            <ThemedText style={styles.primaryButtonText}>Check In</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      )}
+
+      {walk.status === 'in_progress' && (
+        <>
+          <ThemedView style={styles.section}>
+            <ThemedText style={styles.helpText}>Checked in at {formatTime(walk.checkedInAt)}</ThemedText>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Bathroom Breaks
+            </ThemedText>
+            <View style={styles.buttonRow}>
+              {(Object.keys(BATHROOM_LABELS) as BathroomEventType[]).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  onPress={() => handleBathroomEvent(walk, type)}
+                  disabled={isSaving}
+                  style={[styles.outlineButton, { borderColor: colors.primary }]}>
+                  <ThemedText style={[styles.outlineButtonText, { color: colors.primary }]}>
+                    + {BATHROOM_LABELS[type]}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {walk.bathroomEvents.map((event, index) => (
+              <ThemedText key={`${event.at}-${index}`} style={styles.eventText}>
+                {BATHROOM_LABELS[event.type]} at {formatTime(event.at)}
+              </ThemedText>
+            ))}
+          </ThemedView>
+
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Photos ({walk.photoUrls.length})
+            </ThemedText>
+            <View style={styles.photoGrid}>
+              {walk.photoUrls.map((url) => (
+                <Image key={url} source={{ uri: url }} style={styles.photo} />
+              ))}
+            </View>
+            <TouchableOpacity
+              onPress={() => handleAddPhoto(walk)}
+              disabled={isUploading}
+              style={[styles.outlineButton, styles.photoButton, { borderColor: colors.primary, opacity: isUploading ? 0.6 : 1 }]}>
+              <IconSymbol name="camera.fill" size={18} color={colors.primary} />
+              <ThemedText style={[styles.outlineButtonText, { color: colors.primary }]}>
+                {isUploading ? 'Uploading...' : 'Add Photo'}
+              </ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Notes
+            </ThemedText>
+            <TextInput
+              style={[styles.input, styles.textArea, { borderColor: colors.icon, color: colors.text }]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder={`How did ${canine.name} do?`}
+              placeholderTextColor={colors.icon}
+              multiline
+            />
+            <TouchableOpacity
+              onPress={() => handleCheckOut(walk)}
+              disabled={isSaving || isUploading}
+              style={[styles.primaryButton, { backgroundColor: colors.primary, opacity: isSaving || isUploading ? 0.6 : 1 }]}>
+              <ThemedText style={styles.primaryButtonText}>Check Out</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        </>
+      )}
+
+      {(walk.status === 'completed' || walk.status === 'cancelled') && (
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            {walk.status === 'completed' ? 'Walk Completed' : 'Walk Cancelled'}
+          </ThemedText>
+          {walk.status === 'completed' && (
+            <ThemedText style={styles.helpText}>
+              {formatTime(walk.checkedInAt)} – {formatTime(walk.checkedOutAt)} • {walk.durationMinutes ?? 0} min •{' '}
+              {walk.bathroomEvents.length} bathroom break{walk.bathroomEvents.length === 1 ? '' : 's'}
+            </ThemedText>
+          )}
+          {!!walk.notes && <ThemedText>{walk.notes}</ThemedText>}
+        </ThemedView>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  backButton: {
+    marginRight: 12,
+    marginTop: 4,
+  },
+  headerTextContainer: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  outlineButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  eventText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  photo: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+  },
+  photoButton: {
+    alignSelf: 'flex-start',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  textArea: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  primaryButton: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,356 @@
+import { useState } from 'react';
+import { StyleSheet, ScrollView, TextInput, TouchableOpacity, View, Alert, Platform } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useApp } from '@/context/AppContext';
+import type { WalkerAssignment, WalkLog } from '@/types';
+
+/**
+ * Dog Walkers
+ * Lets an owner assign walkers to one pet, schedule walks with them,
+ * and remove a walker, who then no longer sees the pet.
+ */
+export default function WalkersScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { canineId } = useLocalSearchParams<{ canineId?: string }>();
+  const { getCanine, walkerAssignments, assignWalker, unassignWalker, scheduleWalk, updateWalkLog, getWalkLogsByCanine } =
+    useApp();
+  const [walkerEmail, setWalkerEmail] = useState('');
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [scheduleFor, setScheduleFor] = useState<string | null>(null);
+  const [walkDate, setWalkDate] = useState('');
+  const [walkTime, setWalkTime] = useState('');
+
+  const canine = canineId ? getCanine(canineId) : undefined;
+  const activeAssignments = walkerAssignments.filter(
+    (assignment) => assignment.canineId === canineId && !assignment.revokedAt
+  );
+  const upcomingWalks = (canineId ? getWalkLogsByCanine(canineId) : [])
+    .filter((walk) => walk.status === 'scheduled')
+    .sort((a, b) => (a.scheduledAt ?? '').localeCompare(b.scheduledAt ?? ''));
+
+  const handleAssign = async () => {
+    if (!canine || isAssigning) return;
+    setIsAssigning(true);
+    try {
+      const result = await assignWalker(canine.id, walkerEmail);
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+        return;
+      }
+      setWalkerEmail('');
+      Alert.alert('Assigned', `${result.data.walkerName} can now walk ${canine.name}.`);
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleSchedule = async (assignment: WalkerAssignment) => {
+    if (!canine) return;
+    const scheduled = new Date(`${walkDate.trim()}T${walkTime.trim()}`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(walkDate.trim()) || !/^\d{2}:\d{2}$/.test(walkTime.trim()) || isNaN(scheduled.getTime())) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD and the time as HH:MM');
+      return;
+    }
+    if (scheduled.getTime() <= Date.now()) {
+      Alert.alert('Error', 'The walk must be scheduled in the future');
+      return;
+    }
+
+    const result = await scheduleWalk(canine.id, assignment.id, scheduled.toISOString());
+    if (!result.ok) {
+      Alert.alert('Error', result.error.message);
+      return;
+    }
+    setScheduleFor(null);
+    setWalkDate('');
+    setWalkTime('');
+  };
+
+  const confirm = (title: string, message: string, action: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (typeof window !== 'undefined' && window.confirm(message)) {
+        onConfirm();
+      }
+      return;
+    }
+
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: action, style: 'destructive', onPress: onConfirm },
+    ]);
+  };
+
+  const handleUnassign = (assignment: WalkerAssignment) =>
+    confirm(
+      'Remove Walker',
+      `${assignment.walkerName} will no longer see ${canine?.name ?? 'this pet'} or be able to log walks.`,
+      'Remove',
+      async () => {
+        const result = await unassignWalker(assignment.id);
+        if (!result.ok) {
+          Alert.alert('Error', result.error.message);
+        }
+      }
+    );
+
+  const handleCancelWalk = (walk: WalkLog) =>
+    confirm('Cancel Walk', `Cancel ${walk.walkerName}'s walk?`, 'Cancel Walk', async () => {
+      const result = await updateWalkLog(walk.id, { status: 'cancelled' });
+      if (!result.ok) {
+        Alert.alert('Error', result.error.message);
+      }
+    });
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={[styles.title, { color: colors.primary }]}>
+          Dog Walkers
+        </ThemedText>
+      </ThemedView>
+
+      {!canine ? (
+        <ThemedView style={styles.content}>
+          <ThemedText style={styles.emptySubtext}>This pet could not be found.</ThemedText>
+        </ThemedView>
+      ) : (
+        <>
+          <ThemedView style={[styles.formContainer, { borderColor: colors.icon }]}>
+            <ThemedText type="subtitle" style={styles.formTitle}>
+              Assign a Walker to {canine.name}
+            </ThemedText>
+            <ThemedText style={styles.helpText}>
+              The walker will see {canine.name}&apos;s profile and the walks you schedule, and can log walks with
+              notes, photos and bathroom breaks. They can&apos;t see health records.
+            </ThemedText>
+            <ThemedText style={styles.label}>Walker&apos;s account email</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: colors.icon, color: colors.text }]}
+              value={walkerEmail}
+              onChangeText={setWalkerEmail}
+              placeholder="walker@example.com"
+              placeholderTextColor={colors.icon}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+            />
+            <TouchableOpacity
+              onPress={handleAssign}
+              disabled={isAssigning}
+              style={[styles.saveButton, { backgroundColor: colors.primary, opacity: isAssigning ? 0.6 : 1 }]}>
+              <ThemedText style={styles.saveButtonText}>{isAssigning ? 'Assigning...' : 'Assign'}</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+
+          <ThemedView style={styles.content}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Walkers ({activeAssignments.length})
+            </ThemedText>
+            {activeAssignments.length === 0 ? (
+              <ThemedText style={styles.emptySubtext}>No walkers are assigned to {canine.name}.</ThemedText>
+            ) : (
+              activeAssignments.map((assignment) => (
+                <View key={assignment.id} style={[styles.card, { borderColor: colors.icon }]}>
+                  <View style={styles.cardRow}>
+                    <View style={styles.cardInfo}>
+                      <ThemedText type="defaultSemiBold">{assignment.walkerName}</ThemedText>
+                      <ThemedText style={styles.cardMeta}>{assignment.walkerEmail}</ThemedText>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => setScheduleFor(scheduleFor === assignment.id ? null : assignment.id)}
+                      style={[styles.smallButton, { borderColor: colors.primary }]}>
+                      <ThemedText style={[styles.smallButtonText, { color: colors.primary }]}>Schedule</ThemedText>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleUnassign(assignment)}
+                      style={[styles.smallButton, { borderColor: colors.danger }]}
+                      accessibilityLabel={`Remove ${assignment.walkerName}`}>
+                      <ThemedText style={[styles.smallButtonText, { color: colors.danger }]}>Remove</ThemedText>
+                    </TouchableOpacity>
+                  </View>
+                  {scheduleFor === assignment.id && (
+                    <View style={styles.scheduleForm}>
+                      <View style={styles.scheduleInputs}>
+                        <TextInput
+                          style={[styles.input, styles.scheduleInput, { borderColor: colors.icon, color: colors.text }]}
+                          value={walkDate}
+                          onChangeText={setWalkDate}
+                          placeholder="YYYY-MM-DD"
+                          placeholderTextColor={colors.icon}
+                        />
+                        <TextInput
+                          style={[styles.input, styles.scheduleInput, { borderColor: colors.icon, color: colors.text }]}
+                          value={walkTime}
+                          onChangeText={setWalkTime}
+                          placeholder="HH:MM"
+                          placeholderTextColor={colors.icon}
+                        />
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => handleSchedule(assignment)}
+                        style={[styles.saveButton, { backgroundColor: colors.primary }]}>
+                        <ThemedText style={styles.saveButtonText}>Schedule Walk</ThemedText>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))
+            )}
+
+            <ThemedText type="subtitle" style={[styles.sectionTitle, styles.upcomingTitle]}>
+              Upcoming Walks ({upcomingWalks.length})
+            </ThemedText>
+            {upcomingWalks.length === 0 ? (
+              <ThemedText style={styles.emptySubtext}>No walks scheduled.</ThemedText>
+            ) : (
+              upcomingWalks.map((walk) => (
+                <View key={walk.id} style={[styles.card, styles.cardRow, { borderColor: colors.icon }]}>
+                  <View style={styles.cardInfo}>
+                    <ThemedText type="defaultSemiBold">{walk.walkerName}</ThemedText>
+                    <ThemedText style={styles.cardMeta}>
+                      {walk.scheduledAt ? new Date(walk.scheduledAt).toLocaleString() : '—'}
+                    </ThemedText>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => handleCancelWalk(walk)}
+                    style={[styles.smallButton, { borderColor: colors.danger }]}>
+                    <ThemedText style={[styles.smallButtonText, { color: colors.danger }]}>Cancel</ThemedText>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </ThemedView>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    ...(Platform.OS === 'web' && {
+      paddingTop: 20,
+    }),
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  formContainer: {
+    margin: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderRadius: 12,
+    backgroundColor: '#F9F9F9',
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  saveButton: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 0,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  upcomingTitle: {
+    marginTop: 12,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  cardMeta: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  smallButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  smallButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scheduleForm: {
+    marginTop: 16,
+  },
+  scheduleInputs: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  scheduleInput: {
+    flex: 1,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+});
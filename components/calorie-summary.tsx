@@ -0,0 +1,131 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  describeCalorieStatus,
+  type CalorieRequirement,
+  type DailyCalories,
+  type FeedingWarning,
+} from '@/utils/calories';
+
+const formatWarningDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+/**
+ * A day's logged calories against the pet's target, with any sustained over- or under-feeding
+ */
+export function CalorieSummary({
+  requirement,
+  day,
+  warning,
+}: {
+  requirement: CalorieRequirement | null;
+  day?: DailyCalories;
+  warning: FeedingWarning | null;
+}) {
+  const colors = Colors[useColorScheme() ?? 'light'];
+
+  if (!requirement) {
+    return (
+      <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <ThemedText style={[styles.detail, { color: colors.secondaryText }]}>
+          Add this pet&apos;s weight to see its daily calorie target.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  const statusColor =
+    day?.status === 'on_target' ? colors.success : day?.status === 'no_meals' ? colors.secondaryText : colors.warning;
+  const share = day ? Math.min(day.loggedKcal / requirement.maintenanceKcal, 1) : 0;
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      <View style={styles.row}>
+        <View style={styles.figure}>
+          <ThemedText style={[styles.label, { color: colors.secondaryText }]}>Target</ThemedText>
+          <ThemedText style={[styles.value, { color: colors.text }]}>{requirement.maintenanceKcal} kcal</ThemedText>
+        </View>
+        <View style={styles.figure}>
+          <ThemedText style={[styles.label, { color: colors.secondaryText }]}>Logged</ThemedText>
+          <ThemedText style={[styles.value, { color: colors.text }]}>{day?.loggedKcal ?? 0} kcal</ThemedText>
+        </View>
+      </View>
+      <View style={[styles.track, { backgroundColor: colors.tintSoft }]}>
+        <View style={[styles.fill, { width: `${share * 100}%`, backgroundColor: statusColor }]} />
+      </View>
+      {day && <ThemedText style={[styles.status, { color: statusColor }]}>{describeCalorieStatus(day)}</ThemedText>}
+      <ThemedText style={[styles.detail, { color: colors.secondaryText }]}>
+        Resting {requirement.restingKcal} kcal × {requirement.factor} for {requirement.lifeStage === 'adult' ? 'an adult' : `a ${requirement.lifeStage}`}
+      </ThemedText>
+      {warning && (
+        <View style={[styles.warning, { borderColor: colors.warning }]}>
+          <IconSymbol name="exclamationmark.triangle.fill" size={16} color={colors.warning} />
+          <ThemedText style={[styles.warningText, { color: colors.text }]}>
+            {`${warning.status === 'over' ? 'Over' : 'Under'} target ${warning.days} days in a row ` +
+              `(${formatWarningDate(warning.startDate)} – ${formatWarningDate(warning.endDate)})`}
+          </ThemedText>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderRadius: 16,
+    padding: 14,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  figure: {
+    flex: 1,
+    gap: 2,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  value: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  status: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: 12,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
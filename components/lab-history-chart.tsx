@@ -0,0 +1,122 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { formatLabValue, type LabHistory } from '@/utils/labResults';
+
+const PLOT_HEIGHT = 140;
+const DOT_SIZE = 12;
+// Only the newest results are plotted, so each keeps a readable column
+const MAX_POINTS = 10;
+
+const formatChartDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' });
+};
+
+/**
+ * Dot chart of an analyte's results, oldest on the left, over the shaded reference range
+ * The scale spans both the values and the newest result's range, so the band is always in view.
+ */
+export function LabHistoryChart({ history }: { history: LabHistory }) {
+  const colors = Colors[useColorScheme() ?? 'light'];
+  const points = history.points.slice(-MAX_POINTS);
+  const { referenceLow, referenceHigh } = history.latest.result;
+
+  const bounds = [...points.map((point) => point.result.value), referenceLow, referenceHigh].filter(
+    (value): value is number => value !== undefined
+  );
+  const spread = Math.max(...bounds) - Math.min(...bounds);
+  // Pad the scale so dots on the edges aren't clipped
+  const padding = spread > 0 ? spread * 0.1 : Math.abs(bounds[0]) * 0.1 || 1;
+  const min = Math.min(...bounds) - padding;
+  const max = Math.max(...bounds) + padding;
+  const toOffset = (value: number) => ((value - min) / (max - min)) * PLOT_HEIGHT;
+
+  const bandBottom = toOffset(referenceLow ?? min);
+  const bandTop = toOffset(referenceHigh ?? max);
+
+  return (
+    <View style={styles.chart} accessibilityLabel={`${history.analyte} history chart`}>
+      <View style={[styles.plot, { borderColor: colors.border }]}>
+        {(referenceLow !== undefined || referenceHigh !== undefined) && (
+          <View
+            style={[styles.band, { bottom: bandBottom, height: bandTop - bandBottom, backgroundColor: colors.tintSoft }]}
+          />
+        )}
+        {points.map((point) => {
+          const outOfRange = point.status === 'low' || point.status === 'high';
+          return (
+            <View key={point.result.id} style={styles.column}>
+              <View style={[styles.marker, { bottom: toOffset(point.result.value) - DOT_SIZE / 2 }]}>
+                <ThemedText
+                  style={[styles.valueLabel, { color: outOfRange ? colors.danger : colors.secondaryText }]}
+                  numberOfLines={1}>
+                  {formatLabValue(point.result.value)}
+                </ThemedText>
+                <View style={[styles.dot, { backgroundColor: outOfRange ? colors.danger : colors.tint }]} />
+              </View>
+            </View>
+          );
+        })}
+      </View>
+      <View style={styles.dates}>
+        {points.map((point) => (
+          <ThemedText
+            key={point.result.id}
+            style={[styles.dateLabel, { color: colors.secondaryText }]}
+            numberOfLines={1}>
+            {formatChartDate(point.date)}
+          </ThemedText>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    gap: 6,
+    paddingTop: 18,
+  },
+  plot: {
+    height: PLOT_HEIGHT,
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  band: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderRadius: 4,
+  },
+  column: {
+    flex: 1,
+  },
+  marker: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    gap: 2,
+  },
+  dot: {
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+  },
+  valueLabel: {
+    fontSize: 10,
+    lineHeight: 12,
+  },
+  dates: {
+    flexDirection: 'row',
+  },
+  dateLabel: {
+    flex: 1,
+    fontSize: 9,
+    lineHeight: 11,
+    textAlign: 'center',
+  },
+});
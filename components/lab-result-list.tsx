@@ -0,0 +1,90 @@
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type { LabResult } from '@/types';
+import { formatLabValue, formatReferenceRange, getLabResultStatus } from '@/utils/labResults';
+
+const STATUS_FLAGS = { low: 'L', high: 'H' } as const;
+
+/**
+ * A medical record's lab results, with values outside their reference range flagged
+ * @param onPressAnalyte Opens the analyte's history; rows aren't tappable without it
+ */
+export function LabResultList({
+  results,
+  onPressAnalyte,
+}: {
+  results: LabResult[];
+  onPressAnalyte?: (analyte: string) => void;
+}) {
+  const colors = Colors[useColorScheme() ?? 'light'];
+
+  return (
+    <View style={[styles.list, { borderColor: colors.border }]}>
+      {results.map((result, index) => {
+        const status = getLabResultStatus(result);
+        const outOfRange = status === 'low' || status === 'high';
+        const range = formatReferenceRange(result.referenceLow, result.referenceHigh);
+        return (
+          <TouchableOpacity
+            key={result.id}
+            style={[
+              styles.row,
+              index > 0 && { borderTopWidth: 1, borderTopColor: colors.border },
+              outOfRange && { backgroundColor: `${colors.danger}14` },
+            ]}
+            disabled={!onPressAnalyte}
+            onPress={() => onPressAnalyte?.(result.analyte)}
+            accessibilityLabel={`${result.analyte} ${formatLabValue(result.value)} ${result.unit}${outOfRange ? `, ${status}` : ''}`}>
+            <ThemedText style={[styles.analyte, { color: colors.text }]} numberOfLines={1}>
+              {result.analyte}
+            </ThemedText>
+            <View style={styles.valueColumn}>
+              <ThemedText style={[styles.value, { color: outOfRange ? colors.danger : colors.text }]}>
+                {formatLabValue(result.value)} {result.unit}
+                {outOfRange ? ` ${STATUS_FLAGS[status]}` : ''}
+              </ThemedText>
+              {range ? (
+                <ThemedText style={[styles.range, { color: colors.secondaryText }]}>Ref {range}</ThemedText>
+              ) : null}
+            </View>
+            {onPressAnalyte && <IconSymbol name="chevron.right" size={14} color={colors.icon} />}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    borderWidth: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  analyte: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  valueColumn: {
+    alignItems: 'flex-end',
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  range: {
+    fontSize: 11,
+  },
+});
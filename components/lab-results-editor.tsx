@@ -0,0 +1,291 @@
+import { StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type { LabResult } from '@/types';
+import {
+  LAB_PANELS,
+  formatLabValue,
+  getLabAnalyte,
+  getLabResultStatus,
+  type LabPanel,
+} from '@/utils/labResults';
+
+/** A lab result row as typed into the form; numbers stay strings until saved */
+export interface LabResultDraft {
+  key: string;
+  id?: string; // Set once the result has been saved
+  panel?: string;
+  analyte: string;
+  value: string;
+  unit: string;
+  referenceLow: string;
+  referenceHigh: string;
+}
+
+export type ParsedLabResult = Pick<LabResult, 'panel' | 'analyte' | 'value' | 'unit' | 'referenceLow' | 'referenceHigh'>;
+
+let draftCount = 0;
+const nextDraftKey = () => `lab-${Date.now()}-${(draftCount += 1)}`;
+
+const limitToText = (limit: number | undefined) => (limit === undefined ? '' : formatLabValue(limit));
+
+export const toLabResultDraft = (result: LabResult): LabResultDraft => ({
+  key: result.id,
+  id: result.id,
+  panel: result.panel,
+  analyte: result.analyte,
+  value: formatLabValue(result.value),
+  unit: result.unit,
+  referenceLow: limitToText(result.referenceLow),
+  referenceHigh: limitToText(result.referenceHigh),
+});
+
+const createDraft = (panel?: LabPanel, analyte?: LabPanel['analytes'][number]): LabResultDraft => ({
+  key: nextDraftKey(),
+  panel: panel?.id,
+  analyte: analyte?.code ?? '',
+  value: '',
+  unit: analyte?.unit ?? '',
+  referenceLow: limitToText(analyte?.referenceLow),
+  referenceHigh: limitToText(analyte?.referenceHigh),
+});
+
+const parseNumber = (text: string) => {
+  const trimmed = text.trim().replace(',', '.');
+  return trimmed ? Number(trimmed) : undefined;
+};
+
+/** Rows left without a value are skipped, so a panel can be added and only partly filled in */
+export const isBlankLabResultDraft = (draft: LabResultDraft) => !draft.value.trim();
+
+/**
+ * The result a filled-in row describes
+ * @returns A validation message instead when the row can't be saved
+ */
+export function parseLabResultDraft(draft: LabResultDraft): { ok: true; result: ParsedLabResult } | { ok: false; error: string } {
+  const analyte = draft.analyte.trim();
+  const label = analyte || 'a lab result';
+  if (!analyte) {
+    return { ok: false, error: 'Enter the name of each lab result.' };
+  }
+  const value = parseNumber(draft.value);
+  if (value === undefined || Number.isNaN(value)) {
+    return { ok: false, error: `Enter a number for ${label}.` };
+  }
+  const referenceLow = parseNumber(draft.referenceLow);
+  const referenceHigh = parseNumber(draft.referenceHigh);
+  if ((referenceLow !== undefined && Number.isNaN(referenceLow)) || (referenceHigh !== undefined && Number.isNaN(referenceHigh))) {
+    return { ok: false, error: `Enter the reference range for ${label} as numbers.` };
+  }
+  if (referenceLow !== undefined && referenceHigh !== undefined && referenceLow > referenceHigh) {
+    return { ok: false, error: `The reference range for ${label} starts above where it ends.` };
+  }
+  return {
+    ok: true,
+    result: { panel: draft.panel, analyte, value, unit: draft.unit.trim(), referenceLow, referenceHigh },
+  };
+}
+
+/**
+ * Lab result rows for a medical record: whole catalogue panels or custom analytes, each
+ * with its value, unit and reference range
+ */
+export function LabResultsEditor({
+  drafts,
+  onChange,
+}: {
+  drafts: LabResultDraft[];
+  onChange: (drafts: LabResultDraft[]) => void;
+}) {
+  const colors = Colors[useColorScheme() ?? 'light'];
+
+  const addPanel = (panel: LabPanel) => {
+    const present = new Set(drafts.map((draft) => getLabAnalyte(draft.analyte)?.code));
+    const added = panel.analytes.filter((analyte) => !present.has(analyte.code)).map((analyte) => createDraft(panel, analyte));
+    onChange([...drafts, ...added]);
+  };
+
+  const updateDraft = (key: string, changes: Partial<LabResultDraft>) =>
+    onChange(drafts.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft)));
+
+  const removeDraft = (key: string) => onChange(drafts.filter((draft) => draft.key !== key));
+
+  const inputStyle = [styles.input, { borderColor: colors.border, color: colors.text, backgroundColor: colors.surface }];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.addRow}>
+        {LAB_PANELS.map((panel) => (
+          <TouchableOpacity
+            key={panel.id}
+            style={[styles.addButton, { borderColor: colors.border, backgroundColor: colors.surfaceMuted }]}
+            onPress={() => addPanel(panel)}
+            accessibilityLabel={`Add ${panel.name}`}>
+            <IconSymbol name="plus" size={14} color={colors.tint} />
+            <ThemedText style={[styles.addText, { color: colors.text }]}>{panel.id}</ThemedText>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.addButton, { borderColor: colors.border, backgroundColor: colors.surfaceMuted }]}
+          onPress={() => onChange([...drafts, createDraft()])}
+          accessibilityLabel="Add a custom lab result">
+          <IconSymbol name="plus" size={14} color={colors.tint} />
+          <ThemedText style={[styles.addText, { color: colors.text }]}>Custom</ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      {drafts.map((draft) => {
+        const catalogued = getLabAnalyte(draft.analyte);
+        const parsed = isBlankLabResultDraft(draft) ? null : parseLabResultDraft(draft);
+        const status = parsed?.ok ? getLabResultStatus(parsed.result) : 'unknown';
+        const outOfRange = status === 'low' || status === 'high';
+        return (
+          <View key={draft.key} style={[styles.row, { borderColor: outOfRange ? colors.danger : colors.border }]}>
+            <View style={styles.rowHeader}>
+              {draft.panel && catalogued ? (
+                <ThemedText style={[styles.analyteLabel, { color: colors.text }]} numberOfLines={1}>
+                  {catalogued.code} <ThemedText style={[styles.analyteName, { color: colors.secondaryText }]}>{catalogued.name}</ThemedText>
+                </ThemedText>
+              ) : (
+                <TextInput
+                  style={[...inputStyle, styles.analyteInput]}
+                  value={draft.analyte}
+                  onChangeText={(analyte) => updateDraft(draft.key, { analyte })}
+                  placeholder="Analyte, e.g. T4"
+                  placeholderTextColor={colors.tertiaryText}
+                  maxLength={40}
+                />
+              )}
+              {outOfRange && (
+                <ThemedText style={[styles.flag, { color: colors.danger }]}>{status === 'low' ? 'Low' : 'High'}</ThemedText>
+              )}
+              <TouchableOpacity onPress={() => removeDraft(draft.key)} accessibilityLabel={`Remove ${draft.analyte || 'lab result'}`}>
+                <IconSymbol name="xmark.circle.fill" size={18} color={colors.icon} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.fields}>
+              <TextInput
+                style={[...inputStyle, styles.valueInput, outOfRange && { borderColor: colors.danger }]}
+                value={draft.value}
+                onChangeText={(value) => updateDraft(draft.key, { value })}
+                placeholder="Value"
+                placeholderTextColor={colors.tertiaryText}
+                keyboardType="decimal-pad"
+              />
+              <TextInput
+                style={[...inputStyle, styles.unitInput]}
+                value={draft.unit}
+                onChangeText={(unit) => updateDraft(draft.key, { unit })}
+                placeholder="Unit"
+                placeholderTextColor={colors.tertiaryText}
+                maxLength={16}
+              />
+              <TextInput
+                style={[...inputStyle, styles.limitInput]}
+                value={draft.referenceLow}
+                onChangeText={(referenceLow) => updateDraft(draft.key, { referenceLow })}
+                placeholder="Low"
+                placeholderTextColor={colors.tertiaryText}
+                keyboardType="decimal-pad"
+              />
+              <ThemedText style={{ color: colors.secondaryText }}>–</ThemedText>
+              <TextInput
+                style={[...inputStyle, styles.limitInput]}
+                value={draft.referenceHigh}
+                onChangeText={(referenceHigh) => updateDraft(draft.key, { referenceHigh })}
+                placeholder="High"
+                placeholderTextColor={colors.tertiaryText}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </View>
+        );
+      })}
+
+      {drafts.length > 0 && (
+        <ThemedText style={[styles.hint, { color: colors.tertiaryText }]}>
+          Rows without a value aren&apos;t saved. Change the range to match the one on the lab report.
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  addRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  addText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  row: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+    gap: 8,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  analyteLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  analyteName: {
+    fontSize: 12,
+    fontWeight: '400',
+  },
+  analyteInput: {
+    flex: 1,
+  },
+  flag: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  fields: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+  },
+  valueInput: {
+    flex: 1.2,
+  },
+  unitInput: {
+    flex: 1,
+  },
+  limitInput: {
+    flex: 0.9,
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 18,
+  },
+});
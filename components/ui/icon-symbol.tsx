@@ -18,6 +18,23 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'wifi.slash': 'wifi-off',
+  'arrow.triangle.2.circlepath': 'sync',
+  'exclamationmark.triangle.fill': 'warning',
+  'rectangle.portrait.and.arrow.right': 'logout',
+  'lock.fill': 'lock',
+  'lock.open.fill': 'lock-open',
+  'key.fill': 'vpn-key',
+  'ticket.fill': 'confirmation-number',
+  'pause.circle.fill': 'pause-circle-filled',
+  'play.circle.fill': 'play-circle-filled',
+  'stethoscope': 'medical-services',
+  'figure.walk': 'directions-walk',
+  'camera.fill': 'photo-camera',
+  'link': 'link',
+  'scalemass.fill': 'monitor-weight',
+  'testtube.2': 'science',
+  'chart.xyaxis.line': 'show-chart',
 } as IconMapping;
 
 /**
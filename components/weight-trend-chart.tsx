@@ -0,0 +1,81 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type { WeightTrend } from '@/utils/weight';
+
+const CHART_HEIGHT = 120;
+// Bars never shrink below this, so the lightest measurement stays visible
+const MIN_BAR_HEIGHT = 12;
+
+const formatChartDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+/**
+ * Bar chart of a pet's newest weights, oldest on the left
+ * Bars are scaled between the lightest and heaviest measurement shown, so small changes stay visible.
+ */
+export function WeightTrendChart({ trend }: { trend: WeightTrend }) {
+  const colors = Colors[useColorScheme() ?? 'light'];
+  const values = trend.points.map((point) => point.value);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+
+  return (
+    <View style={styles.chart} accessibilityLabel="Weight trend chart">
+      {trend.points.map((point) => {
+        const share = range > 0 ? (point.value - min) / range : 1;
+        const isLatest = point === trend.latest;
+        return (
+          <View key={point.measurement.id} style={styles.column}>
+            <ThemedText style={[styles.valueLabel, { color: colors.secondaryText }]} numberOfLines={1}>
+              {Number(point.value.toFixed(1))}
+            </ThemedText>
+            <View
+              style={[
+                styles.bar,
+                {
+                  height: MIN_BAR_HEIGHT + share * (CHART_HEIGHT - MIN_BAR_HEIGHT),
+                  backgroundColor: isLatest ? colors.tint : colors.tintSoft,
+                },
+              ]}
+            />
+            <ThemedText style={[styles.dateLabel, { color: colors.secondaryText }]} numberOfLines={1}>
+              {formatChartDate(point.date)}
+            </ThemedText>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+    paddingTop: 8,
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+  },
+  bar: {
+    width: '100%',
+    maxWidth: 28,
+    borderRadius: 6,
+  },
+  valueLabel: {
+    fontSize: 10,
+    lineHeight: 12,
+  },
+  dateLabel: {
+    fontSize: 9,
+    lineHeight: 11,
+  },
+});
@@ -1,9 +1,22 @@
 /**
  * Global App Context for AVA Application
- * Manages state and CRUD operations for all entities using Supabase
+ * Manages state and CRUD operations for all entities through the active data backend
  */
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  ReactNode,
+  type Dispatch,
+  type SetStateAction,
+} from 'react';
+import { AppState } from 'react-native';
+import { router } from 'expo-router';
+import * as Crypto from 'expo-crypto';
 import {
   UserProfile,
   CanineProfile,
@@ -14,10 +27,26 @@ import {
   Appointment,
   MediaItem,
   MedicalRecord,
+  LabResult,
   MedicationEntry,
+  MedicationDoseLog,
+  MedicationDoseStatus,
+  WeightMeasurement,
   VetVisit,
   ImmunizationRecord,
   CanineAllergy,
+  ActivationCode,
+  SubscriptionTier,
+  VetAccessGrant,
+  WalkerAssignment,
+  WalkLog,
+  Household,
+  HouseholdMember,
+  HouseholdRole,
+  PetShareLink,
+  PetShareAccess,
+  PetShareSection,
+  AppSettings,
 } from '@/types';
 import {
   userProfileService,
@@ -29,24 +58,117 @@ import {
   appointmentService,
   mediaItemService,
   medicalRecordService,
+  labResultService,
   medicationService,
+  medicationDoseLogService,
+  weightMeasurementService,
   vetVisitService,
   immunizationService,
   canineAllergyService,
+  sessionService,
+  activationCodeService,
+  vetAccessGrantService,
+  walkerAssignmentService,
+  walkLogService,
+  householdService,
+  householdMemberService,
+  petShareLinkService,
+  petShareAccessService,
+  appSettingsService,
 } from '@/services/database';
-import { isSupabaseConfigured, supabaseService } from '@/lib/supabase';
-import { generateTestData } from '@/utils/testData';
+import { getDataBackend } from '@/services/backends';
+import type { PasswordHashRecord } from '@/services/backends/types';
 import { testSupabaseConnection, printTestResults } from '@/utils/testSupabaseConnection';
-import { validateActivationCode, type UserRole } from '@/utils/giftCodes';
-import { hashPassword, verifyPassword } from '@/utils/password';
-
-// UUID validation regex
-const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+import { normalizeActivationCode, type UserRole } from '@/utils/giftCodes';
+import { DUMMY_PASSWORD_HASH, hashPassword, needsRehash, verifyPassword } from '@/utils/password';
+import { checkIsOnline, subscribeToConnectivity } from '@/utils/network';
+import { getVaccineSchedule, type VaccineDue } from '@/utils/vaccineSchedule';
+import { getImmunizationAge, getImmunizationAgeMismatch } from '@/utils/canineAge';
+import { getLatestWeightMeasurement } from '@/utils/weight';
+import {
+  loadCachedCollections,
+  saveCachedCollections,
+  clearCachedCollections,
+  type CachedCollections,
+} from '@/services/offlineCache';
+import {
+  createLocalId,
+  isLocalId,
+  enqueueOperation,
+  flushOutbox,
+  getPendingOperations,
+  getSyncConflicts,
+  clearSyncConflicts as clearStoredSyncConflicts,
+  type SyncConflict,
+  type SyncEntity,
+} from '@/services/syncQueue';
+import { getChangeEventSource, mergeRecordChange, type RecordChange } from '@/services/realtime';
+import { MutationError, failed, runMutation, succeeded, type MutationResult } from '@/services/mutations';
+import { principalFor, setCurrentPrincipal, withTwoFactorGrant } from '@/services/authorization';
+import { requestPasswordReset, resetPasswordWithCode } from '@/services/passwordReset';
+import { redeemActivationCodeForSignup, validateActivationCode } from '@/services/activationCodes';
+import { createPetShareLink as issuePetShareLink } from '@/services/petShares';
+import {
+  TWO_FACTOR_DISABLED,
+  checkTwoFactorCode,
+  confirmTwoFactorEnrollment as confirmEnrollment,
+  disableTwoFactor as removeTwoFactor,
+  getTwoFactorStatus,
+  regenerateBackupCodes,
+  resetTwoFactor,
+  startTwoFactorEnrollment as startEnrollment,
+  type TwoFactorStatus,
+} from '@/services/twoFactor';
+import {
+  checkCanineLimit,
+  checkMediaStorage,
+  checkMedicalAttachments,
+  getSubscriptionTier,
+  type EntitlementCheck,
+  type EntitlementUsage,
+} from '@/utils/entitlements';
+import {
+  CLEARED_LOGIN_STATE,
+  LOGIN_FAILED_MESSAGE,
+  assertLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from '@/services/loginThrottle';
+import {
+  createSession,
+  discardSession,
+  endSession,
+  getRefreshDelay,
+  refreshSession,
+  restoreSession,
+  saveSessionProfile,
+  validateSession,
+  type StoredSession,
+} from '@/services/session';
+
+// How often the stored session is checked for revocation and refreshed
+const SESSION_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// How long the login screen waits for a two-factor code after the password
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
 
-function isValidUUID(id: string): boolean {
-  return UUID_REGEX.test(id);
+/**
+ * A login that passed the password check and is waiting for a two-factor code
+ * The nonce tells this attempt apart from a newer one started before the code arrives.
+ */
+interface PendingTwoFactorLogin {
+  userId: string;
+  email: string;
+  nonce: string;
+  replacementHash: string | null;
+  expiresAt: number;
 }
 
+/**
+ * How a login attempt ended; 'two_factor_required' is followed by verifyTwoFactorLogin()
+ */
+export type LoginResult = 'signed_in' | 'two_factor_required';
+
 interface AppContextType {
   // State
   userProfile: UserProfile | null;
@@ -58,27 +180,99 @@ interface AppContextType {
   appointments: Appointment[];
   mediaItems: MediaItem[];
   medicalRecords: MedicalRecord[];
+  labResults: LabResult[];
   medications: MedicationEntry[];
+  medicationDoseLogs: MedicationDoseLog[];
+  weightMeasurements: WeightMeasurement[];
   vetVisits: VetVisit[];
   immunizations: ImmunizationRecord[];
   canineAllergies: CanineAllergy[];
+  walkLogs: WalkLog[];
   isAuthenticated: boolean;
   isLoading: boolean;
+  /** True while a stored session is being restored on launch */
+  isRestoringSession: boolean;
+  /** Why the user was signed out automatically, shown on the login screen */
+  sessionNotice: string | null;
+  clearSessionNotice: () => void;
+
+  // Offline sync
+  isOnline: boolean;
+  pendingSyncCount: number;
+  syncConflicts: SyncConflict[];
+  syncNow: () => Promise<void>;
+  clearSyncConflicts: () => Promise<void>;
 
   // User Profile
   setUserProfile: (profile: UserProfile | null) => void;
-  updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
-  
+  updateUserProfile: (profile: Partial<UserProfile>) => Promise<MutationResult<UserProfile>>;
+
+  // Subscription
+  subscriptionTier: SubscriptionTier;
+  entitlementUsage: EntitlementUsage;
+
   // User Management (Admin only)
   allUsers: UserProfile[];
-  addUser: (user: Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'>, password: string) => Promise<void>;
-  updateUser: (id: string, updates: Partial<UserProfile>) => Promise<void>;
-  deleteUser: (id: string) => Promise<void>;
+  addUser: (user: Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'>, password: string) => Promise<MutationResult<UserProfile>>;
+  updateUser: (id: string, updates: Partial<UserProfile>) => Promise<MutationResult<UserProfile>>;
+  deleteUser: (id: string) => Promise<MutationResult>;
+  revokeUserSessions: (userId: string) => Promise<MutationResult<number>>;
+  unlockUser: (id: string) => Promise<MutationResult>;
+  resetUserTwoFactor: (userId: string) => Promise<MutationResult<boolean>>; // false when it wasn't set up
+  appSettings: AppSettings | null;
+  updateAppSettings: (updates: Partial<Pick<AppSettings, 'requireAdminTwoFactor'>>) => Promise<MutationResult<AppSettings>>;
+
+  // Activation Codes (Admin only)
+  activationCodes: ActivationCode[];
+  addActivationCode: (code: Omit<ActivationCode, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<ActivationCode>>;
+  updateActivationCode: (id: string, updates: Partial<ActivationCode>) => Promise<MutationResult<ActivationCode>>;
+
+  // Vet Access
+  vetAccessGrants: VetAccessGrant[]; // Grants for the signed-in owner's pets
+  sharedCanines: CanineProfile[]; // Pets shared with the signed-in vet, or assigned to the signed-in walker
+  shareCanineWithVet: (canineId: string, vetEmail: string) => Promise<MutationResult<VetAccessGrant>>;
+  revokeVetAccess: (grantId: string) => Promise<MutationResult<VetAccessGrant>>;
+  getSharedCanine: (id: string) => CanineProfile | undefined;
+
+  // Dog Walkers
+  walkerAssignments: WalkerAssignment[]; // Assignments for the signed-in owner's pets
+  assignWalker: (canineId: string, walkerEmail: string) => Promise<MutationResult<WalkerAssignment>>;
+  unassignWalker: (assignmentId: string) => Promise<MutationResult<WalkerAssignment>>;
+  scheduleWalk: (canineId: string, assignmentId: string, scheduledAt: string) => Promise<MutationResult<WalkLog>>;
+  startWalk: (canineId: string) => Promise<MutationResult<WalkLog>>;
+  checkInWalk: (walkId: string) => Promise<MutationResult<WalkLog>>;
+  checkOutWalk: (walkId: string, notes?: string) => Promise<MutationResult<WalkLog>>;
+  updateWalkLog: (id: string, updates: Partial<WalkLog>) => Promise<MutationResult<WalkLog>>;
+  deleteWalkLog: (id: string) => Promise<MutationResult>;
+  getWalkLogsByCanine: (canineId: string) => WalkLog[];
+
+  // Households
+  households: Household[]; // Households the signed-in user belongs to
+  householdMembers: HouseholdMember[]; // Members of those households
+  createHousehold: (name: string) => Promise<MutationResult<Household>>;
+  deleteHousehold: (id: string) => Promise<MutationResult>;
+  inviteHouseholdMember: (householdId: string, email: string, role: HouseholdRole) => Promise<MutationResult<HouseholdMember>>;
+  updateHouseholdMemberRole: (memberId: string, role: HouseholdRole) => Promise<MutationResult<HouseholdMember>>;
+  removeHouseholdMember: (memberId: string) => Promise<MutationResult>;
+  setCanineHousehold: (canineId: string, householdId: string | undefined) => Promise<MutationResult<CanineProfile>>;
+  getCanineRole: (canineId: string) => HouseholdRole | null;
+
+  // Share Links
+  petShareLinks: PetShareLink[]; // Links for the signed-in user's pets
+  petShareAccesses: PetShareAccess[]; // Every recorded access to those links
+  createPetShareLink: (
+    canineId: string,
+    sections: PetShareSection[],
+    expiresInDays: number,
+    label?: string,
+    emergencyContacts?: Contact[] // Copied onto the link when it shares emergency contacts
+  ) => Promise<MutationResult<{ link: PetShareLink; code: string }>>;
+  revokePetShareLink: (id: string) => Promise<MutationResult<PetShareLink>>;
 
   // Canine Profile
-  addCanine: (canine: Omit<CanineProfile, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateCanine: (id: string, updates: Partial<CanineProfile>) => Promise<void>;
-  deleteCanine: (id: string) => Promise<void>;
+  addCanine: (canine: Omit<CanineProfile, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<CanineProfile>>;
+  updateCanine: (id: string, updates: Partial<CanineProfile>) => Promise<MutationResult<CanineProfile>>;
+  deleteCanine: (id: string) => Promise<MutationResult>;
   getCanine: (id: string) => CanineProfile | undefined;
   getNutritionEntriesByCanine: (canineId: string) => NutritionEntry[];
   getTrainingLogsByCanine: (canineId: string) => TrainingLog[];
@@ -86,67 +280,106 @@ interface AppContextType {
   getMedicationsByCanine: (canineId: string) => MedicationEntry[];
   getVetVisitsByCanine: (canineId: string) => VetVisit[];
   getImmunizationsByCanine: (canineId: string) => ImmunizationRecord[];
+  getVaccineScheduleByCanine: (canineId: string) => VaccineDue[]; // Next-due vaccines, most urgent first
 
   // Vet Profile
-  addVet: (vet: Omit<VetProfile, 'id' | 'createdAt' | 'updatedAt'>) => Promise<VetProfile>;
-  updateVet: (id: string, updates: Partial<VetProfile>) => Promise<void>;
-  deleteVet: (id: string) => Promise<void>;
+  addVet: (vet: Omit<VetProfile, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<VetProfile>>;
+  updateVet: (id: string, updates: Partial<VetProfile>) => Promise<MutationResult<VetProfile>>;
+  deleteVet: (id: string) => Promise<MutationResult>;
 
   // Contact
-  addContact: (contact: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateContact: (id: string, updates: Partial<Contact>) => Promise<void>;
-  deleteContact: (id: string) => Promise<void>;
+  addContact: (contact: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<Contact>>;
+  updateContact: (id: string, updates: Partial<Contact>) => Promise<MutationResult<Contact>>;
+  deleteContact: (id: string) => Promise<MutationResult>;
 
   // Nutrition
-  addNutritionEntry: (entry: Omit<NutritionEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateNutritionEntry: (id: string, updates: Partial<NutritionEntry>) => Promise<void>;
-  deleteNutritionEntry: (id: string) => Promise<void>;
+  addNutritionEntry: (entry: Omit<NutritionEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<NutritionEntry>>;
+  updateNutritionEntry: (id: string, updates: Partial<NutritionEntry>) => Promise<MutationResult<NutritionEntry>>;
+  deleteNutritionEntry: (id: string) => Promise<MutationResult>;
 
   // Training
-  addTrainingLog: (log: Omit<TrainingLog, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateTrainingLog: (id: string, updates: Partial<TrainingLog>) => Promise<void>;
-  deleteTrainingLog: (id: string) => Promise<void>;
+  addTrainingLog: (log: Omit<TrainingLog, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<TrainingLog>>;
+  updateTrainingLog: (id: string, updates: Partial<TrainingLog>) => Promise<MutationResult<TrainingLog>>;
+  deleteTrainingLog: (id: string) => Promise<MutationResult>;
 
   // Appointment
-  addAppointment: (appointment: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateAppointment: (id: string, updates: Partial<Appointment>) => Promise<void>;
-  deleteAppointment: (id: string) => Promise<void>;
+  addAppointment: (appointment: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<Appointment>>;
+  updateAppointment: (id: string, updates: Partial<Appointment>) => Promise<MutationResult<Appointment>>;
+  deleteAppointment: (id: string) => Promise<MutationResult>;
 
   // Media
-  addMediaItem: (media: Omit<MediaItem, 'id' | 'createdAt'>) => Promise<void>;
-  updateMediaItem: (id: string, updates: Partial<MediaItem>) => Promise<void>;
-  deleteMediaItem: (id: string) => Promise<void>;
+  addMediaItem: (media: Omit<MediaItem, 'id' | 'createdAt'>) => Promise<MutationResult<MediaItem>>;
+  updateMediaItem: (id: string, updates: Partial<MediaItem>) => Promise<MutationResult<MediaItem>>;
+  deleteMediaItem: (id: string) => Promise<MutationResult>;
 
   // Medical Records
-  addMedicalRecord: (record: Omit<MedicalRecord, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateMedicalRecord: (id: string, updates: Partial<MedicalRecord>) => Promise<void>;
-  deleteMedicalRecord: (id: string) => Promise<void>;
+  addMedicalRecord: (record: Omit<MedicalRecord, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<MedicalRecord>>;
+  updateMedicalRecord: (id: string, updates: Partial<MedicalRecord>) => Promise<MutationResult<MedicalRecord>>;
+  deleteMedicalRecord: (id: string) => Promise<MutationResult>;
+
+  // Lab Results
+  addLabResult: (result: Omit<LabResult, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<LabResult>>;
+  updateLabResult: (id: string, updates: Partial<LabResult>) => Promise<MutationResult<LabResult>>;
+  deleteLabResult: (id: string) => Promise<MutationResult>;
+  getLabResultsByCanine: (canineId: string) => LabResult[];
 
   // Medications
-  addMedicationEntry: (entry: Omit<MedicationEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateMedicationEntry: (id: string, updates: Partial<MedicationEntry>) => Promise<void>;
-  deleteMedicationEntry: (id: string) => Promise<void>;
+  addMedicationEntry: (entry: Omit<MedicationEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<MedicationEntry>>;
+  updateMedicationEntry: (id: string, updates: Partial<MedicationEntry>) => Promise<MutationResult<MedicationEntry>>;
+  deleteMedicationEntry: (id: string) => Promise<MutationResult>;
+  logMedicationDose: (
+    medicationId: string,
+    scheduledAt: string,
+    status: MedicationDoseStatus,
+    notes?: string
+  ) => Promise<MutationResult<MedicationDoseLog>>;
+  deleteMedicationDoseLog: (id: string) => Promise<MutationResult>;
+  getMedicationDoseLogsByCanine: (canineId: string) => MedicationDoseLog[];
+
+  // Weight
+  addWeightMeasurement: (
+    measurement: Omit<WeightMeasurement, 'id' | 'createdAt' | 'updatedAt'>
+  ) => Promise<MutationResult<WeightMeasurement>>;
+  updateWeightMeasurement: (id: string, updates: Partial<WeightMeasurement>) => Promise<MutationResult<WeightMeasurement>>;
+  deleteWeightMeasurement: (id: string) => Promise<MutationResult>;
+  getWeightMeasurementsByCanine: (canineId: string) => WeightMeasurement[];
 
   // Vet Visits
-  addVetVisit: (visit: Omit<VetVisit, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateVetVisit: (id: string, updates: Partial<VetVisit>) => Promise<void>;
-  deleteVetVisit: (id: string) => Promise<void>;
+  addVetVisit: (visit: Omit<VetVisit, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<VetVisit>>;
+  updateVetVisit: (id: string, updates: Partial<VetVisit>) => Promise<MutationResult<VetVisit>>;
+  /**
+   * The visit's medications and records stay, unlinked from it; its follow-up appointments
+   * are deleted too when `deleteFollowUps` is set, and otherwise kept unlinked
+   */
+  deleteVetVisit: (id: string, options?: { deleteFollowUps?: boolean }) => Promise<MutationResult>;
 
   // Immunizations
-  addImmunizationRecord: (record: Omit<ImmunizationRecord, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateImmunizationRecord: (id: string, updates: Partial<ImmunizationRecord>) => Promise<void>;
-  deleteImmunizationRecord: (id: string) => Promise<void>;
+  addImmunizationRecord: (record: Omit<ImmunizationRecord, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<ImmunizationRecord>>;
+  updateImmunizationRecord: (id: string, updates: Partial<ImmunizationRecord>) => Promise<MutationResult<ImmunizationRecord>>;
+  deleteImmunizationRecord: (id: string) => Promise<MutationResult>;
 
   // Allergies
-  addCanineAllergy: (allergy: Omit<CanineAllergy, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateCanineAllergy: (id: string, updates: Partial<CanineAllergy>) => Promise<void>;
-  deleteCanineAllergy: (id: string) => Promise<void>;
+  addCanineAllergy: (allergy: Omit<CanineAllergy, 'id' | 'createdAt' | 'updatedAt'>) => Promise<MutationResult<CanineAllergy>>;
+  updateCanineAllergy: (id: string, updates: Partial<CanineAllergy>) => Promise<MutationResult<CanineAllergy>>;
+  deleteCanineAllergy: (id: string) => Promise<MutationResult>;
   getCanineAllergiesByCanine: (canineId: string) => CanineAllergy[];
 
+  // Two-Factor Authentication
+  twoFactorStatus: TwoFactorStatus;
+  twoFactorSetupRequired: boolean; // An admin account that must turn two-factor on before going further
+  startTwoFactorEnrollment: () => Promise<{ secret: string; otpauthUri: string }>;
+  confirmTwoFactorEnrollment: (code: string) => Promise<string[]>;
+  regenerateTwoFactorBackupCodes: (code: string) => Promise<string[]>;
+  disableTwoFactor: (code: string) => Promise<void>;
+
   // Authentication
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactorLogin: (code: string) => Promise<void>;
+  cancelTwoFactorLogin: () => void;
   signup: (email: string, password: string, firstName: string, lastName: string, activationCode: string) => Promise<{ success: boolean; requiresEmailConfirmation?: boolean; message?: string }>;
   changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (email: string, code: string, newPassword: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshData: () => Promise<void>;
   
@@ -160,7 +393,17 @@ export function AppProvider({ children }: { children: ReactNode }) {
   // State
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [allUsers, setAllUsers] = useState<UserProfile[]>([]); // All users (Admin only)
+  const [activationCodes, setActivationCodes] = useState<ActivationCode[]>([]); // Admin only
   const [canines, setCanines] = useState<CanineProfile[]>([]);
+  const [vetAccessGrants, setVetAccessGrants] = useState<VetAccessGrant[]>([]);
+  const [sharedCanines, setSharedCanines] = useState<CanineProfile[]>([]); // Vet and walker only
+  const [walkerAssignments, setWalkerAssignments] = useState<WalkerAssignment[]>([]);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [householdMembers, setHouseholdMembers] = useState<HouseholdMember[]>([]);
+  const [petShareLinks, setPetShareLinks] = useState<PetShareLink[]>([]);
+  const [petShareAccesses, setPetShareAccesses] = useState<PetShareAccess[]>([]);
+  const [twoFactorStatus, setTwoFactorStatus] = useState<TwoFactorStatus>(TWO_FACTOR_DISABLED);
+  const [appSettings, setAppSettings] = useState<AppSettings | null>(null);
   const [vets, setVets] = useState<VetProfile[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [nutritionEntries, setNutritionEntries] = useState<NutritionEntry[]>([]);
@@ -168,63 +411,474 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
   const [medicalRecords, setMedicalRecords] = useState<MedicalRecord[]>([]);
+  const [labResults, setLabResults] = useState<LabResult[]>([]);
   const [medications, setMedications] = useState<MedicationEntry[]>([]);
+  const [medicationDoseLogs, setMedicationDoseLogs] = useState<MedicationDoseLog[]>([]);
+  const [weightMeasurements, setWeightMeasurements] = useState<WeightMeasurement[]>([]);
   const [vetVisits, setVetVisits] = useState<VetVisit[]>([]);
   const [immunizations, setImmunizations] = useState<ImmunizationRecord[]>([]);
   const [canineAllergies, setCanineAllergies] = useState<CanineAllergy[]>([]);
+  const [walkLogs, setWalkLogs] = useState<WalkLog[]>([]);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
+  // The signed-in session; a ref so timers and AppState listeners see the latest one
+  const sessionRef = useRef<StoredSession | null>(null);
+  // Account that passed the password check and still owes a two-factor code; never holds the password itself
+  const pendingTwoFactorRef = useRef<PendingTwoFactorLogin | null>(null);
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  // Mirrors isOnline so callbacks created in earlier renders see the latest value
+  const isOnlineRef = useRef(true);
+
+  // Writes are only queued when there is a remote database to sync with
+  const isOfflineMode = () => getDataBackend().isRemote && !isOnlineRef.current;
+
+  // Usage counted against the signed-in user's subscription tier
+  // Pets shared with a vet or through a household are loaded alongside their own and count
+  // against whoever added them
+  const subscriptionTier = getSubscriptionTier(userProfile);
+
+  const twoFactorSetupRequired =
+    userProfile?.role === 'Admin' && !!appSettings?.requireAdminTwoFactor && !twoFactorStatus.enabled;
+  const ownCanineIds = new Set(canines.filter((canine) => canine.userId === userProfile?.id).map((canine) => canine.id));
+  const entitlementUsage: EntitlementUsage = {
+    canines: ownCanineIds.size,
+    mediaStorageBytes: mediaItems
+      .filter((item) => ownCanineIds.has(item.canineId))
+      .reduce((total, item) => total + (item.fileSize ?? 0), 0),
+    medicalAttachments: medicalRecords
+      .filter((record) => ownCanineIds.has(record.canineId))
+      .reduce((total, record) => total + (record.attachments?.length ?? 0), 0),
+  };
+
+  // The error to fail an add with when the tier doesn't allow it; admins are never limited
+  const entitlementFailure = (check: EntitlementCheck) =>
+    userProfile?.role === 'Admin' || check.allowed ? null : new MutationError(check.message, 'limit_reached');
+
+  // Apply cached or freshly loaded collections to state
+  const applyCollections = (collections: Partial<CachedCollections>) => {
+    if (collections.allUsers) setAllUsers(collections.allUsers);
+    if (collections.canines) setCanines(collections.canines);
+    if (collections.vets) setVets(collections.vets);
+    if (collections.contacts) setContacts(collections.contacts);
+    if (collections.nutritionEntries) setNutritionEntries(collections.nutritionEntries);
+    if (collections.trainingLogs) setTrainingLogs(collections.trainingLogs);
+    if (collections.appointments) setAppointments(collections.appointments);
+    if (collections.mediaItems) setMediaItems(collections.mediaItems);
+    if (collections.medicalRecords) setMedicalRecords(collections.medicalRecords);
+    if (collections.labResults) setLabResults(collections.labResults);
+    if (collections.medications) setMedications(collections.medications);
+    if (collections.medicationDoseLogs) setMedicationDoseLogs(collections.medicationDoseLogs);
+    if (collections.weightMeasurements) setWeightMeasurements(collections.weightMeasurements);
+    if (collections.vetVisits) setVetVisits(collections.vetVisits);
+    if (collections.immunizations) setImmunizations(collections.immunizations);
+    if (collections.canineAllergies) setCanineAllergies(collections.canineAllergies);
+    if (collections.walkLogs) setWalkLogs(collections.walkLogs);
+  };
+
+  // A deleted visit's medications, records and follow-ups stay, without the link to it
+  const unlinkVetVisit = (visitId: string) => {
+    const unlink = <T extends { vetVisitId?: string }>(records: T[]) =>
+      records.some((record) => record.vetVisitId === visitId)
+        ? records.map((record) => (record.vetVisitId === visitId ? { ...record, vetVisitId: undefined } : record))
+        : records;
+    setMedications(unlink);
+    setMedicalRecords(unlink);
+    setAppointments(unlink);
+  };
+
+  // Merge a change made on another device into state
+  const applyRemoteChange = async (change: RecordChange) => {
+    // Records with queued local edits keep the local version until the outbox syncs
+    const userId = sessionRef.current?.userId ?? userProfile?.id;
+    const pending = userId ? await getPendingOperations(userId) : [];
+    const pendingIds = new Set(pending.map((operation) => operation.recordId));
+    const merge = <T extends { id: string; updatedAt?: string }>(records: T[]) =>
+      mergeRecordChange(records, change as RecordChange<T>, pendingIds);
+
+    switch (change.collection) {
+      case 'allUsers':
+        setAllUsers(merge);
+        break;
+      case 'canines':
+        setCanines(merge);
+        if (change.type === 'DELETE' && !pendingIds.has(change.recordId)) {
+          // The server cascades deletes to the pet's records; mirror that locally
+          const removeChildren = <T extends { canineId: string }>(records: T[]) =>
+            records.some((record) => record.canineId === change.recordId)
+              ? records.filter((record) => record.canineId !== change.recordId)
+              : records;
+          setNutritionEntries(removeChildren);
+          setTrainingLogs(removeChildren);
+          setAppointments(removeChildren);
+          setMediaItems(removeChildren);
+          setMedicalRecords(removeChildren);
+          setLabResults(removeChildren);
+          setMedications(removeChildren);
+          setMedicationDoseLogs(removeChildren);
+          setWeightMeasurements(removeChildren);
+          setVetVisits(removeChildren);
+          setImmunizations(removeChildren);
+          setCanineAllergies(removeChildren);
+          setWalkLogs(removeChildren);
+        }
+        break;
+      case 'vets':
+        setVets(merge);
+        break;
+      case 'contacts':
+        setContacts(merge);
+        break;
+      case 'nutritionEntries':
+        setNutritionEntries(merge);
+        break;
+      case 'trainingLogs':
+        setTrainingLogs(merge);
+        break;
+      case 'appointments':
+        setAppointments(merge);
+        break;
+      case 'mediaItems':
+        setMediaItems(merge);
+        break;
+      case 'medicalRecords':
+        setMedicalRecords(merge);
+        if (change.type === 'DELETE' && !pendingIds.has(change.recordId)) {
+          setLabResults((prev) => prev.filter((result) => result.medicalRecordId !== change.recordId));
+        }
+        break;
+      case 'labResults':
+        setLabResults(merge);
+        break;
+      case 'medications':
+        setMedications(merge);
+        if (change.type === 'DELETE' && !pendingIds.has(change.recordId)) {
+          setMedicationDoseLogs((prev) => prev.filter((log) => log.medicationId !== change.recordId));
+        }
+        break;
+      case 'medicationDoseLogs':
+        setMedicationDoseLogs(merge);
+        break;
+      case 'weightMeasurements':
+        setWeightMeasurements(merge);
+        break;
+      case 'vetVisits':
+        setVetVisits(merge);
+        if (change.type === 'DELETE' && !pendingIds.has(change.recordId)) {
+          unlinkVetVisit(change.recordId);
+        }
+        break;
+      case 'immunizations':
+        setImmunizations(merge);
+        break;
+      case 'canineAllergies':
+        setCanineAllergies(merge);
+        break;
+      case 'walkLogs':
+        setWalkLogs(merge);
+        break;
+    }
+  };
+
+  // Offline outbox helpers - apply the change locally and queue it for replay
+  const outboxUserId = () => {
+    const userId = sessionRef.current?.userId ?? userProfile?.id;
+    if (!userId) {
+      throw new MutationError('You must be logged in to save changes offline.', 'forbidden');
+    }
+    return userId;
+  };
+
+  const queueCreate = async <T extends { id: string }>(entity: SyncEntity, input: object): Promise<T> => {
+    const now = new Date().toISOString();
+    const record = { ...input, id: createLocalId(entity), createdAt: now, updatedAt: now } as unknown as T;
+    setPendingSyncCount(
+      await enqueueOperation(outboxUserId(), { entity, type: 'create', recordId: record.id, payload: input as Record<string, any> })
+    );
+    return record;
+  };
+
+  const queueUpdate = async (
+    entity: SyncEntity,
+    id: string,
+    baseUpdatedAt: string | undefined,
+    updates: object
+  ) => {
+    setPendingSyncCount(
+      await enqueueOperation(outboxUserId(), { entity, type: 'update', recordId: id, baseUpdatedAt, payload: updates as Record<string, any> })
+    );
+  };
+
+  const queueDelete = async (entity: SyncEntity, id: string, baseUpdatedAt: string | undefined) => {
+    setPendingSyncCount(await enqueueOperation(outboxUserId(), { entity, type: 'delete', recordId: id, baseUpdatedAt }));
+  };
+
+  // Optimistic mutation helpers - show the change immediately, then keep the
+  // saved record or roll back if the backend rejects it
+  const optimisticCreate = async <T extends { id: string }>(
+    entity: SyncEntity,
+    setRecords: Dispatch<SetStateAction<T[]>>,
+    input: object,
+    persist: () => Promise<T | null>,
+    failureMessage: string,
+    position: 'start' | 'end' = 'start'
+  ): Promise<MutationResult<T>> => {
+    const add = (record: T) => (prev: T[]) => (position === 'start' ? [record, ...prev] : [...prev, record]);
+
+    if (isOfflineMode()) {
+      const queued = await queueCreate<T>(entity, input);
+      setRecords(add(queued));
+      return succeeded(queued, true);
+    }
+
+    const now = new Date().toISOString();
+    const optimistic = { ...input, id: createLocalId(entity), createdAt: now, updatedAt: now } as unknown as T;
+    setRecords(add(optimistic));
+
+    const result = await runMutation(failureMessage, persist);
+    setRecords((prev) => {
+      if (!result.ok) return prev.filter((record) => record.id !== optimistic.id);
+      // A realtime insert may already have delivered the saved record
+      if (prev.some((record) => record.id === result.data.id)) {
+        return prev.filter((record) => record.id !== optimistic.id);
+      }
+      return prev.map((record) => (record.id === optimistic.id ? result.data : record));
+    });
+    return result;
+  };
+
+  const optimisticUpdate = async <T extends { id: string; updatedAt?: string }>(
+    entity: SyncEntity,
+    setRecords: Dispatch<SetStateAction<T[]>>,
+    records: T[],
+    id: string,
+    updates: Partial<T>,
+    persist: () => Promise<T | null>,
+    failureMessage: string
+  ): Promise<MutationResult<T>> => {
+    const original = records.find((record) => record.id === id);
+    const optimistic = { ...original, ...updates, id, updatedAt: new Date().toISOString() } as T;
+    setRecords((prev) => prev.map((record) => (record.id === id ? { ...record, ...optimistic } : record)));
+
+    if (isOfflineMode()) {
+      await queueUpdate(entity, id, original?.updatedAt, updates);
+      return succeeded(optimistic, true);
+    }
+
+    const result = await runMutation(failureMessage, persist);
+    setRecords((prev) =>
+      prev.map((record) => {
+        if (record.id !== id) return record;
+        if (result.ok) return result.data;
+        return original ?? record;
+      })
+    );
+    return result;
+  };
+
+  const optimisticDelete = async <T extends { id: string; updatedAt?: string }>(
+    entity: SyncEntity,
+    setRecords: Dispatch<SetStateAction<T[]>>,
+    records: T[],
+    id: string,
+    persist: () => Promise<boolean>,
+    failureMessage: string
+  ): Promise<MutationResult> => {
+    const index = records.findIndex((record) => record.id === id);
+    const original = index === -1 ? undefined : records[index];
+    setRecords((prev) => prev.filter((record) => record.id !== id));
+
+    if (isOfflineMode()) {
+      await queueDelete(entity, id, original?.updatedAt);
+      return succeeded(undefined, true);
+    }
+
+    const result = await runMutation(failureMessage, persist);
+    if (!result.ok) {
+      if (original) {
+        // Put the record back where it was
+        setRecords((prev) =>
+          prev.some((record) => record.id === id) ? prev : [...prev.slice(0, index), original, ...prev.slice(index)]
+        );
+      }
+      return failed(result.error);
+    }
+    return succeeded(undefined);
+  };
+
+  // Replay queued offline changes; returns once the outbox has been drained as far as possible
+  const replayOutbox = async (userId: string) => {
+    const pending = await getPendingOperations(userId);
+    if (pending.length === 0) {
+      setPendingSyncCount(0);
+      return;
+    }
+
+    const result = await flushOutbox(userId);
+    setPendingSyncCount(result.remaining);
+    if (result.conflicts.length > 0) {
+      setSyncConflicts(await getSyncConflicts(userId));
+    }
+  };
+
+  // Pets shared with a vet, along with the health records vets can see
+  const loadSharedCanines = async (vetUserId: string, ownedCanineIds: string[]) => {
+    const grants = await vetAccessGrantService.getActiveForVet(vetUserId);
+    const canineIds = [...new Set(grants.map((grant) => grant.canineId))].filter((id) => !ownedCanineIds.includes(id));
+    if (canineIds.length === 0) {
+      return {
+        canines: [],
+        medicalRecords: [],
+        labResults: [],
+        medications: [],
+        medicationDoseLogs: [],
+        weightMeasurements: [],
+        vetVisits: [],
+        immunizations: [],
+        canineAllergies: [],
+      };
+    }
+
+    const scope = { canineIds };
+    const [
+      sharedCanineData,
+      medicalData,
+      labResultData,
+      medicationData,
+      doseLogData,
+      weightData,
+      visitData,
+      immunizationData,
+      allergyData,
+    ] = await Promise.all([
+      canineProfileService.getByIds(canineIds),
+      medicalRecordService.getAll(scope),
+      labResultService.getAll(scope),
+      medicationService.getAll(scope),
+      medicationDoseLogService.getAll(scope),
+      weightMeasurementService.getAll(scope),
+      vetVisitService.getAll(scope),
+      immunizationService.getAll(scope),
+      canineAllergyService.getAll(scope),
+    ]);
+    return {
+      canines: sharedCanineData,
+      medicalRecords: medicalData,
+      labResults: labResultData,
+      medications: medicationData,
+      medicationDoseLogs: doseLogData,
+      weightMeasurements: weightData,
+      vetVisits: visitData,
+      immunizations: immunizationData,
+      canineAllergies: allergyData,
+    };
+  };
+
+  // Pets assigned to a walker, along with their walks
+  const loadAssignedCanines = async (walkerUserId: string, ownedCanineIds: string[]) => {
+    const assignments = await walkerAssignmentService.getActiveForWalker(walkerUserId);
+    const canineIds = [...new Set(assignments.map((assignment) => assignment.canineId))].filter(
+      (id) => !ownedCanineIds.includes(id)
+    );
+    if (canineIds.length === 0) {
+      return { canines: [], walkLogs: [] };
+    }
+
+    const [assignedCanineData, walkData] = await Promise.all([
+      canineProfileService.getByIds(canineIds),
+      walkLogService.getAll({ canineIds }),
+    ]);
+    return { canines: assignedCanineData, walkLogs: walkData };
+  };
+
+  // Re-derives the stored age of every immunization that no longer matches the pet's date of birth
+  // `records` defaults to the current state; loadData passes the list it just fetched
+  const backfillImmunizationAges = async (canine: CanineProfile, records: ImmunizationRecord[] = immunizations) => {
+    for (const record of records.filter((candidate) => candidate.canineId === canine.id)) {
+      const age = getImmunizationAgeMismatch(record, canine.dateOfBirth);
+      if (!age) continue;
+      const updates = { ageYears: age.years, ageMonths: age.months };
+      const result = await optimisticUpdate(
+        'immunizations',
+        setImmunizations,
+        records,
+        record.id,
+        updates,
+        () => immunizationService.update(record.id, updates),
+        'Unable to update this immunization record.'
+      );
+      if (!result.ok) {
+        console.warn(`⚠️ Could not update the age on immunization ${record.id}:`, result.error.message);
+      }
+    }
+  };
 
-  // Load data from Supabase
+  // Load data from the active data backend
   const loadData = async () => {
     try {
       setIsLoading(true);
 
-      // If Supabase is not configured, use test data as fallback
-      if (!isSupabaseConfigured) {
-        console.warn('⚠️ Supabase not configured. Using test data.');
-        const testData = generateTestData();
-        setUserProfile(testData.userProfile);
-        setCanines(testData.canines);
-        setAllUsers([testData.userProfile]);
-        setVets(testData.vets);
-        setContacts(testData.contacts);
-        setNutritionEntries(testData.nutritionEntries);
-        setTrainingLogs(testData.trainingLogs);
-        setAppointments(testData.appointments);
-        setMediaItems(testData.mediaItems);
-        setMedicalRecords(testData.medicalRecords);
-        setMedications(testData.medications);
-        setVetVisits(testData.vetVisits);
-        setImmunizations(testData.immunizations);
-        setCanineAllergies(testData.canineAllergies);
-        setIsLoading(false);
-        return;
-      }
+      const backend = getDataBackend();
+      console.log(`✅ Loading data from ${backend.kind} backend...`);
 
-      // Supabase is configured - try to load from Supabase
-      console.log('✅ Supabase configured. Loading data from database...');
+      // Show the last known data straight away, then refresh from the server
+      if (userProfile && backend.isRemote) {
+        const cached = await loadCachedCollections(userProfile.id);
+        if (cached) {
+          applyCollections(cached);
+        }
 
-      // Load shared data (vets, contacts) that don't require user authentication
-      try {
-        const [vetsData, contactsData] = await Promise.all([
-          vetProfileService.getAll(),
-          contactService.getAll(),
-        ]);
+        if (!isOnlineRef.current) {
+          console.log('📴 Offline. Using cached data until the connection returns.');
+          return;
+        }
 
-        setVets(vetsData || []);
-        setContacts(contactsData || []);
-      } catch (error) {
-        console.error('Error loading shared data from Supabase:', error);
+        // Push changes made while offline before pulling fresh data
+        await replayOutbox(userProfile.id);
+      }
+
+      // Load the shared vet and contact directories (available to every signed-in user)
+      if (userProfile) {
+        try {
+          const [vetsData, contactsData] = await Promise.all([
+            vetProfileService.getAll(),
+            contactService.getAll(),
+          ]);
+
+          setVets(vetsData || []);
+          setContacts(contactsData || []);
+        } catch (error) {
+          console.error('Error loading shared data:', error);
+          setVets([]);
+          setContacts([]);
+        }
+      } else {
         setVets([]);
         setContacts([]);
       }
 
+      // Whether the account has two-factor on, and whether it has to
+      if (userProfile) {
+        try {
+          const [statusData, settingsData] = await Promise.all([
+            getTwoFactorStatus(userProfile.id),
+            appSettingsService.get(),
+          ]);
+          setTwoFactorStatus(statusData);
+          setAppSettings(settingsData);
+        } catch (error) {
+          console.error('Error loading two-factor status:', error);
+        }
+      }
+
       // Check if user is Admin - Admins see all data
       const isAdmin = userProfile?.role === 'Admin';
 
-      // Load user-specific data if user is logged in and has a valid UUID
-      if (userProfile && isValidUUID(userProfile.id)) {
+      // Load user-specific data if user is logged in
+      if (userProfile) {
         try {
           if (isAdmin) {
             // Admin: Load all data across all users
@@ -237,10 +891,15 @@ export function AppProvider({ children }: { children: ReactNode }) {
               allAppointmentData,
               allMediaData,
               allMedicalData,
+              allLabResultsData,
               allMedicationsData,
+              allDoseLogsData,
+              allWeightData,
               allVetVisitsData,
               allImmunizationsData,
               allAllergiesData,
+              allWalkLogsData,
+              activationCodesData,
             ] = await Promise.all([
               userProfileService.getAll(),
               canineProfileService.getAll(), // No userId filter for admin
@@ -249,100 +908,133 @@ export function AppProvider({ children }: { children: ReactNode }) {
               appointmentService.getAll(), // No canineId filter for admin
               mediaItemService.getAll(), // No canineId filter for admin
               medicalRecordService.getAll(),
+              labResultService.getAll(),
               medicationService.getAll(),
+              medicationDoseLogService.getAll(),
+              weightMeasurementService.getAll(),
               vetVisitService.getAll(),
               immunizationService.getAll(),
               canineAllergyService.getAll(),
+              walkLogService.getAll(),
+              activationCodeService.getAll(),
             ]);
 
             setAllUsers(allUsersData || []);
+            setActivationCodes(activationCodesData || []);
             setCanines(allCaninesData || []);
+            setVetAccessGrants([]);
+            setWalkerAssignments([]);
+            setHouseholds([]);
+            setHouseholdMembers([]);
+            setPetShareLinks([]);
+            setPetShareAccesses([]);
+            setSharedCanines([]);
             setNutritionEntries(allNutritionData || []);
             setTrainingLogs(allTrainingData || []);
             setAppointments(allAppointmentData || []);
             setMediaItems(allMediaData || []);
             setMedicalRecords(allMedicalData || []);
+            setLabResults(allLabResultsData || []);
             setMedications(allMedicationsData || []);
+            setMedicationDoseLogs(allDoseLogsData || []);
+            setWeightMeasurements(allWeightData || []);
             setVetVisits(allVetVisitsData || []);
             setImmunizations(allImmunizationsData || []);
             setCanineAllergies(allAllergiesData || []);
+            setWalkLogs(allWalkLogsData || []);
           } else {
-            // Regular user: Load only their data
+            // Regular user: Load only their data, filtered by the backend
+            // Their pets include every pet in the households they belong to
             console.log('Loading user-specific data for user:', userProfile.id);
+            const [canineData, membershipData] = await Promise.all([
+              canineProfileService.getAll(userProfile.id),
+              householdMemberService.getForUser(userProfile.id),
+            ]);
+            const ownedCanineIds = (canineData || []).map((c) => c.id);
+            const householdIds = (membershipData || []).map((member) => member.householdId);
+            const scope = { canineIds: ownedCanineIds };
+
             const [
-              canineData,
               nutritionData,
               trainingData,
               appointmentData,
               mediaData,
               medicalData,
+              labResultData,
               medicationData,
+              doseLogData,
+              weightData,
               visitData,
               immunizationData,
               allergyData,
+              walkData,
+              grantData,
+              assignmentData,
+              householdData,
+              memberData,
+              shareLinkData,
+              shareAccessData,
+              shared,
+              assigned,
             ] = await Promise.all([
-              canineProfileService.getAll(userProfile.id),
-              nutritionEntryService.getAll(),
-              trainingLogService.getAll(),
-              appointmentService.getAll(),
-              mediaItemService.getAll(),
-              medicalRecordService.getAll(),
-              medicationService.getAll(),
-              vetVisitService.getAll(),
-              immunizationService.getAll(),
-              canineAllergyService.getAll(),
+              nutritionEntryService.getAll(scope),
+              trainingLogService.getAll(scope),
+              appointmentService.getAll(scope),
+              mediaItemService.getAll(scope),
+              medicalRecordService.getAll(scope),
+              labResultService.getAll(scope),
+              medicationService.getAll(scope),
+              medicationDoseLogService.getAll(scope),
+              weightMeasurementService.getAll(scope),
+              vetVisitService.getAll(scope),
+              immunizationService.getAll(scope),
+              canineAllergyService.getAll(scope),
+              walkLogService.getAll(scope),
+              vetAccessGrantService.getForCanines(ownedCanineIds),
+              walkerAssignmentService.getForCanines(ownedCanineIds),
+              householdService.getByIds(householdIds),
+              householdMemberService.getForHouseholds(householdIds),
+              petShareLinkService.getForCanines(ownedCanineIds),
+              petShareAccessService.getForCanines(ownedCanineIds),
+              userProfile.role === 'Vet' ? loadSharedCanines(userProfile.id, ownedCanineIds) : null,
+              userProfile.role === 'Dog Walker' ? loadAssignedCanines(userProfile.id, ownedCanineIds) : null,
             ]);
 
-            // Filter for current user's pets
-            const userCanineIds = (canineData || []).map((c) => c.id);
+            // A vet's shared patients and a walker's assigned dogs live in their own list;
+            // their records are merged in so the per-pet lookups and record screens work for them too
             setCanines(canineData || []);
-            setNutritionEntries((nutritionData || []).filter((e) => userCanineIds.includes(e.canineId)));
-            setTrainingLogs((trainingData || []).filter((t) => userCanineIds.includes(t.canineId)));
-            setAppointments((appointmentData || []).filter((appt) => userCanineIds.includes(appt.canineId)));
-            setMediaItems((mediaData || []).filter((media) => userCanineIds.includes(media.canineId)));
-            setMedicalRecords((medicalData || []).filter((rec) => userCanineIds.includes(rec.canineId)));
-            setMedications((medicationData || []).filter((med) => userCanineIds.includes(med.canineId)));
-            setVetVisits((visitData || []).filter((visit) => userCanineIds.includes(visit.canineId)));
-            setImmunizations((immunizationData || []).filter((record) => userCanineIds.includes(record.canineId)));
-            setCanineAllergies((allergyData || []).filter((allergy) => userCanineIds.includes(allergy.canineId)));
+            setVetAccessGrants(grantData || []);
+            setWalkerAssignments(assignmentData || []);
+            setHouseholds(householdData || []);
+            setHouseholdMembers(memberData || []);
+            setPetShareLinks(shareLinkData || []);
+            setPetShareAccesses(shareAccessData || []);
+            setSharedCanines(shared?.canines ?? assigned?.canines ?? []);
+            setNutritionEntries(nutritionData || []);
+            setTrainingLogs(trainingData || []);
+            setAppointments(appointmentData || []);
+            setMediaItems(mediaData || []);
+            setMedicalRecords([...(medicalData || []), ...(shared?.medicalRecords ?? [])]);
+            setLabResults([...(labResultData || []), ...(shared?.labResults ?? [])]);
+            setMedications([...(medicationData || []), ...(shared?.medications ?? [])]);
+            setMedicationDoseLogs([...(doseLogData || []), ...(shared?.medicationDoseLogs ?? [])]);
+            setWeightMeasurements([...(weightData || []), ...(shared?.weightMeasurements ?? [])]);
+            setVetVisits([...(visitData || []), ...(shared?.vetVisits ?? [])]);
+            setImmunizations([...(immunizationData || []), ...(shared?.immunizations ?? [])]);
+            setCanineAllergies([...(allergyData || []), ...(shared?.canineAllergies ?? [])]);
+            setWalkLogs([...(walkData || []), ...(assigned?.walkLogs ?? [])]);
+
+            // Records saved before ages were derived, or before the date of birth was known, are corrected once loaded
+            for (const canine of canineData || []) {
+              await backfillImmunizationAges(canine, immunizationData || []);
+            }
           }
           
-          console.log('✅ Successfully loaded data from Supabase');
+          console.log('✅ Successfully loaded data');
         } catch (error) {
-          console.error('❌ Error loading user data from Supabase:', error);
-          // If Supabase query fails, initialize with empty arrays instead of test data
-          setAllUsers([]);
-          setCanines([]);
-          setNutritionEntries([]);
-          setTrainingLogs([]);
-          setAppointments([]);
-          setMediaItems([]);
-          setMedicalRecords([]);
-          setMedications([]);
-          setVetVisits([]);
-          setImmunizations([]);
-          setCanineAllergies([]);
+          console.error('❌ Error loading user data:', error);
+          // Keep whatever was restored from the offline cache instead of blanking the screens
         }
-      } else if (userProfile && !isValidUUID(userProfile.id)) {
-        // User profile exists but ID is not a valid UUID (test data)
-        // This means they're using test credentials, so use test data
-        console.warn('⚠️ User ID is not a valid UUID (test data). Using test data for user-specific entities.');
-        const testData = generateTestData();
-        const userCanineIds = testData.canines.filter((c) => c.userId === userProfile.id).map((c) => c.id);
-        setCanines(testData.canines.filter((c) => c.userId === userProfile.id));
-        setVets(testData.vets);
-        setContacts(testData.contacts);
-        setNutritionEntries(testData.nutritionEntries.filter((e) => 
-          userCanineIds.includes(e.canineId)
-        ));
-        setTrainingLogs(testData.trainingLogs.filter((e) => userCanineIds.includes(e.canineId)));
-        setAppointments(testData.appointments.filter((appt) => userCanineIds.includes(appt.canineId)));
-        setMediaItems(testData.mediaItems.filter((m) => userCanineIds.includes(m.canineId)));
-        setMedicalRecords(testData.medicalRecords.filter((rec) => userCanineIds.includes(rec.canineId)));
-        setMedications(testData.medications.filter((med) => userCanineIds.includes(med.canineId)));
-        setVetVisits(testData.vetVisits.filter((visit) => userCanineIds.includes(visit.canineId)));
-        setImmunizations(testData.immunizations.filter((record) => userCanineIds.includes(record.canineId)));
-        setCanineAllergies(testData.canineAllergies.filter((allergy) => userCanineIds.includes(allergy.canineId)));
       } else {
         // No user logged in yet - initialize with empty arrays
         console.log('No user logged in. Initializing with empty data.');
@@ -352,757 +1044,1234 @@ export function AppProvider({ children }: { children: ReactNode }) {
         setAppointments([]);
         setMediaItems([]);
         setMedicalRecords([]);
+        setLabResults([]);
         setMedications([]);
+        setMedicationDoseLogs([]);
+        setWeightMeasurements([]);
         setVetVisits([]);
         setImmunizations([]);
         setCanineAllergies([]);
+        setWalkLogs([]);
       }
     } catch (error) {
       console.error('❌ Error loading data:', error);
-      // Only fallback to test data if Supabase is not configured
-      if (!isSupabaseConfigured) {
-        console.warn('Falling back to test data due to error and Supabase not configured.');
-        const testData = generateTestData();
-        setUserProfile(testData.userProfile);
-        setCanines(testData.canines);
-        setVets(testData.vets);
-        setContacts(testData.contacts);
-        setNutritionEntries(testData.nutritionEntries);
-        setTrainingLogs(testData.trainingLogs);
-        setAppointments(testData.appointments);
-        setMediaItems(testData.mediaItems);
-        setMedicalRecords(testData.medicalRecords);
-        setMedications(testData.medications);
-        setVetVisits(testData.vetVisits);
-        setImmunizations(testData.immunizations);
-        setCanineAllergies(testData.canineAllergies);
-      } else {
-        // Supabase is configured but there was an error - initialize with empty arrays
-        console.warn('Supabase is configured but error occurred. Initializing with empty data.');
-        setCanines([]);
-        setVets([]);
-        setContacts([]);
-        setNutritionEntries([]);
-        setTrainingLogs([]);
-        setAppointments([]);
-        setMediaItems([]);
-        setMedicalRecords([]);
-        setMedications([]);
-        setVetVisits([]);
-        setImmunizations([]);
-        setCanineAllergies([]);
-      }
+      // Keep whatever is already on screen (possibly restored from the offline cache)
     } finally {
       setIsLoading(false);
     }
   };
 
+  // The latest loadData and applyRemoteChange, so the effects below only re-run when the user or subscription scope changes
+  const loadDataRef = useRef(loadData);
+  loadDataRef.current = loadData;
+  const applyRemoteChangeRef = useRef(applyRemoteChange);
+  applyRemoteChangeRef.current = applyRemoteChange;
+
   // Load data on mount and when user changes
   useEffect(() => {
-    loadData();
+    loadDataRef.current();
   }, [userProfile?.id]);
 
-  // User Profile
-  const updateUserProfile = async (updates: Partial<UserProfile>) => {
-    if (!userProfile) return;
-
-    try {
-      const updated = await userProfileService.update(userProfile.id, updates);
-      if (updated) {
-        setUserProfile(updated);
+  // Track connectivity and sync queued changes as soon as the device comes back online
+  useEffect(() => {
+    let cancelled = false;
+
+    const restoreSyncState = async () => {
+      const userId = userProfile?.id;
+      const [online, pending, conflicts] = await Promise.all([
+        checkIsOnline(),
+        userId ? getPendingOperations(userId) : [],
+        userId ? getSyncConflicts(userId) : [],
+      ]);
+      if (cancelled) return;
+      isOnlineRef.current = online;
+      setIsOnline(online);
+      setPendingSyncCount(pending.length);
+      setSyncConflicts(conflicts);
+    };
+    restoreSyncState();
+
+    const unsubscribe = subscribeToConnectivity((online) => {
+      const cameBackOnline = online && !isOnlineRef.current;
+      isOnlineRef.current = online;
+      setIsOnline(online);
+      if (cameBackOnline) {
+        console.log('📶 Connection restored. Syncing queued changes...');
+        loadDataRef.current();
       }
-    } catch (error) {
-      console.error('Error updating user profile:', error);
-      // Update local state as fallback
-      setUserProfile({ ...userProfile, ...updates, updatedAt: new Date().toISOString() });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userProfile?.id]);
+
+  // Subscribe to changes made on other devices, scoped to the user's pets
+  const subscribedUserId = isAuthenticated ? userProfile?.id : undefined;
+  const isAdminUser = userProfile?.role === 'Admin';
+  const subscribedCanineIds = canines
+    .filter((canine) => !isLocalId(canine.id))
+    .map((canine) => canine.id)
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    const source = getChangeEventSource();
+    if (!source || !subscribedUserId) {
+      return;
     }
-  };
 
-  // User Management (Admin only)
-  const addUser = async (user: Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'>, password: string) => {
-    try {
-      if (userProfile?.role !== 'Admin') {
-        throw new Error('Only admins can create users');
-      }
+    const scope = isAdminUser
+      ? {}
+      : { ownerId: subscribedUserId, canineIds: subscribedCanineIds ? subscribedCanineIds.split(',') : [] };
 
-      // Hash the password
-      const passwordHash = await hashPassword(password);
-      
-      const newUser = await userProfileService.create(user, passwordHash);
-      if (newUser) {
-        setAllUsers([newUser, ...allUsers]);
-      }
-    } catch (error) {
-      console.error('Error adding user:', error);
-      throw error;
+    return source.subscribe(scope, (change) => {
+      applyRemoteChangeRef.current(change).catch((error) => {
+        console.error('Error applying realtime change:', error);
+      });
+    });
+  }, [subscribedUserId, isAdminUser, subscribedCanineIds]);
+
+  // Persist collections so they are available offline and on the next launch
+  useEffect(() => {
+    if (!getDataBackend().isRemote || isLoading || !userProfile) {
+      return;
     }
-  };
 
-  const updateUser = async (id: string, updates: Partial<UserProfile>) => {
-    try {
-      if (userProfile?.role !== 'Admin') {
-        throw new Error('Only admins can update users');
-      }
+    saveCachedCollections(userProfile.id, {
+      allUsers,
+      canines,
+      vets,
+      contacts,
+      nutritionEntries,
+      trainingLogs,
+      appointments,
+      mediaItems,
+      medicalRecords,
+      labResults,
+      medications,
+      medicationDoseLogs,
+      weightMeasurements,
+      vetVisits,
+      immunizations,
+      canineAllergies,
+      walkLogs,
+    });
+  }, [
+    userProfile,
+    isLoading,
+    allUsers,
+    canines,
+    vets,
+    contacts,
+    nutritionEntries,
+    trainingLogs,
+    appointments,
+    mediaItems,
+    medicalRecords,
+    labResults,
+    medications,
+    medicationDoseLogs,
+    weightMeasurements,
+    vetVisits,
+    immunizations,
+    canineAllergies,
+    walkLogs,
+  ]);
+
+  // Clear everything belonging to the signed-in user
+  const clearSignedInState = useCallback(async () => {
+    const userId = sessionRef.current?.userId ?? userProfile?.id;
+    sessionRef.current = null;
+    pendingTwoFactorRef.current = null;
+    setCurrentPrincipal(null);
+
+    // Queued changes stay in the user's own outbox and sync when they sign back in; only the cached copy is removed
+    if (userId && getDataBackend().isRemote) {
+      await clearCachedCollections(userId);
+    }
+    setPendingSyncCount(0);
+    setSyncConflicts([]);
+
+    setIsAuthenticated(false);
+    setUserProfile(null);
+    setAllUsers([]);
+    setActivationCodes([]);
+    setCanines([]);
+    setVetAccessGrants([]);
+    setWalkerAssignments([]);
+    setHouseholds([]);
+    setHouseholdMembers([]);
+    setPetShareLinks([]);
+    setPetShareAccesses([]);
+    setTwoFactorStatus(TWO_FACTOR_DISABLED);
+    setAppSettings(null);
+    setSharedCanines([]);
+    setNutritionEntries([]);
+    setTrainingLogs([]);
+    setAppointments([]);
+    setMediaItems([]);
+    setMedicalRecords([]);
+    setLabResults([]);
+    setMedications([]);
+    setMedicationDoseLogs([]);
+    setWeightMeasurements([]);
+    setVetVisits([]);
+    setImmunizations([]);
+    setCanineAllergies([]);
+    setWalkLogs([]);
+  }, [userProfile?.id]);
+
+  // Sign out because the session was revoked or expired
+  const forceSignOut = useCallback(
+    async (notice: string) => {
+      console.log('🔒 Session is no longer valid. Signing out.');
+      await discardSession();
+      await clearSignedInState();
+      setSessionNotice(notice);
+      router.replace('/login');
+    },
+    [clearSignedInState]
+  );
+
+  // Restore the session saved on this device when the app launches
+  useEffect(() => {
+    let cancelled = false;
 
-      const updated = await userProfileService.update(id, updates);
-      if (updated) {
-        setAllUsers(allUsers.map((u) => (u.id === id ? updated : u)));
-        // If updating current user, update userProfile as well
-        if (userProfile.id === id) {
-          setUserProfile(updated);
+    const restore = async () => {
+      try {
+        const session = await restoreSession();
+        if (!session || cancelled) return;
+
+        // Prefer the server copy; fall back to the saved snapshot when offline
+        setCurrentPrincipal(principalFor(session.profile));
+        const profile = (await userProfileService.getById(session.userId)) ?? session.profile;
+        if (cancelled) {
+          setCurrentPrincipal(null);
+          return;
         }
-      }
-    } catch (error) {
-      console.error('Error updating user:', error);
-      throw error;
-    }
-  };
 
-  const deleteUser = async (id: string) => {
-    try {
-      if (userProfile?.role !== 'Admin') {
-        throw new Error('Only admins can delete users');
+        console.log('🔑 Restored session for', profile.email);
+        setCurrentPrincipal(principalFor(profile));
+        sessionRef.current = session;
+        setUserProfile(profile);
+        setIsAuthenticated(true);
+      } catch (error) {
+        console.error('Error restoring session:', error);
+        setCurrentPrincipal(null);
+      } finally {
+        if (!cancelled) setIsRestoringSession(false);
       }
+    };
+    restore();
 
-      // Prevent deleting self
-      if (userProfile.id === id) {
-        throw new Error('Cannot delete your own account');
-      }
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-      const success = await userProfileService.delete(id);
-      if (success) {
-        setAllUsers(allUsers.filter((u) => u.id !== id));
-      }
-    } catch (error) {
-      console.error('Error deleting user:', error);
-      throw error;
+  // Keep the profile snapshot in the stored session current
+  useEffect(() => {
+    if (userProfile && sessionRef.current) {
+      saveSessionProfile(userProfile);
     }
-  };
+  }, [userProfile]);
 
-  // Canine Profile
-  const addCanine = async (canine: Omit<CanineProfile, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const newCanine = await canineProfileService.create(canine);
-      if (newCanine) {
-        setCanines([...canines, newCanine]);
-      }
-    } catch (error) {
-      console.error('Error adding canine:', error);
-      // Fallback to local state
-      const fallbackCanine: CanineProfile = {
-        ...canine,
-        id: `canine-${Date.now()}`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      setCanines([...canines, fallbackCanine]);
+  // Refresh the session before it expires and sign out once it has been revoked
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
     }
-  };
 
-  const updateCanine = async (id: string, updates: Partial<CanineProfile>) => {
-    try {
-      const updated = await canineProfileService.update(id, updates);
-      if (updated) {
-        setCanines(canines.map((c) => (c.id === id ? updated : c)));
-      }
-    } catch (error) {
-      console.error('Error updating canine:', error);
-      // Fallback to local state
-      setCanines(
-        canines.map((c) =>
-          c.id === id ? { ...c, ...updates, updatedAt: new Date().toISOString() } : c
-        )
-      );
-    }
-  };
+    const checkSession = async () => {
+      const current = sessionRef.current;
+      if (!current) return;
 
-  const deleteCanine = async (id: string) => {
-    try {
-      const success = await canineProfileService.delete(id);
-      if (success) {
-        setCanines(canines.filter((c) => c.id !== id));
-        setNutritionEntries(nutritionEntries.filter((n) => n.canineId !== id));
-        setTrainingLogs(trainingLogs.filter((t) => t.canineId !== id));
-        setAppointments(appointments.filter((a) => a.canineId !== id));
-        setMediaItems(mediaItems.filter((m) => m.canineId !== id));
-        setMedicalRecords(medicalRecords.filter((m) => m.canineId !== id));
-        setMedications(medications.filter((m) => m.canineId !== id));
-        setVetVisits(vetVisits.filter((v) => v.canineId !== id));
-        setImmunizations(immunizations.filter((imm) => imm.canineId !== id));
-        setCanineAllergies(canineAllergies.filter((allergy) => allergy.canineId !== id));
+      let next: StoredSession | null = current;
+      if (getRefreshDelay(current) === 0) {
+        next = await refreshSession(current);
+      } else if ((await validateSession(current)) === 'invalid') {
+        next = null;
       }
-    } catch (error) {
-      console.error('Error deleting canine:', error);
-      // Fallback to local state
-      setCanines(canines.filter((c) => c.id !== id));
-      setNutritionEntries(nutritionEntries.filter((n) => n.canineId !== id));
-      setTrainingLogs(trainingLogs.filter((t) => t.canineId !== id));
-      setAppointments(appointments.filter((a) => a.canineId !== id));
-      setMediaItems(mediaItems.filter((m) => m.canineId !== id));
-      setMedicalRecords(medicalRecords.filter((m) => m.canineId !== id));
-      setMedications(medications.filter((m) => m.canineId !== id));
-      setVetVisits(vetVisits.filter((v) => v.canineId !== id));
-      setImmunizations(immunizations.filter((imm) => imm.canineId !== id));
-      setCanineAllergies(canineAllergies.filter((allergy) => allergy.canineId !== id));
-    }
-  };
 
-  const getCanine = (id: string) => canines.find((c) => c.id === id);
-  const getNutritionEntriesByCanine = (canineId: string) =>
-    nutritionEntries.filter((entry) => entry.canineId === canineId);
-  const getTrainingLogsByCanine = (canineId: string) =>
-    trainingLogs.filter((log) => log.canineId === canineId);
-  const getMediaItemsByCanine = (canineId: string) => mediaItems.filter((m) => m.canineId === canineId);
-  const getMedicationsByCanine = (canineId: string) => medications.filter((med) => med.canineId === canineId);
-  const getVetVisitsByCanine = (canineId: string) => vetVisits.filter((visit) => visit.canineId === canineId);
-  const getImmunizationsByCanine = (canineId: string) => immunizations.filter((record) => record.canineId === canineId);
-  const getCanineAllergiesByCanine = (canineId: string) => canineAllergies.filter((allergy) => allergy.canineId === canineId);
+      // Signed out or signed in again while the check was running
+      if (sessionRef.current !== current) return;
 
-  // Vet Profile
-  const addVet = async (vet: Omit<VetProfile, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const newVet = await vetProfileService.create(vet);
-      if (newVet) {
-        setVets([...vets, newVet]);
-        return newVet;
+      if (!next) {
+        await forceSignOut('Your session has expired or was ended. Please log in again.');
+        return;
       }
-    } catch (error) {
-      console.error('Error adding vet:', error);
-    }
-    const fallbackVet: VetProfile = {
-      ...vet,
-      id: `vet-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      sessionRef.current = next;
     };
-    setVets([...vets, fallbackVet]);
-    return fallbackVet;
-  };
 
-  const updateVet = async (id: string, updates: Partial<VetProfile>) => {
-    try {
-      const updated = await vetProfileService.update(id, updates);
-      if (updated) {
-        setVets(vets.map((v) => (v.id === id ? updated : v)));
-      }
-    } catch (error) {
-      console.error('Error updating vet:', error);
-      setVets(vets.map((v) => (v.id === id ? { ...v, ...updates, updatedAt: new Date().toISOString() } : v)));
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') checkSession();
+    });
+
+    return () => {
+      clearInterval(interval);
+      appStateSubscription.remove();
+    };
+  }, [isAuthenticated, forceSignOut]);
+
+  // Start a persistent session for a user who just signed in
+  const startSession = async (profile: UserProfile) => {
+    const session = await createSession(profile);
+    if (!session) {
+      console.warn('⚠️ Signed in without a saved session. You will need to log in again next launch.');
     }
+    sessionRef.current = session;
+    setSessionNotice(null);
   };
 
-  const deleteVet = async (id: string) => {
-    try {
-      const success = await vetProfileService.delete(id);
-      if (success) {
-        setVets(vets.filter((v) => v.id !== id));
-        setAppointments(appointments.map((a) => (a.vetId === id ? { ...a, vetId: undefined } : a)));
-      }
-    } catch (error) {
-      console.error('Error deleting vet:', error);
-      setVets(vets.filter((v) => v.id !== id));
-      setAppointments(appointments.map((a) => (a.vetId === id ? { ...a, vetId: undefined } : a)));
+  // User Profile
+  const updateUserProfile = async (updates: Partial<UserProfile>): Promise<MutationResult<UserProfile>> => {
+    if (!userProfile) {
+      return failed(new MutationError('You must be logged in to update your profile.', 'forbidden'));
     }
-  };
 
-  // Contact
-  const addContact = async (contact: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const newContact = await contactService.create(contact);
-      if (newContact) {
-        setContacts([...contacts, newContact]);
-      }
-    } catch (error) {
-      console.error('Error adding contact:', error);
-      const fallbackContact: Contact = {
-        ...contact,
-        id: `contact-${Date.now()}`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      setContacts([...contacts, fallbackContact]);
+    const original = userProfile;
+    const optimistic = { ...userProfile, ...updates, updatedAt: new Date().toISOString() };
+
+    if (isOfflineMode()) {
+      await queueUpdate('allUsers', userProfile.id, userProfile.updatedAt, updates);
+      setUserProfile(optimistic);
+      return succeeded(optimistic, true);
     }
+
+    setUserProfile(optimistic);
+    const result = await runMutation('Unable to update your profile.', () => userProfileService.update(original.id, updates));
+    setUserProfile(result.ok ? result.data : original);
+    return result;
   };
 
-  const updateContact = async (id: string, updates: Partial<Contact>) => {
-    try {
-      const updated = await contactService.update(id, updates);
-      if (updated) {
-        setContacts(contacts.map((c) => (c.id === id ? updated : c)));
-      }
-    } catch (error) {
-      console.error('Error updating contact:', error);
-      setContacts(
-        contacts.map((c) => (c.id === id ? { ...c, ...updates, updatedAt: new Date().toISOString() } : c))
+  // User Management (Admin only)
+  const addUser = async (
+    user: Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'>,
+    password: string
+  ): Promise<MutationResult<UserProfile>> => {
+    if (userProfile?.role !== 'Admin') {
+      return failed(new MutationError('Only admins can create users.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Creating users requires an internet connection.', 'offline'));
+    }
+
+    // Hash the password
+    const passwordHash = await hashPassword(password);
+
+    const result = await runMutation('Unable to create this user.', () => userProfileService.create(user, passwordHash));
+    if (result.ok) {
+      setAllUsers((prev) => [result.data, ...prev]);
+    }
+    return result;
+  };
+
+  const updateUser = async (id: string, updates: Partial<UserProfile>): Promise<MutationResult<UserProfile>> => {
+    if (userProfile?.role !== 'Admin') {
+      return failed(new MutationError('Only admins can update users.', 'forbidden'));
+    }
+
+    const result = await optimisticUpdate('allUsers', setAllUsers, allUsers, id, updates, () => userProfileService.update(id, updates), 'Unable to update this user.');
+
+    // If updating current user, update userProfile as well
+    if (result.ok && userProfile.id === id) {
+      setUserProfile(result.data);
+      setCurrentPrincipal(principalFor(result.data));
+    }
+    return result;
+  };
+
+  const deleteUser = async (id: string): Promise<MutationResult> => {
+    if (userProfile?.role !== 'Admin') {
+      return failed(new MutationError('Only admins can delete users.', 'forbidden'));
+    }
+
+    // Prevent deleting self
+    if (userProfile.id === id) {
+      return failed(new MutationError('Cannot delete your own account.', 'rejected'));
+    }
+
+    return optimisticDelete('allUsers', setAllUsers, allUsers, id, () => userProfileService.delete(id), 'Unable to delete this user.');
+  };
+
+  const unlockUser = async (id: string): Promise<MutationResult> => {
+    if (userProfile?.role !== 'Admin') {
+      return failed(new MutationError('Only admins can unlock users.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Unlocking users requires an internet connection.', 'offline'));
+    }
+
+    const result = await runMutation('Unable to unlock this user.', () =>
+      userProfileService.updateLoginState(id, CLEARED_LOGIN_STATE)
+    );
+    if (!result.ok) {
+      return failed(result.error);
+    }
+
+    setAllUsers((prev) =>
+      prev.map((u) =>
+        u.id === id ? { ...u, failedLoginAttempts: 0, lastFailedLoginAt: undefined, lockedUntil: undefined } : u
+      )
+    );
+    return succeeded(undefined);
+  };
+
+  const revokeUserSessions = async (userId: string): Promise<MutationResult<number>> => {
+    if (userProfile?.role !== 'Admin') {
+      return failed(new MutationError('Only admins can revoke sessions.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Revoking sessions requires an internet connection.', 'offline'));
+    }
+
+    const result = await runMutation('Unable to revoke sessions for this user.', () => sessionService.revokeAllForUser(userId));
+
+    // Revoking your own sessions signs you out here too
+    if (result.ok && userId === userProfile.id) {
+      await forceSignOut('Your sessions were revoked. Please log in again.');
+    }
+    return result;
+  };
+
+  // For users who lost both their authenticator and their backup codes
+  const resetUserTwoFactor = async (userId: string): Promise<MutationResult<boolean>> => {
+    if (userProfile?.role !== 'Admin') {
+      return failed(new MutationError('Only admins can reset two-factor authentication.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Resetting two-factor authentication requires an internet connection.', 'offline'));
+    }
+
+    const result = await runMutation('Unable to reset two-factor authentication for this user.', async () => ({
+      removed: await resetTwoFactor(userId),
+    }));
+    if (!result.ok) {
+      return failed(result.error);
+    }
+
+    if (userId === userProfile.id) {
+      setTwoFactorStatus(TWO_FACTOR_DISABLED);
+    }
+    return succeeded(result.data.removed);
+  };
+
+  const updateAppSettings = async (
+    updates: Partial<Pick<AppSettings, 'requireAdminTwoFactor'>>
+  ): Promise<MutationResult<AppSettings>> => {
+    if (userProfile?.role !== 'Admin') {
+      return failed(new MutationError('Only admins can change app settings.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Changing app settings requires an internet connection.', 'offline'));
+    }
+
+    // Otherwise the admin making the change would be sent straight to setup
+    if (updates.requireAdminTwoFactor && !twoFactorStatus.enabled) {
+      return failed(
+        new MutationError('Turn on two-factor authentication for your own account before requiring it for admins.', 'rejected')
       );
     }
+
+    const result = await runMutation('Unable to save app settings.', () =>
+      appSettingsService.update({ ...updates, updatedBy: userProfile.id })
+    );
+    if (result.ok) {
+      setAppSettings(result.data);
+    }
+    return result;
   };
 
-  const deleteContact = async (id: string) => {
-    try {
-      const success = await contactService.delete(id);
-      if (success) {
-        setContacts(contacts.filter((c) => c.id !== id));
-      }
-    } catch (error) {
-      console.error('Error deleting contact:', error);
-      setContacts(contacts.filter((c) => c.id !== id));
+  // Activation Codes - admin only and online only, like the other account administration
+  const addActivationCode = async (
+    code: Omit<ActivationCode, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<MutationResult<ActivationCode>> => {
+    if (userProfile?.role !== 'Admin') {
+      return failed(new MutationError('Only admins can manage activation codes.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Managing activation codes requires an internet connection.', 'offline'));
+    }
+
+    const normalized = normalizeActivationCode(code.code);
+    if (!normalized) {
+      return failed(new MutationError('Please enter a code.', 'rejected'));
+    }
+    if (activationCodes.some((existing) => existing.code === normalized)) {
+      return failed(new MutationError('An activation code with this text already exists.', 'rejected'));
     }
+
+    const result = await runMutation('Unable to create this activation code.', () =>
+      activationCodeService.create({ ...code, code: normalized, createdBy: userProfile.id })
+    );
+    if (result.ok) {
+      setActivationCodes((prev) => [result.data, ...prev]);
+    }
+    return result;
   };
 
-  // Nutrition
-  const addNutritionEntry = async (entry: Omit<NutritionEntry, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const newEntry = await nutritionEntryService.create(entry);
-      if (newEntry) {
-        setNutritionEntries([...nutritionEntries, newEntry]);
+  const updateActivationCode = async (
+    id: string,
+    updates: Partial<ActivationCode>
+  ): Promise<MutationResult<ActivationCode>> => {
+    if (userProfile?.role !== 'Admin') {
+      return failed(new MutationError('Only admins can manage activation codes.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Managing activation codes requires an internet connection.', 'offline'));
+    }
+
+    const result = await runMutation('Unable to update this activation code.', () =>
+      activationCodeService.update(id, updates)
+    );
+    if (result.ok) {
+      setActivationCodes((prev) => prev.map((code) => (code.id === id ? result.data : code)));
+    }
+    return result;
+  };
+
+  // Vet Access - online only, since the vet is looked up by email
+  const shareCanineWithVet = async (canineId: string, vetEmail: string): Promise<MutationResult<VetAccessGrant>> => {
+    if (!userProfile) {
+      return failed(new MutationError('You must be logged in to share a pet.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Sharing a pet with a vet requires an internet connection.', 'offline'));
+    }
+
+    const email = vetEmail.trim();
+    if (!email) {
+      return failed(new MutationError("Please enter the vet's email address.", 'rejected'));
+    }
+
+    const result = await runMutation('Unable to share this pet.', async () => {
+      const vet = await userProfileService.getByEmail(email);
+      if (!vet || vet.role !== 'Vet') {
+        throw new MutationError('No vet account uses this email address.', 'rejected');
       }
-    } catch (error) {
-      console.error('Error adding nutrition entry:', error);
-      const fallbackEntry: NutritionEntry = {
-        ...entry,
-        id: `nutrition-${Date.now()}`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      setNutritionEntries([...nutritionEntries, fallbackEntry]);
+      if (vetAccessGrants.some((grant) => grant.canineId === canineId && grant.vetUserId === vet.id && !grant.revokedAt)) {
+        throw new MutationError('This pet is already shared with this vet.', 'rejected');
+      }
+      return vetAccessGrantService.create({
+        canineId,
+        vetUserId: vet.id,
+        vetName: `${vet.firstName} ${vet.lastName}`.trim(),
+        vetEmail: vet.email,
+        grantedBy: userProfile.id,
+      });
+    });
+    if (result.ok) {
+      setVetAccessGrants((prev) => [result.data, ...prev]);
     }
+    return result;
   };
 
-  const updateNutritionEntry = async (id: string, updates: Partial<NutritionEntry>) => {
-    try {
-      const updated = await nutritionEntryService.update(id, updates);
-      if (updated) {
-        setNutritionEntries(nutritionEntries.map((e) => (e.id === id ? updated : e)));
+  const revokeVetAccess = async (grantId: string): Promise<MutationResult<VetAccessGrant>> => {
+    if (isOfflineMode()) {
+      return failed(new MutationError('Revoking vet access requires an internet connection.', 'offline'));
+    }
+
+    const result = await runMutation('Unable to revoke vet access.', () =>
+      vetAccessGrantService.update(grantId, { revokedAt: new Date().toISOString() })
+    );
+    if (result.ok) {
+      setVetAccessGrants((prev) => prev.map((grant) => (grant.id === grantId ? result.data : grant)));
+    }
+    return result;
+  };
+
+  const getSharedCanine = (id: string) => sharedCanines.find((canine) => canine.id === id);
+
+  // Dog Walkers - assigning is online only, since the walker is looked up by email;
+  // walks themselves sync like the pet's other records
+  const assignWalker = async (canineId: string, walkerEmail: string): Promise<MutationResult<WalkerAssignment>> => {
+    if (!userProfile) {
+      return failed(new MutationError('You must be logged in to assign a walker.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Assigning a walker requires an internet connection.', 'offline'));
+    }
+
+    const email = walkerEmail.trim();
+    if (!email) {
+      return failed(new MutationError("Please enter the walker's email address.", 'rejected'));
+    }
+
+    const result = await runMutation('Unable to assign this walker.', async () => {
+      const walker = await userProfileService.getByEmail(email);
+      if (!walker || walker.role !== 'Dog Walker') {
+        throw new MutationError('No dog walker account uses this email address.', 'rejected');
       }
-    } catch (error) {
-      console.error('Error updating nutrition entry:', error);
-      setNutritionEntries(
-        nutritionEntries.map((e) =>
-          e.id === id ? { ...e, ...updates, updatedAt: new Date().toISOString() } : e
+      if (
+        walkerAssignments.some(
+          (assignment) => assignment.canineId === canineId && assignment.walkerUserId === walker.id && !assignment.revokedAt
         )
+      ) {
+        throw new MutationError('This walker is already assigned to this pet.', 'rejected');
+      }
+      return walkerAssignmentService.create({
+        canineId,
+        walkerUserId: walker.id,
+        walkerName: `${walker.firstName} ${walker.lastName}`.trim(),
+        walkerEmail: walker.email,
+        assignedBy: userProfile.id,
+      });
+    });
+    if (result.ok) {
+      setWalkerAssignments((prev) => [result.data, ...prev]);
+    }
+    return result;
+  };
+
+  const unassignWalker = async (assignmentId: string): Promise<MutationResult<WalkerAssignment>> => {
+    if (isOfflineMode()) {
+      return failed(new MutationError('Removing a walker requires an internet connection.', 'offline'));
+    }
+
+    const result = await runMutation('Unable to remove this walker.', () =>
+      walkerAssignmentService.update(assignmentId, { revokedAt: new Date().toISOString() })
+    );
+    if (result.ok) {
+      setWalkerAssignments((prev) =>
+        prev.map((assignment) => (assignment.id === assignmentId ? result.data : assignment))
       );
     }
+    return result;
   };
 
-  const deleteNutritionEntry = async (id: string) => {
-    try {
-      const success = await nutritionEntryService.delete(id);
-      if (success) {
-        setNutritionEntries(nutritionEntries.filter((e) => e.id !== id));
-      }
-    } catch (error) {
-      console.error('Error deleting nutrition entry:', error);
-      setNutritionEntries(nutritionEntries.filter((e) => e.id !== id));
+  const addWalkLog = (walk: Omit<WalkLog, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<WalkLog>('walkLogs', setWalkLogs, walk, () => walkLogService.create(walk), 'Unable to save this walk.');
+
+  const scheduleWalk = async (canineId: string, assignmentId: string, scheduledAt: string) => {
+    const assignment = walkerAssignments.find((candidate) => candidate.id === assignmentId && !candidate.revokedAt);
+    if (!assignment || assignment.canineId !== canineId) {
+      return failed<WalkLog>(new MutationError('This walker is no longer assigned to this pet.', 'rejected'));
     }
+    return addWalkLog({
+      canineId,
+      walkerUserId: assignment.walkerUserId,
+      walkerName: assignment.walkerName,
+      status: 'scheduled',
+      scheduledAt,
+      photoUrls: [],
+      bathroomEvents: [],
+    });
   };
 
-  // Training
-  const addTrainingLog = async (log: Omit<TrainingLog, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const newLog = await trainingLogService.create(log);
-      if (newLog) {
-        setTrainingLogs([...trainingLogs, newLog]);
-      }
-    } catch (error) {
-      console.error('Error adding training log:', error);
-      const fallbackLog: TrainingLog = {
-        ...log,
-        id: `training-${Date.now()}`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      setTrainingLogs([...trainingLogs, fallbackLog]);
+  // A walk the walker starts on the spot, without one being scheduled
+  const startWalk = async (canineId: string) => {
+    if (!userProfile) {
+      return failed<WalkLog>(new MutationError('You must be logged in to start a walk.', 'forbidden'));
     }
+    return addWalkLog({
+      canineId,
+      walkerUserId: userProfile.id,
+      walkerName: `${userProfile.firstName} ${userProfile.lastName}`.trim(),
+      status: 'in_progress',
+      checkedInAt: new Date().toISOString(),
+      photoUrls: [],
+      bathroomEvents: [],
+    });
   };
 
-  const updateTrainingLog = async (id: string, updates: Partial<TrainingLog>) => {
-    try {
-      const updated = await trainingLogService.update(id, updates);
-      if (updated) {
-        setTrainingLogs(trainingLogs.map((l) => (l.id === id ? updated : l)));
-      }
-    } catch (error) {
-      console.error('Error updating training log:', error);
-      setTrainingLogs(
-        trainingLogs.map((l) => (l.id === id ? { ...l, ...updates, updatedAt: new Date().toISOString() } : l))
-      );
+  const updateWalkLog = (id: string, updates: Partial<WalkLog>) =>
+    optimisticUpdate('walkLogs', setWalkLogs, walkLogs, id, updates, () => walkLogService.update(id, updates), 'Unable to update this walk.');
+
+  const checkInWalk = (walkId: string) =>
+    updateWalkLog(walkId, { status: 'in_progress', checkedInAt: new Date().toISOString() });
+
+  // Photos and bathroom events are saved as they happen; check-out closes the walk
+  const checkOutWalk = async (walkId: string, notes?: string) => {
+    const walk = walkLogs.find((candidate) => candidate.id === walkId);
+    if (!walk?.checkedInAt) {
+      return failed<WalkLog>(new MutationError('Check in before checking out of a walk.', 'rejected'));
     }
+    const checkedOutAt = new Date().toISOString();
+    const durationMinutes = Math.max(
+      0,
+      Math.round((new Date(checkedOutAt).getTime() - new Date(walk.checkedInAt).getTime()) / 60000)
+    );
+    return updateWalkLog(walkId, { notes, status: 'completed', checkedOutAt, durationMinutes });
   };
 
-  const deleteTrainingLog = async (id: string) => {
-    try {
-      const success = await trainingLogService.delete(id);
-      if (success) {
-        setTrainingLogs(trainingLogs.filter((l) => l.id !== id));
+  const deleteWalkLog = (id: string) =>
+    optimisticDelete('walkLogs', setWalkLogs, walkLogs, id, () => walkLogService.delete(id), 'Unable to delete this walk.');
+
+  const getWalkLogsByCanine = (canineId: string) => walkLogs.filter((walk) => walk.canineId === canineId);
+
+  // Households - online only, since members are looked up by email and
+  // membership changes decide which pets everyone in the household can see
+  const createHousehold = async (name: string): Promise<MutationResult<Household>> => {
+    if (!userProfile) {
+      return failed(new MutationError('You must be logged in to create a household.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Creating a household requires an internet connection.', 'offline'));
+    }
+
+    const householdName = name.trim();
+    if (!householdName) {
+      return failed(new MutationError('Please enter a name for the household.', 'rejected'));
+    }
+
+    const result = await runMutation('Unable to create this household.', async () => {
+      const household = await householdService.create({ name: householdName, createdBy: userProfile.id });
+      if (!household) {
+        throw new MutationError('Unable to create this household.', 'rejected');
       }
-    } catch (error) {
-      console.error('Error deleting training log:', error);
-      setTrainingLogs(trainingLogs.filter((l) => l.id !== id));
+      const owner = await householdMemberService.create({
+        householdId: household.id,
+        userId: userProfile.id,
+        memberName: `${userProfile.firstName} ${userProfile.lastName}`.trim(),
+        memberEmail: userProfile.email,
+        role: 'owner',
+      });
+      return owner && { household, owner };
+    });
+    if (!result.ok) {
+      return failed(result.error);
     }
+    setHouseholds((prev) => [result.data.household, ...prev]);
+    setHouseholdMembers((prev) => [...prev, result.data.owner]);
+    return succeeded(result.data.household);
   };
 
-  // Appointment
-  const addAppointment = async (appointment: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const newAppointment = await appointmentService.create(appointment);
-      if (newAppointment) {
-        setAppointments([...appointments, newAppointment]);
-      }
-    } catch (error) {
-      console.error('Error adding appointment:', error);
-      const fallbackAppointment: Appointment = {
-        ...appointment,
-        id: `appt-${Date.now()}`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      setAppointments([...appointments, fallbackAppointment]);
+  const deleteHousehold = async (id: string): Promise<MutationResult> => {
+    if (isOfflineMode()) {
+      return failed(new MutationError('Deleting a household requires an internet connection.', 'offline'));
+    }
+
+    const result = await runMutation('Unable to delete this household.', () => householdService.delete(id));
+    if (!result.ok) {
+      return failed(result.error);
     }
+    // Members keep the pets they added; everyone else's pets are no longer shared with them
+    await loadData();
+    return succeeded(undefined);
   };
 
-  const updateAppointment = async (id: string, updates: Partial<Appointment>) => {
-    try {
-      const updated = await appointmentService.update(id, updates);
-      if (updated) {
-        setAppointments(appointments.map((a) => (a.id === id ? updated : a)));
+  const inviteHouseholdMember = async (
+    householdId: string,
+    email: string,
+    role: HouseholdRole
+  ): Promise<MutationResult<HouseholdMember>> => {
+    if (isOfflineMode()) {
+      return failed(new MutationError('Inviting a household member requires an internet connection.', 'offline'));
+    }
+
+    const memberEmail = email.trim();
+    if (!memberEmail) {
+      return failed(new MutationError("Please enter the person's email address.", 'rejected'));
+    }
+
+    const result = await runMutation('Unable to add this member.', async () => {
+      const user = await userProfileService.getByEmail(memberEmail);
+      if (!user) {
+        throw new MutationError('No account uses this email address.', 'rejected');
       }
-    } catch (error) {
-      console.error('Error updating appointment:', error);
-      setAppointments(
-        appointments.map((a) => (a.id === id ? { ...a, ...updates, updatedAt: new Date().toISOString() } : a))
-      );
+      if (householdMembers.some((member) => member.householdId === householdId && member.userId === user.id)) {
+        throw new MutationError('This person is already a member of the household.', 'rejected');
+      }
+      return householdMemberService.create({
+        householdId,
+        userId: user.id,
+        memberName: `${user.firstName} ${user.lastName}`.trim(),
+        memberEmail: user.email,
+        role,
+      });
+    });
+    if (result.ok) {
+      setHouseholdMembers((prev) => [...prev, result.data]);
+    }
+    return result;
+  };
+
+  // A household always keeps at least one owner to manage it
+  const isLastOwner = (member: HouseholdMember) =>
+    member.role === 'owner' &&
+    !householdMembers.some(
+      (other) => other.householdId === member.householdId && other.id !== member.id && other.role === 'owner'
+    );
+
+  const updateHouseholdMemberRole = async (memberId: string, role: HouseholdRole): Promise<MutationResult<HouseholdMember>> => {
+    if (isOfflineMode()) {
+      return failed(new MutationError("Changing a member's role requires an internet connection.", 'offline'));
+    }
+
+    const member = householdMembers.find((candidate) => candidate.id === memberId);
+    if (member && role !== 'owner' && isLastOwner(member)) {
+      return failed(new MutationError('Make someone else an owner first.', 'rejected'));
+    }
+
+    const result = await runMutation("Unable to change this member's role.", () =>
+      householdMemberService.update(memberId, { role })
+    );
+    if (result.ok) {
+      setHouseholdMembers((prev) => prev.map((candidate) => (candidate.id === memberId ? result.data : candidate)));
+    }
+    return result;
+  };
+
+  const removeHouseholdMember = async (memberId: string): Promise<MutationResult> => {
+    if (isOfflineMode()) {
+      return failed(new MutationError('Removing a household member requires an internet connection.', 'offline'));
+    }
+
+    const member = householdMembers.find((candidate) => candidate.id === memberId);
+    if (member && isLastOwner(member)) {
+      return failed(new MutationError('Make someone else an owner first, or delete the household.', 'rejected'));
+    }
+
+    const result = await runMutation('Unable to remove this member.', () => householdMemberService.delete(memberId));
+    if (!result.ok) {
+      return failed(result.error);
+    }
+    if (member?.userId === userProfile?.id) {
+      // Leaving takes the household's other pets away
+      await loadData();
+    } else {
+      setHouseholdMembers((prev) => prev.filter((candidate) => candidate.id !== memberId));
+    }
+    return succeeded(undefined);
+  };
+
+  // Moving a pet in or out of a household changes who can see it, so it isn't queued offline
+  const setCanineHousehold = async (canineId: string, householdId: string | undefined) => {
+    if (isOfflineMode()) {
+      return failed<CanineProfile>(new MutationError('Sharing a pet with a household requires an internet connection.', 'offline'));
+    }
+
+    const result = await runMutation('Unable to update this pet.', () =>
+      canineProfileService.update(canineId, { householdId })
+    );
+    if (result.ok) {
+      setCanines((prev) => prev.map((canine) => (canine.id === canineId ? result.data : canine)));
+    }
+    return result;
+  };
+
+  // Whoever added a pet owns it, as do admins; everyone else has their role in the pet's household
+  const getCanineRole = (canineId: string): HouseholdRole | null => {
+    const canine = canines.find((candidate) => candidate.id === canineId);
+    if (!canine || !userProfile) return null;
+    if (canine.userId === userProfile.id || userProfile.role === 'Admin') return 'owner';
+    const membership = householdMembers.find(
+      (member) => member.householdId === canine.householdId && member.userId === userProfile.id
+    );
+    return membership?.role ?? null;
+  };
+
+  // Share Links - online only, since the code is only shown once and must reach the server
+  const createPetShareLink = async (
+    canineId: string,
+    sections: PetShareSection[],
+    expiresInDays: number,
+    label?: string,
+    emergencyContacts?: Contact[]
+  ): Promise<MutationResult<{ link: PetShareLink; code: string }>> => {
+    if (!userProfile) {
+      return failed(new MutationError('You must be logged in to share a pet.', 'forbidden'));
+    }
+
+    if (isOfflineMode()) {
+      return failed(new MutationError('Creating a share link requires an internet connection.', 'offline'));
     }
+
+    const result = await runMutation('Unable to create the share link.', () =>
+      issuePetShareLink({ canineId, createdBy: userProfile.id, sections, emergencyContacts, expiresInDays, label })
+    );
+    if (result.ok) {
+      setPetShareLinks((prev) => [result.data.link, ...prev]);
+    }
+    return result;
   };
 
-  const deleteAppointment = async (id: string) => {
-    try {
-      const success = await appointmentService.delete(id);
-      if (success) {
-        setAppointments(appointments.filter((a) => a.id !== id));
-      }
-    } catch (error) {
-      console.error('Error deleting appointment:', error);
-      setAppointments(appointments.filter((a) => a.id !== id));
-    }
-  };
+  const revokePetShareLink = async (id: string): Promise<MutationResult<PetShareLink>> => {
+    if (isOfflineMode()) {
+      return failed(new MutationError('Revoking a share link requires an internet connection.', 'offline'));
+    }
+
+    const result = await runMutation('Unable to revoke the share link.', () =>
+      petShareLinkService.update(id, { revokedAt: new Date().toISOString() })
+    );
+    if (result.ok) {
+      setPetShareLinks((prev) => prev.map((link) => (link.id === id ? result.data : link)));
+    }
+    return result;
+  };
+
+  // Canine Profile
+  const addCanine = async (canine: Omit<CanineProfile, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const limit = entitlementFailure(checkCanineLimit(subscriptionTier, entitlementUsage));
+    if (limit) {
+      return failed<CanineProfile>(limit);
+    }
+    return optimisticCreate<CanineProfile>('canines', setCanines, canine, () => canineProfileService.create(canine), 'Unable to add this pet.', 'end');
+  };
+
+  const updateCanine = async (id: string, updates: Partial<CanineProfile>) => {
+    const result = await optimisticUpdate('canines', setCanines, canines, id, updates, () => canineProfileService.update(id, updates), 'Unable to update this pet.');
+    if (result.ok && updates.dateOfBirth !== undefined) {
+      await backfillImmunizationAges(result.data);
+    }
+    return result;
+  };
+
+  const deleteCanine = async (id: string): Promise<MutationResult> => {
+    const result = await optimisticDelete('canines', setCanines, canines, id, () => canineProfileService.delete(id), 'Unable to delete this pet.');
+
+    if (result.ok) {
+      // The server cascades deletes to the pet's records; mirror that locally
+      setNutritionEntries((prev) => prev.filter((n) => n.canineId !== id));
+      setTrainingLogs((prev) => prev.filter((t) => t.canineId !== id));
+      setAppointments((prev) => prev.filter((a) => a.canineId !== id));
+      setMediaItems((prev) => prev.filter((m) => m.canineId !== id));
+      setMedicalRecords((prev) => prev.filter((m) => m.canineId !== id));
+      setLabResults((prev) => prev.filter((result) => result.canineId !== id));
+      setMedications((prev) => prev.filter((m) => m.canineId !== id));
+      setMedicationDoseLogs((prev) => prev.filter((log) => log.canineId !== id));
+      setWeightMeasurements((prev) => prev.filter((measurement) => measurement.canineId !== id));
+      setVetVisits((prev) => prev.filter((v) => v.canineId !== id));
+      setImmunizations((prev) => prev.filter((imm) => imm.canineId !== id));
+      setCanineAllergies((prev) => prev.filter((allergy) => allergy.canineId !== id));
+      setWalkLogs((prev) => prev.filter((walk) => walk.canineId !== id));
+      setWalkerAssignments((prev) => prev.filter((assignment) => assignment.canineId !== id));
+      setPetShareLinks((prev) => prev.filter((link) => link.canineId !== id));
+      setPetShareAccesses((prev) => prev.filter((access) => access.canineId !== id));
+    }
+    return result;
+  };
+
+  const getCanine = (id: string) => canines.find((c) => c.id === id);
+  const getNutritionEntriesByCanine = (canineId: string) =>
+    nutritionEntries.filter((entry) => entry.canineId === canineId);
+  const getTrainingLogsByCanine = (canineId: string) =>
+    trainingLogs.filter((log) => log.canineId === canineId);
+  const getMediaItemsByCanine = (canineId: string) => mediaItems.filter((m) => m.canineId === canineId);
+  const getLabResultsByCanine = (canineId: string) => labResults.filter((result) => result.canineId === canineId);
+  const getMedicationsByCanine = (canineId: string) => medications.filter((med) => med.canineId === canineId);
+  const getMedicationDoseLogsByCanine = (canineId: string) =>
+    medicationDoseLogs.filter((log) => log.canineId === canineId);
+  const getWeightMeasurementsByCanine = (canineId: string) =>
+    weightMeasurements.filter((measurement) => measurement.canineId === canineId);
+  const getVetVisitsByCanine = (canineId: string) => vetVisits.filter((visit) => visit.canineId === canineId);
+  const getImmunizationsByCanine = (canineId: string) => immunizations.filter((record) => record.canineId === canineId);
+  // Own and household pets, then pets shared with a vet or walker
+  const findCanineProfile = (canineId: string) =>
+    canines.find((c) => c.id === canineId) ?? sharedCanines.find((c) => c.id === canineId);
+  // Schedules follow the signed-in user's country
+  const getVaccineScheduleByCanine = (canineId: string) => {
+    const canine = findCanineProfile(canineId);
+    return canine ? getVaccineSchedule(canine, immunizations, userProfile?.country ?? 'US') : [];
+  };
+  const getCanineAllergiesByCanine = (canineId: string) => canineAllergies.filter((allergy) => allergy.canineId === canineId);
+
+  // Vet Profile
+  const addVet = (vet: Omit<VetProfile, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<VetProfile>('vets', setVets, vet, () => vetProfileService.create(vet), 'Unable to add this vet.', 'end');
+
+  const updateVet = (id: string, updates: Partial<VetProfile>) =>
+    optimisticUpdate('vets', setVets, vets, id, updates, () => vetProfileService.update(id, updates), 'Unable to update this vet.');
+
+  const deleteVet = async (id: string): Promise<MutationResult> => {
+    const result = await optimisticDelete('vets', setVets, vets, id, () => vetProfileService.delete(id), 'Unable to delete this vet.');
+
+    if (result.ok) {
+      setAppointments((prev) => prev.map((a) => (a.vetId === id ? { ...a, vetId: undefined } : a)));
+    }
+    return result;
+  };
+
+  // Contact
+  const addContact = (contact: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<Contact>('contacts', setContacts, contact, () => contactService.create(contact), 'Unable to add this contact.', 'end');
+
+  const updateContact = (id: string, updates: Partial<Contact>) =>
+    optimisticUpdate('contacts', setContacts, contacts, id, updates, () => contactService.update(id, updates), 'Unable to update this contact.');
+
+  const deleteContact = (id: string) =>
+    optimisticDelete('contacts', setContacts, contacts, id, () => contactService.delete(id), 'Unable to delete this contact.');
+
+  // Nutrition
+  const addNutritionEntry = (entry: Omit<NutritionEntry, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<NutritionEntry>('nutritionEntries', setNutritionEntries, entry, () => nutritionEntryService.create(entry), 'Unable to add this nutrition entry.', 'end');
+
+  const updateNutritionEntry = (id: string, updates: Partial<NutritionEntry>) =>
+    optimisticUpdate('nutritionEntries', setNutritionEntries, nutritionEntries, id, updates, () => nutritionEntryService.update(id, updates), 'Unable to update this nutrition entry.');
+
+  const deleteNutritionEntry = (id: string) =>
+    optimisticDelete('nutritionEntries', setNutritionEntries, nutritionEntries, id, () => nutritionEntryService.delete(id), 'Unable to delete this nutrition entry.');
+
+  // Training
+  const addTrainingLog = (log: Omit<TrainingLog, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<TrainingLog>('trainingLogs', setTrainingLogs, log, () => trainingLogService.create(log), 'Unable to add this training log.', 'end');
+
+  const updateTrainingLog = (id: string, updates: Partial<TrainingLog>) =>
+    optimisticUpdate('trainingLogs', setTrainingLogs, trainingLogs, id, updates, () => trainingLogService.update(id, updates), 'Unable to update this training log.');
+
+  const deleteTrainingLog = (id: string) =>
+    optimisticDelete('trainingLogs', setTrainingLogs, trainingLogs, id, () => trainingLogService.delete(id), 'Unable to delete this training log.');
+
+  // Appointment
+  const addAppointment = (appointment: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<Appointment>('appointments', setAppointments, appointment, () => appointmentService.create(appointment), 'Unable to add this appointment.', 'end');
+
+  const updateAppointment = (id: string, updates: Partial<Appointment>) =>
+    optimisticUpdate('appointments', setAppointments, appointments, id, updates, () => appointmentService.update(id, updates), 'Unable to update this appointment.');
+
+  const deleteAppointment = (id: string) =>
+    optimisticDelete('appointments', setAppointments, appointments, id, () => appointmentService.delete(id), 'Unable to delete this appointment.');
 
   // Media
   const addMediaItem = async (media: Omit<MediaItem, 'id' | 'createdAt'>) => {
-    try {
-      const newMedia = await mediaItemService.create(media);
-      if (newMedia) {
-        setMediaItems([newMedia, ...mediaItems]);
-      } else {
-        const fallbackMedia: MediaItem = {
-          ...media,
-          id: `media-${Date.now()}`,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
-        setMediaItems([fallbackMedia, ...mediaItems]);
-      }
-    } catch (error) {
-      console.error('Error adding media item:', error);
-      const fallbackMedia: MediaItem = {
-        ...media,
-        id: `media-${Date.now()}`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      setMediaItems([fallbackMedia, ...mediaItems]);
+    const limit = entitlementFailure(checkMediaStorage(subscriptionTier, entitlementUsage, media.fileSize ?? 0));
+    if (limit) {
+      return failed<MediaItem>(limit);
     }
+    return optimisticCreate<MediaItem>('mediaItems', setMediaItems, media, () => mediaItemService.create(media), 'Unable to add this media item.');
   };
 
-  const updateMediaItem = async (id: string, updates: Partial<MediaItem>) => {
-    try {
-      const updated = await mediaItemService.update(id, updates);
-      if (updated) {
-        setMediaItems(mediaItems.map((item) => (item.id === id ? updated : item)));
-      }
-    } catch (error) {
-      console.error('Error updating media item:', error);
-      setMediaItems(mediaItems.map((item) => (item.id === id ? { ...item, ...updates, updatedAt: new Date().toISOString() } : item)));
-    }
-  };
+  const updateMediaItem = (id: string, updates: Partial<MediaItem>) =>
+    optimisticUpdate('mediaItems', setMediaItems, mediaItems, id, updates, () => mediaItemService.update(id, updates), 'Unable to update this media item.');
 
-  const deleteMediaItem = async (id: string) => {
-    try {
-      const success = await mediaItemService.delete(id);
-      if (success) {
-        setMediaItems(mediaItems.filter((item) => item.id !== id));
-      }
-    } catch (error) {
-      console.error('Error deleting media item:', error);
-      setMediaItems(mediaItems.filter((item) => item.id !== id));
-    }
-  };
+  const deleteMediaItem = (id: string) =>
+    optimisticDelete('mediaItems', setMediaItems, mediaItems, id, () => mediaItemService.delete(id), 'Unable to delete this media item.');
 
+  // Medical Records
   const addMedicalRecord = async (record: Omit<MedicalRecord, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const created = await medicalRecordService.create(record);
-      if (created) {
-        setMedicalRecords([created, ...medicalRecords]);
-        return;
-      }
-    } catch (error) {
-      console.error('Error adding medical record:', error);
+    const limit = entitlementFailure(
+      checkMedicalAttachments(subscriptionTier, entitlementUsage, record.attachments?.length ?? 0)
+    );
+    if (limit) {
+      return failed<MedicalRecord>(limit);
     }
-
-    const now = new Date().toISOString();
-    const fallbackRecord: MedicalRecord = {
-      ...record,
-      id: `medrec-${Date.now()}`,
-      createdAt: now,
-      updatedAt: now,
-    };
-    setMedicalRecords([fallbackRecord, ...medicalRecords]);
+    return optimisticCreate<MedicalRecord>('medicalRecords', setMedicalRecords, record, () => medicalRecordService.create(record), 'Unable to add this medical record.');
   };
 
   const updateMedicalRecord = async (id: string, updates: Partial<MedicalRecord>) => {
-    try {
-      const updated = await medicalRecordService.update(id, updates);
-      if (updated) {
-        setMedicalRecords(medicalRecords.map((rec) => (rec.id === id ? updated : rec)));
-        return;
+    if (updates.attachments) {
+      const existing = medicalRecords.find((record) => record.id === id);
+      const added = updates.attachments.length - (existing?.attachments?.length ?? 0);
+      const limit = entitlementFailure(checkMedicalAttachments(subscriptionTier, entitlementUsage, added));
+      if (limit) {
+        return failed<MedicalRecord>(limit);
       }
-    } catch (error) {
-      console.error('Error updating medical record:', error);
     }
-
-    setMedicalRecords(
-      medicalRecords.map((rec) =>
-        rec.id === id ? { ...rec, ...updates, updatedAt: new Date().toISOString() } : rec
-      )
-    );
+    return optimisticUpdate('medicalRecords', setMedicalRecords, medicalRecords, id, updates, () => medicalRecordService.update(id, updates), 'Unable to update this medical record.');
   };
 
-  const deleteMedicalRecord = async (id: string) => {
-    try {
-      const success = await medicalRecordService.delete(id);
-      if (success) {
-        setMedicalRecords(medicalRecords.filter((rec) => rec.id !== id));
-        return;
-      }
-    } catch (error) {
-      console.error('Error deleting medical record:', error);
+  const deleteMedicalRecord = async (id: string): Promise<MutationResult> => {
+    const result = await optimisticDelete('medicalRecords', setMedicalRecords, medicalRecords, id, () => medicalRecordService.delete(id), 'Unable to delete this medical record.');
+    if (result.ok) {
+      // The server cascades deletes to the record's lab results; mirror that locally
+      setLabResults((prev) => prev.filter((labResult) => labResult.medicalRecordId !== id));
     }
-
-    setMedicalRecords(medicalRecords.filter((rec) => rec.id !== id));
+    return result;
   };
 
-  const addMedicationEntry = async (entry: Omit<MedicationEntry, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const created = await medicationService.create(entry);
-      if (created) {
-        setMedications([created, ...medications]);
-        return;
-      }
-    } catch (error) {
-      console.error('Error adding medication entry:', error);
-    }
-
-    const now = new Date().toISOString();
-    const fallbackEntry: MedicationEntry = {
-      ...entry,
-      id: `medication-${Date.now()}`,
-      createdAt: now,
-      updatedAt: now,
-    };
-    setMedications([fallbackEntry, ...medications]);
-  };
+  // Lab Results
+  const addLabResult = (result: Omit<LabResult, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<LabResult>('labResults', setLabResults, result, () => labResultService.create(result), 'Unable to add this lab result.');
 
-  const updateMedicationEntry = async (id: string, updates: Partial<MedicationEntry>) => {
-    try {
-      const updated = await medicationService.update(id, updates);
-      if (updated) {
-        setMedications(medications.map((med) => (med.id === id ? updated : med)));
-        return;
-      }
-    } catch (error) {
-      console.error('Error updating medication entry:', error);
-    }
+  const updateLabResult = (id: string, updates: Partial<LabResult>) =>
+    optimisticUpdate('labResults', setLabResults, labResults, id, updates, () => labResultService.update(id, updates), 'Unable to update this lab result.');
 
-    setMedications(
-      medications.map((med) =>
-        med.id === id ? { ...med, ...updates, updatedAt: new Date().toISOString() } : med
-      )
-    );
-  };
+  const deleteLabResult = (id: string) =>
+    optimisticDelete('labResults', setLabResults, labResults, id, () => labResultService.delete(id), 'Unable to delete this lab result.');
 
-  const deleteMedicationEntry = async (id: string) => {
-    try {
-      const success = await medicationService.delete(id);
-      if (success) {
-        setMedications(medications.filter((med) => med.id !== id));
-        return;
-      }
-    } catch (error) {
-      console.error('Error deleting medication entry:', error);
-    }
+  // Medications
+  const addMedicationEntry = (entry: Omit<MedicationEntry, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<MedicationEntry>('medications', setMedications, entry, () => medicationService.create(entry), 'Unable to add this medication.');
 
-    setMedications(medications.filter((med) => med.id !== id));
-  };
+  const updateMedicationEntry = (id: string, updates: Partial<MedicationEntry>) =>
+    optimisticUpdate('medications', setMedications, medications, id, updates, () => medicationService.update(id, updates), 'Unable to update this medication.');
 
-  const addVetVisit = async (visit: Omit<VetVisit, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const created = await vetVisitService.create(visit);
-      if (created) {
-        setVetVisits([created, ...vetVisits]);
-        return;
-      }
-    } catch (error) {
-      console.error('Error adding vet visit:', error);
+  const deleteMedicationEntry = async (id: string): Promise<MutationResult> => {
+    const result = await optimisticDelete('medications', setMedications, medications, id, () => medicationService.delete(id), 'Unable to delete this medication.');
+    if (result.ok) {
+      // The server cascades deletes to the medication's dose logs; mirror that locally
+      setMedicationDoseLogs((prev) => prev.filter((log) => log.medicationId !== id));
     }
-
-    const now = new Date().toISOString();
-    const fallback: VetVisit = {
-      ...visit,
-      id: `visit-${Date.now()}`,
-      createdAt: now,
-      updatedAt: now,
-    };
-    setVetVisits([fallback, ...vetVisits]);
+    return result;
   };
 
-  const updateVetVisit = async (id: string, updates: Partial<VetVisit>) => {
-    try {
-      const updated = await vetVisitService.update(id, updates);
-      if (updated) {
-        setVetVisits(vetVisits.map((visit) => (visit.id === id ? updated : visit)));
-        return;
-      }
-    } catch (error) {
-      console.error('Error updating vet visit:', error);
+  // One log per scheduled dose: logging a dose again changes its status
+  const logMedicationDose = async (
+    medicationId: string,
+    scheduledAt: string,
+    status: MedicationDoseStatus,
+    notes?: string
+  ): Promise<MutationResult<MedicationDoseLog>> => {
+    const medication = medications.find((candidate) => candidate.id === medicationId);
+    if (!medication) {
+      return failed(new MutationError('This medication no longer exists.', 'rejected'));
+    }
+    if (!userProfile) {
+      return failed(new MutationError('You must be logged in to log a dose.', 'forbidden'));
     }
 
-    setVetVisits(
-      vetVisits.map((visit) =>
-        visit.id === id ? { ...visit, ...updates, updatedAt: new Date().toISOString() } : visit
-      )
+    const scheduledTime = new Date(scheduledAt).getTime();
+    const existing = medicationDoseLogs.find(
+      (log) => log.medicationId === medicationId && new Date(log.scheduledAt).getTime() === scheduledTime
+    );
+    const logger = { loggedBy: userProfile.id, loggedByName: `${userProfile.firstName} ${userProfile.lastName}`.trim() };
+
+    if (existing) {
+      const updates = { ...logger, status, notes };
+      return optimisticUpdate(
+        'medicationDoseLogs',
+        setMedicationDoseLogs,
+        medicationDoseLogs,
+        existing.id,
+        updates,
+        () => medicationDoseLogService.update(existing.id, updates),
+        'Unable to update this dose.'
+      );
+    }
+    const log = { ...logger, canineId: medication.canineId, medicationId, scheduledAt, status, notes };
+    return optimisticCreate<MedicationDoseLog>(
+      'medicationDoseLogs',
+      setMedicationDoseLogs,
+      log,
+      () => medicationDoseLogService.create(log),
+      'Unable to log this dose.'
     );
   };
 
-  const deleteVetVisit = async (id: string) => {
-    try {
-      const success = await vetVisitService.delete(id);
-      if (success) {
-        setVetVisits(vetVisits.filter((visit) => visit.id !== id));
-        return;
-      }
-    } catch (error) {
-      console.error('Error deleting vet visit:', error);
-    }
+  const deleteMedicationDoseLog = (id: string) =>
+    optimisticDelete('medicationDoseLogs', setMedicationDoseLogs, medicationDoseLogs, id, () => medicationDoseLogService.delete(id), 'Unable to undo this dose.');
 
-    setVetVisits(vetVisits.filter((visit) => visit.id !== id));
+  // Weight
+  // The server keeps each pet's current weight at its newest measurement; mirror that locally
+  const applyCurrentWeight = (canineId: string, measurements: WeightMeasurement[]) => {
+    const latest = getLatestWeightMeasurement(measurements.filter((measurement) => measurement.canineId === canineId));
+    if (!latest) return;
+    setCanines((prev) =>
+      prev.map((canine) => (canine.id === canineId ? { ...canine, weight: latest.value, weightUnit: latest.unit } : canine))
+    );
   };
 
-  const addImmunizationRecord = async (
-    record: Omit<ImmunizationRecord, 'id' | 'createdAt' | 'updatedAt'>
-  ) => {
-    try {
-      const created = await immunizationService.create(record);
-      if (created) {
-        setImmunizations([created, ...immunizations]);
-        return;
-      }
-    } catch (error) {
-      console.error('Error adding immunization record:', error);
+  const addWeightMeasurement = async (measurement: Omit<WeightMeasurement, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const result = await optimisticCreate<WeightMeasurement>(
+      'weightMeasurements',
+      setWeightMeasurements,
+      measurement,
+      () => weightMeasurementService.create(measurement),
+      'Unable to save this weight.'
+    );
+    if (result.ok) {
+      applyCurrentWeight(measurement.canineId, [result.data, ...weightMeasurements]);
     }
-
-    const now = new Date().toISOString();
-    const fallback: ImmunizationRecord = {
-      ...record,
-      id: `imm-${Date.now()}`,
-      createdAt: now,
-      updatedAt: now,
-    };
-    setImmunizations([fallback, ...immunizations]);
+    return result;
   };
 
-  const updateImmunizationRecord = async (id: string, updates: Partial<ImmunizationRecord>) => {
-    try {
-      const updated = await immunizationService.update(id, updates);
-      if (updated) {
-        setImmunizations(immunizations.map((record) => (record.id === id ? updated : record)));
-        return;
-      }
-    } catch (error) {
-      console.error('Error updating immunization record:', error);
+  const updateWeightMeasurement = async (id: string, updates: Partial<WeightMeasurement>) => {
+    const result = await optimisticUpdate(
+      'weightMeasurements',
+      setWeightMeasurements,
+      weightMeasurements,
+      id,
+      updates,
+      () => weightMeasurementService.update(id, updates),
+      'Unable to update this weight.'
+    );
+    if (result.ok) {
+      applyCurrentWeight(
+        result.data.canineId,
+        weightMeasurements.map((measurement) => (measurement.id === id ? result.data : measurement))
+      );
     }
+    return result;
+  };
 
-    setImmunizations(
-      immunizations.map((record) =>
-        record.id === id ? { ...record, ...updates, updatedAt: new Date().toISOString() } : record
-      )
+  const deleteWeightMeasurement = async (id: string): Promise<MutationResult> => {
+    const existing = weightMeasurements.find((measurement) => measurement.id === id);
+    const result = await optimisticDelete(
+      'weightMeasurements',
+      setWeightMeasurements,
+      weightMeasurements,
+      id,
+      () => weightMeasurementService.delete(id),
+      'Unable to delete this weight.'
     );
+    if (result.ok && existing) {
+      applyCurrentWeight(existing.canineId, weightMeasurements.filter((measurement) => measurement.id !== id));
+    }
+    return result;
   };
 
-  const deleteImmunizationRecord = async (id: string) => {
-    try {
-      const success = await immunizationService.delete(id);
-      if (success) {
-        setImmunizations(immunizations.filter((record) => record.id !== id));
-        return;
-      }
-    } catch (error) {
-      console.error('Error deleting immunization record:', error);
-    }
+  // Vet Visits
+  const addVetVisit = (visit: Omit<VetVisit, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<VetVisit>('vetVisits', setVetVisits, visit, () => vetVisitService.create(visit), 'Unable to add this vet visit.');
 
-    setImmunizations(immunizations.filter((record) => record.id !== id));
-  };
+  const updateVetVisit = (id: string, updates: Partial<VetVisit>) =>
+    optimisticUpdate('vetVisits', setVetVisits, vetVisits, id, updates, () => vetVisitService.update(id, updates), 'Unable to update this vet visit.');
 
-  const addCanineAllergy = async (allergy: Omit<CanineAllergy, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      const created = await canineAllergyService.create(allergy);
-      if (created) {
-        setCanineAllergies([created, ...canineAllergies]);
-        return;
-      }
-    } catch (error) {
-      console.error('Error adding canine allergy:', error);
-    }
+  // The visit goes first so a failure never leaves it behind without its follow-ups
+  const deleteVetVisit = async (id: string, options: { deleteFollowUps?: boolean } = {}): Promise<MutationResult> => {
+    const followUps = options.deleteFollowUps ? appointments.filter((appointment) => appointment.vetVisitId === id) : [];
+    const result = await optimisticDelete('vetVisits', setVetVisits, vetVisits, id, () => vetVisitService.delete(id), 'Unable to delete this vet visit.');
+    if (!result.ok) return result;
 
-    const now = new Date().toISOString();
-    const fallback: CanineAllergy = {
-      ...allergy,
-      id: `allergy-${Date.now()}`,
-      createdAt: now,
-      updatedAt: now,
-    };
-    setCanineAllergies([fallback, ...canineAllergies]);
-  };
+    // The server unlinks the visit's medications, records and follow-ups; mirror that locally
+    unlinkVetVisit(id);
 
-  const updateCanineAllergy = async (id: string, updates: Partial<CanineAllergy>) => {
-    try {
-      const updated = await canineAllergyService.update(id, updates);
-      if (updated) {
-        setCanineAllergies(canineAllergies.map((allergy) => (allergy.id === id ? updated : allergy)));
-        return;
-      }
-    } catch (error) {
-      console.error('Error updating canine allergy:', error);
+    let undeleted = 0;
+    for (const followUp of followUps) {
+      const removed = await deleteAppointment(followUp.id);
+      if (!removed.ok) undeleted += 1;
     }
-
-    setCanineAllergies(
-      canineAllergies.map((allergy) => (allergy.id === id ? { ...allergy, ...updates, updatedAt: new Date().toISOString() } : allergy))
-    );
+    if (undeleted > 0) {
+      const message =
+        undeleted === 1
+          ? "The visit was deleted, but its follow-up appointment couldn't be. You can delete it from Appointments."
+          : `The visit was deleted, but ${undeleted} follow-up appointments couldn't be. You can delete them from Appointments.`;
+      return failed(new MutationError(message, 'rejected'));
+    }
+    return result;
   };
 
-  const deleteCanineAllergy = async (id: string) => {
-    try {
-      const success = await canineAllergyService.delete(id);
-      if (success) {
-        setCanineAllergies(canineAllergies.filter((allergy) => allergy.id !== id));
-        return;
-      }
-    } catch (error) {
-      console.error('Error deleting canine allergy:', error);
-    }
+  // Immunizations
+  // The age at vaccination comes from the pet's date of birth when it's known; otherwise the entered age is kept
+  const addImmunizationRecord = (record: Omit<ImmunizationRecord, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const age = getImmunizationAge(record, findCanineProfile(record.canineId)?.dateOfBirth);
+    const derived = age ? { ...record, ageYears: age.years, ageMonths: age.months } : record;
+    return optimisticCreate<ImmunizationRecord>('immunizations', setImmunizations, derived, () => immunizationService.create(derived), 'Unable to add this immunization record.');
+  };
 
-    setCanineAllergies(canineAllergies.filter((allergy) => allergy.id !== id));
+  const updateImmunizationRecord = (id: string, updates: Partial<ImmunizationRecord>) => {
+    const existing = immunizations.find((record) => record.id === id);
+    const age = existing && getImmunizationAge({ ...existing, ...updates }, findCanineProfile(existing.canineId)?.dateOfBirth);
+    const derived = age ? { ...updates, ageYears: age.years, ageMonths: age.months } : updates;
+    return optimisticUpdate('immunizations', setImmunizations, immunizations, id, derived, () => immunizationService.update(id, derived), 'Unable to update this immunization record.');
   };
 
+  const deleteImmunizationRecord = (id: string) =>
+    optimisticDelete('immunizations', setImmunizations, immunizations, id, () => immunizationService.delete(id), 'Unable to delete this immunization record.');
+
+  // Allergies
+  const addCanineAllergy = (allergy: Omit<CanineAllergy, 'id' | 'createdAt' | 'updatedAt'>) =>
+    optimisticCreate<CanineAllergy>('canineAllergies', setCanineAllergies, allergy, () => canineAllergyService.create(allergy), 'Unable to add this allergy.');
+
+  const updateCanineAllergy = (id: string, updates: Partial<CanineAllergy>) =>
+    optimisticUpdate('canineAllergies', setCanineAllergies, canineAllergies, id, updates, () => canineAllergyService.update(id, updates), 'Unable to update this allergy.');
+
+  const deleteCanineAllergy = (id: string) =>
+    optimisticDelete('canineAllergies', setCanineAllergies, canineAllergies, id, () => canineAllergyService.delete(id), 'Unable to delete this allergy.');
+
   const changePassword = async (currentPassword: string, newPassword: string) => {
     if (!userProfile) {
       throw new Error('You must be logged in to change your password.');
@@ -1112,15 +2281,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
       throw new Error('New password must be at least 8 characters long.');
     }
 
-    console.log('[ChangePassword] Supabase configured:', isSupabaseConfigured);
-
-    if (!isSupabaseConfigured) {
-      console.warn('Supabase not configured. Simulating password change locally.');
-      setUserProfile({
-        ...userProfile,
-        updatedAt: new Date().toISOString(),
-      });
-      return;
+    if (isOfflineMode()) {
+      throw new Error('Changing your password requires an internet connection.');
     }
 
     const passwordData = await userProfileService.getPasswordHashByEmail(userProfile.email);
@@ -1156,84 +2318,141 @@ export function AppProvider({ children }: { children: ReactNode }) {
     );
   };
 
+  // Two-Factor Authentication - online only, like password changes
+  const requireTwoFactorAccount = (action: string) => {
+    if (!userProfile) {
+      throw new Error(`You must be logged in to ${action}.`);
+    }
+    if (isOfflineMode()) {
+      throw new Error('Two-factor authentication settings require an internet connection.');
+    }
+    return userProfile;
+  };
+
+  const startTwoFactorEnrollment = async () => {
+    const profile = requireTwoFactorAccount('set up two-factor authentication');
+    return startEnrollment(profile);
+  };
+
+  const confirmTwoFactorEnrollment = async (code: string) => {
+    const profile = requireTwoFactorAccount('set up two-factor authentication');
+    const backupCodes = await confirmEnrollment(profile.id, code);
+    setTwoFactorStatus({ enabled: true, backupCodesRemaining: backupCodes.length });
+    return backupCodes;
+  };
+
+  const regenerateTwoFactorBackupCodes = async (code: string) => {
+    const profile = requireTwoFactorAccount('create new backup codes');
+    const backupCodes = await regenerateBackupCodes(profile.id, code);
+    setTwoFactorStatus({ enabled: true, backupCodesRemaining: backupCodes.length });
+    return backupCodes;
+  };
+
+  const disableTwoFactor = async (code: string) => {
+    const profile = requireTwoFactorAccount('turn off two-factor authentication');
+    if (profile.role === 'Admin' && appSettings?.requireAdminTwoFactor) {
+      throw new Error('Two-factor authentication is required for admin accounts.');
+    }
+    await removeTwoFactor(profile.id, code);
+    setTwoFactorStatus(TWO_FACTOR_DISABLED);
+  };
+
+  // Everything after the password (and two-factor code, when there is one) has been accepted
+  // replacementHash is the new hash for accounts without one or with an outdated one
+  const completeLogin = async (
+    profile: UserProfile,
+    passwordData: PasswordHashRecord,
+    replacementHash: string | null
+  ) => {
+    const storedHash = passwordData.password_hash;
+
+    // Act as this user from here on
+    setCurrentPrincipal(principalFor(profile));
+    await recordLoginSuccess(passwordData);
+
+    if (!storedHash) {
+      // Demo data ships without passwords - set one on first login
+      console.log('Legacy user found without password_hash. Setting password...');
+
+      const updated = replacementHash
+        ? await userProfileService.updatePasswordHash(passwordData.id, replacementHash)
+        : null;
+
+      if (!updated) {
+        setCurrentPrincipal(null);
+        throw new Error('Failed to set password. Please try again or contact support.');
+      }
+
+      console.log('✅ Password set successfully for legacy user');
+    } else if (replacementHash) {
+      // Upgrade legacy SHA-256 hashes with the one made while we had the plain password
+      try {
+        const upgraded = await userProfileService.updatePasswordHash(passwordData.id, replacementHash);
+        console.log(upgraded ? '🔐 Password hash upgraded' : '⚠️ Could not upgrade password hash');
+      } catch (error) {
+        console.warn('Password hash upgrade failed. Will retry on next login.', error);
+      }
+    }
+
+    console.log('✅ Authentication successful');
+    await startSession(profile);
+    setUserProfile(profile);
+    setIsAuthenticated(true);
+    await loadData();
+  };
+
   // Authentication - App-based (not Supabase Auth)
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
+    // A new attempt replaces one that was waiting for a code
+    pendingTwoFactorRef.current = null;
     try {
-      if (isSupabaseConfigured) {
-        console.log('Attempting app-based authentication for:', email);
-        
-        // Get user's password hash from database
-        const passwordData = await userProfileService.getPasswordHashByEmail(email);
-        
-        if (!passwordData) {
-          throw new Error('No account found with this email address. Please sign up first.');
-        }
-        
-        // Check if user exists but doesn't have a password_hash (legacy user)
-        if (!passwordData.password_hash) {
-          // This is a legacy user without a password - automatically set password on first login
-          console.log('Legacy user found without password_hash. Setting password...');
-          
-          // Hash the provided password
-          const passwordHash = await hashPassword(password);
-          
-          // Directly update password_hash in database using service client
-          const { error: updateError } = await supabaseService
-            .from('user_profiles')
-            .update({ password_hash: passwordHash })
-            .eq('id', passwordData.id);
-          
-          if (updateError) {
-            console.error('Error updating password hash:', updateError);
-            throw new Error('Failed to set password. Please try again or contact support.');
-          }
-          
-          console.log('✅ Password set successfully for legacy user');
-          
-          // Now proceed with login
-          const profile = await userProfileService.getById(passwordData.id);
-          if (!profile) {
-            throw new Error('User profile not found. Please contact support.');
-          }
-          
-          setUserProfile(profile);
-          setIsAuthenticated(true);
-          await loadData();
-          return true;
-        }
-        
-        // Verify password
-        const isValid = await verifyPassword(password, passwordData.password_hash);
-        
-        if (!isValid) {
-          throw new Error('Invalid email or password.');
-        }
-        
-        // Password is valid, get the full user profile
-        const profile = await userProfileService.getById(passwordData.id);
-        
-        if (!profile) {
-          throw new Error('User profile not found. Please contact support.');
-        }
-        
-        console.log('✅ Authentication successful');
-        setUserProfile(profile);
-        setIsAuthenticated(true);
-        await loadData();
-        return true;
-      } else {
-        // Fallback: Simple email check (only if Supabase is NOT configured)
-        console.warn('⚠️ Supabase not configured. Using test data authentication.');
-        const testData = generateTestData();
-        if (testData.userProfile.email === email && password.length > 0) {
-          setUserProfile(testData.userProfile);
-          setIsAuthenticated(true);
-          await loadData();
-          return true;
-        } else {
-          throw new Error('Invalid email or password. Use: john.doe@example.com / any password');
-        }
+      console.log('Attempting app-based authentication for:', email);
+
+      // Get user's password hash from the data backend
+      const passwordData = await userProfileService.getPasswordHashByEmail(email);
+
+      // Throttled devices and locked accounts are refused before the password is checked
+      await assertLoginAllowed(passwordData);
+
+      // Legacy users without a password_hash can only log in to demo data; against a real
+      // database whoever logged in first would pick the password, so they use "Forgot password?"
+      // Unknown emails are checked against a dummy hash so they take as long as a wrong password
+      const storedHash = passwordData?.password_hash;
+      const passwordMatches = await verifyPassword(password, storedHash || DUMMY_PASSWORD_HASH);
+      const passwordAccepted = storedHash ? passwordMatches : !!passwordData && !getDataBackend().isRemote;
+
+      // Same message whether or not the email has an account
+      if (!passwordData || !passwordAccepted) {
+        await recordLoginFailure(passwordData);
+        throw new Error(LOGIN_FAILED_MESSAGE);
+      }
+
+      // Password is valid, get the full user profile
+      const profile = await userProfileService.getByEmail(email);
+
+      if (!profile || profile.id !== passwordData.id) {
+        throw new Error('User profile not found. Please contact support.');
+      }
+
+      // Hash the password now so it doesn't have to be kept around while a code is pending
+      const replacementHash = !storedHash || needsRehash(storedHash) ? await hashPassword(password) : null;
+
+      // Accounts with two-factor on owe a code before they're signed in
+      const twoFactor = await withTwoFactorGrant(profile.id, () => getTwoFactorStatus(profile.id));
+      if (twoFactor.enabled) {
+        pendingTwoFactorRef.current = {
+          userId: profile.id,
+          email: profile.email,
+          nonce: Crypto.randomUUID(),
+          replacementHash,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+        };
+        console.log('🔐 Password accepted; waiting for a two-factor code');
+        return 'two_factor_required';
       }
+
+      await completeLogin(profile, passwordData, replacementHash);
+      return 'signed_in';
     } catch (error: any) {
       console.error('Login error:', error);
       // Re-throw the error so the login screen can show a specific message
@@ -1241,6 +2460,44 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const verifyTwoFactorLogin = async (code: string): Promise<void> => {
+    const pending = pendingTwoFactorRef.current;
+    if (!pending || pending.expiresAt <= Date.now()) {
+      pendingTwoFactorRef.current = null;
+      throw new Error('Your login timed out. Please enter your password again.');
+    }
+
+    // A newer login attempt replaces this one while the code is being checked
+    const isCurrent = () => pendingTwoFactorRef.current?.nonce === pending.nonce;
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const [passwordData, profile] = await Promise.all([
+      userProfileService.getPasswordHashByEmail(pending.email),
+      userProfileService.getByEmail(pending.email),
+    ]);
+    if (!passwordData || passwordData.id !== pending.userId || profile?.id !== pending.userId) {
+      if (isCurrent()) pendingTwoFactorRef.current = null;
+      throw new Error(LOGIN_FAILED_MESSAGE);
+    }
+    await assertLoginAllowed(passwordData);
+
+    const accepted = await withTwoFactorGrant(pending.userId, () => checkTwoFactorCode(pending.userId, code));
+    if (!accepted) {
+      await recordLoginFailure(passwordData);
+      throw new Error('That code is incorrect or has already been used.');
+    }
+
+    if (!isCurrent()) {
+      throw new Error('Your login timed out. Please enter your password again.');
+    }
+    pendingTwoFactorRef.current = null;
+    await completeLogin(profile, passwordData, pending.replacementHash);
+  };
+
+  const cancelTwoFactorLogin = () => {
+    pendingTwoFactorRef.current = null;
+  };
+
   const signup = async (
     email: string,
     password: string,
@@ -1249,18 +2506,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
     activationCode: string
   ): Promise<{ success: boolean; requiresEmailConfirmation?: boolean; message?: string }> => {
     try {
-      // Validate activation code
-      const activationCodeInfo = validateActivationCode(activationCode);
-      if (!activationCodeInfo.valid) {
-        throw new Error('Invalid activation code. Please enter a valid activation code to sign up.');
-      }
-
       // Validate activation code for Pet Owner role (default role for signup)
       const role: UserRole = 'Pet Owner';
-      const roleValidatedCode = validateActivationCode(activationCode, role);
-      if (!roleValidatedCode.valid) {
-        throw new Error(roleValidatedCode.description || 'Invalid activation code for this role.');
-      }
+      const code = await validateActivationCode(activationCode, role);
 
       // Check if user already exists
       const existingUser = await userProfileService.getByEmail(email);
@@ -1268,43 +2516,42 @@ export function AppProvider({ children }: { children: ReactNode }) {
         throw new Error('An account with this email already exists. Please login instead.');
       }
 
-      // If Supabase is configured, create app user (not Supabase Auth user)
-      if (isSupabaseConfigured) {
-        console.log('Creating app user account for:', email);
-        
-        // Hash the password
-        const passwordHash = await hashPassword(password);
-        
+      // Hash the password
+      const passwordHash = await hashPassword(password);
+
+      // Create app user (not Supabase Auth user); the code's redemption is given back if this fails
+      console.log('Creating app user account for:', email);
+      const newProfile = await redeemActivationCodeForSignup(code, async (redeemedCode) => {
         // Create user profile with hashed password
-        const newProfile = await userProfileService.create(
+        const created = await userProfileService.create(
           {
             firstName,
             lastName,
             email,
             phone: '',
             country: 'US',
-            role: 'Pet Owner',
+            role,
+            activationCodeId: redeemedCode.id,
+            subscriptionTier: redeemedCode.tier,
           },
           passwordHash
         );
-        
-        if (!newProfile) {
+        if (!created) {
           throw new Error('Failed to create account. Please try again.');
         }
-        
-        console.log('✅ Account created successfully');
-        
-        // Automatically log in the user
-        setUserProfile(newProfile);
-        setIsAuthenticated(true);
-        await loadData();
-        
-        return { success: true };
-      } else {
-        // Fallback to test data mode (for development)
-        console.warn('⚠️ Supabase not configured. Signup not available in test mode.');
-        throw new Error('Signup is only available when Supabase is configured. Please set up your Supabase credentials.');
-      }
+        return created;
+      });
+
+      console.log('✅ Account created successfully');
+
+      // Automatically log in the user
+      setCurrentPrincipal(principalFor(newProfile));
+      await startSession(newProfile);
+      setUserProfile(newProfile);
+      setIsAuthenticated(true);
+      await loadData();
+
+      return { success: true };
     } catch (error: any) {
       console.error('Signup error:', error);
       throw error;
@@ -1312,26 +2559,35 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = async () => {
-    // App-based authentication - just clear local state
-    setIsAuthenticated(false);
-    setUserProfile(null);
-    setAllUsers([]);
-    setCanines([]);
-    setNutritionEntries([]);
-    setTrainingLogs([]);
-    setAppointments([]);
-    setMediaItems([]);
-    setMedicalRecords([]);
-    setMedications([]);
-    setVetVisits([]);
-    setImmunizations([]);
-    setCanineAllergies([]);
+    await endSession();
+    await clearSignedInState();
   };
 
+  const clearSessionNotice = () => setSessionNotice(null);
+
   const refreshData = async () => {
     await loadData();
   };
 
+  const syncNow = async () => {
+    if (!isOnlineRef.current) {
+      const online = await checkIsOnline();
+      isOnlineRef.current = online;
+      setIsOnline(online);
+      if (!online) {
+        throw new Error('You are offline. Changes will sync when the connection returns.');
+      }
+    }
+    await loadData();
+  };
+
+  const clearSyncConflicts = async () => {
+    if (userProfile) {
+      await clearStoredSyncConflicts(userProfile.id);
+    }
+    setSyncConflicts([]);
+  };
+
   // Test Supabase connection
   const testConnection = async () => {
     const result = await testSupabaseConnection();
@@ -1350,22 +2606,86 @@ export function AppProvider({ children }: { children: ReactNode }) {
     appointments,
     mediaItems,
     medicalRecords,
+    labResults,
     medications,
+    medicationDoseLogs,
+    weightMeasurements,
     vetVisits,
     immunizations,
     canineAllergies,
+    walkLogs,
     isAuthenticated,
     isLoading,
+    isRestoringSession,
+    sessionNotice,
+    clearSessionNotice,
+
+    // Offline sync
+    isOnline,
+    pendingSyncCount,
+    syncConflicts,
+    syncNow,
+    clearSyncConflicts,
 
     // User Profile
     setUserProfile,
     updateUserProfile,
 
+    // Subscription
+    subscriptionTier,
+    entitlementUsage,
+
     // User Management (Admin only)
     allUsers,
     addUser,
     updateUser,
     deleteUser,
+    revokeUserSessions,
+    resetUserTwoFactor,
+    appSettings,
+    updateAppSettings,
+    unlockUser,
+
+    // Activation Codes (Admin only)
+    activationCodes,
+    addActivationCode,
+    updateActivationCode,
+
+    // Vet Access
+    vetAccessGrants,
+    sharedCanines,
+    shareCanineWithVet,
+    revokeVetAccess,
+    getSharedCanine,
+
+    // Dog Walkers
+    walkerAssignments,
+    assignWalker,
+    unassignWalker,
+    scheduleWalk,
+    startWalk,
+    checkInWalk,
+    checkOutWalk,
+    updateWalkLog,
+    deleteWalkLog,
+    getWalkLogsByCanine,
+
+    // Households
+    households,
+    householdMembers,
+    createHousehold,
+    deleteHousehold,
+    inviteHouseholdMember,
+    updateHouseholdMemberRole,
+    removeHouseholdMember,
+    setCanineHousehold,
+    getCanineRole,
+
+    // Share Links
+    petShareLinks,
+    petShareAccesses,
+    createPetShareLink,
+    revokePetShareLink,
 
     // Canine Profile
     addCanine,
@@ -1375,9 +2695,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
     getNutritionEntriesByCanine,
     getTrainingLogsByCanine,
     getMediaItemsByCanine,
+    getLabResultsByCanine,
     getMedicationsByCanine,
+    getMedicationDoseLogsByCanine,
+    getWeightMeasurementsByCanine,
     getVetVisitsByCanine,
     getImmunizationsByCanine,
+    getVaccineScheduleByCanine,
     getCanineAllergiesByCanine,
 
     // Vet Profile
@@ -1415,10 +2739,22 @@ export function AppProvider({ children }: { children: ReactNode }) {
     updateMedicalRecord,
     deleteMedicalRecord,
 
+    // Lab Results
+    addLabResult,
+    updateLabResult,
+    deleteLabResult,
+
     // Medications
     addMedicationEntry,
     updateMedicationEntry,
     deleteMedicationEntry,
+    logMedicationDose,
+    deleteMedicationDoseLog,
+
+    // Weight
+    addWeightMeasurement,
+    updateWeightMeasurement,
+    deleteWeightMeasurement,
 
     // Vet Visits
     addVetVisit,
@@ -1435,10 +2771,22 @@ export function AppProvider({ children }: { children: ReactNode }) {
     updateCanineAllergy,
     deleteCanineAllergy,
 
+    // Two-Factor Authentication
+    twoFactorStatus,
+    twoFactorSetupRequired,
+    startTwoFactorEnrollment,
+    confirmTwoFactorEnrollment,
+    regenerateTwoFactorBackupCodes,
+    disableTwoFactor,
+
     // Authentication
     login,
+    verifyTwoFactorLogin,
+    cancelTwoFactorLogin,
     signup,
     changePassword,
+    requestPasswordReset,
+    resetPassword: resetPasswordWithCode,
     logout,
     refreshData,
     
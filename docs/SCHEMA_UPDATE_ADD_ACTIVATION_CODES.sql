@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Schema Update: Add activation_codes table
+-- ============================================================================
+-- Activation codes let new users sign up. Each code grants a subscription tier
+-- to the roles listed in allowed_roles, and can expire or be limited to a
+-- number of redemptions. Admins manage codes from the Activation Codes screen.
+-- user_profiles.activation_code_id records which code each user redeemed.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS activation_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT NOT NULL UNIQUE CHECK (code = LOWER(code)),
+  tier TEXT NOT NULL DEFAULT 'Free' CHECK (tier IN ('Free', 'Premium', 'Enterprise')),
+  allowed_roles TEXT[] NOT NULL DEFAULT ARRAY['Pet Owner'],
+  description TEXT,
+  expires_at TIMESTAMPTZ,
+  max_redemptions INTEGER CHECK (max_redemptions IS NULL OR max_redemptions > 0),
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS activation_code_id UUID REFERENCES activation_codes(id) ON DELETE SET NULL;
+
+-- Lets admins see who redeemed a code
+CREATE INDEX IF NOT EXISTS idx_user_profiles_activation_code ON user_profiles(activation_code_id);
+
+-- The code that used to be built into the app
+INSERT INTO activation_codes (code, tier, allowed_roles, description)
+VALUES ('avapay', 'Free', ARRAY['Pet Owner'], 'Free tier access')
+ON CONFLICT (code) DO NOTHING;
@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Schema Update: Add activity level and neuter status to canine profiles
+-- ============================================================================
+-- Together with the pet's weight and date of birth these give its daily
+-- calorie target (see utils/calories.ts). Both are optional: pets without an
+-- activity level count as moderately active, and an unknown neuter status
+-- counts as neutered.
+-- Run this in Supabase SQL Editor after running the main schema
+
+ALTER TABLE canine_profiles
+ADD COLUMN IF NOT EXISTS activity_level TEXT
+CHECK (activity_level IN ('low', 'moderate', 'active', 'working'));
+
+ALTER TABLE canine_profiles
+ADD COLUMN IF NOT EXISTS is_neutered BOOLEAN;
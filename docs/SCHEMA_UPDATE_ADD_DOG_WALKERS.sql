@@ -0,0 +1,50 @@
+-- ============================================================================
+-- Schema Update: Add walker_assignments and walk_logs tables
+-- ============================================================================
+-- Owners assign individual pets to dog walker accounts. While an assignment is
+-- active (revoked_at is null) the walker sees the pet in the walker portal and
+-- can check in and out of walks. Each walk is a walk_logs row: owners schedule
+-- it, the walker checks in, records bathroom breaks and photos, and checks out,
+-- which sets the duration. Logs stay with the pet if the walker's account is
+-- deleted.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS walker_assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  canine_id UUID NOT NULL REFERENCES canine_profiles(id) ON DELETE CASCADE,
+  walker_user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  walker_name TEXT NOT NULL,
+  walker_email TEXT NOT NULL,
+  assigned_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_walker_assignments_canine_id ON walker_assignments(canine_id);
+
+-- The walker portal looks up a walker's active assignments on every load
+CREATE INDEX IF NOT EXISTS idx_walker_assignments_active_walker
+  ON walker_assignments(walker_user_id)
+  WHERE revoked_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS walk_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  canine_id UUID NOT NULL REFERENCES canine_profiles(id) ON DELETE CASCADE,
+  walker_user_id UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  walker_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'in_progress', 'completed', 'cancelled')),
+  scheduled_at TIMESTAMPTZ,
+  checked_in_at TIMESTAMPTZ,
+  checked_out_at TIMESTAMPTZ,
+  duration_minutes INTEGER CHECK (duration_minutes IS NULL OR duration_minutes >= 0),
+  notes TEXT,
+  photo_urls JSONB NOT NULL DEFAULT '[]'::jsonb,
+  bathroom_events JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_walk_logs_canine_id ON walk_logs(canine_id);
+CREATE INDEX IF NOT EXISTS idx_walk_logs_walker_user_id ON walk_logs(walker_user_id);
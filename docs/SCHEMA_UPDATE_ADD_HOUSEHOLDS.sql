@@ -0,0 +1,38 @@
+-- ============================================================================
+-- Schema Update: Add households and household_members tables
+-- ============================================================================
+-- A household lets several accounts look after the same pets. Each member has a
+-- role: owners manage the household and its pets, caregivers add and edit the
+-- pets' records, and read-only members can only view them. A pet joins a
+-- household through canine_profiles.household_id; it still belongs to the
+-- account that added it, so deleting the household only unshares it.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS households (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  member_name TEXT NOT NULL,
+  member_email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'caregiver'
+    CHECK (role IN ('owner', 'caregiver', 'read-only')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (household_id, user_id)
+);
+
+-- Every load looks up the signed-in user's memberships
+CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON household_members(user_id);
+
+ALTER TABLE canine_profiles
+  ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_canine_profiles_household_id ON canine_profiles(household_id);
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- Schema Update: Add lab_results table
+-- ============================================================================
+-- Each row is one measured value from a medical record's bloodwork: the
+-- analyte (a catalogue code such as ALT, or a custom name), its value and
+-- unit, and the reference range printed on that lab report. Results are
+-- deleted with their medical record. The starter catalogue of CBC and
+-- chemistry analytes lives in the app (utils/labResults.ts).
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS lab_results (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  canine_id UUID NOT NULL REFERENCES canine_profiles(id) ON DELETE CASCADE,
+  medical_record_id UUID NOT NULL REFERENCES medical_records(id) ON DELETE CASCADE,
+  panel TEXT,
+  analyte TEXT NOT NULL,
+  value DECIMAL(12, 4) NOT NULL,
+  unit TEXT NOT NULL DEFAULT '',
+  reference_low DECIMAL(12, 4),
+  reference_high DECIMAL(12, 4),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (reference_low IS NULL OR reference_high IS NULL OR reference_low <= reference_high)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lab_results_canine_id ON lab_results(canine_id, analyte);
+CREATE INDEX IF NOT EXISTS idx_lab_results_medical_record_id ON lab_results(medical_record_id);
+
+CREATE TRIGGER update_lab_results_updated_at BEFORE UPDATE ON lab_results
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,19 @@
+-- ============================================================================
+-- Schema Update: Add login throttling fields to user_profiles
+-- ============================================================================
+-- Tracks failed login attempts per account so repeated failures can be slowed
+-- down and the account temporarily locked. Admins can unlock accounts from the
+-- Users Management screen.
+-- Run this in Supabase SQL Editor after running the main schema
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS last_failed_login_at TIMESTAMPTZ;
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+-- Lets the admin screen find locked accounts quickly
+CREATE INDEX IF NOT EXISTS idx_user_profiles_locked_until ON user_profiles(locked_until) WHERE locked_until IS NOT NULL;
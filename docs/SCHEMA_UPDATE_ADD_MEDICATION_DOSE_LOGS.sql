@@ -0,0 +1,26 @@
+-- ============================================================================
+-- Schema Update: Add medication_dose_logs table
+-- ============================================================================
+-- The app expands each medication's frequency, start and end into scheduled
+-- doses (utils/doseSchedule.ts). Caregivers mark a dose as given, given late
+-- or skipped, which stores one row per dose; scheduled_at identifies the dose.
+-- Logs are removed with their medication or pet, and stay in the pet's history
+-- if the caregiver's account is deleted.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS medication_dose_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  canine_id UUID NOT NULL REFERENCES canine_profiles(id) ON DELETE CASCADE,
+  medication_id UUID NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  scheduled_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('given', 'late', 'skipped')),
+  logged_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  logged_by_name TEXT NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- One log per dose; changing the outcome updates the existing row
+  UNIQUE (medication_id, scheduled_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_dose_logs_canine_id ON medication_dose_logs(canine_id);
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Schema Update: Add password_reset_codes table
+-- ============================================================================
+-- Stores one-time codes for the "Forgot password" flow. Only a SHA-256 hash of
+-- each code is kept; the code itself is emailed to the user.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS password_reset_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Rate limiting counts a user's recent codes
+CREATE INDEX IF NOT EXISTS idx_password_reset_codes_user_created ON password_reset_codes(user_id, created_at DESC);
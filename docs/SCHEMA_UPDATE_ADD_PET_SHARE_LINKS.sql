@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Schema Update: Add pet_share_links and pet_share_accesses tables
+-- ============================================================================
+-- Owners share one pet with someone who has no account (a boarding kennel, a
+-- new vet) through a share code. The code itself is never stored, only its
+-- SHA-256 hash. A link covers the sections the owner picked, expires at
+-- expires_at and stops working once revoked_at is set. Every attempt to open a
+-- known link is recorded in pet_share_accesses, including attempts after it
+-- expired or was revoked.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS pet_share_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  canine_id UUID NOT NULL REFERENCES canine_profiles(id) ON DELETE CASCADE,
+  label TEXT,
+  code_hash TEXT NOT NULL UNIQUE,
+  sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- The emergency contacts the owner chose, copied when the link was created,
+  -- since the contact directory isn't tied to a pet or owner
+  emergency_contacts JSONB,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_share_links_canine_id ON pet_share_links(canine_id);
+
+CREATE TABLE IF NOT EXISTS pet_share_accesses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  share_link_id UUID NOT NULL REFERENCES pet_share_links(id) ON DELETE CASCADE,
+  canine_id UUID NOT NULL REFERENCES canine_profiles(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK (outcome IN ('viewed', 'expired', 'revoked')),
+  platform TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_share_accesses_canine_id ON pet_share_accesses(canine_id);
+CREATE INDEX IF NOT EXISTS idx_pet_share_accesses_share_link_id ON pet_share_accesses(share_link_id);
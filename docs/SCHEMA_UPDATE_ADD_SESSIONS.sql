@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Schema Update: Add user_sessions table
+-- ============================================================================
+-- Stores login sessions issued by the app. Only a SHA-256 hash of each session
+-- token is kept; the token itself lives on the device.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  last_refreshed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  device_label TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_token_hash ON user_sessions(token_hash);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+
+-- Note: revoked sessions are kept for auditing; expired rows can be purged with
+-- DELETE FROM user_sessions WHERE expires_at < NOW() - INTERVAL '30 days';
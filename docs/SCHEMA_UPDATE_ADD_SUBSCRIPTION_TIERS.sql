@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Schema Update: Add subscription tiers
+-- ============================================================================
+-- Records each user's subscription tier, which decides how many pets, how much
+-- photo and video storage and how many medical record attachments they get
+-- (see utils/entitlements.ts). Media items record their size so storage use
+-- can be counted.
+-- Run this in Supabase SQL Editor after SCHEMA_UPDATE_ADD_ACTIVATION_CODES.sql
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS subscription_tier TEXT NOT NULL DEFAULT 'Free'
+CHECK (subscription_tier IN ('Free', 'Premium', 'Enterprise'));
+
+-- Existing users get the tier of the code they signed up with
+UPDATE user_profiles
+SET subscription_tier = activation_codes.tier
+FROM activation_codes
+WHERE user_profiles.activation_code_id = activation_codes.id;
+
+ALTER TABLE media_items
+ADD COLUMN IF NOT EXISTS file_size BIGINT;
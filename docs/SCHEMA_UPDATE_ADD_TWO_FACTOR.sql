@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Schema Update: Add two_factor_credentials and app_settings tables
+-- ============================================================================
+-- Users can turn on two-factor login with an authenticator app. Each user has
+-- at most one credential: the TOTP secret, SHA-256 hashes of their unused
+-- backup codes, and the newest time step that was accepted so a code can't be
+-- used twice. Two-factor login is on once enabled_at is set.
+-- app_settings holds a single row (id = 'app') of settings admins change for
+-- the whole app, such as requiring two-factor login for Admin accounts.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS two_factor_credentials (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL UNIQUE REFERENCES user_profiles(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  backup_code_hashes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  enabled_at TIMESTAMPTZ,
+  last_used_step BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  id TEXT PRIMARY KEY DEFAULT 'app' CHECK (id = 'app'),
+  require_admin_two_factor BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Schema Update: Add vet_access_grants table
+-- ============================================================================
+-- Owners share individual pets with vet accounts. While a grant is active
+-- (revoked_at is null) the vet can read the pet's health records and add vet
+-- visits and medical records from the vet portal. Revoked grants are kept as a
+-- history of who had access.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS vet_access_grants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  canine_id UUID NOT NULL REFERENCES canine_profiles(id) ON DELETE CASCADE,
+  vet_user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  vet_name TEXT NOT NULL,
+  vet_email TEXT NOT NULL,
+  granted_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vet_access_grants_canine_id ON vet_access_grants(canine_id);
+
+-- The vet portal looks up a vet's active grants on every load
+CREATE INDEX IF NOT EXISTS idx_vet_access_grants_active_vet
+  ON vet_access_grants(vet_user_id)
+  WHERE revoked_at IS NULL;
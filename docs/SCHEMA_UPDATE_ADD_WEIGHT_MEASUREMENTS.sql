@@ -0,0 +1,63 @@
+-- ============================================================================
+-- Schema Update: Add weight_measurements table
+-- ============================================================================
+-- Each row is one weighing of a pet, in the unit it was entered in, with an
+-- optional body condition score from 1 (emaciated) to 9 (obese). The pet's
+-- weight and weight_unit on canine_profiles follow its newest measurement,
+-- kept up to date by the trigger below so caregivers who can't edit the pet
+-- still update its current weight. Users can also pick the unit weights are
+-- shown in; without one the app uses kg in India and lbs elsewhere.
+-- Run this in Supabase SQL Editor after running the main schema
+
+CREATE TABLE IF NOT EXISTS weight_measurements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  canine_id UUID NOT NULL REFERENCES canine_profiles(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  value DECIMAL(10, 2) NOT NULL CHECK (value > 0),
+  unit TEXT NOT NULL CHECK (unit IN ('kg', 'lbs')),
+  body_condition_score INTEGER CHECK (body_condition_score BETWEEN 1 AND 9),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_weight_measurements_canine_id ON weight_measurements(canine_id, date DESC);
+
+CREATE TRIGGER update_weight_measurements_updated_at BEFORE UPDATE ON weight_measurements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS preferred_weight_unit TEXT CHECK (preferred_weight_unit IN ('kg', 'lbs'));
+
+-- Copy the newest measurement onto the pet; deleting the last one leaves the weight as it was
+CREATE OR REPLACE FUNCTION sync_canine_current_weight()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_canine UUID := COALESCE(NEW.canine_id, OLD.canine_id);
+  latest RECORD;
+BEGIN
+  SELECT value, unit INTO latest
+  FROM weight_measurements
+  WHERE canine_id = target_canine
+  ORDER BY date DESC, created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    UPDATE canine_profiles
+    SET weight = latest.value, weight_unit = latest.unit
+    WHERE id = target_canine;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_canine_current_weight ON weight_measurements;
+CREATE TRIGGER sync_canine_current_weight AFTER INSERT OR UPDATE OR DELETE ON weight_measurements
+  FOR EACH ROW EXECUTE FUNCTION sync_canine_current_weight();
+
+-- Start each pet's history with the weight already on its profile
+INSERT INTO weight_measurements (canine_id, date, value, unit)
+SELECT id, updated_at::date, weight, COALESCE(weight_unit, 'lbs')
+FROM canine_profiles
+WHERE weight > 0
+  AND NOT EXISTS (SELECT 1 FROM weight_measurements WHERE weight_measurements.canine_id = canine_profiles.id);
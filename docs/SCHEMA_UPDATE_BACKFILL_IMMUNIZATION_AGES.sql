@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Schema Update: Backfill immunization ages from dates of birth
+-- ============================================================================
+-- The app now derives an immunization's age_years and age_months from the
+-- pet's date of birth and the immunization date (utils/canineAge.ts), and only
+-- asks for the age when the date of birth is unknown. This recalculates the
+-- ages entered by hand before that, for every pet with a date of birth.
+-- Records dated before the pet's birth are left alone; the app flags them.
+-- Safe to run more than once.
+-- Run this in Supabase SQL Editor after running the main schema
+
+UPDATE immunizations AS i
+SET
+  age_years = EXTRACT(YEAR FROM age(i.immunization_date::date, c.date_of_birth))::int,
+  age_months = EXTRACT(MONTH FROM age(i.immunization_date::date, c.date_of_birth))::int,
+  updated_at = NOW()
+FROM canine_profiles AS c
+WHERE c.id = i.canine_id
+  AND c.date_of_birth IS NOT NULL
+  AND i.immunization_date::date >= c.date_of_birth
+  AND (i.age_years, i.age_months) IS DISTINCT FROM (
+    EXTRACT(YEAR FROM age(i.immunization_date::date, c.date_of_birth))::int,
+    EXTRACT(MONTH FROM age(i.immunization_date::date, c.date_of_birth))::int
+  );
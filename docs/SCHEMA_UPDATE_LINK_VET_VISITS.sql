@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Schema Update: Link vet visits to medications, records and follow-ups
+-- ============================================================================
+-- A medication can record the visit it was prescribed at, a medical record
+-- the visit that produced it, and an appointment the visit it follows up on.
+-- Deleting a visit only clears these links; the app deletes its follow-up
+-- appointments first when the user asks it to.
+-- Run this in Supabase SQL Editor after running the main schema
+
+ALTER TABLE medications
+  ADD COLUMN IF NOT EXISTS vet_visit_id UUID REFERENCES vet_visits(id) ON DELETE SET NULL;
+
+ALTER TABLE medical_records
+  ADD COLUMN IF NOT EXISTS vet_visit_id UUID REFERENCES vet_visits(id) ON DELETE SET NULL;
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS vet_visit_id UUID REFERENCES vet_visits(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_medications_vet_visit_id ON medications(vet_visit_id);
+CREATE INDEX IF NOT EXISTS idx_medical_records_vet_visit_id ON medical_records(vet_visit_id);
+CREATE INDEX IF NOT EXISTS idx_appointments_vet_visit_id ON appointments(vet_visit_id);
@@ -142,9 +142,24 @@ export const TABLES = {
   APPOINTMENTS: 'appointments',
   MEDIA_ITEMS: 'media_items',
   MEDICAL_RECORDS: 'medical_records',
+  LAB_RESULTS: 'lab_results',
   MEDICATIONS: 'medications',
+  MEDICATION_DOSE_LOGS: 'medication_dose_logs',
+  WEIGHT_MEASUREMENTS: 'weight_measurements',
   VET_VISITS: 'vet_visits',
   IMMUNIZATIONS: 'immunizations',
   CANINE_ALLERGIES: 'canine_allergies',
+  USER_SESSIONS: 'user_sessions',
+  PASSWORD_RESET_CODES: 'password_reset_codes',
+  TWO_FACTOR_CREDENTIALS: 'two_factor_credentials',
+  ACTIVATION_CODES: 'activation_codes',
+  VET_ACCESS_GRANTS: 'vet_access_grants',
+  WALKER_ASSIGNMENTS: 'walker_assignments',
+  WALK_LOGS: 'walk_logs',
+  HOUSEHOLDS: 'households',
+  HOUSEHOLD_MEMBERS: 'household_members',
+  PET_SHARE_LINKS: 'pet_share_links',
+  PET_SHARE_ACCESSES: 'pet_share_accesses',
+  APP_SETTINGS: 'app_settings',
 } as const;
 
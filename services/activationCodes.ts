@@ -0,0 +1,76 @@
+/**
+ * Activation Code Service
+ *
+ * Signup requires an activation code. Codes are stored as data so promotions
+ * don't need an app release:
+ * - validateActivationCode() looks a code up and checks it can be used
+ * - redeemActivationCodeForSignup() counts one use while the account is
+ *   created, enforcing the redemption limit even when several people sign up
+ *   with the same code at once, and gives the use back if the account fails
+ * - generateActivationCode() suggests a random code for the admin screen
+ */
+
+import * as Crypto from 'expo-crypto';
+import { activationCodeService } from '@/services/database';
+import { withActivationCodeGrant } from '@/services/authorization';
+import { checkActivationCode, normalizeActivationCode } from '@/utils/giftCodes';
+import type { ActivationCode, UserRole } from '@/types';
+
+// No 0/O or 1/I/L, so codes can be read out loud
+const CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const GENERATED_CODE_LENGTH = 8;
+
+/**
+ * Find an activation code and check it can be redeemed for this role
+ * @throws Error with a user-facing message when the code can't be used
+ */
+export async function validateActivationCode(code: string, role: UserRole): Promise<ActivationCode> {
+  const normalizedCode = normalizeActivationCode(code);
+  const record = normalizedCode ? await activationCodeService.getByCode(normalizedCode) : null;
+
+  const info = checkActivationCode(record, role);
+  if (!record || !info.valid) {
+    throw new Error(`${info.description || 'Invalid activation code'}. Please enter a valid activation code to sign up.`);
+  }
+  return record;
+}
+
+/**
+ * Count one redemption of a validated code and create the account it's for
+ * The redemption is counted first so a used-up code can't slip through, and
+ * given back if `createAccount` throws.
+ * @throws Error when the code ran out of redemptions in the meantime, or whatever `createAccount` throws
+ */
+export async function redeemActivationCodeForSignup<T>(
+  record: ActivationCode,
+  createAccount: (redeemed: ActivationCode) => Promise<T>
+): Promise<T> {
+  return withActivationCodeGrant(record.id, async () => {
+    const redeemed = await activationCodeService.redeem(record.id);
+    if (!redeemed) {
+      throw new Error('This activation code has already been used the maximum number of times.');
+    }
+    console.log(`✅ Activation code redeemed (${redeemed.redemptionCount}/${redeemed.maxRedemptions ?? '∞'})`);
+
+    try {
+      return await createAccount(redeemed);
+    } catch (error) {
+      try {
+        const released = await activationCodeService.release(record.id);
+        console.log(released ? '↩️ Activation code redemption given back' : '⚠️ Could not give back the activation code redemption');
+      } catch (releaseError) {
+        console.error('Error giving back activation code redemption:', releaseError);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * A random code for admins to hand out
+ */
+export function generateActivationCode(): string {
+  return Array.from(Crypto.getRandomBytes(GENERATED_CODE_LENGTH))
+    .map((byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+    .join('');
+}
@@ -0,0 +1,922 @@
+/**
+ * Authorization Layer
+ *
+ * The Supabase backend talks to the database with the service-role key, which
+ * bypasses row level security. Every call made through services/database.ts
+ * is therefore checked here first, against the signed-in user:
+ *
+ * - Admins may call anything
+ * - Other users may only read and change their own profile, their own pets and
+ *   the records belonging to those pets
+ * - Household members share the household's pets: owners manage them,
+ *   caregivers add and change their records, read-only members only look
+ * - Vets may read the health records of pets their owners shared with them,
+ *   and add vet visits and medical records to those pets
+ * - Dog walkers may see the pets assigned to them and log walks for them
+ * - The vet and contact directories are shared by every signed-in user
+ * - Whoever opens a valid share link may read the sections it covers for
+ *   that one pet, with or without an account
+ * - Signed-out callers may only use what login, signup, session restore and
+ *   password reset need
+ *
+ * Denied calls throw an AuthorizationError, which mutations report with the
+ * 'forbidden' code.
+ */
+
+import type { DataBackend, RepositoryName } from '@/services/backends/types';
+import type { HouseholdRole, UserProfile, UserRole } from '@/types';
+
+export type AuthorizationReason = 'unauthenticated' | 'forbidden';
+
+export class AuthorizationError extends Error {
+  /** The denied call, e.g. "medications.update" */
+  readonly operation: string;
+  readonly reason: AuthorizationReason;
+
+  constructor(message: string, operation: string, reason: AuthorizationReason = 'forbidden') {
+    super(message);
+    this.name = 'AuthorizationError';
+    this.operation = operation;
+    this.reason = reason;
+  }
+}
+
+/**
+ * The user the service layer is acting for
+ */
+export interface Principal {
+  userId: string;
+  role: UserRole;
+}
+
+let currentPrincipal: Principal | null = null;
+
+/**
+ * Set the signed-in user; pass null on sign out
+ */
+export function setCurrentPrincipal(principal: Principal | null): void {
+  currentPrincipal = principal;
+}
+
+export function getCurrentPrincipal(): Principal | null {
+  return currentPrincipal;
+}
+
+export function principalFor(profile: Pick<UserProfile, 'id' | 'role'>): Principal {
+  return { userId: profile.id, role: profile.role };
+}
+
+// Users who have just proven who they are with a password reset code
+const passwordResetGrants = new Set<string>();
+
+/**
+ * Let a signed-out user change their own password hash, login lockout and sessions while `task` runs
+ * Call only after the user's reset code has been verified.
+ */
+export async function withPasswordResetGrant<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  passwordResetGrants.add(userId);
+  try {
+    return await task();
+  } finally {
+    passwordResetGrants.delete(userId);
+  }
+}
+
+// Users the forgot-password flow is sending or checking a reset code for
+const passwordResetRequestGrants = new Set<string>();
+
+/**
+ * Let a signed-out user's forgot-password flow issue and check their reset codes while `task` runs
+ * Call only from services/passwordReset.ts, for the account named by the email that was entered.
+ */
+export async function withPasswordResetRequestGrant<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  passwordResetRequestGrants.add(userId);
+  try {
+    return await task();
+  } finally {
+    passwordResetRequestGrants.delete(userId);
+  }
+}
+
+// Activation codes a signup is redeeming right now
+const activationCodeGrants = new Set<string>();
+
+/**
+ * Let a signup redeem this activation code, and give the redemption back, while `task` runs
+ * Call only from services/activationCodes.ts around creating the account.
+ */
+export async function withActivationCodeGrant<T>(codeId: string, task: () => Promise<T>): Promise<T> {
+  activationCodeGrants.add(codeId);
+  try {
+    return await task();
+  } finally {
+    activationCodeGrants.delete(codeId);
+  }
+}
+
+// Users who have just entered the right password and still owe a second factor
+const twoFactorGrants = new Set<string>();
+
+/**
+ * Let a user who isn't signed in yet check and use their own second factor while `task` runs
+ * Call only after the user's password has been verified.
+ */
+export async function withTwoFactorGrant<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  twoFactorGrants.add(userId);
+  try {
+    return await task();
+  } finally {
+    twoFactorGrants.delete(userId);
+  }
+}
+
+/**
+ * Read access to one pet through a share link
+ * Only calls made through services bound to the grant carry it (see petShareServices in
+ * services/database.ts), so other callers get nothing from a link being open.
+ */
+export interface PetShareGrant {
+  readonly canineId: string;
+  readonly repositories: ReadonlySet<RepositoryName>;
+}
+
+// Grants whose task is still running
+const activePetShareGrants = new Set<PetShareGrant>();
+
+/**
+ * Let `task` read these repositories for one pet, through services bound to the grant it receives
+ * Call only after the link's code, expiry and revocation have been checked.
+ */
+export async function withPetShareGrant<T>(
+  canineId: string,
+  repositories: RepositoryName[],
+  task: (grant: PetShareGrant) => Promise<T>
+): Promise<T> {
+  const grant: PetShareGrant = { canineId, repositories: new Set(repositories) };
+  activePetShareGrants.add(grant);
+  try {
+    return await task(grant);
+  } finally {
+    activePetShareGrants.delete(grant);
+  }
+}
+
+interface PolicyContext {
+  principal: Principal | null;
+  operation: string;
+  backend: DataBackend;
+  petShareGrant?: PetShareGrant;
+}
+
+function hasPetShareGrant(context: PolicyContext, canineId: string | undefined, name: RepositoryName): boolean {
+  const grant = context.petShareGrant;
+  return !!grant && activePetShareGrants.has(grant) && grant.canineId === canineId && grant.repositories.has(name);
+}
+
+/**
+ * Checks one repository method
+ * Receives the call's arguments and `invoke`, which runs the call; a policy may
+ * pass narrowed arguments to `invoke` or inspect its result before returning it.
+ */
+type Policy = (context: PolicyContext, args: any[], invoke: (args: any[]) => Promise<any>) => Promise<any>;
+
+function deny(context: PolicyContext, message: string): never {
+  throw new AuthorizationError(message, context.operation);
+}
+
+function requirePrincipal(context: PolicyContext): Principal {
+  if (!context.principal) {
+    throw new AuthorizationError('You must be logged in to do that.', context.operation, 'unauthenticated');
+  }
+  return context.principal;
+}
+
+/**
+ * What can be done with a pet: 'read' its records, 'write' records,
+ * or 'manage' the pet itself and who else can see it
+ */
+type CanineAction = 'read' | 'write' | 'manage';
+
+const HOUSEHOLD_PERMISSIONS: Record<HouseholdRole, CanineAction[]> = {
+  owner: ['read', 'write', 'manage'],
+  caregiver: ['read', 'write'],
+  'read-only': ['read'],
+};
+
+/**
+ * The principal's role in each of their households, by household ID
+ */
+async function householdRoles(context: PolicyContext): Promise<Map<string, HouseholdRole>> {
+  const principal = requirePrincipal(context);
+  const memberships = await context.backend.householdMembers.getForUser(principal.userId);
+  return new Map(memberships.map((member) => [member.householdId, member.role]));
+}
+
+/**
+ * The principal's role for a pet: owner of the pets they created, otherwise their role in the pet's household
+ */
+function canineRole(
+  principal: Principal,
+  canine: { userId: string; householdId?: string },
+  roles: Map<string, HouseholdRole>
+): HouseholdRole | null {
+  if (canine.userId === principal.userId) return 'owner';
+  return (canine.householdId && roles.get(canine.householdId)) || null;
+}
+
+async function assertCanineAccess(context: PolicyContext, canineId: string | undefined, action: CanineAction) {
+  const principal = requirePrincipal(context);
+  const canine = canineId ? await context.backend.canineProfiles.getById(canineId) : null;
+  const role = canine ? canineRole(principal, canine, await householdRoles(context)) : null;
+  if (!role) {
+    deny(context, 'You can only access your own pets and their records.');
+  }
+  if (!HOUSEHOLD_PERMISSIONS[role].includes(action)) {
+    deny(context, "Your household role doesn't allow that.");
+  }
+}
+
+/**
+ * Require a role in a household, optionally one that allows `action`
+ */
+async function assertHouseholdAccess(context: PolicyContext, householdId: string | undefined, action?: CanineAction) {
+  const role = householdId ? (await householdRoles(context)).get(householdId) : undefined;
+  if (!role) {
+    deny(context, 'You are not a member of this household.');
+  }
+  if (action && !HOUSEHOLD_PERMISSIONS[role].includes(action)) {
+    deny(context, 'Only household owners can do that.');
+  }
+}
+
+/**
+ * Pets shared with a vet principal, or assigned to a walker principal
+ */
+async function sharedCanineIds(context: PolicyContext): Promise<Set<string>> {
+  const principal = requirePrincipal(context);
+  if (principal.role === 'Vet') {
+    const grants = await context.backend.vetAccessGrants.getActiveForVet(principal.userId);
+    return new Set(grants.map((grant) => grant.canineId));
+  }
+  if (principal.role === 'Dog Walker') {
+    const assignments = await context.backend.walkerAssignments.getActiveForWalker(principal.userId);
+    return new Set(assignments.map((assignment) => assignment.canineId));
+  }
+  return new Set();
+}
+
+async function assertCanineOrSharedAccess(
+  context: PolicyContext,
+  canineId: string | undefined,
+  action: CanineAction
+): Promise<void> {
+  if (canineId && (await sharedCanineIds(context)).has(canineId)) return;
+  await assertCanineAccess(context, canineId, action);
+}
+
+function assertSelf(context: PolicyContext, userId: string | undefined): void {
+  if (requirePrincipal(context).userId !== userId) {
+    deny(context, 'You can only access your own account.');
+  }
+}
+
+function assertSelfOrResetGrant(context: PolicyContext, userId: string | undefined): void {
+  if (userId && passwordResetGrants.has(userId)) return;
+  assertSelf(context, userId);
+}
+
+function assertResetRequestGrant(context: PolicyContext, userId: string | undefined): void {
+  if (userId && passwordResetRequestGrants.has(userId)) return;
+  requirePrincipal(context);
+  deny(context, 'Reset codes can only be used through the forgot password form.');
+}
+
+function assertActivationCodeGrant(context: PolicyContext, codeId: string | undefined): void {
+  if (codeId && activationCodeGrants.has(codeId)) return;
+  requirePrincipal(context);
+  deny(context, 'Activation codes can only be redeemed by signing up.');
+}
+
+function assertSelfOrTwoFactorGrant(context: PolicyContext, userId: string | undefined): void {
+  if (userId && twoFactorGrants.has(userId)) return;
+  assertSelf(context, userId);
+}
+
+/**
+ * Credentials are looked up by user, so check the id against the caller's own
+ */
+async function assertOwnTwoFactorCredential(context: PolicyContext, id: string, allowGrant: boolean): Promise<void> {
+  const userIds = allowGrant ? [...twoFactorGrants] : [];
+  if (context.principal) userIds.push(context.principal.userId);
+  for (const userId of userIds) {
+    const credential = await context.backend.twoFactorCredentials.getForUser(userId);
+    if (credential?.id === id) return;
+  }
+  requirePrincipal(context);
+  deny(context, 'You can only change your own two-factor settings.');
+}
+
+const anyone: Policy = (_context, args, invoke) => invoke(args);
+
+const signedIn: Policy = (context, args, invoke) => {
+  requirePrincipal(context);
+  return invoke(args);
+};
+
+const adminOnly: Policy = (context) => {
+  requirePrincipal(context);
+  return deny(context, 'Only admins can do that.');
+};
+
+/**
+ * Restrict a per-pet query to the principal's pets, including their household's
+ * The backend combines ownerId with any canine filter, so the query can't reach other owners' pets.
+ */
+function ownedScope(context: PolicyContext, scope: unknown) {
+  const principal = requirePrincipal(context);
+  if (!scope) {
+    deny(context, 'Only admins can list records for every pet.');
+  }
+  if (typeof scope === 'string') {
+    return { canineIds: [scope], ownerId: principal.userId };
+  }
+
+  const { canineIds, ownerId } = scope as { canineIds?: string[]; ownerId?: string };
+  if (ownerId && ownerId !== principal.userId) {
+    deny(context, 'You can only access your own pets and their records.');
+  }
+  return { canineIds, ownerId: principal.userId };
+}
+
+/**
+ * A query naming only pets shared with the principal is limited to exactly those pets;
+ * any other query is restricted to the principal's own pets
+ */
+async function readableScope(context: PolicyContext, scope: unknown) {
+  const { canineIds, ownerId } = (typeof scope === 'string' ? { canineIds: [scope] } : scope ?? {}) as {
+    canineIds?: string[];
+    ownerId?: string;
+  };
+  if (!ownerId && canineIds && canineIds.length > 0) {
+    const shared = await sharedCanineIds(context);
+    if (canineIds.every((canineId) => shared.has(canineId))) {
+      return { canineIds };
+    }
+  }
+  return ownedScope(context, scope);
+}
+
+/**
+ * A query naming only pets being viewed through a share link that covers this repository
+ * Returns null for any other query, which then goes through the usual checks.
+ */
+function petShareScope(context: PolicyContext, name: RepositoryName, scope: unknown) {
+  const { canineIds, ownerId } = (typeof scope === 'string' ? { canineIds: [scope] } : scope ?? {}) as {
+    canineIds?: string[];
+    ownerId?: string;
+  };
+  if (ownerId || !canineIds?.length || !canineIds.every((canineId) => hasPetShareGrant(context, canineId, name))) {
+    return null;
+  }
+  return { canineIds };
+}
+
+/**
+ * Lookups by pet ID, limited to the principal's pets including their household's
+ */
+const ownCaninesOnly: Policy = async (context, args, invoke) => {
+  const principal = requirePrincipal(context);
+  const owned = await context.backend.canineProfiles.getAll(principal.userId);
+  const ownedIds = new Set(owned.map((canine) => canine.id));
+  if (!(args[0] ?? []).every((canineId: string) => ownedIds.has(canineId))) {
+    deny(context, 'You can only access your own pets and their records.');
+  }
+  return invoke(args);
+};
+
+/**
+ * What a role may do with the records of pets shared with or assigned to it
+ * 'read' lets them look records up; 'contribute' also lets them add new ones.
+ */
+type SharedAccess = 'read' | 'contribute';
+
+/**
+ * Policies for repositories whose records belong to a pet
+ */
+function canineScopedPolicies(
+  name: RepositoryName,
+  sharedAccess: Partial<Record<UserRole, SharedAccess>> = {}
+): Record<string, Policy> {
+  const findExisting = (context: PolicyContext, id: string) =>
+    (context.backend[name] as { getById(id: string): Promise<{ canineId: string } | null> }).getById(id);
+  const accessFor = (context: PolicyContext) => sharedAccess[requirePrincipal(context).role];
+  const scopeFor = (context: PolicyContext, scope: unknown) =>
+    accessFor(context) ? readableScope(context, scope) : ownedScope(context, scope);
+  const assertCanRead = (context: PolicyContext, canineId: string | undefined) =>
+    accessFor(context)
+      ? assertCanineOrSharedAccess(context, canineId, 'read')
+      : assertCanineAccess(context, canineId, 'read');
+  const assertCanCreate = (context: PolicyContext, canineId: string | undefined) =>
+    accessFor(context) === 'contribute'
+      ? assertCanineOrSharedAccess(context, canineId, 'write')
+      : assertCanineAccess(context, canineId, 'write');
+
+  return {
+    getAll: async (context, [scope], invoke) =>
+      invoke([petShareScope(context, name, scope) ?? (await scopeFor(context, scope))]),
+    getPage: async (context, [scope, page], invoke) =>
+      invoke([petShareScope(context, name, scope) ?? (await scopeFor(context, scope)), page]),
+    async getById(context, args, invoke) {
+      requirePrincipal(context);
+      const record = await invoke(args);
+      if (record) {
+        await assertCanRead(context, record.canineId);
+      }
+      return record;
+    },
+    async create(context, args, invoke) {
+      await assertCanCreate(context, args[0]?.canineId);
+      return invoke(args);
+    },
+    async update(context, args, invoke) {
+      const [id, updates] = args;
+      const existing = await findExisting(context, id);
+      if (existing) {
+        await assertCanineAccess(context, existing.canineId, 'write');
+      }
+      // Moving a record to another pet needs access to that pet too
+      if (updates?.canineId && updates.canineId !== existing?.canineId) {
+        await assertCanineAccess(context, updates.canineId, 'write');
+      }
+      return invoke(args);
+    },
+    async delete(context, args, invoke) {
+      const existing = await findExisting(context, args[0]);
+      if (existing) {
+        await assertCanineAccess(context, existing.canineId, 'write');
+      }
+      return invoke(args);
+    },
+  };
+}
+
+/**
+ * Walkers log their own walks for the pets assigned to them; owners manage every walk of their pets
+ */
+function walkLogPolicies(): Record<string, Policy> {
+  const ownerPolicies = canineScopedPolicies('walkLogs', { 'Dog Walker': 'contribute' });
+
+  return {
+    ...ownerPolicies,
+    async create(context, args, invoke) {
+      const principal = requirePrincipal(context);
+      if (principal.role === 'Dog Walker' && args[0]?.walkerUserId !== principal.userId) {
+        deny(context, 'Walkers can only log their own walks.');
+      }
+      return ownerPolicies.create(context, args, invoke);
+    },
+    async update(context, args, invoke) {
+      const [id, updates] = args;
+      const principal = requirePrincipal(context);
+      const existing = await context.backend.walkLogs.getById(id);
+      const isOwnWalk =
+        !!existing && existing.walkerUserId === principal.userId && (await sharedCanineIds(context)).has(existing.canineId);
+      if (!isOwnWalk) {
+        return ownerPolicies.update(context, args, invoke);
+      }
+      if (
+        (updates?.canineId !== undefined && updates.canineId !== existing.canineId) ||
+        (updates?.walkerUserId !== undefined && updates.walkerUserId !== principal.userId)
+      ) {
+        deny(context, 'Walkers can only log their own walks.');
+      }
+      return invoke(args);
+    },
+  };
+}
+
+/**
+ * Policies for grants that give another user access to a pet
+ * Owners create, list and revoke them for their own pets; the grantee can see the ones they hold.
+ */
+function petAccessPolicies(
+  name: 'vetAccessGrants' | 'walkerAssignments',
+  options: { role: UserRole; granteeField: string; grantorField: string; listActiveMethod: string }
+): Record<string, Policy> {
+  const { role, granteeField, grantorField, listActiveMethod } = options;
+  const findExisting = (context: PolicyContext, id: string) =>
+    (context.backend[name] as { getById(id: string): Promise<Record<string, any> | null> }).getById(id);
+
+  return {
+    async getById(context, args, invoke) {
+      const principal = requirePrincipal(context);
+      const grant = await invoke(args);
+      if (grant && grant[granteeField] !== principal.userId) {
+        await assertCanineAccess(context, grant.canineId, 'read');
+      }
+      return grant;
+    },
+    async create(context, args, invoke) {
+      const grant = args[0];
+      await assertCanineAccess(context, grant?.canineId, 'manage');
+      assertSelf(context, grant?.[grantorField]);
+      const grantee = grant?.[granteeField] ? await context.backend.userProfiles.getById(grant[granteeField]) : null;
+      if (grantee?.role !== role) {
+        deny(context, `Pets can only be shared with ${role.toLowerCase()} accounts.`);
+      }
+      return invoke(args);
+    },
+    getForCanines: ownCaninesOnly,
+    [listActiveMethod](context: PolicyContext, args: any[], invoke: (args: any[]) => Promise<any>) {
+      assertSelf(context, args[0]);
+      return invoke(args);
+    },
+    async update(context, args, invoke) {
+      const [id, updates] = args;
+      const existing = await findExisting(context, id);
+      if (existing) {
+        await assertCanineAccess(context, existing.canineId, 'manage');
+      }
+      // A grant can be revoked but not pointed at another pet or user
+      if (
+        (updates?.canineId !== undefined && updates.canineId !== existing?.canineId) ||
+        (updates?.[granteeField] !== undefined && updates[granteeField] !== existing?.[granteeField])
+      ) {
+        deny(context, 'Share the pet again instead of changing who the grant is for.');
+      }
+      return invoke(args);
+    },
+  };
+}
+
+const directoryPolicies: Record<string, Policy> = {
+  getAll: signedIn,
+  getById: signedIn,
+  create: signedIn,
+  update: signedIn,
+  delete: signedIn,
+};
+
+const POLICIES: Record<RepositoryName, Record<string, Policy>> = {
+  userProfiles: {
+    getAll: adminOnly,
+    // Login and signup look accounts up before anyone is signed in
+    getByEmail: anyone,
+    getPasswordHashByEmail: anyone,
+    getById(context, args, invoke) {
+      assertSelf(context, args[0]);
+      return invoke(args);
+    },
+    async create(context, args, invoke) {
+      const profile = args[0];
+      // Self-service signup only creates pet owners; other roles are created by admins
+      if (profile?.role !== 'Pet Owner') {
+        deny(context, 'Only admins can create accounts with this role.');
+      }
+      // Paid tiers come from the activation code that was redeemed
+      if ((profile?.subscriptionTier ?? 'Free') !== 'Free') {
+        const code = profile.activationCodeId
+          ? await context.backend.activationCodes.getById(profile.activationCodeId)
+          : null;
+        if (code?.tier !== profile.subscriptionTier) {
+          deny(context, 'Only admins can create accounts with this subscription tier.');
+        }
+      }
+      return invoke(args);
+    },
+    async update(context, args, invoke) {
+      const [id, updates] = args;
+      assertSelf(context, id);
+      if (updates?.role !== undefined && updates.role !== context.principal?.role) {
+        deny(context, 'Only admins can change roles.');
+      }
+      if (updates?.subscriptionTier !== undefined) {
+        const current = await context.backend.userProfiles.getById(id);
+        if (updates.subscriptionTier !== (current?.subscriptionTier ?? 'Free')) {
+          deny(context, 'Only admins can change subscription tiers.');
+        }
+      }
+      return invoke(args);
+    },
+    updatePasswordHash(context, args, invoke) {
+      assertSelfOrResetGrant(context, args[0]);
+      return invoke(args);
+    },
+    updateLoginState(context, args, invoke) {
+      assertSelfOrResetGrant(context, args[0]);
+      return invoke(args);
+    },
+    // Failed logins are recorded before anyone is signed in; the backend only ever adds one
+    recordLoginFailure: anyone,
+    delete: adminOnly,
+  },
+  canineProfiles: {
+    getAll(context, args, invoke) {
+      assertSelf(context, args[0]);
+      return invoke(args);
+    },
+    async getById(context, args, invoke) {
+      if (hasPetShareGrant(context, args[0], 'canineProfiles')) {
+        return invoke(args);
+      }
+      const principal = requirePrincipal(context);
+      const canine = await invoke(args);
+      if (
+        canine &&
+        !canineRole(principal, canine, await householdRoles(context)) &&
+        !(await sharedCanineIds(context)).has(canine.id)
+      ) {
+        deny(context, 'You can only access your own pets and their records.');
+      }
+      return canine;
+    },
+    async getByIds(context, args, invoke) {
+      const principal = requirePrincipal(context);
+      const canines: { id: string; userId: string; householdId?: string }[] = await invoke(args);
+      const [roles, shared] = await Promise.all([householdRoles(context), sharedCanineIds(context)]);
+      if (canines.some((canine) => !canineRole(principal, canine, roles) && !shared.has(canine.id))) {
+        deny(context, 'You can only access your own pets and their records.');
+      }
+      return canines;
+    },
+    async create(context, args, invoke) {
+      assertSelf(context, args[0]?.userId);
+      if (args[0]?.householdId) {
+        await assertHouseholdAccess(context, args[0].householdId, 'manage');
+      }
+      return invoke(args);
+    },
+    async update(context, args, invoke) {
+      const [id, updates] = args;
+      await assertCanineAccess(context, id, 'manage');
+      const existing = await context.backend.canineProfiles.getById(id);
+      if (updates?.userId !== undefined && updates.userId !== existing?.userId) {
+        deny(context, "A pet can't be moved to another account.");
+      }
+      // Adding a pet to a household takes an owner of that household
+      if (updates?.householdId && updates.householdId !== existing?.householdId) {
+        await assertHouseholdAccess(context, updates.householdId, 'manage');
+      }
+      return invoke(args);
+    },
+    async delete(context, args, invoke) {
+      await assertCanineAccess(context, args[0], 'manage');
+      return invoke(args);
+    },
+  },
+  vetProfiles: directoryPolicies,
+  contacts: directoryPolicies,
+  nutritionEntries: canineScopedPolicies('nutritionEntries'),
+  trainingLogs: canineScopedPolicies('trainingLogs'),
+  appointments: canineScopedPolicies('appointments'),
+  mediaItems: canineScopedPolicies('mediaItems'),
+  medicalRecords: canineScopedPolicies('medicalRecords', { Vet: 'contribute' }),
+  labResults: canineScopedPolicies('labResults', { Vet: 'contribute' }),
+  medications: canineScopedPolicies('medications', { Vet: 'read' }),
+  medicationDoseLogs: canineScopedPolicies('medicationDoseLogs', { Vet: 'read' }),
+  weightMeasurements: canineScopedPolicies('weightMeasurements', { Vet: 'read' }),
+  vetVisits: canineScopedPolicies('vetVisits', { Vet: 'contribute' }),
+  immunizations: canineScopedPolicies('immunizations', { Vet: 'read' }),
+  canineAllergies: canineScopedPolicies('canineAllergies', { Vet: 'read' }),
+  walkLogs: walkLogPolicies(),
+  sessions: {
+    // The token hash is itself the credential; session restore runs before sign-in
+    getByTokenHash: anyone,
+    create(context, args, invoke) {
+      assertSelf(context, args[0]?.userId);
+      return invoke(args);
+    },
+    getActiveByUser(context, args, invoke) {
+      assertSelf(context, args[0]);
+      return invoke(args);
+    },
+    async update(context, args, invoke) {
+      const principal = requirePrincipal(context);
+      const active = await context.backend.sessions.getActiveByUser(principal.userId);
+      if (!active.some((session) => session.id === args[0])) {
+        deny(context, 'You can only change your own sessions.');
+      }
+      return invoke(args);
+    },
+    revokeAllForUser(context, args, invoke) {
+      assertSelfOrResetGrant(context, args[0]);
+      return invoke(args);
+    },
+  },
+  // Used by the forgot-password flow, before anyone is signed in, for the account being reset
+  passwordResets: {
+    create(context, args, invoke) {
+      assertResetRequestGrant(context, args[0]?.userId);
+      return invoke(args);
+    },
+    getRecentForUser(context, args, invoke) {
+      assertResetRequestGrant(context, args[0]);
+      return invoke(args);
+    },
+    checkLatestCode(context, args, invoke) {
+      assertResetRequestGrant(context, args[0]);
+      return invoke(args);
+    },
+  },
+  // The login screen reads and updates a credential between the password and the code
+  twoFactorCredentials: {
+    getForUser(context, args, invoke) {
+      assertSelfOrTwoFactorGrant(context, args[0]);
+      return invoke(args);
+    },
+    create(context, args, invoke) {
+      assertSelf(context, args[0]?.userId);
+      return invoke(args);
+    },
+    async update(context, args, invoke) {
+      const [id, updates] = args;
+      await assertOwnTwoFactorCredential(context, id, true);
+      if (updates?.userId !== undefined) {
+        deny(context, 'Two-factor settings can\'t be moved to another account.');
+      }
+      return invoke(args);
+    },
+    async delete(context, args, invoke) {
+      await assertOwnTwoFactorCredential(context, args[0], false);
+      return invoke(args);
+    },
+  },
+  // Signup checks and redeems a code before the account exists; admins manage the rest
+  activationCodes: {
+    getByCode: anyone,
+    redeem(context, args, invoke) {
+      assertActivationCodeGrant(context, args[0]);
+      return invoke(args);
+    },
+    release(context, args, invoke) {
+      assertActivationCodeGrant(context, args[0]);
+      return invoke(args);
+    },
+  },
+  // Owners share their pets with vets and assign walkers; grantees see what they hold
+  vetAccessGrants: petAccessPolicies('vetAccessGrants', {
+    role: 'Vet',
+    granteeField: 'vetUserId',
+    grantorField: 'grantedBy',
+    listActiveMethod: 'getActiveForVet',
+  }),
+  walkerAssignments: petAccessPolicies('walkerAssignments', {
+    role: 'Dog Walker',
+    granteeField: 'walkerUserId',
+    grantorField: 'assignedBy',
+    listActiveMethod: 'getActiveForWalker',
+  }),
+  households: {
+    async getById(context, args, invoke) {
+      await assertHouseholdAccess(context, args[0]);
+      return invoke(args);
+    },
+    async getByIds(context, args, invoke) {
+      const roles = await householdRoles(context);
+      if (!(args[0] ?? []).every((id: string) => roles.has(id))) {
+        deny(context, 'You are not a member of this household.');
+      }
+      return invoke(args);
+    },
+    create(context, args, invoke) {
+      assertSelf(context, args[0]?.createdBy);
+      return invoke(args);
+    },
+    async update(context, args, invoke) {
+      await assertHouseholdAccess(context, args[0], 'manage');
+      return invoke(args);
+    },
+    async delete(context, args, invoke) {
+      await assertHouseholdAccess(context, args[0], 'manage');
+      return invoke(args);
+    },
+  },
+  householdMembers: {
+    async getById(context, args, invoke) {
+      const principal = requirePrincipal(context);
+      const member = await invoke(args);
+      if (member && member.userId !== principal.userId) {
+        await assertHouseholdAccess(context, member.householdId);
+      }
+      return member;
+    },
+    getForUser(context, args, invoke) {
+      assertSelf(context, args[0]);
+      return invoke(args);
+    },
+    async getForHouseholds(context, args, invoke) {
+      const roles = await householdRoles(context);
+      if (!(args[0] ?? []).every((id: string) => roles.has(id))) {
+        deny(context, 'You are not a member of this household.');
+      }
+      return invoke(args);
+    },
+    async create(context, args, invoke) {
+      const member = args[0];
+      const principal = requirePrincipal(context);
+      const household = member?.householdId ? await context.backend.households.getById(member.householdId) : null;
+      if (!household) {
+        deny(context, 'This household no longer exists.');
+      }
+      // Whoever creates a household joins it as its first owner
+      const isFounder =
+        household.createdBy === principal.userId &&
+        member.userId === principal.userId &&
+        member.role === 'owner' &&
+        (await context.backend.householdMembers.getForHouseholds([household.id])).length === 0;
+      if (!isFounder) {
+        await assertHouseholdAccess(context, household.id, 'manage');
+      }
+      return invoke(args);
+    },
+    async update(context, args, invoke) {
+      const [id, updates] = args;
+      const existing = await context.backend.householdMembers.getById(id);
+      if (existing) {
+        await assertHouseholdAccess(context, existing.householdId, 'manage');
+      }
+      if (
+        (updates?.householdId !== undefined && updates.householdId !== existing?.householdId) ||
+        (updates?.userId !== undefined && updates.userId !== existing?.userId)
+      ) {
+        deny(context, 'Invite the person again instead of changing who the membership is for.');
+      }
+      return invoke(args);
+    },
+    async delete(context, args, invoke) {
+      const principal = requirePrincipal(context);
+      const existing = await context.backend.householdMembers.getById(args[0]);
+      // Members may always leave; removing someone else takes an owner
+      if (existing && existing.userId !== principal.userId) {
+        await assertHouseholdAccess(context, existing.householdId, 'manage');
+      }
+      return invoke(args);
+    },
+  },
+  // Links are opened by people without an account; knowing the code is what lets them in
+  petShareLinks: {
+    getByCodeHash: anyone,
+    async getById(context, args, invoke) {
+      requirePrincipal(context);
+      const link = await invoke(args);
+      if (link) {
+        await assertCanineAccess(context, link.canineId, 'read');
+      }
+      return link;
+    },
+    async create(context, args, invoke) {
+      await assertCanineAccess(context, args[0]?.canineId, 'manage');
+      assertSelf(context, args[0]?.createdBy);
+      return invoke(args);
+    },
+    getForCanines: ownCaninesOnly,
+    async update(context, args, invoke) {
+      const [id, updates] = args;
+      const existing = await context.backend.petShareLinks.getById(id);
+      if (existing) {
+        await assertCanineAccess(context, existing.canineId, 'manage');
+      }
+      if (Object.keys(updates ?? {}).some((field) => field !== 'label' && field !== 'revokedAt')) {
+        deny(context, 'Create a new link instead of changing what a link shares.');
+      }
+      return invoke(args);
+    },
+  },
+  petShareAccesses: {
+    create(context, args, invoke) {
+      if (!hasPetShareGrant(context, args[0]?.canineId, 'petShareAccesses')) {
+        deny(context, 'Accesses are recorded when a share link is opened.');
+      }
+      return invoke(args);
+    },
+    getForCanines: ownCaninesOnly,
+  },
+  // Login reads the settings before anyone is signed in
+  appSettings: {
+    get: anyone,
+    update: adminOnly,
+  },
+};
+
+/**
+ * Run a repository call through its policy
+ * Admins skip the checks; methods without a policy are admin-only.
+ * @param petShareGrant - Set for calls made through services bound to a share link's grant
+ */
+export function authorizeCall(
+  backend: DataBackend,
+  name: RepositoryName,
+  method: string,
+  args: any[],
+  invoke: (args: any[]) => Promise<any>,
+  petShareGrant?: PetShareGrant
+): Promise<any> {
+  const principal = currentPrincipal;
+  if (principal?.role === 'Admin') {
+    return invoke(args);
+  }
+
+  const context: PolicyContext = { principal, operation: `${name}.${method}`, backend, petShareGrant };
+  const policy = POLICIES[name][method] ?? adminOnly;
+  return Promise.resolve().then(() => policy(context, args, invoke));
+}
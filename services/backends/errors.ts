@@ -0,0 +1,59 @@
+/**
+ * Backend Errors
+ *
+ * Backends report most failures by logging them and returning null/false.
+ * Failures that are likely to go away on their own (dropped connections,
+ * timeouts, overloaded database) are thrown as TransientBackendError instead,
+ * so callers can retry them. Pages of a list always throw, since an empty page
+ * would end the list early.
+ */
+
+// Postgres error codes worth retrying: serialization failure, deadlock,
+// statement timeout, connection failures and too many connections
+const TRANSIENT_PG_CODES = new Set(['40001', '40P01', '57014', '08000', '08003', '08006', '53300']);
+
+const TRANSIENT_MESSAGE_PATTERN = /network|fetch|timed? ?out|ECONNRESET|ECONNREFUSED|socket|503|504/i;
+
+export class TransientBackendError extends Error {
+  readonly cause: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'TransientBackendError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Check whether a failure is worth retrying
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!error) return false;
+  if (error instanceof TransientBackendError) return true;
+
+  const { code, status, message } = error as { code?: string; status?: number; message?: string };
+  if (code && TRANSIENT_PG_CODES.has(code)) return true;
+  if (typeof status === 'number' && (status === 429 || status >= 500)) return true;
+  return typeof message === 'string' && TRANSIENT_MESSAGE_PATTERN.test(message);
+}
+
+/**
+ * Rethrow a backend error if it is transient
+ * Call after logging; permanent errors fall through to the caller's null/false result.
+ */
+export function throwIfTransient(error: unknown, context: string): void {
+  if (isTransientError(error)) {
+    const message = (error as { message?: string })?.message || 'Temporary failure';
+    throw new TransientBackendError(`${context}: ${message}`, error);
+  }
+}
+
+/**
+ * Rethrow a backend error, as a TransientBackendError when it is transient
+ * For reads where an empty result would be mistaken for real data, like a page of a list.
+ */
+export function throwBackendError(error: unknown, context: string): never {
+  throwIfTransient(error, context);
+  const message = (error as { message?: string })?.message || 'Unknown error';
+  throw new Error(`${context}: ${message}`);
+}
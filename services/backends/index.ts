@@ -0,0 +1,64 @@
+/**
+ * Data Backend Selection
+ *
+ * Chooses which backend the service layer talks to:
+ * - supabase: the production database (default when Supabase is configured)
+ * - memory:   in-memory store seeded with test data (default otherwise, used for demo mode)
+ * - local:    AsyncStorage-backed store that survives restarts without a database
+ *
+ * The default can be overridden with EXPO_PUBLIC_DATA_BACKEND or
+ * `expo.extra.dataBackend` in app.json, and tests can swap backends at runtime
+ * with setDataBackend().
+ */
+
+import Constants from 'expo-constants';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { supabaseBackend } from '@/services/backends/supabase';
+import { createMemoryBackend } from '@/services/backends/memory';
+import { createLocalBackend } from '@/services/backends/local';
+import type { CanineScope, DataBackend, DataBackendKind, Page, PageRequest } from '@/services/backends/types';
+
+export { supabaseBackend, createMemoryBackend, createLocalBackend };
+export type { CanineScope, DataBackend, DataBackendKind, Page, PageRequest };
+
+const configuredBackend: string =
+  Constants.expoConfig?.extra?.dataBackend ||
+  process.env.EXPO_PUBLIC_DATA_BACKEND ||
+  '';
+
+function createDefaultBackend(): DataBackend {
+  switch (configuredBackend) {
+    case 'supabase':
+      if (!isSupabaseConfigured) {
+        console.warn('⚠️ Supabase backend requested but Supabase is not configured. Using in-memory data.');
+        return createMemoryBackend();
+      }
+      return supabaseBackend;
+    case 'local':
+      return createLocalBackend();
+    case 'memory':
+      return createMemoryBackend();
+    default:
+      return isSupabaseConfigured ? supabaseBackend : createMemoryBackend();
+  }
+}
+
+let activeBackend: DataBackend | null = null;
+
+/**
+ * Get the backend currently used by the service layer
+ */
+export function getDataBackend(): DataBackend {
+  if (!activeBackend) {
+    activeBackend = createDefaultBackend();
+    console.log(`🗄️ Using ${activeBackend.kind} data backend`);
+  }
+  return activeBackend;
+}
+
+/**
+ * Replace the active backend (e.g. an in-memory backend in tests)
+ */
+export function setDataBackend(backend: DataBackend): void {
+  activeBackend = backend;
+}
@@ -0,0 +1,80 @@
+/**
+ * Local Data Backend
+ *
+ * Stores every collection in AsyncStorage so data survives app restarts
+ * without a database. Built on the in-memory backend: collections are read
+ * once on first use and written back after every change.
+ *
+ * On first launch the store is seeded from the bundled test data.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createMemoryBackend, createTestDataSeed, type MemorySeed } from '@/services/backends/memory';
+import type { DataBackend, RepositoryName } from '@/services/backends/types';
+
+const LOCAL_DB_PREFIX = '@ava_local_db';
+const INITIALIZED_KEY = `${LOCAL_DB_PREFIX}:initialized`;
+
+function getCollectionKey(collection: RepositoryName): string {
+  return `${LOCAL_DB_PREFIX}:${collection}`;
+}
+
+function persistCollection(collection: RepositoryName, records: unknown[]) {
+  AsyncStorage.setItem(getCollectionKey(collection), JSON.stringify(records)).catch((error) => {
+    console.error(`Error persisting local ${collection}:`, error);
+  });
+}
+
+async function loadStoredSeed(): Promise<MemorySeed> {
+  const initialized = await AsyncStorage.getItem(INITIALIZED_KEY);
+
+  if (!initialized) {
+    const seed = createTestDataSeed();
+    await AsyncStorage.multiSet([
+      ...(Object.keys(seed) as RepositoryName[]).map(
+        (collection) => [getCollectionKey(collection), JSON.stringify(seed[collection] ?? [])] as [string, string]
+      ),
+      [INITIALIZED_KEY, new Date().toISOString()],
+    ]);
+    return seed;
+  }
+
+  const keys = await AsyncStorage.getAllKeys();
+  const collectionKeys = keys.filter((key) => key.startsWith(`${LOCAL_DB_PREFIX}:`) && key !== INITIALIZED_KEY);
+  const entries = await AsyncStorage.multiGet(collectionKeys);
+
+  // Collections added after this device was seeded start from the bundled data
+  const seed: MemorySeed = createTestDataSeed();
+  (Object.keys(seed) as RepositoryName[]).forEach((collection) => {
+    if (collectionKeys.includes(getCollectionKey(collection))) {
+      delete seed[collection];
+    }
+  });
+  entries.forEach(([key, value]) => {
+    if (!value) return;
+    try {
+      const collection = key.slice(LOCAL_DB_PREFIX.length + 1) as RepositoryName;
+      seed[collection] = JSON.parse(value);
+    } catch {
+      console.warn(`Ignoring corrupt local collection ${key}`);
+    }
+  });
+  return seed;
+}
+
+export function createLocalBackend(): DataBackend {
+  return createMemoryBackend({
+    kind: 'local',
+    loadSeed: loadStoredSeed,
+    onChange: persistCollection,
+  });
+}
+
+/**
+ * Remove everything stored by the local backend
+ * The next launch will reseed from the bundled test data.
+ */
+export async function resetLocalBackend(): Promise<void> {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(`${LOCAL_DB_PREFIX}:`)));
+}
@@ -0,0 +1,764 @@
+/**
+ * In-Memory Data Backend
+ *
+ * A fully working backend that keeps every record in memory. It is seeded from
+ * utils/testData.ts by default, which makes it the backend for demo mode and
+ * for exercising the app's CRUD paths without a database.
+ *
+ * The same implementation powers the AsyncStorage-backed local backend, which
+ * supplies its own seed loader and persists collections through `onChange`.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { generateTestData } from '@/utils/testData';
+import { APP_SETTINGS_ID } from '@/services/backends/types';
+import { nextLoginFailureState } from '@/utils/loginAttempts';
+import type {
+  CanineScope,
+  CanineScopedRepository,
+  DataBackend,
+  DataBackendKind,
+  ListRepository,
+  RepositoryName,
+} from '@/services/backends/types';
+import type {
+  UserProfile,
+  CanineProfile,
+  VetProfile,
+  Contact,
+  NutritionEntry,
+  TrainingLog,
+  Appointment,
+  MediaItem,
+  MedicalRecord,
+  LabResult,
+  MedicationEntry,
+  MedicationDoseLog,
+  WeightMeasurement,
+  VetVisit,
+  ImmunizationRecord,
+  CanineAllergy,
+  UserSession,
+  PasswordResetCode,
+  PasswordResetRequest,
+  TwoFactorCredential,
+  ActivationCode,
+  VetAccessGrant,
+  WalkerAssignment,
+  WalkLog,
+  Household,
+  HouseholdMember,
+  PetShareLink,
+  PetShareAccess,
+  AppSettings,
+} from '@/types';
+
+interface StoredRecord {
+  id: string;
+  createdAt?: string;
+  updatedAt?: string;
+  [key: string]: any;
+}
+
+/**
+ * The record type kept in each collection
+ */
+interface MemoryRecords {
+  userProfiles: UserProfile & { passwordHash?: string | null };
+  canineProfiles: CanineProfile;
+  vetProfiles: VetProfile;
+  contacts: Contact;
+  nutritionEntries: NutritionEntry;
+  trainingLogs: TrainingLog;
+  appointments: Appointment;
+  mediaItems: MediaItem;
+  medicalRecords: MedicalRecord;
+  labResults: LabResult;
+  medications: MedicationEntry;
+  medicationDoseLogs: MedicationDoseLog;
+  weightMeasurements: WeightMeasurement;
+  vetVisits: VetVisit;
+  immunizations: ImmunizationRecord;
+  canineAllergies: CanineAllergy;
+  walkLogs: WalkLog;
+  sessions: UserSession;
+  passwordResets: PasswordResetCode;
+  twoFactorCredentials: TwoFactorCredential;
+  activationCodes: ActivationCode;
+  vetAccessGrants: VetAccessGrant;
+  walkerAssignments: WalkerAssignment;
+  households: Household;
+  householdMembers: HouseholdMember;
+  petShareLinks: PetShareLink;
+  petShareAccesses: PetShareAccess;
+  appSettings: AppSettings;
+}
+
+// Collections served by listRepository() and canineScopedRepository()
+type ListName = 'vetProfiles' | 'contacts' | 'activationCodes';
+type CanineScopedName =
+  | 'nutritionEntries'
+  | 'trainingLogs'
+  | 'appointments'
+  | 'mediaItems'
+  | 'medicalRecords'
+  | 'labResults'
+  | 'medications'
+  | 'medicationDoseLogs'
+  | 'weightMeasurements'
+  | 'vetVisits'
+  | 'immunizations'
+  | 'canineAllergies'
+  | 'walkLogs';
+
+export type MemorySeed = Partial<Record<RepositoryName, StoredRecord[]>>;
+
+export interface MemoryBackendOptions {
+  kind?: DataBackendKind;
+  /** Loads the initial records; defaults to the bundled test data */
+  loadSeed?: () => MemorySeed | Promise<MemorySeed>;
+  /** Called after every write with the full contents of the changed collection */
+  onChange?: (collection: RepositoryName, records: StoredRecord[]) => void;
+}
+
+/**
+ * Sort order for each collection, matching the ordering used by the Supabase queries
+ */
+const COLLECTION_SORT: Record<RepositoryName, { field: string; ascending: boolean }> = {
+  userProfiles: { field: 'createdAt', ascending: false },
+  canineProfiles: { field: 'createdAt', ascending: false },
+  vetProfiles: { field: 'createdAt', ascending: false },
+  contacts: { field: 'createdAt', ascending: false },
+  nutritionEntries: { field: 'date', ascending: false },
+  trainingLogs: { field: 'date', ascending: false },
+  appointments: { field: 'date', ascending: false },
+  mediaItems: { field: 'createdAt', ascending: false },
+  medicalRecords: { field: 'createdAt', ascending: false },
+  labResults: { field: 'createdAt', ascending: true },
+  medications: { field: 'createdAt', ascending: false },
+  medicationDoseLogs: { field: 'scheduledAt', ascending: false },
+  weightMeasurements: { field: 'date', ascending: false },
+  vetVisits: { field: 'visitDate', ascending: false },
+  immunizations: { field: 'immunizationDate', ascending: false },
+  canineAllergies: { field: 'foodType', ascending: true },
+  sessions: { field: 'createdAt', ascending: false },
+  passwordResets: { field: 'createdAt', ascending: false },
+  twoFactorCredentials: { field: 'createdAt', ascending: false },
+  activationCodes: { field: 'createdAt', ascending: false },
+  vetAccessGrants: { field: 'createdAt', ascending: false },
+  walkerAssignments: { field: 'createdAt', ascending: false },
+  walkLogs: { field: 'createdAt', ascending: false },
+  households: { field: 'createdAt', ascending: false },
+  householdMembers: { field: 'createdAt', ascending: true },
+  petShareLinks: { field: 'createdAt', ascending: false },
+  petShareAccesses: { field: 'createdAt', ascending: false },
+  appSettings: { field: 'createdAt', ascending: false },
+};
+
+/**
+ * Collections holding per-pet records, removed along with their pet
+ */
+const CANINE_SCOPED_COLLECTIONS: RepositoryName[] = [
+  'nutritionEntries',
+  'trainingLogs',
+  'appointments',
+  'mediaItems',
+  'medicalRecords',
+  'labResults',
+  'medications',
+  'medicationDoseLogs',
+  'weightMeasurements',
+  'vetVisits',
+  'immunizations',
+  'canineAllergies',
+  'vetAccessGrants',
+  'walkerAssignments',
+  'walkLogs',
+  'petShareLinks',
+  'petShareAccesses',
+];
+
+/**
+ * Build a seed from the bundled test data
+ */
+export function createTestDataSeed(): MemorySeed {
+  const testData = generateTestData();
+  return {
+    userProfiles: [testData.userProfile],
+    canineProfiles: testData.canines,
+    vetProfiles: testData.vets,
+    contacts: testData.contacts,
+    nutritionEntries: testData.nutritionEntries,
+    trainingLogs: testData.trainingLogs,
+    appointments: testData.appointments,
+    mediaItems: testData.mediaItems,
+    medicalRecords: testData.medicalRecords,
+    medications: testData.medications,
+    vetVisits: testData.vetVisits,
+    immunizations: testData.immunizations,
+    canineAllergies: testData.canineAllergies,
+    activationCodes: testData.activationCodes,
+  };
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function compareBy(field: string, ascending: boolean) {
+  return (a: StoredRecord, b: StoredRecord) => {
+    const left = a[field] ?? '';
+    const right = b[field] ?? '';
+    if (left === right) return 0;
+    const result = left < right ? -1 : 1;
+    return ascending ? result : -result;
+  };
+}
+
+export function createMemoryBackend(options: MemoryBackendOptions = {}): DataBackend {
+  const { kind = 'memory', loadSeed = createTestDataSeed, onChange } = options;
+  const store = {} as Record<RepositoryName, StoredRecord[]>;
+  (Object.keys(COLLECTION_SORT) as RepositoryName[]).forEach((name) => {
+    store[name] = [];
+  });
+
+  let ready: Promise<void> | null = null;
+
+  // Seed lazily so the local backend can read AsyncStorage before the first query
+  const ensureReady = () => {
+    if (!ready) {
+      ready = Promise.resolve()
+        .then(loadSeed)
+        .then((seed) => {
+          (Object.keys(seed) as RepositoryName[]).forEach((name) => {
+            store[name] = clone(seed[name] ?? []);
+          });
+        })
+        .catch((error) => {
+          console.error(`Error seeding ${kind} backend:`, error);
+        });
+    }
+    return ready;
+  };
+
+  const notify = (name: RepositoryName) => {
+    onChange?.(name, store[name]);
+  };
+
+  // Records are stored untyped; these helpers hand them out as the collection's record type
+  const list = async <N extends RepositoryName>(
+    name: N,
+    predicate?: (record: StoredRecord) => boolean
+  ): Promise<MemoryRecords[N][]> => {
+    await ensureReady();
+    const { field, ascending } = COLLECTION_SORT[name];
+    return store[name]
+      .filter((record) => (predicate ? predicate(record) : true))
+      .sort(compareBy(field, ascending))
+      .map((record) => clone(record) as MemoryRecords[N]);
+  };
+
+  const find = async <N extends RepositoryName>(name: N, id: string): Promise<MemoryRecords[N] | null> => {
+    await ensureReady();
+    const record = store[name].find((item) => item.id === id);
+    return record ? (clone(record) as MemoryRecords[N]) : null;
+  };
+
+  const insert = async <N extends RepositoryName>(name: N, input: object): Promise<MemoryRecords[N]> => {
+    await ensureReady();
+    const now = new Date().toISOString();
+    const record: StoredRecord = {
+      ...clone(input),
+      id: (input as StoredRecord).id || Crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    store[name] = [record, ...store[name]];
+    notify(name);
+    return clone(record) as MemoryRecords[N];
+  };
+
+  const patch = async <N extends RepositoryName>(
+    name: N,
+    id: string,
+    updates: object
+  ): Promise<MemoryRecords[N] | null> => {
+    await ensureReady();
+    const index = store[name].findIndex((item) => item.id === id);
+    if (index === -1) {
+      console.error(`Error updating ${name}: record ${id} not found`);
+      return null;
+    }
+    const { id: _ignoredId, createdAt: _ignoredCreatedAt, ...changes } = updates as StoredRecord;
+    const record: StoredRecord = { ...store[name][index], ...clone(changes), updatedAt: new Date().toISOString() };
+    store[name][index] = record;
+    notify(name);
+    return clone(record) as MemoryRecords[N];
+  };
+
+  const remove = async (name: RepositoryName, id: string) => {
+    await ensureReady();
+    const before = store[name].length;
+    store[name] = store[name].filter((item) => item.id !== id);
+    if (store[name].length === before) {
+      return false;
+    }
+    notify(name);
+    return true;
+  };
+
+  // Mirror the ON DELETE CASCADE rules of the database schema
+  const removeCanineCascade = async (canineId: string) => {
+    const removed = await remove('canineProfiles', canineId);
+    if (removed) {
+      CANINE_SCOPED_COLLECTIONS.forEach((name) => {
+        const before = store[name].length;
+        store[name] = store[name].filter((record) => record.canineId !== canineId);
+        if (store[name].length !== before) notify(name);
+      });
+    }
+    return removed;
+  };
+
+  // Clearing a field sends it as an explicit undefined, which cloning would drop
+  const withClearedFields = (updates: object, fields: string[]) => {
+    const changes: Record<string, any> = { ...updates };
+    fields.forEach((field) => {
+      if (field in updates) changes[field] = changes[field] ?? null;
+    });
+    return changes;
+  };
+
+  // Mirror the database trigger that keeps a pet's current weight at its newest measurement
+  const syncCurrentWeight = async (canineId: string) => {
+    const [newest] = store.weightMeasurements
+      .filter((measurement) => measurement.canineId === canineId)
+      .sort((a, b) => compareBy('date', false)(a, b) || compareBy('createdAt', false)(a, b));
+    if (newest) {
+      await patch('canineProfiles', canineId, { weight: newest.value, weightUnit: newest.unit });
+    }
+  };
+
+  // Pets a user owns or shares through one of their households
+  const ownedBy = (userId: string) => {
+    const householdIds = new Set(
+      store.householdMembers.filter((member) => member.userId === userId).map((member) => member.householdId)
+    );
+    return (canine: StoredRecord) =>
+      canine.userId === userId || (!!canine.householdId && householdIds.has(canine.householdId));
+  };
+
+  const withoutPassword = (record: MemoryRecords['userProfiles']): UserProfile => {
+    const { passwordHash: _passwordHash, ...profile } = record;
+    return profile;
+  };
+
+  const withoutCodeHash = ({ codeHash: _codeHash, ...request }: PasswordResetCode): PasswordResetRequest => request;
+
+  const listRepository = <N extends ListName>(name: N): ListRepository<MemoryRecords[N]> => ({
+    getAll: () => list(name),
+    getById: (id) => find(name, id),
+    create: (input) => insert(name, input),
+    update: (id, updates) => patch(name, id, updates),
+    delete: (id) => remove(name, id),
+  });
+
+  // Same semantics as the Supabase backend: owner and canine filters are combined
+  const matchesScope = (scope?: CanineScope) => {
+    if (!scope) return undefined;
+    if (typeof scope === 'string') return (record: StoredRecord) => record.canineId === scope;
+
+    const { canineIds, ownerId } = scope;
+    const ownedIds = ownerId
+      ? new Set(store.canineProfiles.filter(ownedBy(ownerId)).map((canine) => canine.id))
+      : null;
+    return (record: StoredRecord) =>
+      (!canineIds || canineIds.includes(record.canineId)) && (!ownedIds || ownedIds.has(record.canineId));
+  };
+
+  const canineScopedRepository = <N extends CanineScopedName>(name: N): CanineScopedRepository<MemoryRecords[N]> => ({
+    getAll: async (scope) => {
+      await ensureReady();
+      return list(name, matchesScope(scope));
+    },
+    async getPage(scope, { limit, offset = 0 }) {
+      await ensureReady();
+      const records = await list(name, matchesScope(scope));
+      const items = records.slice(offset, offset + limit);
+      return { items, nextOffset: offset + limit < records.length ? offset + limit : null };
+    },
+    getById: (id) => find(name, id),
+    create: (input) => insert(name, input),
+    update: (id, updates) => patch(name, id, updates),
+    delete: (id) => remove(name, id),
+  });
+
+  return {
+    kind,
+    isRemote: false,
+    userProfiles: {
+      getAll: async () => (await list('userProfiles')).map(withoutPassword),
+      async getById(id) {
+        const profile = await find('userProfiles', id);
+        return profile && withoutPassword(profile);
+      },
+      async getByEmail(email) {
+        const [match] = await list('userProfiles', (record) => record.email === email);
+        return match ? withoutPassword(match) : null;
+      },
+      async getPasswordHashByEmail(email) {
+        const [match] = await list('userProfiles', (record) => record.email === email);
+        if (!match) return null;
+        return {
+          id: match.id,
+          password_hash: match.passwordHash ?? null,
+          failed_login_attempts: match.failedLoginAttempts ?? 0,
+          last_failed_login_at: match.lastFailedLoginAt ?? null,
+          locked_until: match.lockedUntil ?? null,
+        };
+      },
+      async create(profile, passwordHash) {
+        const created = await insert('userProfiles', { ...profile, passwordHash: passwordHash ?? null });
+        return withoutPassword(created);
+      },
+      async update(id, updates) {
+        const profile = await patch('userProfiles', id, updates);
+        return profile && withoutPassword(profile);
+      },
+      async updatePasswordHash(id, passwordHash) {
+        return !!(await patch('userProfiles', id, { passwordHash }));
+      },
+      async updateLoginState(id, state) {
+        return !!(await patch('userProfiles', id, state));
+      },
+      async recordLoginFailure(id) {
+        const profile = await find('userProfiles', id);
+        if (!profile) return null;
+        const next = nextLoginFailureState(
+          {
+            failedLoginAttempts: profile.failedLoginAttempts ?? 0,
+            lastFailedLoginAt: profile.lastFailedLoginAt ?? null,
+            lockedUntil: profile.lockedUntil ?? null,
+          },
+          Date.now()
+        );
+        return (await patch('userProfiles', id, next)) ? next : null;
+      },
+      async delete(id) {
+        const ownedCanines = await list('canineProfiles', (record) => record.userId === id);
+        for (const canine of ownedCanines) {
+          await removeCanineCascade(canine.id);
+        }
+        (['sessions', 'passwordResets', 'twoFactorCredentials'] as RepositoryName[]).forEach((name) => {
+          const before = store[name].length;
+          store[name] = store[name].filter((record) => record.userId !== id);
+          if (store[name].length !== before) notify(name);
+        });
+        const grantsBefore = store.vetAccessGrants.length;
+        store.vetAccessGrants = store.vetAccessGrants.filter((grant) => grant.vetUserId !== id);
+        if (store.vetAccessGrants.length !== grantsBefore) notify('vetAccessGrants');
+        const membershipsBefore = store.householdMembers.length;
+        store.householdMembers = store.householdMembers.filter((member) => member.userId !== id);
+        if (store.householdMembers.length !== membershipsBefore) notify('householdMembers');
+        const assignmentsBefore = store.walkerAssignments.length;
+        store.walkerAssignments = store.walkerAssignments.filter((assignment) => assignment.walkerUserId !== id);
+        if (store.walkerAssignments.length !== assignmentsBefore) notify('walkerAssignments');
+        // Share links go with whoever created them, along with their access log
+        const removedLinkIds = new Set(
+          store.petShareLinks.filter((link) => link.createdBy === id).map((link) => link.id)
+        );
+        if (removedLinkIds.size > 0) {
+          store.petShareLinks = store.petShareLinks.filter((link) => !removedLinkIds.has(link.id));
+          store.petShareAccesses = store.petShareAccesses.filter((access) => !removedLinkIds.has(access.shareLinkId));
+          notify('petShareLinks');
+          notify('petShareAccesses');
+        }
+        // Dose logs stay in the pet's history without the caregiver
+        if (store.medicationDoseLogs.some((log) => log.loggedBy === id)) {
+          store.medicationDoseLogs = store.medicationDoseLogs.map((log) =>
+            log.loggedBy === id ? { ...log, loggedBy: undefined } : log
+          );
+          notify('medicationDoseLogs');
+        }
+        // Walks stay in the pet's history without the walker
+        if (store.walkLogs.some((walk) => walk.walkerUserId === id)) {
+          store.walkLogs = store.walkLogs.map((walk) =>
+            walk.walkerUserId === id ? { ...walk, walkerUserId: undefined } : walk
+          );
+          notify('walkLogs');
+        }
+        return remove('userProfiles', id);
+      },
+    },
+    canineProfiles: {
+      async getAll(userId) {
+        await ensureReady();
+        return list('canineProfiles', userId ? ownedBy(userId) : undefined);
+      },
+      getById: (id) => find('canineProfiles', id),
+      getByIds: (ids) => list('canineProfiles', (record) => ids.includes(record.id)),
+      create: (input) => insert('canineProfiles', input),
+      // Leaving a household or clearing the neuter status is sent as an explicit undefined, which cloning would drop
+      update: (id, updates) =>
+        patch('canineProfiles', id, {
+          ...updates,
+          ...('householdId' in updates && { householdId: updates.householdId ?? null }),
+          ...('neutered' in updates && { neutered: updates.neutered ?? null }),
+        }),
+      delete: (id) => removeCanineCascade(id),
+    },
+    vetProfiles: listRepository('vetProfiles'),
+    contacts: listRepository('contacts'),
+    nutritionEntries: canineScopedRepository('nutritionEntries'),
+    trainingLogs: canineScopedRepository('trainingLogs'),
+    appointments: {
+      ...canineScopedRepository('appointments'),
+      update: (id, updates) => patch('appointments', id, withClearedFields(updates, ['vetVisitId'])),
+    },
+    mediaItems: canineScopedRepository('mediaItems'),
+    medicalRecords: {
+      ...canineScopedRepository('medicalRecords'),
+      update: (id, updates) => patch('medicalRecords', id, withClearedFields(updates, ['vetVisitId'])),
+      async delete(id) {
+        const removed = await remove('medicalRecords', id);
+        if (removed && store.labResults.some((result) => result.medicalRecordId === id)) {
+          store.labResults = store.labResults.filter((result) => result.medicalRecordId !== id);
+          notify('labResults');
+        }
+        return removed;
+      },
+    },
+    labResults: {
+      ...canineScopedRepository('labResults'),
+      update: (id, updates) =>
+        patch('labResults', id, withClearedFields(updates, ['referenceLow', 'referenceHigh'])),
+    },
+    medications: {
+      ...canineScopedRepository('medications'),
+      update: (id, updates) => patch('medications', id, withClearedFields(updates, ['vetVisitId'])),
+      async delete(id) {
+        const removed = await remove('medications', id);
+        if (removed && store.medicationDoseLogs.some((log) => log.medicationId === id)) {
+          store.medicationDoseLogs = store.medicationDoseLogs.filter((log) => log.medicationId !== id);
+          notify('medicationDoseLogs');
+        }
+        return removed;
+      },
+    },
+    medicationDoseLogs: canineScopedRepository('medicationDoseLogs'),
+    weightMeasurements: {
+      ...canineScopedRepository('weightMeasurements'),
+      async create(input) {
+        const created = await insert('weightMeasurements', input);
+        await syncCurrentWeight(created.canineId);
+        return created;
+      },
+      // Clearing the body condition score is sent as an explicit undefined, which cloning would drop
+      async update(id, updates) {
+        const updated = await patch(
+          'weightMeasurements',
+          id,
+          'bodyConditionScore' in updates ? { ...updates, bodyConditionScore: updates.bodyConditionScore ?? null } : updates
+        );
+        if (updated) await syncCurrentWeight(updated.canineId);
+        return updated;
+      },
+      async delete(id) {
+        const existing = store.weightMeasurements.find((measurement) => measurement.id === id);
+        const removed = await remove('weightMeasurements', id);
+        if (removed && existing) await syncCurrentWeight(existing.canineId);
+        return removed;
+      },
+    },
+    vetVisits: {
+      ...canineScopedRepository('vetVisits'),
+      // Mirror the database, which unlinks the visit's medications, records and follow-ups rather than deleting them
+      async delete(id) {
+        const removed = await remove('vetVisits', id);
+        if (removed) {
+          (['medications', 'medicalRecords', 'appointments'] as const).forEach((name) => {
+            if (!store[name].some((item) => item.vetVisitId === id)) return;
+            store[name] = store[name].map((item) => {
+              if (item.vetVisitId !== id) return item;
+              const { vetVisitId: _unlinked, ...rest } = item;
+              return rest as StoredRecord;
+            });
+            notify(name);
+          });
+        }
+        return removed;
+      },
+    },
+    immunizations: canineScopedRepository('immunizations'),
+    canineAllergies: canineScopedRepository('canineAllergies'),
+    walkLogs: canineScopedRepository('walkLogs'),
+    sessions: {
+      create: (session) => insert('sessions', session),
+      async getByTokenHash(tokenHash) {
+        const [match] = await list('sessions', (record) => record.tokenHash === tokenHash);
+        return match ?? null;
+      },
+      getActiveByUser: (userId) => {
+        const now = new Date().toISOString();
+        return list(
+          'sessions',
+          (record) => record.userId === userId && !record.revokedAt && record.expiresAt > now
+        );
+      },
+      update: (id, updates) => patch('sessions', id, updates),
+      async revokeAllForUser(userId) {
+        const active = await list('sessions', (record) => record.userId === userId && !record.revokedAt);
+        const revokedAt = new Date().toISOString();
+        for (const session of active) {
+          await patch('sessions', session.id, { revokedAt });
+        }
+        return active.length;
+      },
+    },
+    passwordResets: {
+      create: async (code) => withoutCodeHash(await insert('passwordResets', code)),
+      getRecentForUser: async (userId, since) =>
+        (await list('passwordResets', (record) => record.userId === userId && (record.createdAt ?? '') >= since)).map(
+          withoutCodeHash
+        ),
+      async checkLatestCode(userId, codeHash, maxFailedAttempts) {
+        const [latest] = await list('passwordResets', (record) => record.userId === userId);
+        if (
+          !latest ||
+          latest.usedAt ||
+          new Date(latest.expiresAt).getTime() <= Date.now() ||
+          latest.failedAttempts >= maxFailedAttempts
+        ) {
+          return { status: 'invalid' };
+        }
+        if (latest.codeHash !== codeHash) {
+          const failedAttempts = latest.failedAttempts + 1;
+          await patch('passwordResets', latest.id, { failedAttempts });
+          return { status: 'incorrect', failedAttempts };
+        }
+        const used = await patch('passwordResets', latest.id, { usedAt: new Date().toISOString() });
+        return used ? { status: 'accepted' } : { status: 'invalid' };
+      },
+    },
+    twoFactorCredentials: {
+      async getForUser(userId) {
+        const [match] = await list('twoFactorCredentials', (record) => record.userId === userId);
+        return match ?? null;
+      },
+      create: (credential) => insert('twoFactorCredentials', credential),
+      update: (id, updates) => patch('twoFactorCredentials', id, updates),
+      delete: (id) => remove('twoFactorCredentials', id),
+    },
+    activationCodes: {
+      ...listRepository('activationCodes'),
+      async getByCode(code) {
+        const [match] = await list('activationCodes', (record) => record.code === code);
+        return match ?? null;
+      },
+      async redeem(id) {
+        await ensureReady();
+        // Check and count in one step so concurrent signups can't exceed the limit
+        const index = store.activationCodes.findIndex((item) => item.id === id);
+        const record = store.activationCodes[index];
+        if (!record || (record.maxRedemptions != null && record.redemptionCount >= record.maxRedemptions)) {
+          return null;
+        }
+        store.activationCodes[index] = {
+          ...record,
+          redemptionCount: record.redemptionCount + 1,
+          updatedAt: new Date().toISOString(),
+        };
+        notify('activationCodes');
+        return clone(store.activationCodes[index]) as ActivationCode;
+      },
+      async release(id) {
+        await ensureReady();
+        const index = store.activationCodes.findIndex((item) => item.id === id);
+        const record = store.activationCodes[index];
+        if (!record || record.redemptionCount <= 0) {
+          return false;
+        }
+        store.activationCodes[index] = {
+          ...record,
+          redemptionCount: record.redemptionCount - 1,
+          updatedAt: new Date().toISOString(),
+        };
+        notify('activationCodes');
+        return true;
+      },
+    },
+    vetAccessGrants: {
+      getById: (id) => find('vetAccessGrants', id),
+      create: (grant) => insert('vetAccessGrants', grant),
+      getForCanines: (canineIds) =>
+        list('vetAccessGrants', (record) => canineIds.includes(record.canineId)),
+      getActiveForVet: (vetUserId) =>
+        list('vetAccessGrants', (record) => record.vetUserId === vetUserId && !record.revokedAt),
+      update: (id, updates) => patch('vetAccessGrants', id, updates),
+    },
+    walkerAssignments: {
+      getById: (id) => find('walkerAssignments', id),
+      create: (assignment) => insert('walkerAssignments', assignment),
+      getForCanines: (canineIds) =>
+        list('walkerAssignments', (record) => canineIds.includes(record.canineId)),
+      getActiveForWalker: (walkerUserId) =>
+        list('walkerAssignments', (record) => record.walkerUserId === walkerUserId && !record.revokedAt),
+      update: (id, updates) => patch('walkerAssignments', id, updates),
+    },
+    households: {
+      getById: (id) => find('households', id),
+      getByIds: (ids) => list('households', (record) => ids.includes(record.id)),
+      create: (household) => insert('households', household),
+      update: (id, updates) => patch('households', id, updates),
+      async delete(id) {
+        const removed = await remove('households', id);
+        if (removed) {
+          // Members go with the household; its pets stay with the owners who created them
+          const membersBefore = store.householdMembers.length;
+          store.householdMembers = store.householdMembers.filter((member) => member.householdId !== id);
+          if (store.householdMembers.length !== membersBefore) notify('householdMembers');
+          if (store.canineProfiles.some((canine) => canine.householdId === id)) {
+            store.canineProfiles = store.canineProfiles.map((canine) =>
+              canine.householdId === id ? { ...canine, householdId: undefined } : canine
+            );
+            notify('canineProfiles');
+          }
+        }
+        return removed;
+      },
+    },
+    householdMembers: {
+      getById: (id) => find('householdMembers', id),
+      getForUser: (userId) => list('householdMembers', (record) => record.userId === userId),
+      getForHouseholds: (householdIds) =>
+        list('householdMembers', (record) => householdIds.includes(record.householdId)),
+      create: (member) => insert('householdMembers', member),
+      update: (id, updates) => patch('householdMembers', id, updates),
+      delete: (id) => remove('householdMembers', id),
+    },
+    petShareLinks: {
+      getById: (id) => find('petShareLinks', id),
+      create: (link) => insert('petShareLinks', link),
+      async getByCodeHash(codeHash) {
+        const [match] = await list('petShareLinks', (record) => record.codeHash === codeHash);
+        return match ?? null;
+      },
+      getForCanines: (canineIds) => list('petShareLinks', (record) => canineIds.includes(record.canineId)),
+      update: (id, updates) => patch('petShareLinks', id, updates),
+    },
+    petShareAccesses: {
+      create: (access) => insert('petShareAccesses', access),
+      getForCanines: (canineIds) =>
+        list('petShareAccesses', (record) => canineIds.includes(record.canineId)),
+    },
+    appSettings: {
+      get: () => find('appSettings', APP_SETTINGS_ID),
+      async update(updates) {
+        if (await find('appSettings', APP_SETTINGS_ID)) {
+          return patch('appSettings', APP_SETTINGS_ID, updates);
+        }
+        return insert('appSettings', { requireAdminTwoFactor: false, ...updates, id: APP_SETTINGS_ID });
+      },
+    },
+  };
+}
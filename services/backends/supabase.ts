@@ -0,0 +1,3882 @@
+/**
+ * Supabase Data Backend
+ * 
+ * Provides CRUD operations for all entities using Supabase.
+ * Maps between the app's camelCase models and the snake_case database columns.
+ */
+
+import { supabaseService, TABLES, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  UserProfile,
+  UserRole,
+  CanineProfile,
+  VetProfile,
+  Contact,
+  NutritionEntry,
+  TrainingLog,
+  Appointment,
+  MediaItem,
+  MedicalRecord,
+  LabResult,
+  MedicalAttachment,
+  MedicationEntry,
+  MedicationDoseLog,
+  MedicationDoseStatus,
+  WeightMeasurement,
+  WeightUnit,
+  VetVisit,
+  ImmunizationRecord,
+  CanineAllergy,
+  UserSession,
+  PasswordResetCode,
+  PasswordResetRequest,
+  TwoFactorCredential,
+  ActivationCode,
+  VetAccessGrant,
+  WalkerAssignment,
+  WalkLog,
+  WalkStatus,
+  SubscriptionTier,
+  Household,
+  HouseholdMember,
+  HouseholdRole,
+  PetShareLink,
+  PetShareSection,
+  SharedContact,
+  PetShareAccess,
+  PetShareAccessOutcome,
+  AppSettings,
+} from '@/types';
+import { extractFilePathFromUrl, getFileUrl } from '@/services/storage';
+import { APP_SETTINGS_ID } from '@/services/backends/types';
+import type {
+  CanineScope,
+  DataBackend,
+  LoginAttemptState,
+  Page,
+  PageRequest,
+  PasswordHashRecord,
+  PasswordResetCheck,
+} from '@/services/backends/types';
+import { throwBackendError, throwIfTransient } from '@/services/backends/errors';
+import { nextLoginFailureState } from '@/utils/loginAttempts';
+import type { CollectionKey } from '@/services/offlineCache';
+import type { ChangeEventSource, RecordChange } from '@/services/realtime';
+
+// ============================================================================
+// Scoped Queries
+// ============================================================================
+
+// Stays under PostgREST's default max-rows limit
+const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * The row filter for pets a user owns or shares through one of their households
+ */
+async function ownedCanineFilter(userId: string): Promise<string> {
+  const { data, error } = await supabaseService
+    .from(TABLES.HOUSEHOLD_MEMBERS)
+    .select('household_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  const householdIds = (data || []).map((row: { household_id: string }) => row.household_id);
+  return householdIds.length > 0
+    ? `user_id.eq.${userId},household_id.in.(${householdIds.join(',')})`
+    : `user_id.eq.${userId}`;
+}
+
+/**
+ * Resolve a scope to the canine IDs it covers
+ * Returns null for an unscoped query.
+ */
+async function resolveCanineIds(scope?: CanineScope): Promise<string[] | null> {
+  if (!scope) return null;
+  if (typeof scope === 'string') return [scope];
+
+  const { canineIds, ownerId } = scope;
+  if (!ownerId) return canineIds ?? null;
+
+  const { data, error } = await supabaseService
+    .from(TABLES.CANINE_PROFILES)
+    .select('id')
+    .or(await ownedCanineFilter(ownerId));
+
+  if (error) {
+    throw error;
+  }
+
+  const ownedIds = (data || []).map((row: { id: string }) => row.id);
+  return canineIds ? ownedIds.filter((id) => canineIds.includes(id)) : ownedIds;
+}
+
+/**
+ * Fetch one page of rows from a per-pet table, filtered in the query
+ */
+async function queryCanineScopedPage(
+  table: string,
+  scope: CanineScope | undefined,
+  page: PageRequest,
+  orderColumn: string,
+  ascending: boolean
+): Promise<{ data: any[]; nextOffset: number | null; error: unknown }> {
+  try {
+    const canineIds = await resolveCanineIds(scope);
+    if (canineIds && canineIds.length === 0) {
+      return { data: [], nextOffset: null, error: null };
+    }
+
+    const offset = page.offset ?? 0;
+    let query = supabaseService.from(table).select('*');
+
+    if (canineIds) {
+      query = query.in('canine_id', canineIds);
+    }
+
+    // Order by id as well so rows don't shift between pages
+    const { data, error } = await query
+      .order(orderColumn, { ascending })
+      .order('id', { ascending: true })
+      .range(offset, offset + page.limit - 1);
+
+    if (error) {
+      return { data: [], nextOffset: null, error };
+    }
+
+    const rows = data || [];
+    return { data: rows, nextOffset: rows.length < page.limit ? null : offset + rows.length, error: null };
+  } catch (error) {
+    return { data: [], nextOffset: null, error };
+  }
+}
+
+/**
+ * Follow pages until the last one
+ */
+async function collectPages<T>(fetchPage: (page: PageRequest) => Promise<Page<T>>): Promise<T[]> {
+  const items: T[] = [];
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const page: Page<T> = await fetchPage({ limit: DEFAULT_PAGE_SIZE, offset });
+    items.push(...page.items);
+    offset = page.nextOffset;
+  }
+
+  return items;
+}
+
+// ============================================================================
+// User Profile Operations
+// ============================================================================
+
+// Attempts before giving up when concurrent logins keep changing the failure count
+const LOGIN_FAILURE_ATTEMPTS = 3;
+
+const userProfiles = {
+  async getById(id: string): Promise<UserProfile | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_PROFILES)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching user profile:', error);
+      throwIfTransient(error, 'Error fetching user profile');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getAll(): Promise<UserProfile[]> {
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_PROFILES)
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching all user profiles:', error);
+      return [];
+    }
+    return (data || []).map((item) => this.mapFromDb(item));
+  },
+
+  async getByEmail(email: string): Promise<UserProfile | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_PROFILES)
+      .select('*')
+      .eq('email', email)
+      .maybeSingle(); // Use maybeSingle() instead of single() to handle 0 rows gracefully
+
+    if (error) {
+      console.error('Error fetching user profile by email:', error);
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  /**
+   * Get password hash for a user by email (for authentication)
+   * Returns the password_hash field which is not included in the regular UserProfile
+   */
+  async getPasswordHashByEmail(email: string): Promise<PasswordHashRecord | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_PROFILES)
+      .select('id, password_hash, failed_login_attempts, last_failed_login_at, locked_until')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching password hash:', error);
+      return null;
+    }
+    return data || null;
+  },
+
+  async updatePasswordHash(id: string, passwordHash: string): Promise<boolean> {
+    const { error } = await supabaseService
+      .from(TABLES.USER_PROFILES)
+      .update({ password_hash: passwordHash, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating password hash:', error);
+      throwIfTransient(error, 'Error updating password hash');
+      return false;
+    }
+    return true;
+  },
+
+  async updateLoginState(id: string, state: LoginAttemptState): Promise<boolean> {
+    // updated_at is left alone so failed logins don't look like profile edits to sync
+    const { error } = await supabaseService
+      .from(TABLES.USER_PROFILES)
+      .update({
+        failed_login_attempts: state.failedLoginAttempts,
+        last_failed_login_at: state.lastFailedLoginAt,
+        locked_until: state.lockedUntil,
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating login state:', error);
+      throwIfTransient(error, 'Error updating login state');
+      return false;
+    }
+    return true;
+  },
+
+  /**
+   * Count a failure if the stored state hasn't changed since it was read
+   * A concurrent failure makes the conditional update match no rows, so read again and retry.
+   */
+  async recordLoginFailure(id: string): Promise<LoginAttemptState | null> {
+    for (let attempt = 0; attempt < LOGIN_FAILURE_ATTEMPTS; attempt++) {
+      const { data: current, error } = await supabaseService
+        .from(TABLES.USER_PROFILES)
+        .select('failed_login_attempts, last_failed_login_at, locked_until')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error reading login state:', error);
+        throwIfTransient(error, 'Error reading login state');
+        return null;
+      }
+      if (!current) return null;
+
+      const next = nextLoginFailureState(
+        {
+          failedLoginAttempts: current.failed_login_attempts ?? 0,
+          lastFailedLoginAt: current.last_failed_login_at ?? null,
+          lockedUntil: current.locked_until ?? null,
+        },
+        Date.now()
+      );
+      let update = supabaseService
+        .from(TABLES.USER_PROFILES)
+        .update({
+          failed_login_attempts: next.failedLoginAttempts,
+          last_failed_login_at: next.lastFailedLoginAt,
+          locked_until: next.lockedUntil,
+        })
+        .eq('id', id);
+      update = current.last_failed_login_at
+        ? update.eq('last_failed_login_at', current.last_failed_login_at)
+        : update.is('last_failed_login_at', null);
+      const { data, error: updateError } = await update.select('id').maybeSingle();
+
+      if (updateError) {
+        console.error('Error recording failed login:', updateError);
+        throwIfTransient(updateError, 'Error recording failed login');
+        return null;
+      }
+      if (data) return next;
+    }
+
+    console.warn('⚠️ Failed logins are being recorded concurrently; giving up');
+    return null;
+  },
+
+  async create(profile: Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'> | UserProfile, passwordHash?: string): Promise<UserProfile | null> {
+    const now = new Date().toISOString();
+    // Extract id if provided
+    const { id, firstName, lastName, zipCode, createdAt, updatedAt, ...rest } = profile as any;
+    
+    // Map camelCase to snake_case for database
+    // Note: zip_code is not in the schema, so we don't include it
+    const insertData: any = {
+      first_name: firstName || '',
+      last_name: lastName || '',
+      email: rest.email,
+      phone: rest.phone || null,
+      address: rest.address || null,
+      city: rest.city || null,
+      state: rest.state || null,
+      country: rest.country || 'US',
+      role: rest.role || 'Pet Owner',
+      profile_photo_url: rest.profilePhotoUrl || null,
+      activation_code_id: rest.activationCodeId || null,
+      subscription_tier: rest.subscriptionTier || 'Free',
+      preferred_weight_unit: rest.preferredWeightUnit || null,
+      created_at: now,
+      updated_at: now,
+    };
+    
+    // Add password_hash if provided
+    if (passwordHash) {
+      insertData.password_hash = passwordHash;
+    }
+    
+    // If id is provided, use it
+    if (id) {
+      insertData.id = id;
+    }
+
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_PROFILES)
+      .insert(insertData)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating user profile:', error);
+      console.error('Insert data attempted:', insertData);
+      throwIfTransient(error, 'Error creating user profile');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<UserProfile>): Promise<UserProfile | null> {
+    const { firstName, lastName, zipCode, createdAt, updatedAt, ...rest } = updates as any;
+    
+    // Map camelCase to snake_case for database
+    // Note: zip_code is not in the schema, so we don't include it
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+    
+    if (firstName !== undefined) dbUpdates.first_name = firstName;
+    if (lastName !== undefined) dbUpdates.last_name = lastName;
+    // zipCode is not in database schema, skip it
+    if (rest.email !== undefined) dbUpdates.email = rest.email;
+    if (rest.phone !== undefined) dbUpdates.phone = rest.phone;
+    if (rest.address !== undefined) dbUpdates.address = rest.address;
+    if (rest.city !== undefined) dbUpdates.city = rest.city;
+    if (rest.state !== undefined) dbUpdates.state = rest.state;
+    if (rest.country !== undefined) dbUpdates.country = rest.country;
+    if (rest.role !== undefined) dbUpdates.role = rest.role;
+    if (rest.profilePhotoUrl !== undefined) dbUpdates.profile_photo_url = rest.profilePhotoUrl || null;
+    if (rest.subscriptionTier !== undefined) dbUpdates.subscription_tier = rest.subscriptionTier;
+    if (rest.preferredWeightUnit !== undefined) dbUpdates.preferred_weight_unit = rest.preferredWeightUnit || null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_PROFILES)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating user profile:', error);
+      throwIfTransient(error, 'Error updating user profile');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService
+      .from(TABLES.USER_PROFILES)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting user profile:', error);
+      throwIfTransient(error, 'Error deleting user profile');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): UserProfile {
+    return {
+      id: data.id,
+      firstName: data.first_name || '',
+      lastName: data.last_name || '',
+      email: data.email,
+      phone: data.phone || '',
+      address: data.address || '',
+      city: data.city || '',
+      state: data.state || '',
+      country: (data.country as 'US' | 'India') || 'US',
+      zipCode: '', // zip_code is not in database schema, default to empty string
+      role: (data.role as UserRole) || 'Pet Owner',
+      profilePhotoUrl: data.profile_photo_url || '',
+      failedLoginAttempts: data.failed_login_attempts ?? 0,
+      lastFailedLoginAt: data.last_failed_login_at || undefined,
+      lockedUntil: data.locked_until || undefined,
+      activationCodeId: data.activation_code_id || undefined,
+      subscriptionTier: (data.subscription_tier as SubscriptionTier) || 'Free',
+      preferredWeightUnit: (data.preferred_weight_unit as WeightUnit) || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Canine Profile Operations
+// ============================================================================
+
+const canineProfiles = {
+  async getAll(userId?: string): Promise<CanineProfile[]> {
+    let query = supabaseService.from(TABLES.CANINE_PROFILES).select('*');
+    
+    if (userId) {
+      try {
+        query = query.or(await ownedCanineFilter(userId));
+      } catch (error) {
+        console.error('Error fetching household memberships:', error);
+        throwIfTransient(error, 'Error fetching household memberships');
+        return [];
+      }
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching canine profiles:', error);
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async getById(id: string): Promise<CanineProfile | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.CANINE_PROFILES)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching canine profile:', error);
+      throwIfTransient(error, 'Error fetching canine profile');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getByIds(ids: string[]): Promise<CanineProfile[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabaseService
+      .from(TABLES.CANINE_PROFILES)
+      .select('*')
+      .in('id', ids)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching canine profiles:', error);
+      throwIfTransient(error, 'Error fetching canine profiles');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async create(canine: Omit<CanineProfile, 'id' | 'createdAt' | 'updatedAt'>): Promise<CanineProfile | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.CANINE_PROFILES)
+      .insert({
+        user_id: canine.userId,
+        household_id: canine.householdId || null,
+        name: canine.name,
+        breed: canine.breed,
+        date_of_birth: canine.dateOfBirth,
+        gender: canine.gender,
+        weight: canine.weight,
+        weight_unit: canine.weightUnit,
+        activity_level: canine.activityLevel || null,
+        is_neutered: canine.neutered ?? null,
+        color: canine.color,
+        microchip_number: canine.microchipNumber,
+        profile_photo_id: canine.profilePhotoId,
+        notes: canine.notes,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating canine profile:', error);
+      throwIfTransient(error, 'Error creating canine profile');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<CanineProfile>): Promise<CanineProfile | null> {
+    const {
+      userId,
+      householdId,
+      dateOfBirth,
+      weightUnit,
+      activityLevel,
+      neutered,
+      microchipNumber,
+      profilePhotoId,
+      createdAt,
+      updatedAt,
+      ...rest
+    } = updates as any;
+
+    const dbUpdates: any = {
+      ...rest,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (userId !== undefined) dbUpdates.user_id = userId;
+    // Leaving a household is sent as an explicit undefined
+    if ('householdId' in updates) dbUpdates.household_id = householdId || null;
+    if (dateOfBirth !== undefined) dbUpdates.date_of_birth = dateOfBirth;
+    if (weightUnit !== undefined) dbUpdates.weight_unit = weightUnit;
+    if (activityLevel !== undefined) dbUpdates.activity_level = activityLevel;
+    if ('neutered' in updates) dbUpdates.is_neutered = neutered ?? null;
+    if (microchipNumber !== undefined) dbUpdates.microchip_number = microchipNumber;
+    if (profilePhotoId !== undefined) dbUpdates.profile_photo_id = profilePhotoId;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.CANINE_PROFILES)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating canine profile:', error);
+      throwIfTransient(error, 'Error updating canine profile');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.CANINE_PROFILES).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting canine profile:', error);
+      throwIfTransient(error, 'Error deleting canine profile');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): CanineProfile {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      householdId: data.household_id || undefined,
+      name: data.name,
+      breed: data.breed,
+      dateOfBirth: data.date_of_birth,
+      gender: data.gender,
+      weight: data.weight,
+      weightUnit: data.weight_unit,
+      activityLevel: data.activity_level || undefined,
+      neutered: data.is_neutered ?? undefined,
+      color: data.color,
+      microchipNumber: data.microchip_number,
+      profilePhotoId: data.profile_photo_id,
+      notes: data.notes,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Vet Profile Operations
+// ============================================================================
+
+const vetProfiles = {
+  async getAll(): Promise<VetProfile[]> {
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_PROFILES)
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching vet profiles:', error);
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async getById(id: string): Promise<VetProfile | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_PROFILES)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching vet profile:', error);
+      throwIfTransient(error, 'Error fetching vet profile');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(vet: Omit<VetProfile, 'id' | 'createdAt' | 'updatedAt'>): Promise<VetProfile | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_PROFILES)
+      .insert({
+        name: vet.name,
+        clinic_name: vet.clinicName,
+        phone: vet.phone,
+        email: vet.email,
+        address: vet.address,
+        city: vet.city,
+        state: vet.state,
+        zip_code: vet.zipCode,
+        country: vet.country,
+        specialization: vet.specialization,
+        notes: vet.notes,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating vet profile:', error);
+      throwIfTransient(error, 'Error creating vet profile');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<VetProfile>): Promise<VetProfile | null> {
+    const { clinicName, zipCode, createdAt, updatedAt, ...rest } = updates as any;
+
+    const dbUpdates: any = {
+      ...rest,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (clinicName !== undefined) dbUpdates.clinic_name = clinicName;
+    if (zipCode !== undefined) dbUpdates.zip_code = zipCode;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_PROFILES)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating vet profile:', error);
+      throwIfTransient(error, 'Error updating vet profile');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.VET_PROFILES).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting vet profile:', error);
+      throwIfTransient(error, 'Error deleting vet profile');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): VetProfile {
+    return {
+      id: data.id,
+      name: data.name,
+      clinicName: data.clinic_name,
+      phone: data.phone,
+      email: data.email,
+      address: data.address,
+      city: data.city,
+      state: data.state,
+      zipCode: data.zip_code,
+      country: data.country,
+      specialization: data.specialization,
+      notes: data.notes,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Contact Operations
+// ============================================================================
+
+const contacts = {
+  async getAll(): Promise<Contact[]> {
+    const { data, error } = await supabaseService
+      .from(TABLES.CONTACTS)
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching contacts:', error);
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async getById(id: string): Promise<Contact | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.CONTACTS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching contact:', error);
+      throwIfTransient(error, 'Error fetching contact');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(contact: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>): Promise<Contact | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.CONTACTS)
+      .insert({
+        name: contact.name,
+        relationship: contact.relationship,
+        phone: contact.phone,
+        email: contact.email,
+        address: contact.address,
+        is_emergency: contact.isEmergency,
+        notes: contact.notes,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating contact:', error);
+      throwIfTransient(error, 'Error creating contact');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<Contact>): Promise<Contact | null> {
+    const { isEmergency, createdAt, updatedAt, ...rest } = updates as any;
+
+    const dbUpdates: any = {
+      ...rest,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (isEmergency !== undefined) dbUpdates.is_emergency = isEmergency;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.CONTACTS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating contact:', error);
+      throwIfTransient(error, 'Error updating contact');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.CONTACTS).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting contact:', error);
+      throwIfTransient(error, 'Error deleting contact');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): Contact {
+    return {
+      id: data.id,
+      name: data.name,
+      relationship: data.relationship,
+      phone: data.phone,
+      email: data.email,
+      address: data.address,
+      isEmergency: data.is_emergency,
+      notes: data.notes,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Nutrition Entry Operations
+// ============================================================================
+
+const nutritionEntries = {
+  async getAll(scope?: CanineScope): Promise<NutritionEntry[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<NutritionEntry>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.NUTRITION_ENTRIES, scope, page, 'date', false);
+
+    if (error) {
+      console.error('Error fetching nutrition entries:', error);
+      throwBackendError(error, 'Error fetching nutrition entries');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+ 
+  async getById(id: string): Promise<NutritionEntry | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.NUTRITION_ENTRIES)
+      .select('*')
+      .eq('id', id)
+      .single();
+ 
+    if (error) {
+      console.error('Error fetching nutrition entry:', error);
+      throwIfTransient(error, 'Error fetching nutrition entry');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+ 
+  async create(entry: Omit<NutritionEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<NutritionEntry | null> {
+    const now = new Date().toISOString();
+ 
+    const { data, error } = await supabaseService
+      .from(TABLES.NUTRITION_ENTRIES)
+      .insert({
+        canine_id: entry.canineId,
+        date: entry.date,
+        food_type: entry.foodType,
+        food_name: entry.foodName,
+        quantity: entry.quantity,
+        unit: entry.unit,
+        calories: entry.calories,
+        add_ons: entry.addOns ?? null,
+        repeat_days: entry.repeatDays ?? 0,
+        actual_date: entry.actualDate ?? null,
+        notes: entry.notes ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+ 
+    if (error) {
+      console.error('Error creating nutrition entry:', error);
+      throwIfTransient(error, 'Error creating nutrition entry');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+ 
+  async update(id: string, updates: Partial<NutritionEntry>): Promise<NutritionEntry | null> {
+    const {
+      canineId,
+      foodType,
+      foodName,
+      quantity,
+      unit,
+      calories,
+      addOns,
+      repeatDays,
+      actualDate,
+      date,
+      notes,
+    } = updates as any;
+ 
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+ 
+    if (canineId !== undefined) dbUpdates.canine_id = canineId;
+    if (date !== undefined) dbUpdates.date = date;
+    if (foodType !== undefined) dbUpdates.food_type = foodType;
+    if (foodName !== undefined) dbUpdates.food_name = foodName;
+    if (quantity !== undefined) dbUpdates.quantity = quantity;
+    if (unit !== undefined) dbUpdates.unit = unit;
+    if (calories !== undefined) dbUpdates.calories = calories;
+    if (addOns !== undefined) dbUpdates.add_ons = addOns ?? null;
+    if (repeatDays !== undefined) dbUpdates.repeat_days = repeatDays ?? 0;
+    if (actualDate !== undefined) dbUpdates.actual_date = actualDate ?? null;
+    if (notes !== undefined) dbUpdates.notes = notes ?? null;
+ 
+    const { data, error } = await supabaseService
+      .from(TABLES.NUTRITION_ENTRIES)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+ 
+    if (error) {
+      console.error('Error updating nutrition entry:', error);
+      throwIfTransient(error, 'Error updating nutrition entry');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+ 
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.NUTRITION_ENTRIES).delete().eq('id', id);
+ 
+    if (error) {
+      console.error('Error deleting nutrition entry:', error);
+      throwIfTransient(error, 'Error deleting nutrition entry');
+      return false;
+    }
+    return true;
+  },
+ 
+  mapFromDb(data: any): NutritionEntry {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      date: data.date,
+      foodType: data.food_type ?? 'Food',
+      foodName: data.food_name ?? '',
+      quantity: typeof data.quantity === 'number' ? data.quantity : Number(data.quantity) || 0,
+      unit: (data.unit ?? 'cups') as NutritionEntry['unit'],
+      calories: typeof data.calories === 'number' ? data.calories : Number(data.calories) || 0,
+      addOns: data.add_ons ?? undefined,
+      repeatDays: typeof data.repeat_days === 'number' ? data.repeat_days : Number(data.repeat_days) || 0,
+      actualDate: data.actual_date ?? undefined,
+      notes: data.notes ?? undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Training Log Operations
+// ============================================================================
+
+const trainingLogs = {
+  async getAll(scope?: CanineScope): Promise<TrainingLog[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<TrainingLog>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.TRAINING_LOGS, scope, page, 'date', false);
+
+    if (error) {
+      console.error('Error fetching training logs:', error);
+      throwBackendError(error, 'Error fetching training logs');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<TrainingLog | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.TRAINING_LOGS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching training log:', error);
+      throwIfTransient(error, 'Error fetching training log');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(log: Omit<TrainingLog, 'id' | 'createdAt' | 'updatedAt'>): Promise<TrainingLog | null> {
+    const now = new Date().toISOString();
+    const { canineId, ...rest } = log;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.TRAINING_LOGS)
+      .insert({
+        canine_id: canineId,
+        date: log.date,
+        skill: log.skill,
+        duration: log.duration,
+        activity: log.activity,
+        success: log.success,
+        notes: log.notes,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating training log:', error);
+      throwIfTransient(error, 'Error creating training log');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<TrainingLog>): Promise<TrainingLog | null> {
+    const { canineId, createdAt, updatedAt, ...rest } = updates as any;
+
+    const dbUpdates: any = {
+      ...rest,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (canineId !== undefined) dbUpdates.canine_id = canineId;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.TRAINING_LOGS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating training log:', error);
+      throwIfTransient(error, 'Error updating training log');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.TRAINING_LOGS).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting training log:', error);
+      throwIfTransient(error, 'Error deleting training log');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): TrainingLog {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      date: data.date,
+      skill: data.skill,
+      duration: data.duration,
+      activity: data.activity,
+      success: data.success,
+      notes: data.notes,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Appointment Operations
+// ============================================================================
+
+const appointments = {
+  async getAll(scope?: CanineScope): Promise<Appointment[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<Appointment>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.APPOINTMENTS, scope, page, 'date', false);
+
+    if (error) {
+      console.error('Error fetching appointments:', error);
+      throwBackendError(error, 'Error fetching appointments');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+ 
+  async getById(id: string): Promise<Appointment | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.APPOINTMENTS)
+      .select('*')
+      .eq('id', id)
+      .single();
+ 
+    if (error) {
+      console.error('Error fetching appointment:', error);
+      throwIfTransient(error, 'Error fetching appointment');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+ 
+  async create(appointment: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>): Promise<Appointment | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.APPOINTMENTS)
+      .insert({
+        canine_id: appointment.canineId,
+        vet_id: appointment.vetId ?? null,
+        vet_visit_id: appointment.vetVisitId ?? null,
+        category: appointment.category,
+        type: appointment.category,
+        title: appointment.title,
+        description: appointment.description ?? null,
+        date: appointment.date,
+        start_time: appointment.startTime,
+        end_time: appointment.endTime,
+        status: appointment.status,
+        notes: appointment.notes ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+ 
+    if (error) {
+      console.error('Error creating appointment:', error);
+      throwIfTransient(error, 'Error creating appointment');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+ 
+  async update(id: string, updates: Partial<Appointment>): Promise<Appointment | null> {
+    const {
+      canineId,
+      vetId,
+      category,
+      title,
+      description,
+      date,
+      startTime,
+      endTime,
+      status,
+      notes,
+    } = updates as any;
+ 
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+ 
+    if (canineId !== undefined) dbUpdates.canine_id = canineId;
+    if (vetId !== undefined) dbUpdates.vet_id = vetId ?? null;
+    // Unlinking from a visit sends vetVisitId as undefined
+    if ('vetVisitId' in updates) dbUpdates.vet_visit_id = updates.vetVisitId ?? null;
+    if (category !== undefined) {
+      dbUpdates.category = category;
+      dbUpdates.type = category;
+    }
+    if (title !== undefined) dbUpdates.title = title;
+    if (description !== undefined) dbUpdates.description = description ?? null;
+    if (date !== undefined) dbUpdates.date = date;
+    if (startTime !== undefined) dbUpdates.start_time = startTime;
+    if (endTime !== undefined) dbUpdates.end_time = endTime;
+    if (status !== undefined) dbUpdates.status = status;
+    if (notes !== undefined) dbUpdates.notes = notes ?? null;
+ 
+    const { data, error } = await supabaseService
+      .from(TABLES.APPOINTMENTS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+ 
+    if (error) {
+      console.error('Error updating appointment:', error);
+      throwIfTransient(error, 'Error updating appointment');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+ 
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.APPOINTMENTS).delete().eq('id', id);
+ 
+    if (error) {
+      console.error('Error deleting appointment:', error);
+      throwIfTransient(error, 'Error deleting appointment');
+      return false;
+    }
+    return true;
+  },
+ 
+  mapFromDb(data: any): Appointment {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      vetId: data.vet_id ?? undefined,
+      vetVisitId: data.vet_visit_id ?? undefined,
+      category: data.category ?? '',
+      title: data.title ?? '',
+      description: data.description ?? undefined,
+      date: data.date,
+      startTime: data.start_time ?? '',
+      endTime: data.end_time ?? '',
+      status: data.status ?? 'Scheduled',
+      notes: data.notes ?? undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Media Item Operations
+// ============================================================================
+
+const mediaItems = {
+  async getAll(scope?: CanineScope): Promise<MediaItem[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<MediaItem>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.MEDIA_ITEMS, scope, page, 'created_at', false);
+
+    if (error) {
+      console.error('Error fetching media items:', error);
+      throwBackendError(error, 'Error fetching media items');
+    }
+
+    // Map all items and refresh URLs asynchronously
+    const items = await Promise.all(data.map((item) => this.mapFromDb(item)));
+    return { items, nextOffset };
+  },
+
+  async getById(id: string): Promise<MediaItem | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDIA_ITEMS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+        if (error) {
+          console.error('Error fetching media item:', error);
+          throwIfTransient(error, 'Error fetching media item');
+          return null;
+        }
+        return data ? await this.mapFromDb(data) : null;
+  },
+
+  async create(media: Omit<MediaItem, 'id' | 'createdAt'>): Promise<MediaItem | null> {
+    const now = new Date().toISOString();
+    const { canineId, thumbnailUri, ...rest } = media;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDIA_ITEMS)
+      .insert({
+        canine_id: canineId,
+        type: media.type,
+        uri: media.uri,
+        thumbnail_uri: thumbnailUri,
+        caption: media.caption,
+        date: media.date,
+        file_size: media.fileSize ?? null,
+        created_at: now,
+      })
+      .select()
+      .single();
+
+        if (error) {
+          console.error('Error creating media item:', error);
+          throwIfTransient(error, 'Error creating media item');
+          return null;
+        }
+        return data ? await this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<MediaItem>): Promise<MediaItem | null> {
+    const { canineId, thumbnailUri, fileSize, createdAt, ...rest } = updates as any;
+
+    const dbUpdates: any = {
+      ...rest,
+    };
+
+    if (canineId !== undefined) dbUpdates.canine_id = canineId;
+    if (thumbnailUri !== undefined) dbUpdates.thumbnail_uri = thumbnailUri;
+    if (fileSize !== undefined) dbUpdates.file_size = fileSize;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDIA_ITEMS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+        if (error) {
+          console.error('Error updating media item:', error);
+          throwIfTransient(error, 'Error updating media item');
+          return null;
+        }
+        return data ? await this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.MEDIA_ITEMS).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting media item:', error);
+      throwIfTransient(error, 'Error deleting media item');
+      return false;
+    }
+    return true;
+  },
+
+      async mapFromDb(data: any): Promise<MediaItem> {
+        // For private buckets, we need to refresh URLs if they're expired or public URLs
+        let uri = data.uri;
+        
+        // If the URI is a Supabase Storage URL and bucket is private, refresh it
+        if (isSupabaseConfigured && uri && uri.includes('supabase.co/storage')) {
+          const filePath = extractFilePathFromUrl(uri);
+          if (filePath) {
+            try {
+              // Get a fresh signed URL (works for private buckets)
+              uri = await getFileUrl(filePath);
+            } catch (error) {
+              console.warn('Failed to refresh media URL, using original:', error);
+              // Keep the original URI if refresh fails
+            }
+          }
+        }
+
+        return {
+          id: data.id,
+          canineId: data.canine_id,
+          type: data.type,
+          uri,
+          thumbnailUri: data.thumbnail_uri,
+          caption: data.caption,
+          date: data.date,
+          fileSize: data.file_size ?? undefined,
+          createdAt: data.created_at,
+        };
+      },
+};
+
+// ============================================================================
+// Medical Record Operations
+// ============================================================================
+
+function mapAttachmentsFromDb(value: any): MedicalAttachment[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value as MedicalAttachment[];
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(parsed) ? (parsed as MedicalAttachment[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function mapAttachmentsToDb(attachments: MedicalAttachment[]): any {
+  return attachments;
+}
+
+const medicalRecords = {
+  async getAll(scope?: CanineScope): Promise<MedicalRecord[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<MedicalRecord>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.MEDICAL_RECORDS, scope, page, 'created_at', false);
+
+    if (error) {
+      console.error('Error fetching medical records:', error);
+      throwBackendError(error, 'Error fetching medical records');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<MedicalRecord | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDICAL_RECORDS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching medical record:', error);
+      throwIfTransient(error, 'Error fetching medical record');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(record: Omit<MedicalRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<MedicalRecord | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDICAL_RECORDS)
+      .insert({
+        canine_id: record.canineId,
+        vet_name: record.vetName,
+        clinic_name: record.clinicName,
+        report_type: record.reportType,
+        report_date: record.reportDate || null,
+        vet_visit_id: record.vetVisitId ?? null,
+        notes: record.notes || null,
+        attachments: mapAttachmentsToDb(record.attachments),
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating medical record:', error);
+      throwIfTransient(error, 'Error creating medical record');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<MedicalRecord>): Promise<MedicalRecord | null> {
+    const {
+      canineId,
+      vetName,
+      clinicName,
+      reportType,
+      reportDate,
+      notes,
+      attachments,
+      createdAt,
+      updatedAt,
+    } = updates as any;
+
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (canineId !== undefined) dbUpdates.canine_id = canineId;
+    if (vetName !== undefined) dbUpdates.vet_name = vetName;
+    if (clinicName !== undefined) dbUpdates.clinic_name = clinicName;
+    if (reportType !== undefined) dbUpdates.report_type = reportType;
+    if (reportDate !== undefined) dbUpdates.report_date = reportDate;
+    if ('vetVisitId' in updates) dbUpdates.vet_visit_id = updates.vetVisitId ?? null;
+    if (notes !== undefined) dbUpdates.notes = notes;
+    if (attachments !== undefined) dbUpdates.attachments = mapAttachmentsToDb(attachments);
+
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDICAL_RECORDS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating medical record:', error);
+      throwIfTransient(error, 'Error updating medical record');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.MEDICAL_RECORDS).delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting medical record:', error);
+      throwIfTransient(error, 'Error deleting medical record');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): MedicalRecord {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      vetName: data.vet_name,
+      clinicName: data.clinic_name,
+      reportType: data.report_type,
+      reportDate: data.report_date || undefined,
+      vetVisitId: data.vet_visit_id ?? undefined,
+      notes: data.notes || undefined,
+      attachments: mapAttachmentsFromDb(data.attachments),
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Lab Result Operations
+// ============================================================================
+
+const labResults = {
+  async getAll(scope?: CanineScope): Promise<LabResult[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<LabResult>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.LAB_RESULTS, scope, page, 'created_at', true);
+
+    if (error) {
+      console.error('Error fetching lab results:', error);
+      throwBackendError(error, 'Error fetching lab results');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<LabResult | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.LAB_RESULTS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching lab result:', error);
+      throwIfTransient(error, 'Error fetching lab result');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(result: Omit<LabResult, 'id' | 'createdAt' | 'updatedAt'>): Promise<LabResult | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.LAB_RESULTS)
+      .insert({
+        canine_id: result.canineId,
+        medical_record_id: result.medicalRecordId,
+        panel: result.panel || null,
+        analyte: result.analyte,
+        value: result.value,
+        unit: result.unit,
+        reference_low: result.referenceLow ?? null,
+        reference_high: result.referenceHigh ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating lab result:', error);
+      throwIfTransient(error, 'Error creating lab result');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<LabResult>): Promise<LabResult | null> {
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.canineId !== undefined) dbUpdates.canine_id = updates.canineId;
+    if (updates.medicalRecordId !== undefined) dbUpdates.medical_record_id = updates.medicalRecordId;
+    if (updates.panel !== undefined) dbUpdates.panel = updates.panel || null;
+    if (updates.analyte !== undefined) dbUpdates.analyte = updates.analyte;
+    if (updates.value !== undefined) dbUpdates.value = updates.value;
+    if (updates.unit !== undefined) dbUpdates.unit = updates.unit;
+    if ('referenceLow' in updates) dbUpdates.reference_low = updates.referenceLow ?? null;
+    if ('referenceHigh' in updates) dbUpdates.reference_high = updates.referenceHigh ?? null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.LAB_RESULTS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating lab result:', error);
+      throwIfTransient(error, 'Error updating lab result');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.LAB_RESULTS).delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting lab result:', error);
+      throwIfTransient(error, 'Error deleting lab result');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): LabResult {
+    const toLimit = (value: unknown) => (value === null || value === undefined ? undefined : Number(value));
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      medicalRecordId: data.medical_record_id,
+      panel: data.panel || undefined,
+      analyte: data.analyte,
+      value: Number(data.value) || 0,
+      unit: data.unit || '',
+      referenceLow: toLimit(data.reference_low),
+      referenceHigh: toLimit(data.reference_high),
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+const medications = {
+  async getAll(scope?: CanineScope): Promise<MedicationEntry[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<MedicationEntry>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.MEDICATIONS, scope, page, 'created_at', false);
+
+    if (error) {
+      console.error('Error fetching medications:', error);
+      throwBackendError(error, 'Error fetching medications');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<MedicationEntry | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDICATIONS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching medication entry:', error);
+      throwIfTransient(error, 'Error fetching medication entry');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(entry: Omit<MedicationEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<MedicationEntry | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDICATIONS)
+      .insert({
+        canine_id: entry.canineId,
+        vet_id: entry.vetId ?? null,
+        vet_visit_id: entry.vetVisitId ?? null,
+        vet_name: entry.vetName,
+        medication_name: entry.medicationName,
+        reason: entry.reason,
+        description: entry.description ?? null,
+        quantity: entry.quantity,
+        dosage_unit: entry.dosageUnit,
+        frequency: entry.frequency,
+        start_date: entry.startDate,
+        start_time: entry.startTime ?? null,
+        end_date: entry.endDate ?? null,
+        notes: entry.notes ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating medication entry:', error);
+      throwIfTransient(error, 'Error creating medication entry');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<MedicationEntry>): Promise<MedicationEntry | null> {
+    const {
+      canineId,
+      vetId,
+      vetName,
+      medicationName,
+      reason,
+      description,
+      quantity,
+      dosageUnit,
+      frequency,
+      startDate,
+      startTime,
+      endDate,
+      notes,
+    } = updates as any;
+
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (canineId !== undefined) dbUpdates.canine_id = canineId;
+    if (vetId !== undefined) dbUpdates.vet_id = vetId ?? null;
+    if ('vetVisitId' in updates) dbUpdates.vet_visit_id = updates.vetVisitId ?? null;
+    if (vetName !== undefined) dbUpdates.vet_name = vetName;
+    if (medicationName !== undefined) dbUpdates.medication_name = medicationName;
+    if (reason !== undefined) dbUpdates.reason = reason;
+    if (description !== undefined) dbUpdates.description = description ?? null;
+    if (quantity !== undefined) dbUpdates.quantity = quantity;
+    if (dosageUnit !== undefined) dbUpdates.dosage_unit = dosageUnit;
+    if (frequency !== undefined) dbUpdates.frequency = frequency;
+    if (startDate !== undefined) dbUpdates.start_date = startDate;
+    if (startTime !== undefined) dbUpdates.start_time = startTime ?? null;
+    if (endDate !== undefined) dbUpdates.end_date = endDate ?? null;
+    if (notes !== undefined) dbUpdates.notes = notes ?? null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDICATIONS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating medication entry:', error);
+      throwIfTransient(error, 'Error updating medication entry');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.MEDICATIONS).delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting medication entry:', error);
+      throwIfTransient(error, 'Error deleting medication entry');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): MedicationEntry {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      vetId: data.vet_id ?? undefined,
+      vetVisitId: data.vet_visit_id ?? undefined,
+      vetName: data.vet_name,
+      medicationName: data.medication_name,
+      reason: data.reason ?? '',
+      description: data.description ?? undefined,
+      quantity: typeof data.quantity === 'number' ? data.quantity : Number(data.quantity) || 0,
+      dosageUnit: data.dosage_unit ?? '',
+      frequency: data.frequency ?? '',
+      startDate: data.start_date,
+      startTime: data.start_time ?? undefined,
+      endDate: data.end_date ?? undefined,
+      notes: data.notes ?? undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Medication Dose Log Operations
+// ============================================================================
+
+const medicationDoseLogs = {
+  async getAll(scope?: CanineScope): Promise<MedicationDoseLog[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<MedicationDoseLog>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.MEDICATION_DOSE_LOGS, scope, page, 'scheduled_at', false);
+
+    if (error) {
+      console.error('Error fetching medication dose logs:', error);
+      throwBackendError(error, 'Error fetching medication dose logs');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<MedicationDoseLog | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDICATION_DOSE_LOGS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching medication dose log:', error);
+      throwIfTransient(error, 'Error fetching medication dose log');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(log: Omit<MedicationDoseLog, 'id' | 'createdAt' | 'updatedAt'>): Promise<MedicationDoseLog | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDICATION_DOSE_LOGS)
+      .insert({
+        canine_id: log.canineId,
+        medication_id: log.medicationId,
+        scheduled_at: log.scheduledAt,
+        status: log.status,
+        logged_by: log.loggedBy || null,
+        logged_by_name: log.loggedByName,
+        notes: log.notes || null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating medication dose log:', error);
+      throwIfTransient(error, 'Error creating medication dose log');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<MedicationDoseLog>): Promise<MedicationDoseLog | null> {
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.canineId !== undefined) dbUpdates.canine_id = updates.canineId;
+    if (updates.medicationId !== undefined) dbUpdates.medication_id = updates.medicationId;
+    if (updates.scheduledAt !== undefined) dbUpdates.scheduled_at = updates.scheduledAt;
+    if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.loggedBy !== undefined) dbUpdates.logged_by = updates.loggedBy || null;
+    if (updates.loggedByName !== undefined) dbUpdates.logged_by_name = updates.loggedByName;
+    if (updates.notes !== undefined) dbUpdates.notes = updates.notes || null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.MEDICATION_DOSE_LOGS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating medication dose log:', error);
+      throwIfTransient(error, 'Error updating medication dose log');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.MEDICATION_DOSE_LOGS).delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting medication dose log:', error);
+      throwIfTransient(error, 'Error deleting medication dose log');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): MedicationDoseLog {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      medicationId: data.medication_id,
+      scheduledAt: data.scheduled_at,
+      status: (data.status as MedicationDoseStatus) || 'given',
+      loggedBy: data.logged_by || undefined,
+      loggedByName: data.logged_by_name ?? '',
+      notes: data.notes || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Weight Measurement Operations
+// ============================================================================
+
+const weightMeasurements = {
+  async getAll(scope?: CanineScope): Promise<WeightMeasurement[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<WeightMeasurement>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.WEIGHT_MEASUREMENTS, scope, page, 'date', false);
+
+    if (error) {
+      console.error('Error fetching weight measurements:', error);
+      throwBackendError(error, 'Error fetching weight measurements');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<WeightMeasurement | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.WEIGHT_MEASUREMENTS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching weight measurement:', error);
+      throwIfTransient(error, 'Error fetching weight measurement');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(measurement: Omit<WeightMeasurement, 'id' | 'createdAt' | 'updatedAt'>): Promise<WeightMeasurement | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.WEIGHT_MEASUREMENTS)
+      .insert({
+        canine_id: measurement.canineId,
+        date: measurement.date,
+        value: measurement.value,
+        unit: measurement.unit,
+        body_condition_score: measurement.bodyConditionScore ?? null,
+        notes: measurement.notes || null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating weight measurement:', error);
+      throwIfTransient(error, 'Error creating weight measurement');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<WeightMeasurement>): Promise<WeightMeasurement | null> {
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.canineId !== undefined) dbUpdates.canine_id = updates.canineId;
+    if (updates.date !== undefined) dbUpdates.date = updates.date;
+    if (updates.value !== undefined) dbUpdates.value = updates.value;
+    if (updates.unit !== undefined) dbUpdates.unit = updates.unit;
+    if ('bodyConditionScore' in updates) dbUpdates.body_condition_score = updates.bodyConditionScore ?? null;
+    if (updates.notes !== undefined) dbUpdates.notes = updates.notes || null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.WEIGHT_MEASUREMENTS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating weight measurement:', error);
+      throwIfTransient(error, 'Error updating weight measurement');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.WEIGHT_MEASUREMENTS).delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting weight measurement:', error);
+      throwIfTransient(error, 'Error deleting weight measurement');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): WeightMeasurement {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      date: data.date,
+      value: Number(data.value) || 0,
+      unit: (data.unit as WeightUnit) || 'kg',
+      bodyConditionScore: data.body_condition_score ?? undefined,
+      notes: data.notes || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+const vetVisits = {
+  async getAll(scope?: CanineScope): Promise<VetVisit[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<VetVisit>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.VET_VISITS, scope, page, 'visit_date', false);
+
+    if (error) {
+      console.error('Error fetching vet visits:', error);
+      throwBackendError(error, 'Error fetching vet visits');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<VetVisit | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_VISITS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching vet visit:', error);
+      throwIfTransient(error, 'Error fetching vet visit');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(visit: Omit<VetVisit, 'id' | 'createdAt' | 'updatedAt'>): Promise<VetVisit | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_VISITS)
+      .insert({
+        canine_id: visit.canineId,
+        vet_id: visit.vetId ?? null,
+        vet_name: visit.vetName,
+        reason: visit.reason,
+        end_results: visit.endResults,
+        visit_date: visit.visitDate,
+        notes: visit.notes ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating vet visit:', error);
+      throwIfTransient(error, 'Error creating vet visit');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<VetVisit>): Promise<VetVisit | null> {
+    const { canineId, vetId, vetName, reason, endResults, visitDate, notes } = updates as any;
+
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (canineId !== undefined) dbUpdates.canine_id = canineId;
+    if (vetId !== undefined) dbUpdates.vet_id = vetId ?? null;
+    if (vetName !== undefined) dbUpdates.vet_name = vetName;
+    if (reason !== undefined) dbUpdates.reason = reason;
+    if (endResults !== undefined) dbUpdates.end_results = endResults;
+    if (visitDate !== undefined) dbUpdates.visit_date = visitDate;
+    if (notes !== undefined) dbUpdates.notes = notes ?? null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_VISITS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating vet visit:', error);
+      throwIfTransient(error, 'Error updating vet visit');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.VET_VISITS).delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting vet visit:', error);
+      throwIfTransient(error, 'Error deleting vet visit');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): VetVisit {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      vetId: data.vet_id ?? undefined,
+      vetName: data.vet_name,
+      reason: data.reason,
+      endResults: data.end_results,
+      visitDate: data.visit_date,
+      notes: data.notes ?? undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+const immunizations = {
+  async getAll(scope?: CanineScope): Promise<ImmunizationRecord[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<ImmunizationRecord>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.IMMUNIZATIONS, scope, page, 'immunization_date', false);
+
+    if (error) {
+      console.error('Error fetching immunizations:', error);
+      throwBackendError(error, 'Error fetching immunizations');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<ImmunizationRecord | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.IMMUNIZATIONS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching immunization record:', error);
+      throwIfTransient(error, 'Error fetching immunization record');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(record: Omit<ImmunizationRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<ImmunizationRecord | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.IMMUNIZATIONS)
+      .insert({
+        canine_id: record.canineId,
+        vet_id: record.vetId ?? null,
+        vet_name: record.vetName,
+        vaccine_name: record.vaccineName,
+        age_years: record.ageYears,
+        age_months: record.ageMonths,
+        immunization_date: record.immunizationDate,
+        last_vaccinated_date: record.lastVaccinatedDate,
+        notes: record.notes ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating immunization record:', error);
+      throwIfTransient(error, 'Error creating immunization record');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<ImmunizationRecord>): Promise<ImmunizationRecord | null> {
+    const {
+      canineId,
+      vetId,
+      vetName,
+      vaccineName,
+      ageYears,
+      ageMonths,
+      immunizationDate,
+      lastVaccinatedDate,
+      notes,
+    } = updates as any;
+
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (canineId !== undefined) dbUpdates.canine_id = canineId;
+    if (vetId !== undefined) dbUpdates.vet_id = vetId ?? null;
+    if (vetName !== undefined) dbUpdates.vet_name = vetName;
+    if (vaccineName !== undefined) dbUpdates.vaccine_name = vaccineName;
+    if (ageYears !== undefined) dbUpdates.age_years = ageYears;
+    if (ageMonths !== undefined) dbUpdates.age_months = ageMonths;
+    if (immunizationDate !== undefined) dbUpdates.immunization_date = immunizationDate;
+    if (lastVaccinatedDate !== undefined) dbUpdates.last_vaccinated_date = lastVaccinatedDate;
+    if (notes !== undefined) dbUpdates.notes = notes ?? null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.IMMUNIZATIONS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating immunization record:', error);
+      throwIfTransient(error, 'Error updating immunization record');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.IMMUNIZATIONS).delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting immunization record:', error);
+      throwIfTransient(error, 'Error deleting immunization record');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): ImmunizationRecord {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      vetId: data.vet_id ?? undefined,
+      vetName: data.vet_name,
+      vaccineName: data.vaccine_name,
+      ageYears: Number(data.age_years) || 0,
+      ageMonths: Number(data.age_months) || 0,
+      immunizationDate: data.immunization_date,
+      lastVaccinatedDate: data.last_vaccinated_date,
+      notes: data.notes ?? undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+const canineAllergies = {
+  async getAll(scope?: CanineScope): Promise<CanineAllergy[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<CanineAllergy>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.CANINE_ALLERGIES, scope, page, 'food_type', true);
+
+    if (error) {
+      console.error('Error fetching canine allergies:', error);
+      throwBackendError(error, 'Error fetching canine allergies');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<CanineAllergy | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.CANINE_ALLERGIES)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching canine allergy:', error);
+      throwIfTransient(error, 'Error fetching canine allergy');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(allergy: Omit<CanineAllergy, 'id' | 'createdAt' | 'updatedAt'>): Promise<CanineAllergy | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.CANINE_ALLERGIES)
+      .insert({
+        canine_id: allergy.canineId,
+        food_type: allergy.foodType,
+        name: allergy.name,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating canine allergy:', error);
+      throwIfTransient(error, 'Error creating canine allergy');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<CanineAllergy>): Promise<CanineAllergy | null> {
+    const { canineId, foodType, name } = updates as any;
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (canineId !== undefined) dbUpdates.canine_id = canineId;
+    if (foodType !== undefined) dbUpdates.food_type = foodType;
+    if (name !== undefined) dbUpdates.name = name;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.CANINE_ALLERGIES)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating canine allergy:', error);
+      throwIfTransient(error, 'Error updating canine allergy');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.CANINE_ALLERGIES).delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting canine allergy:', error);
+      throwIfTransient(error, 'Error deleting canine allergy');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): CanineAllergy {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      foodType: data.food_type ?? 'Food',
+      name: data.name ?? '',
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Walk Log Operations
+// ============================================================================
+
+const walkLogs = {
+  async getAll(scope?: CanineScope): Promise<WalkLog[]> {
+    return collectPages((page) => this.getPage(scope, page));
+  },
+
+  async getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<WalkLog>> {
+    const { data, nextOffset, error } = await queryCanineScopedPage(TABLES.WALK_LOGS, scope, page, 'created_at', false);
+
+    if (error) {
+      console.error('Error fetching walk logs:', error);
+      throwBackendError(error, 'Error fetching walk logs');
+    }
+    return { items: data.map(this.mapFromDb), nextOffset };
+  },
+
+  async getById(id: string): Promise<WalkLog | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.WALK_LOGS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching walk log:', error);
+      throwIfTransient(error, 'Error fetching walk log');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(walk: Omit<WalkLog, 'id' | 'createdAt' | 'updatedAt'>): Promise<WalkLog | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.WALK_LOGS)
+      .insert({
+        canine_id: walk.canineId,
+        walker_user_id: walk.walkerUserId || null,
+        walker_name: walk.walkerName,
+        status: walk.status,
+        scheduled_at: walk.scheduledAt || null,
+        checked_in_at: walk.checkedInAt || null,
+        checked_out_at: walk.checkedOutAt || null,
+        duration_minutes: walk.durationMinutes ?? null,
+        notes: walk.notes || null,
+        photo_urls: walk.photoUrls ?? [],
+        bathroom_events: walk.bathroomEvents ?? [],
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating walk log:', error);
+      throwIfTransient(error, 'Error creating walk log');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<WalkLog>): Promise<WalkLog | null> {
+    const dbUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.canineId !== undefined) dbUpdates.canine_id = updates.canineId;
+    if (updates.walkerUserId !== undefined) dbUpdates.walker_user_id = updates.walkerUserId || null;
+    if (updates.walkerName !== undefined) dbUpdates.walker_name = updates.walkerName;
+    if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.scheduledAt !== undefined) dbUpdates.scheduled_at = updates.scheduledAt || null;
+    if (updates.checkedInAt !== undefined) dbUpdates.checked_in_at = updates.checkedInAt || null;
+    if (updates.checkedOutAt !== undefined) dbUpdates.checked_out_at = updates.checkedOutAt || null;
+    if (updates.durationMinutes !== undefined) dbUpdates.duration_minutes = updates.durationMinutes;
+    if (updates.notes !== undefined) dbUpdates.notes = updates.notes || null;
+    if (updates.photoUrls !== undefined) dbUpdates.photo_urls = updates.photoUrls;
+    if (updates.bathroomEvents !== undefined) dbUpdates.bathroom_events = updates.bathroomEvents;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.WALK_LOGS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating walk log:', error);
+      throwIfTransient(error, 'Error updating walk log');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.WALK_LOGS).delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting walk log:', error);
+      throwIfTransient(error, 'Error deleting walk log');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): WalkLog {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      walkerUserId: data.walker_user_id || undefined,
+      walkerName: data.walker_name ?? '',
+      status: (data.status as WalkStatus) || 'scheduled',
+      scheduledAt: data.scheduled_at || undefined,
+      checkedInAt: data.checked_in_at || undefined,
+      checkedOutAt: data.checked_out_at || undefined,
+      durationMinutes: data.duration_minutes ?? undefined,
+      notes: data.notes || undefined,
+      photoUrls: Array.isArray(data.photo_urls) ? data.photo_urls : [],
+      bathroomEvents: Array.isArray(data.bathroom_events) ? data.bathroom_events : [],
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// User Session Operations
+// ============================================================================
+
+const sessions = {
+  async create(session: Omit<UserSession, 'id' | 'createdAt' | 'updatedAt'>): Promise<UserSession | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_SESSIONS)
+      .insert({
+        user_id: session.userId,
+        token_hash: session.tokenHash,
+        expires_at: session.expiresAt,
+        last_refreshed_at: session.lastRefreshedAt || null,
+        revoked_at: session.revokedAt || null,
+        device_label: session.deviceLabel || null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating user session:', error);
+      throwIfTransient(error, 'Error creating user session');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getByTokenHash(tokenHash: string): Promise<UserSession | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_SESSIONS)
+      .select('*')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching user session:', error);
+      // Callers need to tell "session gone" apart from "server unreachable"
+      throwIfTransient(error, 'Error fetching user session');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getActiveByUser(userId: string): Promise<UserSession[]> {
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_SESSIONS)
+      .select('*')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching active sessions:', error);
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async update(id: string, updates: Partial<UserSession>): Promise<UserSession | null> {
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.tokenHash !== undefined) dbUpdates.token_hash = updates.tokenHash;
+    if (updates.expiresAt !== undefined) dbUpdates.expires_at = updates.expiresAt;
+    if (updates.lastRefreshedAt !== undefined) dbUpdates.last_refreshed_at = updates.lastRefreshedAt;
+    if (updates.revokedAt !== undefined) dbUpdates.revoked_at = updates.revokedAt;
+    if (updates.deviceLabel !== undefined) dbUpdates.device_label = updates.deviceLabel || null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_SESSIONS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating user session:', error);
+      throwIfTransient(error, 'Error updating user session');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async revokeAllForUser(userId: string): Promise<number | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.USER_SESSIONS)
+      .update({ revoked_at: now, updated_at: now })
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('Error revoking user sessions:', error);
+      throwIfTransient(error, 'Error revoking user sessions');
+      return null;
+    }
+    return data ? data.length : 0;
+  },
+
+  mapFromDb(data: any): UserSession {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      tokenHash: data.token_hash,
+      expiresAt: data.expires_at,
+      lastRefreshedAt: data.last_refreshed_at || undefined,
+      revokedAt: data.revoked_at || undefined,
+      deviceLabel: data.device_label || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Password Reset Operations
+// ============================================================================
+
+// Every column except code_hash, which is only compared inside checkLatestCode
+const PASSWORD_RESET_COLUMNS = 'id, user_id, expires_at, used_at, failed_attempts, created_at, updated_at';
+
+// Attempts before giving up when concurrent guesses keep changing the code
+const RESET_CHECK_ATTEMPTS = 3;
+
+const passwordResets = {
+  async create(code: Omit<PasswordResetCode, 'id' | 'createdAt' | 'updatedAt'>): Promise<PasswordResetRequest | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.PASSWORD_RESET_CODES)
+      .insert({
+        user_id: code.userId,
+        code_hash: code.codeHash,
+        expires_at: code.expiresAt,
+        used_at: code.usedAt || null,
+        failed_attempts: code.failedAttempts,
+        created_at: now,
+        updated_at: now,
+      })
+      .select(PASSWORD_RESET_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating password reset code:', error);
+      throwIfTransient(error, 'Error creating password reset code');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getRecentForUser(userId: string, since: string): Promise<PasswordResetRequest[]> {
+    const { data, error } = await supabaseService
+      .from(TABLES.PASSWORD_RESET_CODES)
+      .select(PASSWORD_RESET_COLUMNS)
+      .eq('user_id', userId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching password reset codes:', error);
+      throwIfTransient(error, 'Error fetching password reset codes');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  /**
+   * Use up or count a guess against the latest code if it hasn't changed since it was read
+   * A concurrent guess makes the conditional update match no rows, so read again and retry.
+   */
+  async checkLatestCode(userId: string, codeHash: string, maxFailedAttempts: number): Promise<PasswordResetCheck> {
+    for (let attempt = 0; attempt < RESET_CHECK_ATTEMPTS; attempt++) {
+      const { data: latest, error } = await supabaseService
+        .from(TABLES.PASSWORD_RESET_CODES)
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error checking password reset code:', error);
+        throwIfTransient(error, 'Error checking password reset code');
+        return { status: 'invalid' };
+      }
+
+      const previousAttempts: number = latest?.failed_attempts ?? 0;
+      if (
+        !latest ||
+        latest.used_at ||
+        new Date(latest.expires_at).getTime() <= Date.now() ||
+        previousAttempts >= maxFailedAttempts
+      ) {
+        return { status: 'invalid' };
+      }
+
+      const matches = latest.code_hash === codeHash;
+      const now = new Date().toISOString();
+      const { data, error: updateError } = await supabaseService
+        .from(TABLES.PASSWORD_RESET_CODES)
+        .update(matches ? { used_at: now, updated_at: now } : { failed_attempts: previousAttempts + 1, updated_at: now })
+        .eq('id', latest.id)
+        .eq('failed_attempts', previousAttempts)
+        .is('used_at', null)
+        .select('id')
+        .maybeSingle();
+
+      if (updateError) {
+        console.error('Error checking password reset code:', updateError);
+        throwIfTransient(updateError, 'Error checking password reset code');
+        return { status: 'invalid' };
+      }
+      if (data) {
+        return matches ? { status: 'accepted' } : { status: 'incorrect', failedAttempts: previousAttempts + 1 };
+      }
+    }
+
+    console.warn('⚠️ Password reset code is being checked concurrently; giving up');
+    return { status: 'invalid' };
+  },
+
+  mapFromDb(data: any): PasswordResetRequest {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      expiresAt: data.expires_at,
+      usedAt: data.used_at || undefined,
+      failedAttempts: data.failed_attempts ?? 0,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Two-Factor Credential Operations
+// ============================================================================
+
+const twoFactorCredentials = {
+  async getForUser(userId: string): Promise<TwoFactorCredential | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.TWO_FACTOR_CREDENTIALS)
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching two-factor credential:', error);
+      // Treating an outage as "no second factor" would let logins skip it
+      throwIfTransient(error, 'Error fetching two-factor credential');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(credential: Omit<TwoFactorCredential, 'id' | 'createdAt' | 'updatedAt'>): Promise<TwoFactorCredential | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.TWO_FACTOR_CREDENTIALS)
+      .insert({
+        user_id: credential.userId,
+        secret: credential.secret,
+        backup_code_hashes: credential.backupCodeHashes,
+        enabled_at: credential.enabledAt || null,
+        last_used_step: credential.lastUsedStep ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating two-factor credential:', error);
+      throwIfTransient(error, 'Error creating two-factor credential');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | null> {
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.secret !== undefined) dbUpdates.secret = updates.secret;
+    if (updates.backupCodeHashes !== undefined) dbUpdates.backup_code_hashes = updates.backupCodeHashes;
+    if (updates.enabledAt !== undefined) dbUpdates.enabled_at = updates.enabledAt || null;
+    if (updates.lastUsedStep !== undefined) dbUpdates.last_used_step = updates.lastUsedStep;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.TWO_FACTOR_CREDENTIALS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating two-factor credential:', error);
+      throwIfTransient(error, 'Error updating two-factor credential');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService
+      .from(TABLES.TWO_FACTOR_CREDENTIALS)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting two-factor credential:', error);
+      throwIfTransient(error, 'Error deleting two-factor credential');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): TwoFactorCredential {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      secret: data.secret,
+      backupCodeHashes: data.backup_code_hashes || [],
+      enabledAt: data.enabled_at || undefined,
+      lastUsedStep: data.last_used_step ?? undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Activation Code Operations
+// ============================================================================
+
+// Attempts before giving up when concurrent signups keep changing the count
+const REDEEM_ATTEMPTS = 3;
+
+const activationCodes = {
+  async getAll(): Promise<ActivationCode[]> {
+    const { data, error } = await supabaseService
+      .from(TABLES.ACTIVATION_CODES)
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching activation codes:', error);
+      throwIfTransient(error, 'Error fetching activation codes');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async getById(id: string): Promise<ActivationCode | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.ACTIVATION_CODES)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching activation code:', error);
+      throwIfTransient(error, 'Error fetching activation code');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getByCode(code: string): Promise<ActivationCode | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.ACTIVATION_CODES)
+      .select('*')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching activation code:', error);
+      throwIfTransient(error, 'Error fetching activation code');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(code: Omit<ActivationCode, 'id' | 'createdAt' | 'updatedAt'>): Promise<ActivationCode | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.ACTIVATION_CODES)
+      .insert({
+        code: code.code,
+        tier: code.tier,
+        allowed_roles: code.allowedRoles,
+        description: code.description || null,
+        expires_at: code.expiresAt || null,
+        max_redemptions: code.maxRedemptions ?? null,
+        redemption_count: code.redemptionCount ?? 0,
+        is_active: code.isActive,
+        created_by: code.createdBy || null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating activation code:', error);
+      throwIfTransient(error, 'Error creating activation code');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<ActivationCode>): Promise<ActivationCode | null> {
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.tier !== undefined) dbUpdates.tier = updates.tier;
+    if (updates.allowedRoles !== undefined) dbUpdates.allowed_roles = updates.allowedRoles;
+    if (updates.description !== undefined) dbUpdates.description = updates.description || null;
+    if (updates.expiresAt !== undefined) dbUpdates.expires_at = updates.expiresAt || null;
+    if (updates.maxRedemptions !== undefined) dbUpdates.max_redemptions = updates.maxRedemptions;
+    if (updates.isActive !== undefined) dbUpdates.is_active = updates.isActive;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.ACTIVATION_CODES)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating activation code:', error);
+      throwIfTransient(error, 'Error updating activation code');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.ACTIVATION_CODES).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting activation code:', error);
+      throwIfTransient(error, 'Error deleting activation code');
+      return false;
+    }
+    return true;
+  },
+
+  /**
+   * Increment the redemption count if it hasn't changed since it was read
+   * A concurrent signup makes the conditional update match no rows, so read again and retry.
+   */
+  async redeem(id: string): Promise<ActivationCode | null> {
+    for (let attempt = 0; attempt < REDEEM_ATTEMPTS; attempt++) {
+      const current = await this.getById(id);
+      if (!current || (current.maxRedemptions != null && current.redemptionCount >= current.maxRedemptions)) {
+        return null;
+      }
+
+      const { data, error } = await supabaseService
+        .from(TABLES.ACTIVATION_CODES)
+        .update({ redemption_count: current.redemptionCount + 1, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('redemption_count', current.redemptionCount)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error redeeming activation code:', error);
+        throwIfTransient(error, 'Error redeeming activation code');
+        return null;
+      }
+      if (data) {
+        return this.mapFromDb(data);
+      }
+    }
+
+    console.warn('⚠️ Activation code is being redeemed concurrently; giving up');
+    return null;
+  },
+
+  /**
+   * Decrement the redemption count if it hasn't changed since it was read
+   */
+  async release(id: string): Promise<boolean> {
+    for (let attempt = 0; attempt < REDEEM_ATTEMPTS; attempt++) {
+      const current = await this.getById(id);
+      if (!current || current.redemptionCount <= 0) {
+        return false;
+      }
+
+      const { data, error } = await supabaseService
+        .from(TABLES.ACTIVATION_CODES)
+        .update({ redemption_count: current.redemptionCount - 1, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('redemption_count', current.redemptionCount)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error releasing activation code:', error);
+        throwIfTransient(error, 'Error releasing activation code');
+        return false;
+      }
+      if (data) {
+        return true;
+      }
+    }
+
+    console.warn('⚠️ Activation code is being redeemed concurrently; could not release it');
+    return false;
+  },
+
+  mapFromDb(data: any): ActivationCode {
+    return {
+      id: data.id,
+      code: data.code,
+      tier: (data.tier as SubscriptionTier) || 'Free',
+      allowedRoles: (data.allowed_roles as UserRole[]) || [],
+      description: data.description || undefined,
+      expiresAt: data.expires_at || undefined,
+      maxRedemptions: data.max_redemptions ?? undefined,
+      redemptionCount: data.redemption_count ?? 0,
+      isActive: data.is_active ?? true,
+      createdBy: data.created_by || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Vet Access Grant Operations
+// ============================================================================
+
+const vetAccessGrants = {
+  async getById(id: string): Promise<VetAccessGrant | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_ACCESS_GRANTS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching vet access grant:', error);
+      throwIfTransient(error, 'Error fetching vet access grant');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(grant: Omit<VetAccessGrant, 'id' | 'createdAt' | 'updatedAt'>): Promise<VetAccessGrant | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_ACCESS_GRANTS)
+      .insert({
+        canine_id: grant.canineId,
+        vet_user_id: grant.vetUserId,
+        vet_name: grant.vetName,
+        vet_email: grant.vetEmail,
+        granted_by: grant.grantedBy,
+        revoked_at: grant.revokedAt || null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating vet access grant:', error);
+      throwIfTransient(error, 'Error creating vet access grant');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getForCanines(canineIds: string[]): Promise<VetAccessGrant[]> {
+    if (canineIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_ACCESS_GRANTS)
+      .select('*')
+      .in('canine_id', canineIds)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching vet access grants:', error);
+      throwIfTransient(error, 'Error fetching vet access grants');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async getActiveForVet(vetUserId: string): Promise<VetAccessGrant[]> {
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_ACCESS_GRANTS)
+      .select('*')
+      .eq('vet_user_id', vetUserId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching vet access grants:', error);
+      throwIfTransient(error, 'Error fetching vet access grants');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async update(id: string, updates: Partial<VetAccessGrant>): Promise<VetAccessGrant | null> {
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.vetName !== undefined) dbUpdates.vet_name = updates.vetName;
+    if (updates.vetEmail !== undefined) dbUpdates.vet_email = updates.vetEmail;
+    if (updates.revokedAt !== undefined) dbUpdates.revoked_at = updates.revokedAt || null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.VET_ACCESS_GRANTS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating vet access grant:', error);
+      throwIfTransient(error, 'Error updating vet access grant');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  mapFromDb(data: any): VetAccessGrant {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      vetUserId: data.vet_user_id,
+      vetName: data.vet_name,
+      vetEmail: data.vet_email,
+      grantedBy: data.granted_by,
+      revokedAt: data.revoked_at || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Walker Assignment Operations
+// ============================================================================
+
+const walkerAssignments = {
+  async getById(id: string): Promise<WalkerAssignment | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.WALKER_ASSIGNMENTS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching walker assignment:', error);
+      throwIfTransient(error, 'Error fetching walker assignment');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(assignment: Omit<WalkerAssignment, 'id' | 'createdAt' | 'updatedAt'>): Promise<WalkerAssignment | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.WALKER_ASSIGNMENTS)
+      .insert({
+        canine_id: assignment.canineId,
+        walker_user_id: assignment.walkerUserId,
+        walker_name: assignment.walkerName,
+        walker_email: assignment.walkerEmail,
+        assigned_by: assignment.assignedBy,
+        revoked_at: assignment.revokedAt || null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating walker assignment:', error);
+      throwIfTransient(error, 'Error creating walker assignment');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getForCanines(canineIds: string[]): Promise<WalkerAssignment[]> {
+    if (canineIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabaseService
+      .from(TABLES.WALKER_ASSIGNMENTS)
+      .select('*')
+      .in('canine_id', canineIds)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching walker assignments:', error);
+      throwIfTransient(error, 'Error fetching walker assignments');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async getActiveForWalker(walkerUserId: string): Promise<WalkerAssignment[]> {
+    const { data, error } = await supabaseService
+      .from(TABLES.WALKER_ASSIGNMENTS)
+      .select('*')
+      .eq('walker_user_id', walkerUserId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching walker assignments:', error);
+      throwIfTransient(error, 'Error fetching walker assignments');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async update(id: string, updates: Partial<WalkerAssignment>): Promise<WalkerAssignment | null> {
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.walkerName !== undefined) dbUpdates.walker_name = updates.walkerName;
+    if (updates.walkerEmail !== undefined) dbUpdates.walker_email = updates.walkerEmail;
+    if (updates.revokedAt !== undefined) dbUpdates.revoked_at = updates.revokedAt || null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.WALKER_ASSIGNMENTS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating walker assignment:', error);
+      throwIfTransient(error, 'Error updating walker assignment');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  mapFromDb(data: any): WalkerAssignment {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      walkerUserId: data.walker_user_id,
+      walkerName: data.walker_name,
+      walkerEmail: data.walker_email,
+      assignedBy: data.assigned_by,
+      revokedAt: data.revoked_at || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Household Operations
+// ============================================================================
+
+const households = {
+  async getById(id: string): Promise<Household | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.HOUSEHOLDS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching household:', error);
+      throwIfTransient(error, 'Error fetching household');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getByIds(ids: string[]): Promise<Household[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabaseService
+      .from(TABLES.HOUSEHOLDS)
+      .select('*')
+      .in('id', ids)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching households:', error);
+      throwIfTransient(error, 'Error fetching households');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async create(household: Omit<Household, 'id' | 'createdAt' | 'updatedAt'>): Promise<Household | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.HOUSEHOLDS)
+      .insert({
+        name: household.name,
+        created_by: household.createdBy,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating household:', error);
+      throwIfTransient(error, 'Error creating household');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<Household>): Promise<Household | null> {
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.HOUSEHOLDS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating household:', error);
+      throwIfTransient(error, 'Error updating household');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.HOUSEHOLDS).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting household:', error);
+      throwIfTransient(error, 'Error deleting household');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): Household {
+    return {
+      id: data.id,
+      name: data.name,
+      createdBy: data.created_by,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Household Member Operations
+// ============================================================================
+
+const householdMembers = {
+  async getById(id: string): Promise<HouseholdMember | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.HOUSEHOLD_MEMBERS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching household member:', error);
+      throwIfTransient(error, 'Error fetching household member');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getForUser(userId: string): Promise<HouseholdMember[]> {
+    const { data, error } = await supabaseService
+      .from(TABLES.HOUSEHOLD_MEMBERS)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching household memberships:', error);
+      throwIfTransient(error, 'Error fetching household memberships');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async getForHouseholds(householdIds: string[]): Promise<HouseholdMember[]> {
+    if (householdIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabaseService
+      .from(TABLES.HOUSEHOLD_MEMBERS)
+      .select('*')
+      .in('household_id', householdIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching household members:', error);
+      throwIfTransient(error, 'Error fetching household members');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async create(member: Omit<HouseholdMember, 'id' | 'createdAt' | 'updatedAt'>): Promise<HouseholdMember | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.HOUSEHOLD_MEMBERS)
+      .insert({
+        household_id: member.householdId,
+        user_id: member.userId,
+        member_name: member.memberName,
+        member_email: member.memberEmail,
+        role: member.role,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating household member:', error);
+      throwIfTransient(error, 'Error creating household member');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(id: string, updates: Partial<HouseholdMember>): Promise<HouseholdMember | null> {
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.role !== undefined) dbUpdates.role = updates.role;
+    if (updates.memberName !== undefined) dbUpdates.member_name = updates.memberName;
+    if (updates.memberEmail !== undefined) dbUpdates.member_email = updates.memberEmail;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.HOUSEHOLD_MEMBERS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating household member:', error);
+      throwIfTransient(error, 'Error updating household member');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabaseService.from(TABLES.HOUSEHOLD_MEMBERS).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting household member:', error);
+      throwIfTransient(error, 'Error deleting household member');
+      return false;
+    }
+    return true;
+  },
+
+  mapFromDb(data: any): HouseholdMember {
+    return {
+      id: data.id,
+      householdId: data.household_id,
+      userId: data.user_id,
+      memberName: data.member_name,
+      memberEmail: data.member_email,
+      role: data.role as HouseholdRole,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Pet Share Link Operations
+// ============================================================================
+
+const petShareLinks = {
+  async getById(id: string): Promise<PetShareLink | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.PET_SHARE_LINKS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching share link:', error);
+      throwIfTransient(error, 'Error fetching share link');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async create(link: Omit<PetShareLink, 'id' | 'createdAt' | 'updatedAt'>): Promise<PetShareLink | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.PET_SHARE_LINKS)
+      .insert({
+        canine_id: link.canineId,
+        label: link.label || null,
+        code_hash: link.codeHash,
+        sections: link.sections,
+        emergency_contacts: link.emergencyContacts ?? null,
+        expires_at: link.expiresAt,
+        revoked_at: link.revokedAt || null,
+        created_by: link.createdBy,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating share link:', error);
+      throwIfTransient(error, 'Error creating share link');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getByCodeHash(codeHash: string): Promise<PetShareLink | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.PET_SHARE_LINKS)
+      .select('*')
+      .eq('code_hash', codeHash)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching share link:', error);
+      // "No such link" and "server unreachable" need different messages
+      throwIfTransient(error, 'Error fetching share link');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getForCanines(canineIds: string[]): Promise<PetShareLink[]> {
+    if (canineIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabaseService
+      .from(TABLES.PET_SHARE_LINKS)
+      .select('*')
+      .in('canine_id', canineIds)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching share links:', error);
+      throwIfTransient(error, 'Error fetching share links');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  async update(id: string, updates: Partial<PetShareLink>): Promise<PetShareLink | null> {
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.label !== undefined) dbUpdates.label = updates.label || null;
+    if (updates.revokedAt !== undefined) dbUpdates.revoked_at = updates.revokedAt || null;
+
+    const { data, error } = await supabaseService
+      .from(TABLES.PET_SHARE_LINKS)
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating share link:', error);
+      throwIfTransient(error, 'Error updating share link');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  mapFromDb(data: any): PetShareLink {
+    return {
+      id: data.id,
+      canineId: data.canine_id,
+      label: data.label || undefined,
+      codeHash: data.code_hash,
+      sections: (data.sections || []) as PetShareSection[],
+      emergencyContacts: (data.emergency_contacts as SharedContact[] | null) ?? undefined,
+      expiresAt: data.expires_at,
+      revokedAt: data.revoked_at || undefined,
+      createdBy: data.created_by,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Pet Share Access Operations
+// ============================================================================
+
+const petShareAccesses = {
+  async create(access: Omit<PetShareAccess, 'id' | 'createdAt' | 'updatedAt'>): Promise<PetShareAccess | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService
+      .from(TABLES.PET_SHARE_ACCESSES)
+      .insert({
+        share_link_id: access.shareLinkId,
+        canine_id: access.canineId,
+        outcome: access.outcome,
+        platform: access.platform,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error recording share link access:', error);
+      throwIfTransient(error, 'Error recording share link access');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async getForCanines(canineIds: string[]): Promise<PetShareAccess[]> {
+    if (canineIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabaseService
+      .from(TABLES.PET_SHARE_ACCESSES)
+      .select('*')
+      .in('canine_id', canineIds)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching share link accesses:', error);
+      throwIfTransient(error, 'Error fetching share link accesses');
+      return [];
+    }
+    return data ? data.map(this.mapFromDb) : [];
+  },
+
+  mapFromDb(data: any): PetShareAccess {
+    return {
+      id: data.id,
+      shareLinkId: data.share_link_id,
+      canineId: data.canine_id,
+      outcome: data.outcome as PetShareAccessOutcome,
+      platform: data.platform,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// App Settings Operations
+// ============================================================================
+
+const appSettings = {
+  async get(): Promise<AppSettings | null> {
+    const { data, error } = await supabaseService
+      .from(TABLES.APP_SETTINGS)
+      .select('*')
+      .eq('id', APP_SETTINGS_ID)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching app settings:', error);
+      throwIfTransient(error, 'Error fetching app settings');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  async update(updates: Partial<AppSettings>): Promise<AppSettings | null> {
+    const dbUpdates: any = {
+      id: APP_SETTINGS_ID,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.requireAdminTwoFactor !== undefined) dbUpdates.require_admin_two_factor = updates.requireAdminTwoFactor;
+    if (updates.updatedBy !== undefined) dbUpdates.updated_by = updates.updatedBy || null;
+
+    // The row is created the first time an admin saves a setting
+    const { data, error } = await supabaseService
+      .from(TABLES.APP_SETTINGS)
+      .upsert(dbUpdates)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating app settings:', error);
+      throwIfTransient(error, 'Error updating app settings');
+      return null;
+    }
+    return data ? this.mapFromDb(data) : null;
+  },
+
+  mapFromDb(data: any): AppSettings {
+    return {
+      id: data.id,
+      requireAdminTwoFactor: !!data.require_admin_two_factor,
+      updatedBy: data.updated_by || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  },
+};
+
+// ============================================================================
+// Realtime Changes
+// ============================================================================
+
+// Realtime accepts at most 100 values in an `in` filter
+const REALTIME_FILTER_CHUNK = 100;
+
+const REALTIME_TABLES: { table: string; collection: CollectionKey; mapFromDb: (row: any) => any }[] = [
+  { table: TABLES.USER_PROFILES, collection: 'allUsers', mapFromDb: (row) => userProfiles.mapFromDb(row) },
+  { table: TABLES.CANINE_PROFILES, collection: 'canines', mapFromDb: (row) => canineProfiles.mapFromDb(row) },
+  { table: TABLES.VET_PROFILES, collection: 'vets', mapFromDb: (row) => vetProfiles.mapFromDb(row) },
+  { table: TABLES.CONTACTS, collection: 'contacts', mapFromDb: (row) => contacts.mapFromDb(row) },
+  { table: TABLES.NUTRITION_ENTRIES, collection: 'nutritionEntries', mapFromDb: (row) => nutritionEntries.mapFromDb(row) },
+  { table: TABLES.TRAINING_LOGS, collection: 'trainingLogs', mapFromDb: (row) => trainingLogs.mapFromDb(row) },
+  { table: TABLES.APPOINTMENTS, collection: 'appointments', mapFromDb: (row) => appointments.mapFromDb(row) },
+  { table: TABLES.MEDIA_ITEMS, collection: 'mediaItems', mapFromDb: (row) => mediaItems.mapFromDb(row) },
+  { table: TABLES.MEDICAL_RECORDS, collection: 'medicalRecords', mapFromDb: (row) => medicalRecords.mapFromDb(row) },
+  { table: TABLES.LAB_RESULTS, collection: 'labResults', mapFromDb: (row) => labResults.mapFromDb(row) },
+  { table: TABLES.MEDICATIONS, collection: 'medications', mapFromDb: (row) => medications.mapFromDb(row) },
+  { table: TABLES.MEDICATION_DOSE_LOGS, collection: 'medicationDoseLogs', mapFromDb: (row) => medicationDoseLogs.mapFromDb(row) },
+  { table: TABLES.WEIGHT_MEASUREMENTS, collection: 'weightMeasurements', mapFromDb: (row) => weightMeasurements.mapFromDb(row) },
+  { table: TABLES.VET_VISITS, collection: 'vetVisits', mapFromDb: (row) => vetVisits.mapFromDb(row) },
+  { table: TABLES.IMMUNIZATIONS, collection: 'immunizations', mapFromDb: (row) => immunizations.mapFromDb(row) },
+  { table: TABLES.CANINE_ALLERGIES, collection: 'canineAllergies', mapFromDb: (row) => canineAllergies.mapFromDb(row) },
+  { table: TABLES.WALK_LOGS, collection: 'walkLogs', mapFromDb: (row) => walkLogs.mapFromDb(row) },
+];
+
+/**
+ * Build the row filters for a table, or null to skip the table entirely
+ * An empty list means "no filter".
+ */
+function getRealtimeFilters(table: string, ownerId?: string, canineIds?: string[]): string[] | null {
+  const scoped = !!ownerId || !!canineIds;
+  if (!scoped) return [];
+
+  switch (table) {
+    case TABLES.USER_PROFILES:
+      return null;
+    case TABLES.VET_PROFILES:
+    case TABLES.CONTACTS:
+      return [];
+    case TABLES.CANINE_PROFILES: {
+      // Household pets created by other members are matched by ID
+      const ids = canineIds ?? [];
+      const filters = ownerId ? [`user_id=eq.${ownerId}`] : [];
+      for (let i = 0; i < ids.length; i += REALTIME_FILTER_CHUNK) {
+        filters.push(`id=in.(${ids.slice(i, i + REALTIME_FILTER_CHUNK).join(',')})`);
+      }
+      return filters.length > 0 ? filters : null;
+    }
+    default: {
+      const ids = canineIds ?? [];
+      const filters: string[] = [];
+      for (let i = 0; i < ids.length; i += REALTIME_FILTER_CHUNK) {
+        filters.push(`canine_id=in.(${ids.slice(i, i + REALTIME_FILTER_CHUNK).join(',')})`);
+      }
+      return filters.length > 0 ? filters : null;
+    }
+  }
+}
+
+/**
+ * Change feed backed by Postgres change subscriptions
+ * Inserts and updates are filtered on the server. Delete events cannot be
+ * filtered by Supabase, but they only carry the primary key, and merging
+ * ignores IDs that aren't loaded.
+ */
+const changes: ChangeEventSource = {
+  subscribe({ ownerId, canineIds }, onChange) {
+    const channel = supabaseService.channel(`ava-changes-${ownerId ?? 'all'}-${Date.now()}`);
+
+    const emit = async (collection: CollectionKey, mapFromDb: (row: any) => any, type: RecordChange['type'], row: any) => {
+      try {
+        const record = await mapFromDb(row);
+        onChange({ collection, type, record, recordId: record.id });
+      } catch (error) {
+        console.error(`Error mapping realtime change for ${collection}:`, error);
+      }
+    };
+
+    REALTIME_TABLES.forEach(({ table, collection, mapFromDb }) => {
+      const filters = getRealtimeFilters(table, ownerId, canineIds);
+      if (!filters) return;
+
+      (filters.length > 0 ? filters : [undefined]).forEach((filter) => {
+        channel
+          .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, (payload) => {
+            emit(collection, mapFromDb, 'INSERT', payload.new);
+          })
+          .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, (payload) => {
+            emit(collection, mapFromDb, 'UPDATE', payload.new);
+          });
+      });
+
+      channel.on('postgres_changes', { event: 'DELETE', schema: 'public', table }, (payload) => {
+        const recordId = (payload.old as { id?: string })?.id;
+        if (recordId) {
+          onChange({ collection, type: 'DELETE', record: null, recordId });
+        }
+      });
+    });
+
+    channel.subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        console.log('📡 Subscribed to realtime changes');
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Realtime subscription error:', status, error);
+      }
+    });
+
+    return () => {
+      supabaseService.removeChannel(channel);
+    };
+  },
+};
+
+export const supabaseBackend: DataBackend = {
+  kind: 'supabase',
+  isRemote: true,
+  changes,
+  userProfiles,
+  canineProfiles,
+  vetProfiles,
+  contacts,
+  nutritionEntries,
+  trainingLogs,
+  appointments,
+  mediaItems,
+  medicalRecords,
+  labResults,
+  medications,
+  medicationDoseLogs,
+  weightMeasurements,
+  vetVisits,
+  immunizations,
+  canineAllergies,
+  walkLogs,
+  sessions,
+  passwordResets,
+  twoFactorCredentials,
+  activationCodes,
+  vetAccessGrants,
+  walkerAssignments,
+  households,
+  householdMembers,
+  petShareLinks,
+  petShareAccesses,
+  appSettings,
+};
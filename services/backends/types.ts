@@ -0,0 +1,289 @@
+/**
+ * Data Backend Interfaces
+ *
+ * Every backend (Supabase, in-memory, AsyncStorage) implements the same set of
+ * repositories so the service layer and AppContext don't care where data lives.
+ */
+
+import {
+  UserProfile,
+  CanineProfile,
+  VetProfile,
+  Contact,
+  NutritionEntry,
+  TrainingLog,
+  Appointment,
+  MediaItem,
+  MedicalRecord,
+  LabResult,
+  MedicationEntry,
+  MedicationDoseLog,
+  WeightMeasurement,
+  VetVisit,
+  ImmunizationRecord,
+  CanineAllergy,
+  UserSession,
+  PasswordResetCode,
+  PasswordResetRequest,
+  TwoFactorCredential,
+  ActivationCode,
+  VetAccessGrant,
+  WalkerAssignment,
+  WalkLog,
+  Household,
+  HouseholdMember,
+  PetShareLink,
+  AppSettings,
+  PetShareAccess,
+} from '@/types';
+import type { ChangeEventSource } from '@/services/realtime';
+
+export type DataBackendKind = 'supabase' | 'memory' | 'local';
+
+/**
+ * Fields generated by the backend when a record is created
+ */
+export type CreateInput<T> = Omit<T, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Basic CRUD operations shared by every repository
+ * Failures are logged by the backend and reported as null/false.
+ */
+export interface Repository<T extends { id: string }, TCreate = CreateInput<T>> {
+  getById(id: string): Promise<T | null>;
+  create(input: TCreate): Promise<T | null>;
+  update(id: string, updates: Partial<T>): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Repository for records that are not scoped to a pet (vets, contacts)
+ */
+export interface ListRepository<T extends { id: string }, TCreate = CreateInput<T>> extends Repository<T, TCreate> {
+  getAll(): Promise<T[]>;
+}
+
+/**
+ * Restricts a per-pet query to some pets
+ * A plain string is a single canine ID. `ownerId` covers the pets the user
+ * owns or shares through a household. When both `canineIds` and `ownerId` are
+ * given, only pets matching both are included. Omit the scope to query every
+ * pet (admins only).
+ */
+export type CanineScope =
+  | string
+  | {
+      canineIds?: string[];
+      ownerId?: string;
+    };
+
+export interface PageRequest {
+  limit: number;
+  offset?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Offset of the next page, or null when this was the last one */
+  nextOffset: number | null;
+}
+
+/**
+ * Repository for records that belong to a pet
+ * Scoping is applied by the backend, so records of other owners never reach the client.
+ */
+export interface CanineScopedRepository<T extends { id: string; canineId: string }, TCreate = CreateInput<T>>
+  extends Repository<T, TCreate> {
+  /** Every matching record, fetched page by page */
+  getAll(scope?: CanineScope): Promise<T[]>;
+  getPage(scope: CanineScope | undefined, page: PageRequest): Promise<Page<T>>;
+}
+
+export interface PasswordHashRecord {
+  id: string;
+  password_hash: string | null;
+  failed_login_attempts?: number | null;
+  last_failed_login_at?: string | null;
+  locked_until?: string | null;
+}
+
+/**
+ * Failed login tracking stored on an account
+ * Null clears a timestamp.
+ */
+export interface LoginAttemptState {
+  failedLoginAttempts: number;
+  lastFailedLoginAt: string | null;
+  lockedUntil: string | null;
+}
+
+export interface UserProfileRepository extends Repository<UserProfile> {
+  getAll(): Promise<UserProfile[]>;
+  getByEmail(email: string): Promise<UserProfile | null>;
+  getPasswordHashByEmail(email: string): Promise<PasswordHashRecord | null>;
+  create(profile: CreateInput<UserProfile> | UserProfile, passwordHash?: string): Promise<UserProfile | null>;
+  updatePasswordHash(id: string, passwordHash: string): Promise<boolean>;
+  /** Set the login state outright, e.g. to clear it after a successful login or an unlock */
+  updateLoginState(id: string, state: LoginAttemptState): Promise<boolean>;
+  /**
+   * Count one failed login against the stored state (see utils/loginAttempts.ts)
+   * Returns the new state, or null when the account doesn't exist or the update failed.
+   */
+  recordLoginFailure(id: string): Promise<LoginAttemptState | null>;
+}
+
+export interface SessionRepository {
+  create(session: CreateInput<UserSession>): Promise<UserSession | null>;
+  getByTokenHash(tokenHash: string): Promise<UserSession | null>;
+  /** Sessions that are neither revoked nor expired */
+  getActiveByUser(userId: string): Promise<UserSession[]>;
+  update(id: string, updates: Partial<UserSession>): Promise<UserSession | null>;
+  /** Revoke every active session of a user; returns how many were revoked, or null on failure */
+  revokeAllForUser(userId: string): Promise<number | null>;
+}
+
+/**
+ * Outcome of checking a code against a user's latest reset code
+ * 'invalid' covers no code, a used or expired one, and one with too many wrong guesses.
+ */
+export type PasswordResetCheck =
+  | { status: 'accepted' }
+  | { status: 'incorrect'; failedAttempts: number }
+  | { status: 'invalid' };
+
+export interface PasswordResetRepository {
+  create(code: CreateInput<PasswordResetCode>): Promise<PasswordResetRequest | null>;
+  /** Codes issued to a user since the given time, newest first */
+  getRecentForUser(userId: string, since: string): Promise<PasswordResetRequest[]>;
+  /**
+   * Compare a code hash with the user's latest code, using the code up when it matches
+   * and counting one failed attempt when it doesn't. Only the outcome is returned.
+   */
+  checkLatestCode(userId: string, codeHash: string, maxFailedAttempts: number): Promise<PasswordResetCheck>;
+}
+
+export interface TwoFactorCredentialRepository {
+  getForUser(userId: string): Promise<TwoFactorCredential | null>;
+  create(credential: CreateInput<TwoFactorCredential>): Promise<TwoFactorCredential | null>;
+  update(id: string, updates: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface ActivationCodeRepository extends ListRepository<ActivationCode> {
+  /** Look a code up by its (lowercase) text */
+  getByCode(code: string): Promise<ActivationCode | null>;
+  /**
+   * Count one redemption
+   * Returns null when the code has reached its redemption limit or no longer exists.
+   */
+  redeem(id: string): Promise<ActivationCode | null>;
+  /** Give back one redemption, e.g. when the account it was for couldn't be created */
+  release(id: string): Promise<boolean>;
+}
+
+export interface CanineProfileRepository extends Repository<CanineProfile> {
+  /** Every pet, or the pets a user owns or shares through a household */
+  getAll(userId?: string): Promise<CanineProfile[]>;
+  /** The pets with the given IDs; unknown IDs are skipped */
+  getByIds(ids: string[]): Promise<CanineProfile[]>;
+}
+
+export interface VetAccessGrantRepository {
+  getById(id: string): Promise<VetAccessGrant | null>;
+  create(grant: CreateInput<VetAccessGrant>): Promise<VetAccessGrant | null>;
+  /** Every grant for the given pets, including revoked ones, newest first */
+  getForCanines(canineIds: string[]): Promise<VetAccessGrant[]>;
+  /** Grants a vet currently holds */
+  getActiveForVet(vetUserId: string): Promise<VetAccessGrant[]>;
+  update(id: string, updates: Partial<VetAccessGrant>): Promise<VetAccessGrant | null>;
+}
+
+export interface WalkerAssignmentRepository {
+  getById(id: string): Promise<WalkerAssignment | null>;
+  create(assignment: CreateInput<WalkerAssignment>): Promise<WalkerAssignment | null>;
+  /** Every assignment for the given pets, including revoked ones, newest first */
+  getForCanines(canineIds: string[]): Promise<WalkerAssignment[]>;
+  /** Assignments a walker currently holds */
+  getActiveForWalker(walkerUserId: string): Promise<WalkerAssignment[]>;
+  update(id: string, updates: Partial<WalkerAssignment>): Promise<WalkerAssignment | null>;
+}
+
+export interface HouseholdRepository extends Repository<Household> {
+  /** The households with the given IDs; unknown IDs are skipped */
+  getByIds(ids: string[]): Promise<Household[]>;
+}
+
+export interface HouseholdMemberRepository extends Repository<HouseholdMember> {
+  /** Every household membership a user holds */
+  getForUser(userId: string): Promise<HouseholdMember[]>;
+  /** Every member of the given households */
+  getForHouseholds(householdIds: string[]): Promise<HouseholdMember[]>;
+}
+
+export interface PetShareLinkRepository {
+  getById(id: string): Promise<PetShareLink | null>;
+  create(link: CreateInput<PetShareLink>): Promise<PetShareLink | null>;
+  getByCodeHash(codeHash: string): Promise<PetShareLink | null>;
+  /** Every link for the given pets, including expired and revoked ones, newest first */
+  getForCanines(canineIds: string[]): Promise<PetShareLink[]>;
+  update(id: string, updates: Partial<PetShareLink>): Promise<PetShareLink | null>;
+}
+
+export interface PetShareAccessRepository {
+  create(access: CreateInput<PetShareAccess>): Promise<PetShareAccess | null>;
+  /** Every recorded access to the given pets' links, newest first */
+  getForCanines(canineIds: string[]): Promise<PetShareAccess[]>;
+}
+
+/**
+ * Id of the single app settings record
+ */
+export const APP_SETTINGS_ID = 'app';
+
+export interface AppSettingsRepository {
+  /** The stored settings, or null when none have been saved yet */
+  get(): Promise<AppSettings | null>;
+  /** Create or change the settings */
+  update(updates: Partial<AppSettings>): Promise<AppSettings | null>;
+}
+
+export interface DataBackend {
+  kind: DataBackendKind;
+  /** Whether data lives on a remote server (and therefore needs connectivity) */
+  isRemote: boolean;
+  /** Feed of changes made on other devices, if the backend supports it */
+  changes?: ChangeEventSource;
+  userProfiles: UserProfileRepository;
+  canineProfiles: CanineProfileRepository;
+  vetProfiles: ListRepository<VetProfile>;
+  contacts: ListRepository<Contact>;
+  nutritionEntries: CanineScopedRepository<NutritionEntry>;
+  trainingLogs: CanineScopedRepository<TrainingLog>;
+  appointments: CanineScopedRepository<Appointment>;
+  mediaItems: CanineScopedRepository<MediaItem, Omit<MediaItem, 'id' | 'createdAt'>>;
+  medicalRecords: CanineScopedRepository<MedicalRecord>;
+  labResults: CanineScopedRepository<LabResult>;
+  medications: CanineScopedRepository<MedicationEntry>;
+  medicationDoseLogs: CanineScopedRepository<MedicationDoseLog>;
+  weightMeasurements: CanineScopedRepository<WeightMeasurement>;
+  vetVisits: CanineScopedRepository<VetVisit>;
+  immunizations: CanineScopedRepository<ImmunizationRecord>;
+  canineAllergies: CanineScopedRepository<CanineAllergy>;
+  walkLogs: CanineScopedRepository<WalkLog>;
+  sessions: SessionRepository;
+  passwordResets: PasswordResetRepository;
+  twoFactorCredentials: TwoFactorCredentialRepository;
+  activationCodes: ActivationCodeRepository;
+  vetAccessGrants: VetAccessGrantRepository;
+  walkerAssignments: WalkerAssignmentRepository;
+  households: HouseholdRepository;
+  householdMembers: HouseholdMemberRepository;
+  petShareLinks: PetShareLinkRepository;
+  petShareAccesses: PetShareAccessRepository;
+  appSettings: AppSettingsRepository;
+}
+
+/**
+ * Names of the repositories on a backend
+ */
+export type RepositoryName = Exclude<keyof DataBackend, 'kind' | 'isRemote' | 'changes'>;
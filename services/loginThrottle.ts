@@ -0,0 +1,173 @@
+/**
+ * Login Throttling Service
+ *
+ * Slows down password guessing. Failed logins are counted in two places:
+ * - per account, on the user profile, so guesses spread over many devices add up
+ * - per device, in AsyncStorage, which also covers emails that have no account
+ *
+ * After the second failure each attempt has to wait a little longer (1s, 2s,
+ * 4s, ... up to 30s). After LOCKOUT_THRESHOLD failures logins are refused for
+ * LOCKOUT_MS, and every further failure locks again. Failures older than
+ * FAILURE_RESET_MS are forgotten, and a successful login clears the count
+ * (see utils/loginAttempts.ts).
+ *
+ * Both counters lock after the same number of failures, so a locked response
+ * doesn't reveal whether the email has an account.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { userProfileService } from '@/services/database';
+import type { LoginAttemptState, PasswordHashRecord } from '@/services/backends/types';
+import type { UserProfile } from '@/types';
+import { CLEARED_LOGIN_STATE, currentLoginState, nextLoginFailureState, toTime } from '@/utils/loginAttempts';
+
+export { CLEARED_LOGIN_STATE };
+
+const DEVICE_ATTEMPTS_KEY = '@ava_login_attempts';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+/**
+ * Shown for every failed login, whether or not the email has an account
+ */
+export const LOGIN_FAILED_MESSAGE = 'Invalid email or password.';
+
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+export class LoginThrottledError extends Error {
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super(`Too many failed login attempts. Please try again in ${formatWait(retryAfterMs)}.`);
+    this.name = 'LoginThrottledError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * How long the next attempt has to wait, in milliseconds
+ */
+function getWaitMs(state: LoginAttemptState, now: number): number {
+  const { failedLoginAttempts, lastFailedLoginAt, lockedUntil } = currentLoginState(state, now);
+
+  const lockedFor = toTime(lockedUntil) - now;
+  if (lockedFor > 0) {
+    return lockedFor;
+  }
+  if (failedLoginAttempts < 2 || !lastFailedLoginAt) {
+    return 0;
+  }
+
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (failedLoginAttempts - 2));
+  return Math.max(0, toTime(lastFailedLoginAt) + delay - now);
+}
+
+function accountState(account: PasswordHashRecord): LoginAttemptState {
+  return {
+    failedLoginAttempts: account.failed_login_attempts ?? 0,
+    lastFailedLoginAt: account.last_failed_login_at ?? null,
+    lockedUntil: account.locked_until ?? null,
+  };
+}
+
+async function readDeviceState(): Promise<LoginAttemptState> {
+  try {
+    const raw = await AsyncStorage.getItem(DEVICE_ATTEMPTS_KEY);
+    return raw ? { ...CLEARED_LOGIN_STATE, ...JSON.parse(raw) } : CLEARED_LOGIN_STATE;
+  } catch (error) {
+    console.error('Error reading login attempts:', error);
+    return CLEARED_LOGIN_STATE;
+  }
+}
+
+async function writeDeviceState(state: LoginAttemptState | null): Promise<void> {
+  try {
+    if (state) {
+      await AsyncStorage.setItem(DEVICE_ATTEMPTS_KEY, JSON.stringify(state));
+    } else {
+      await AsyncStorage.removeItem(DEVICE_ATTEMPTS_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving login attempts:', error);
+  }
+}
+
+/**
+ * Refuse the attempt if this device or account has to wait
+ * @param account - The account's password record, or null for an unknown email
+ * @throws LoginThrottledError
+ */
+export async function assertLoginAllowed(account: PasswordHashRecord | null): Promise<void> {
+  const now = Date.now();
+  const deviceWait = getWaitMs(await readDeviceState(), now);
+  const accountWait = account ? getWaitMs(accountState(account), now) : 0;
+  const wait = Math.max(deviceWait, accountWait);
+
+  if (wait > 0) {
+    console.warn(`🔒 Login throttled for ${Math.ceil(wait / 1000)}s`);
+    throw new LoginThrottledError(wait);
+  }
+}
+
+/**
+ * Count a failed attempt against this device and the account
+ */
+export async function recordLoginFailure(account: PasswordHashRecord | null): Promise<void> {
+  const now = Date.now();
+  await writeDeviceState(nextLoginFailureState(await readDeviceState(), now));
+
+  if (!account) {
+    return;
+  }
+
+  try {
+    // The backend counts the failure against the stored state, not the copy read at login
+    const next = await userProfileService.recordLoginFailure(account.id);
+    if (next?.lockedUntil) {
+      console.warn(`🔒 Account locked after ${next.failedLoginAttempts} failed login attempts`);
+    }
+  } catch (error) {
+    // Still refuse the login; the device counter keeps slowing this device down
+    console.error('Error recording failed login:', error);
+  }
+}
+
+/**
+ * Clear the failure counts after a successful login
+ * Call once the user is signed in, so the account update is authorized.
+ */
+export async function recordLoginSuccess(account: PasswordHashRecord): Promise<void> {
+  await writeDeviceState(null);
+
+  if (!account.failed_login_attempts && !account.locked_until) {
+    return;
+  }
+  try {
+    await userProfileService.updateLoginState(account.id, CLEARED_LOGIN_STATE);
+  } catch (error) {
+    console.error('Error clearing failed logins:', error);
+  }
+}
+
+/**
+ * Lift the lockout for an account and this device, e.g. after a password reset
+ */
+export async function clearLoginFailures(userId: string): Promise<void> {
+  await writeDeviceState(null);
+  await userProfileService.updateLoginState(userId, CLEARED_LOGIN_STATE);
+}
+
+/**
+ * Whether an account is currently locked out
+ */
+export function isAccountLocked(profile: Pick<UserProfile, 'lockedUntil'>): boolean {
+  return toTime(profile.lockedUntil) > Date.now();
+}
@@ -0,0 +1,88 @@
+/**
+ * Mailer Service
+ *
+ * Sends transactional email such as password reset codes. The transport is
+ * pluggable so a real provider can be added without touching the callers:
+ *
+ * - console: prints each message to the log (default)
+ * - file:    writes each message to a file in the app's document directory,
+ *            handy for picking codes up on a device or simulator
+ *
+ * Both run on the device that asked for the email, so whoever requests a reset
+ * code would be able to read it. They're only used in development builds or
+ * with a backend whose accounts live on this device (memory, local); anywhere
+ * else a real provider has to be installed with setMailer().
+ *
+ * The default can be changed with EXPO_PUBLIC_MAILER or `expo.extra.mailer`
+ * in app.json, and tests can swap transports at runtime with setMailer().
+ */
+
+import Constants from 'expo-constants';
+import * as FileSystem from 'expo-file-system/legacy'; // Use legacy API to avoid deprecation warnings
+import { getDataBackend } from '@/services/backends';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export function createConsoleMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+/**
+ * Write each message to `<documentDirectory>/<folder>/` as a text file
+ */
+export function createFileMailer(folder = 'outbox'): Mailer {
+  return {
+    async send(message) {
+      if (!FileSystem.documentDirectory) {
+        throw new Error('File mailer is not available on this platform.');
+      }
+
+      const directory = `${FileSystem.documentDirectory}${folder}/`;
+      const info = await FileSystem.getInfoAsync(directory);
+      if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+      }
+
+      const path = `${directory}${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.txt`;
+      const body = `To: ${message.to}\nSubject: ${message.subject}\nDate: ${new Date().toISOString()}\n\n${message.text}\n`;
+      await FileSystem.writeAsStringAsync(path, body);
+      console.log(`📧 Mail to ${message.to} written to ${path}`);
+    },
+  };
+}
+
+const configuredMailer: string = Constants.expoConfig?.extra?.mailer || process.env.EXPO_PUBLIC_MAILER || '';
+
+let activeMailer: Mailer | null = null;
+
+const allowsDeviceTransports = () => __DEV__ || !getDataBackend().isRemote;
+
+/**
+ * Get the mailer used to send email
+ * @returns null when no provider has been set and the console and file transports aren't allowed
+ */
+export function getMailer(): Mailer | null {
+  if (!activeMailer && allowsDeviceTransports()) {
+    activeMailer = configuredMailer === 'file' ? createFileMailer() : createConsoleMailer();
+  }
+  return activeMailer;
+}
+
+/**
+ * Replace the mailer (e.g. with a real email provider, or a fake in tests)
+ */
+export function setMailer(mailer: Mailer): void {
+  activeMailer = mailer;
+}
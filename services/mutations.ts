@@ -0,0 +1,122 @@
+/**
+ * Mutation Results
+ *
+ * Every AppContext mutator resolves to a MutationResult instead of throwing or
+ * silently keeping a local change the database rejected. Screens check `ok`
+ * and show `error.message` when a save fails.
+ *
+ * Transient backend failures are retried with exponential backoff before the
+ * mutation is reported as failed.
+ */
+
+import { isTransientError } from '@/services/backends/errors';
+import { AuthorizationError } from '@/services/authorization';
+
+export type MutationErrorCode =
+  | 'rejected' // the backend refused the change (validation, constraint, missing record)
+  | 'unavailable' // still failing after retries (network, timeouts)
+  | 'forbidden' // the current user isn't allowed to make the change
+  | 'offline' // the change needs a connection and can't be queued
+  | 'limit_reached' // the user's subscription tier doesn't allow more
+  | 'unknown';
+
+export class MutationError extends Error {
+  readonly code: MutationErrorCode;
+  readonly cause: unknown;
+
+  constructor(message: string, code: MutationErrorCode, cause?: unknown) {
+    super(message);
+    this.name = 'MutationError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export type MutationResult<T = void> =
+  | {
+      ok: true;
+      data: T;
+      /** True when the change was saved to the offline outbox rather than the server */
+      queued: boolean;
+    }
+  | {
+      ok: false;
+      error: MutationError;
+    };
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 3,
+  baseDelayMs: 400,
+  maxDelayMs: 4000,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff and jitter
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      console.warn(`🔁 Retrying after transient failure (attempt ${attempt + 1} of ${retries})`);
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+}
+
+export function succeeded<T>(data: T, queued = false): MutationResult<T> {
+  return { ok: true, data, queued };
+}
+
+export function failed<T = never>(error: MutationError): MutationResult<T> {
+  return { ok: false, error };
+}
+
+/**
+ * Convert anything thrown by a mutation into a MutationError
+ */
+export function toMutationError(error: unknown, fallbackMessage: string): MutationError {
+  if (error instanceof MutationError) return error;
+  if (error instanceof AuthorizationError) {
+    return new MutationError(error.message, 'forbidden', error);
+  }
+  if (isTransientError(error)) {
+    return new MutationError(`${fallbackMessage} Check your connection and try again.`, 'unavailable', error);
+  }
+  const message = error instanceof Error && error.message ? error.message : fallbackMessage;
+  return new MutationError(message, 'unknown', error);
+}
+
+/**
+ * Persist a change through a backend call
+ * Backends report permanent failures as null/false, which become a 'rejected' error.
+ */
+export async function runMutation<T>(
+  fallbackMessage: string,
+  persist: () => Promise<T | null | false>,
+  options?: RetryOptions
+): Promise<MutationResult<T>> {
+  try {
+    const data = await withRetry(persist, options);
+    if (data === null || data === false) {
+      return failed(new MutationError(fallbackMessage, 'rejected'));
+    }
+    return succeeded(data);
+  } catch (error) {
+    return failed(toMutationError(error, fallbackMessage));
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Offline Cache Service
+ *
+ * Persists the entity collections held in AppContext to AsyncStorage so the
+ * app can render the last known data immediately on launch and keep working
+ * while the device is offline.
+ *
+ * Each collection is stored under its own key, scoped to the signed-in user:
+ *   @ava_cache:{userId}:{collection}
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  UserProfile,
+  CanineProfile,
+  VetProfile,
+  Contact,
+  NutritionEntry,
+  TrainingLog,
+  Appointment,
+  MediaItem,
+  MedicalRecord,
+  LabResult,
+  MedicationEntry,
+  MedicationDoseLog,
+  WeightMeasurement,
+  VetVisit,
+  ImmunizationRecord,
+  CanineAllergy,
+  WalkLog,
+} from '@/types';
+
+const CACHE_PREFIX = '@ava_cache';
+
+/**
+ * All entity collections that are cached locally
+ * Keys match the state names used in AppContext.
+ */
+export interface CachedCollections {
+  allUsers: UserProfile[];
+  canines: CanineProfile[];
+  vets: VetProfile[];
+  contacts: Contact[];
+  nutritionEntries: NutritionEntry[];
+  trainingLogs: TrainingLog[];
+  appointments: Appointment[];
+  mediaItems: MediaItem[];
+  medicalRecords: MedicalRecord[];
+  labResults: LabResult[];
+  medications: MedicationEntry[];
+  medicationDoseLogs: MedicationDoseLog[];
+  weightMeasurements: WeightMeasurement[];
+  vetVisits: VetVisit[];
+  immunizations: ImmunizationRecord[];
+  canineAllergies: CanineAllergy[];
+  walkLogs: WalkLog[];
+}
+
+export type CollectionKey = keyof CachedCollections;
+
+export const CACHED_COLLECTION_KEYS: CollectionKey[] = [
+  'allUsers',
+  'canines',
+  'vets',
+  'contacts',
+  'nutritionEntries',
+  'trainingLogs',
+  'appointments',
+  'mediaItems',
+  'medicalRecords',
+  'labResults',
+  'medications',
+  'medicationDoseLogs',
+  'weightMeasurements',
+  'vetVisits',
+  'immunizations',
+  'canineAllergies',
+  'walkLogs',
+];
+
+function getCacheKey(userId: string, collection: CollectionKey): string {
+  return `${CACHE_PREFIX}:${userId}:${collection}`;
+}
+
+/**
+ * Load every cached collection for a user
+ * @param userId - ID of the signed-in user
+ * @returns The cached collections, or null if nothing has been cached yet
+ */
+export async function loadCachedCollections(userId: string): Promise<Partial<CachedCollections> | null> {
+  try {
+    const keys = CACHED_COLLECTION_KEYS.map((collection) => getCacheKey(userId, collection));
+    const entries = await AsyncStorage.multiGet(keys);
+
+    const result: Partial<CachedCollections> = {};
+    let found = false;
+
+    entries.forEach(([, value], index) => {
+      if (!value) return;
+      try {
+        const parsed = JSON.parse(value);
+        if (Array.isArray(parsed)) {
+          (result as Record<CollectionKey, unknown[]>)[CACHED_COLLECTION_KEYS[index]] = parsed;
+          found = true;
+        }
+      } catch {
+        console.warn(`Ignoring corrupt cache entry for ${CACHED_COLLECTION_KEYS[index]}`);
+      }
+    });
+
+    return found ? result : null;
+  } catch (error) {
+    console.error('Error loading offline cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Save collections to the cache
+ * Only the collections present in `collections` are written.
+ * @param userId - ID of the signed-in user
+ * @param collections - Collections to persist
+ */
+export async function saveCachedCollections(
+  userId: string,
+  collections: Partial<CachedCollections>
+): Promise<void> {
+  try {
+    const pairs = (Object.keys(collections) as CollectionKey[]).map(
+      (collection) => [getCacheKey(userId, collection), JSON.stringify(collections[collection] ?? [])] as [string, string]
+    );
+    if (pairs.length === 0) return;
+    await AsyncStorage.multiSet(pairs);
+  } catch (error) {
+    console.error('Error saving offline cache:', error);
+  }
+}
+
+/**
+ * Remove all cached collections for a user
+ * @param userId - ID of the user whose cache should be cleared
+ */
+export async function clearCachedCollections(userId: string): Promise<void> {
+  try {
+    await AsyncStorage.multiRemove(CACHED_COLLECTION_KEYS.map((collection) => getCacheKey(userId, collection)));
+  } catch (error) {
+    console.error('Error clearing offline cache:', error);
+  }
+}
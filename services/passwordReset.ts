@@ -0,0 +1,200 @@
+/**
+ * Password Reset Service
+ *
+ * "Forgot password" flow for signed-out users:
+ * 1. requestPasswordReset() emails a 6-digit one-time code through the mailer
+ * 2. resetPasswordWithCode() checks the code and stores the new password hash
+ *
+ * - Codes expire after CODE_TTL_MS and can be used once; only the latest code works
+ * - Only a SHA-256 hash of each code is stored, and the backend compares it
+ *   without handing it back, using the code up or counting the miss as it does
+ * - Requests are rate limited per email on this device, whether or not the
+ *   email has an account, and per account across devices; only the device
+ *   limit is reported, so neither reveals which emails are registered
+ * - A code stops working after MAX_FAILED_ATTEMPTS wrong guesses
+ * - A successful reset signs the account out on every device and lifts any
+ *   login lockout
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { passwordResetService, sessionService, userProfileService } from '@/services/database';
+import { withPasswordResetGrant, withPasswordResetRequestGrant } from '@/services/authorization';
+import { getMailer } from '@/services/mailer';
+import { clearLoginFailures } from '@/services/loginThrottle';
+import { hashPassword } from '@/utils/password';
+
+const CODE_DIGITS = 6;
+const CODE_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between requests
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const MAX_CODES_PER_WINDOW = 3;
+const MAX_FAILED_ATTEMPTS = 5;
+
+const DEVICE_REQUESTS_KEY = '@ava_password_reset_requests';
+
+const INVALID_CODE_MESSAGE = 'This code is invalid or has expired. Please request a new one.';
+
+function hashCode(userId: string, code: string): string {
+  return bytesToHex(sha256(utf8ToBytes(`${userId}:${code}`)));
+}
+
+function generateCode(): string {
+  const [a, b, c, d] = Crypto.getRandomBytes(4);
+  const value = ((a << 24) | (b << 16) | (c << 8) | d) >>> 0;
+  return String(value % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+}
+
+// When each email last asked for a code on this device, newest first
+type DeviceRequests = Record<string, string[]>;
+
+async function readDeviceRequests(now: number): Promise<DeviceRequests> {
+  try {
+    const raw = await AsyncStorage.getItem(DEVICE_REQUESTS_KEY);
+    const stored: DeviceRequests = raw ? JSON.parse(raw) : {};
+    const current: DeviceRequests = {};
+    Object.entries(stored).forEach(([address, times]) => {
+      const recent = times.filter((time) => now - new Date(time).getTime() < RATE_LIMIT_WINDOW_MS);
+      if (recent.length > 0) current[address] = recent;
+    });
+    return current;
+  } catch (error) {
+    console.error('Error reading password reset requests:', error);
+    return {};
+  }
+}
+
+async function writeDeviceRequests(requests: DeviceRequests): Promise<void> {
+  try {
+    await AsyncStorage.setItem(DEVICE_REQUESTS_KEY, JSON.stringify(requests));
+  } catch (error) {
+    console.error('Error saving password reset requests:', error);
+  }
+}
+
+/**
+ * Why another code can't be sent yet, given when the earlier ones were asked for (newest first)
+ */
+function getRequestLimitMessage(requestedAt: string[], now: number): string | null {
+  const recent = requestedAt.filter((time) => now - new Date(time).getTime() < RATE_LIMIT_WINDOW_MS);
+  if (recent.length >= MAX_CODES_PER_WINDOW) {
+    return 'Too many reset requests. Please try again in an hour.';
+  }
+  const sinceLatest = recent.length > 0 ? now - new Date(recent[0]).getTime() : Infinity;
+  if (sinceLatest < RESEND_COOLDOWN_MS) {
+    const waitSeconds = Math.ceil((RESEND_COOLDOWN_MS - sinceLatest) / 1000);
+    return `Please wait ${waitSeconds} seconds before requesting another code.`;
+  }
+  return null;
+}
+
+/**
+ * Email a one-time reset code to the account with this address
+ * Resolves without error for unknown addresses so the form doesn't reveal which emails have accounts.
+ * @throws Error when no mailer is set up to deliver the code
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const mailer = getMailer();
+  if (!mailer) {
+    throw new Error('Password reset by email is not available yet. Please contact support to reset your password.');
+  }
+
+  // Limited before the account lookup, so known and unknown emails hit it alike
+  const address = email.trim().toLowerCase();
+  const now = Date.now();
+  const deviceRequests = await readDeviceRequests(now);
+  const deviceLimit = getRequestLimitMessage(deviceRequests[address] ?? [], now);
+  if (deviceLimit) {
+    throw new Error(deviceLimit);
+  }
+  await writeDeviceRequests({
+    ...deviceRequests,
+    [address]: [new Date(now).toISOString(), ...(deviceRequests[address] ?? [])],
+  });
+
+  const profile = await userProfileService.getByEmail(email.trim());
+  if (!profile) {
+    console.log('Password reset requested for an unknown email address');
+    return;
+  }
+
+  const code = generateCode();
+  const sent = await withPasswordResetRequestGrant(profile.id, async () => {
+    const recent = await passwordResetService.getRecentForUser(
+      profile.id,
+      new Date(now - RATE_LIMIT_WINDOW_MS).toISOString()
+    );
+
+    // Requests from other devices still count, but reporting it would reveal that the account exists
+    if (getRequestLimitMessage(recent.map((request) => request.createdAt), now)) {
+      console.log('Password reset request skipped; the account has asked for too many codes');
+      return false;
+    }
+
+    const created = await passwordResetService.create({
+      userId: profile.id,
+      codeHash: hashCode(profile.id, code),
+      expiresAt: new Date(now + CODE_TTL_MS).toISOString(),
+      failedAttempts: 0,
+    });
+
+    if (!created) {
+      throw new Error('Failed to create a reset code. Please try again.');
+    }
+    return true;
+  });
+  if (!sent) return;
+
+  await mailer.send({
+    to: profile.email,
+    subject: 'Your AVA password reset code',
+    text:
+      `Hi ${profile.firstName},\n\n` +
+      `Your password reset code is ${code}. It expires in ${CODE_TTL_MS / 60000} minutes.\n\n` +
+      'If you did not ask to reset your password, you can ignore this email.',
+  });
+  console.log('✅ Password reset code sent');
+}
+
+/**
+ * Check a reset code and set a new password
+ * @throws Error with a user-facing message when the code is wrong, used, expired or locked out
+ */
+export async function resetPasswordWithCode(email: string, code: string, newPassword: string): Promise<void> {
+  const profile = await userProfileService.getByEmail(email.trim());
+  if (!profile) {
+    throw new Error(INVALID_CODE_MESSAGE);
+  }
+
+  // A matching code is used up before anything changes, so it can't be replayed
+  const check = await withPasswordResetRequestGrant(profile.id, () =>
+    passwordResetService.checkLatestCode(profile.id, hashCode(profile.id, code.trim()), MAX_FAILED_ATTEMPTS)
+  );
+
+  if (check.status === 'invalid') {
+    throw new Error(INVALID_CODE_MESSAGE);
+  }
+  if (check.status === 'incorrect') {
+    const remaining = MAX_FAILED_ATTEMPTS - check.failedAttempts;
+    throw new Error(
+      remaining > 0
+        ? `Incorrect code. ${remaining} attempt(s) left.`
+        : 'Too many incorrect attempts. Please request a new code.'
+    );
+  }
+
+  const passwordHash = await hashPassword(newPassword);
+  await withPasswordResetGrant(profile.id, async () => {
+    const updated = await userProfileService.updatePasswordHash(profile.id, passwordHash);
+    if (!updated) {
+      throw new Error('Failed to update password. Please try again.');
+    }
+    await clearLoginFailures(profile.id);
+
+    // Whoever knew the old password shouldn't stay signed in
+    const revoked = await sessionService.revokeAllForUser(profile.id);
+    console.log(`✅ Password reset; revoked ${revoked ?? 0} session(s)`);
+  });
+}
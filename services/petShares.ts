@@ -0,0 +1,218 @@
+/**
+ * Pet Share Link Service
+ *
+ * Owners hand a pet's profile to someone without an account, such as a
+ * boarding kennel or a new vet:
+ * 1. createPetShareLink() issues a code for the sections the owner picked
+ * 2. openPetShareLink() checks a code and loads those sections, read-only
+ *
+ * - Links expire after at most MAX_SHARE_DAYS and can be revoked at any time
+ * - Only a SHA-256 hash of each code is stored, so the code is shown once
+ * - Every attempt to open a known link is recorded, including expired and
+ *   revoked ones, so the owner can see who looked
+ * - The contact directory isn't tied to a pet, so the emergency contacts the
+ *   owner picks are copied onto the link rather than looked up when it's opened
+ */
+
+import * as Crypto from 'expo-crypto';
+import * as Linking from 'expo-linking';
+import { Platform } from 'react-native';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { petShareLinkService, petShareServices } from '@/services/database';
+import { withPetShareGrant } from '@/services/authorization';
+import type { RepositoryName } from '@/services/backends/types';
+import type {
+  CanineAllergy,
+  CanineProfile,
+  Contact,
+  ImmunizationRecord,
+  MedicalRecord,
+  MedicationEntry,
+  PetShareAccessOutcome,
+  PetShareLink,
+  PetShareSection,
+  SharedContact,
+} from '@/types';
+
+export const MAX_SHARE_DAYS = 30;
+
+// Same alphabet as activation codes, so codes can be read out over the phone
+const CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const CODE_LENGTH = 10;
+
+const INVALID_LINK_MESSAGE = 'This share code is invalid. Check it with the pet owner.';
+
+// Emergency contacts are stored on the link itself
+const SECTION_REPOSITORIES: Record<PetShareSection, RepositoryName | null> = {
+  medicalRecords: 'medicalRecords',
+  immunizations: 'immunizations',
+  medications: 'medications',
+  allergies: 'canineAllergies',
+  emergencyContacts: null,
+};
+
+/**
+ * What a share link shows: the pet's basic details and the sections it covers
+ * Sections the link doesn't cover are left out.
+ */
+export interface SharedPetView {
+  canine: Pick<CanineProfile, 'id' | 'name' | 'breed' | 'dateOfBirth' | 'gender' | 'weight' | 'weightUnit' | 'color' | 'microchipNumber'>;
+  sections: PetShareSection[];
+  expiresAt: string;
+  medicalRecords?: MedicalRecord[];
+  immunizations?: ImmunizationRecord[];
+  medications?: MedicationEntry[];
+  allergies?: CanineAllergy[];
+  emergencyContacts?: SharedContact[];
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[\s-]/g, '');
+}
+
+function hashCode(code: string): string {
+  return bytesToHex(sha256(utf8ToBytes(code)));
+}
+
+function generateCode(): string {
+  return Array.from(Crypto.getRandomBytes(CODE_LENGTH))
+    .map((byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+    .join('');
+}
+
+/**
+ * The link that opens a share code in the app, or on the web build
+ */
+export function getPetShareUrl(code: string): string {
+  return Linking.createURL('/shared-pet', { queryParams: { code } });
+}
+
+/**
+ * Issue a share code for one pet
+ * @returns the stored link and the code, which can't be recovered later
+ * @throws Error with a user-facing message when the request is invalid or can't be saved
+ */
+export async function createPetShareLink(options: {
+  canineId: string;
+  createdBy: string;
+  sections: PetShareSection[];
+  emergencyContacts?: Contact[];
+  expiresInDays: number;
+  label?: string;
+}): Promise<{ link: PetShareLink; code: string }> {
+  const { canineId, createdBy, sections, emergencyContacts = [], expiresInDays, label } = options;
+  if (sections.length === 0) {
+    throw new Error('Choose at least one section to share.');
+  }
+  const sharesContacts = sections.includes('emergencyContacts');
+  if (sharesContacts && emergencyContacts.length === 0) {
+    throw new Error('Choose at least one emergency contact to share.');
+  }
+  if (!(expiresInDays > 0 && expiresInDays <= MAX_SHARE_DAYS)) {
+    throw new Error(`Share links can last at most ${MAX_SHARE_DAYS} days.`);
+  }
+
+  const code = generateCode();
+  const link = await petShareLinkService.create({
+    canineId,
+    createdBy,
+    sections,
+    emergencyContacts: sharesContacts
+      ? emergencyContacts.map(({ id, name, relationship, phone, email }) => ({ id, name, relationship, phone, email }))
+      : undefined,
+    label: label?.trim() || undefined,
+    codeHash: hashCode(code),
+    expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+  });
+  if (!link) {
+    throw new Error('Failed to create the share link. Please try again.');
+  }
+  console.log('✅ Share link created');
+  return { link, code };
+}
+
+async function recordAccess(link: PetShareLink, outcome: PetShareAccessOutcome) {
+  await withPetShareGrant(link.canineId, ['petShareAccesses'], (grant) =>
+    petShareServices(grant).petShareAccesses.create({
+      shareLinkId: link.id,
+      canineId: link.canineId,
+      outcome,
+      platform: Platform.OS,
+    })
+  );
+}
+
+/**
+ * Check a share code and load the sections it covers
+ * @throws Error with a user-facing message when the code is unknown, expired or revoked
+ */
+export async function openPetShareLink(code: string): Promise<SharedPetView> {
+  const normalizedCode = normalizeCode(code);
+  const link = normalizedCode ? await petShareLinkService.getByCodeHash(hashCode(normalizedCode)) : null;
+  if (!link) {
+    throw new Error(INVALID_LINK_MESSAGE);
+  }
+
+  if (link.revokedAt) {
+    await recordAccess(link, 'revoked');
+    throw new Error('The owner has stopped sharing this pet.');
+  }
+  if (new Date(link.expiresAt).getTime() <= Date.now()) {
+    await recordAccess(link, 'expired');
+    throw new Error('This share link has expired. Ask the owner for a new one.');
+  }
+
+  const has = (section: PetShareSection) => link.sections.includes(section);
+  const repositories: RepositoryName[] = [
+    'canineProfiles',
+    'petShareAccesses',
+    ...link.sections
+      .map((section) => SECTION_REPOSITORIES[section])
+      .filter((name): name is RepositoryName => name !== null),
+  ];
+
+  return withPetShareGrant(link.canineId, repositories, async (grant) => {
+    const services = petShareServices(grant);
+    const canine = await services.canineProfiles.getById(link.canineId);
+    if (!canine) {
+      throw new Error(INVALID_LINK_MESSAGE);
+    }
+
+    const scope = { canineIds: [link.canineId] };
+    const [medicalRecords, immunizations, medications, allergies] = await Promise.all([
+      has('medicalRecords') ? services.medicalRecords.getAll(scope) : undefined,
+      has('immunizations') ? services.immunizations.getAll(scope) : undefined,
+      has('medications') ? services.medications.getAll(scope) : undefined,
+      has('allergies') ? services.canineAllergies.getAll(scope) : undefined,
+    ]);
+
+    await services.petShareAccesses.create({
+      shareLinkId: link.id,
+      canineId: link.canineId,
+      outcome: 'viewed',
+      platform: Platform.OS,
+    });
+
+    return {
+      canine: {
+        id: canine.id,
+        name: canine.name,
+        breed: canine.breed,
+        dateOfBirth: canine.dateOfBirth,
+        gender: canine.gender,
+        weight: canine.weight,
+        weightUnit: canine.weightUnit,
+        color: canine.color,
+        microchipNumber: canine.microchipNumber,
+      },
+      sections: link.sections,
+      expiresAt: link.expiresAt,
+      medicalRecords,
+      immunizations,
+      medications,
+      allergies,
+      emergencyContacts: has('emergencyContacts') ? link.emergencyContacts ?? [] : undefined,
+    };
+  });
+}
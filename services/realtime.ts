@@ -0,0 +1,163 @@
+/**
+ * Realtime Sync Service
+ *
+ * Delivers record changes made on other devices to AppContext and merges them
+ * into the in-memory collections.
+ *
+ * Changes come from a ChangeEventSource:
+ * - the Supabase backend provides one backed by Postgres change subscriptions
+ * - createLocalChangeSource() is a stand-in that emits changes on demand, for
+ *   tests and for exercising the merge logic without a database
+ */
+
+import { getDataBackend } from '@/services/backends';
+import type { CollectionKey } from '@/services/offlineCache';
+
+export type RecordChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+/**
+ * A change to a single record, already mapped to the app's camelCase model
+ */
+export interface RecordChange<T extends { id: string } = any> {
+  collection: CollectionKey;
+  type: RecordChangeType;
+  /** The new version of the record (null for deletes) */
+  record: T | null;
+  /** ID of the changed record */
+  recordId: string;
+}
+
+/**
+ * Which records a subscriber should hear about
+ * Omit both fields to receive every change (admins).
+ */
+export interface ChangeScope {
+  ownerId?: string;
+  canineIds?: string[];
+}
+
+export interface ChangeEventSource {
+  subscribe(scope: ChangeScope, onChange: (change: RecordChange) => void): () => void;
+}
+
+/**
+ * Collections whose records belong to a pet
+ */
+export const CANINE_SCOPED_COLLECTIONS: CollectionKey[] = [
+  'nutritionEntries',
+  'trainingLogs',
+  'appointments',
+  'mediaItems',
+  'medicalRecords',
+  'labResults',
+  'medications',
+  'medicationDoseLogs',
+  'weightMeasurements',
+  'vetVisits',
+  'immunizations',
+  'canineAllergies',
+  'walkLogs',
+];
+
+/**
+ * Check whether a change falls inside a subscriber's scope
+ * Deletes carry no record, so they always pass; merging ignores unknown IDs.
+ */
+export function isChangeInScope(change: RecordChange, scope: ChangeScope): boolean {
+  if (!scope.ownerId && !scope.canineIds) return true;
+  if (change.type === 'DELETE' || !change.record) return true;
+
+  if (change.collection === 'canines') {
+    return change.record.userId === scope.ownerId || !!scope.canineIds?.includes(change.record.id);
+  }
+  if (CANINE_SCOPED_COLLECTIONS.includes(change.collection)) {
+    return !!scope.canineIds?.includes(change.record.canineId);
+  }
+  // User accounts are only visible to admins
+  return change.collection !== 'allUsers';
+}
+
+/**
+ * Merge a remote change into a collection
+ *
+ * Records listed in `pendingIds` have local edits waiting in the sync outbox;
+ * they are left alone so the outbox replay can detect the conflict instead of
+ * the edit being silently overwritten. Updates older than the local copy
+ * (including echoes of our own writes) are ignored too.
+ *
+ * Returns the original array when nothing changed.
+ */
+export function mergeRecordChange<T extends { id: string; updatedAt?: string }>(
+  records: T[],
+  change: RecordChange<T>,
+  pendingIds: ReadonlySet<string> = new Set()
+): T[] {
+  if (pendingIds.has(change.recordId)) {
+    return records;
+  }
+
+  const index = records.findIndex((record) => record.id === change.recordId);
+
+  if (change.type === 'DELETE' || !change.record) {
+    return index === -1 ? records : records.filter((record) => record.id !== change.recordId);
+  }
+
+  if (index === -1) {
+    return [change.record, ...records];
+  }
+
+  const local = records[index];
+  if (local.updatedAt && change.record.updatedAt && change.record.updatedAt <= local.updatedAt) {
+    return records;
+  }
+
+  const next = [...records];
+  next[index] = change.record;
+  return next;
+}
+
+export interface LocalChangeSource extends ChangeEventSource {
+  /** Deliver a change to every subscriber whose scope includes it */
+  emit(change: RecordChange): void;
+}
+
+/**
+ * In-process stand-in for the Supabase change feed
+ */
+export function createLocalChangeSource(): LocalChangeSource {
+  const subscribers = new Set<{ scope: ChangeScope; onChange: (change: RecordChange) => void }>();
+
+  return {
+    subscribe(scope, onChange) {
+      const subscriber = { scope, onChange };
+      subscribers.add(subscriber);
+      return () => {
+        subscribers.delete(subscriber);
+      };
+    },
+    emit(change) {
+      subscribers.forEach(({ scope, onChange }) => {
+        if (isChangeInScope(change, scope)) {
+          onChange(change);
+        }
+      });
+    },
+  };
+}
+
+let overrideSource: ChangeEventSource | null = null;
+
+/**
+ * Get the change feed for the active backend, if it has one
+ */
+export function getChangeEventSource(): ChangeEventSource | null {
+  return overrideSource ?? getDataBackend().changes ?? null;
+}
+
+/**
+ * Replace the change feed (e.g. with createLocalChangeSource() in tests)
+ * Pass null to go back to the backend's own feed.
+ */
+export function setChangeEventSource(source: ChangeEventSource | null): void {
+  overrideSource = source;
+}
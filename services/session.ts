@@ -0,0 +1,233 @@
+/**
+ * Session Service
+ *
+ * Issues a session token at login and keeps it on the device so the user stays
+ * signed in across app launches.
+ *
+ * - The token is 32 random bytes; only its SHA-256 hash is stored in the database
+ * - Sessions expire after SESSION_TTL_MS and are extended when refreshed
+ *   within REFRESH_WINDOW_MS of expiry
+ * - A session revoked by an admin (or expired) fails validation, and the app
+ *   signs the user out
+ * - While offline a session that hasn't expired locally is trusted, and the
+ *   profile snapshot saved with it stands in for the server copy
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { Platform } from 'react-native';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { sessionService } from '@/services/database';
+import type { UserProfile } from '@/types';
+
+const SESSION_KEY = '@ava_session';
+const TOKEN_BYTES = 32;
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const REFRESH_WINDOW_MS = 24 * 60 * 60 * 1000; // refresh during the last day
+
+export interface StoredSession {
+  token: string;
+  sessionId: string;
+  userId: string;
+  expiresAt: string;
+  /** Last known copy of the user's profile, for launching offline */
+  profile: UserProfile;
+}
+
+/**
+ * Result of checking a session with the backend
+ * 'unknown' means the backend couldn't be reached.
+ */
+export type SessionStatus = 'valid' | 'invalid' | 'unknown';
+
+function hashToken(token: string): string {
+  return bytesToHex(sha256(utf8ToBytes(token)));
+}
+
+function isExpired(expiresAt: string): boolean {
+  return new Date(expiresAt).getTime() <= Date.now();
+}
+
+async function saveLocalSession(session: StoredSession): Promise<void> {
+  await AsyncStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+async function clearLocalSession(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(SESSION_KEY);
+  } catch (error) {
+    console.error('Error clearing stored session:', error);
+  }
+}
+
+/**
+ * Read the session saved on this device, if any
+ */
+export async function getStoredSession(): Promise<StoredSession | null> {
+  try {
+    const value = await AsyncStorage.getItem(SESSION_KEY);
+    return value ? (JSON.parse(value) as StoredSession) : null;
+  } catch (error) {
+    console.error('Error reading stored session:', error);
+    return null;
+  }
+}
+
+/**
+ * Time until the stored session should be refreshed, in milliseconds
+ */
+export function getRefreshDelay(session: StoredSession): number {
+  const refreshAt = new Date(session.expiresAt).getTime() - REFRESH_WINDOW_MS;
+  return Math.max(0, refreshAt - Date.now());
+}
+
+/**
+ * Issue a new session for a user who just signed in and store it on the device
+ */
+export async function createSession(profile: UserProfile): Promise<StoredSession | null> {
+  const token = bytesToHex(Crypto.getRandomBytes(TOKEN_BYTES));
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+
+  try {
+    const created = await sessionService.create({
+      userId: profile.id,
+      tokenHash: hashToken(token),
+      expiresAt,
+      deviceLabel: `${Platform.OS} ${Platform.Version ?? ''}`.trim(),
+    });
+    if (!created) {
+      console.error('❌ Session was not created');
+      return null;
+    }
+
+    const session: StoredSession = { token, sessionId: created.id, userId: profile.id, expiresAt, profile };
+    await saveLocalSession(session);
+    console.log('🔑 Session created, expires', expiresAt);
+    return session;
+  } catch (error) {
+    console.error('Error creating session:', error);
+    return null;
+  }
+}
+
+/**
+ * Check a session against the backend
+ */
+export async function validateSession(session: StoredSession): Promise<SessionStatus> {
+  if (isExpired(session.expiresAt)) {
+    return 'invalid';
+  }
+
+  try {
+    const record = await sessionService.getByTokenHash(hashToken(session.token));
+    if (!record || record.userId !== session.userId || record.revokedAt || isExpired(record.expiresAt)) {
+      return 'invalid';
+    }
+    return 'valid';
+  } catch (error) {
+    // Backends only throw for transient failures; don't sign the user out over a dropped connection
+    console.warn('⚠️ Could not reach the server to validate the session:', error);
+    return 'unknown';
+  }
+}
+
+/**
+ * Load the stored session on launch
+ * Returns null (and clears it) when the session is expired or has been revoked.
+ * While offline, a session that hasn't expired locally is kept.
+ */
+export async function restoreSession(): Promise<StoredSession | null> {
+  const session = await getStoredSession();
+  if (!session) {
+    return null;
+  }
+
+  const status = await validateSession(session);
+  if (status === 'invalid') {
+    console.log('🔒 Stored session is no longer valid');
+    await clearLocalSession();
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Extend the session's expiry
+ * Returns the updated session, the current one if the server can't be reached,
+ * or null if the session is no longer valid.
+ */
+export async function refreshSession(session: StoredSession): Promise<StoredSession | null> {
+  const status = await validateSession(session);
+  if (status === 'invalid') {
+    await clearLocalSession();
+    return null;
+  }
+  if (status === 'unknown') {
+    return session;
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS).toISOString();
+
+  try {
+    const updated = await sessionService.update(session.sessionId, {
+      expiresAt,
+      lastRefreshedAt: now.toISOString(),
+    });
+    if (!updated) {
+      return session;
+    }
+
+    const refreshed = { ...session, expiresAt: updated.expiresAt };
+    await saveLocalSession(refreshed);
+    console.log('🔑 Session refreshed, expires', refreshed.expiresAt);
+    return refreshed;
+  } catch (error) {
+    console.error('Error refreshing session:', error);
+    return session;
+  }
+}
+
+/**
+ * Sign out on this device: revoke the stored session and forget it
+ */
+export async function endSession(): Promise<void> {
+  const session = await getStoredSession();
+  await clearLocalSession();
+  if (!session) {
+    return;
+  }
+
+  try {
+    await sessionService.update(session.sessionId, { revokedAt: new Date().toISOString() });
+  } catch (error) {
+    // The session still expires on its own
+    console.error('Error revoking session on sign out:', error);
+  }
+}
+
+/**
+ * Update the profile snapshot kept with the stored session
+ */
+export async function saveSessionProfile(profile: UserProfile): Promise<void> {
+  const session = await getStoredSession();
+  if (!session || session.userId !== profile.id) {
+    return;
+  }
+
+  try {
+    await saveLocalSession({ ...session, profile });
+  } catch (error) {
+    console.error('Error saving session profile:', error);
+  }
+}
+
+/**
+ * Forget the stored session without contacting the backend
+ * Used when the session has already been found invalid.
+ */
+export async function discardSession(): Promise<void> {
+  await clearLocalSession();
+}
@@ -43,6 +43,26 @@ export async function getSignedUrl(filePath: string, expiresIn: number = 3153600
   }
 }
 
+/**
+ * Size in bytes of a picked file, for pickers that don't report one
+ * Reads the file info on native and the file's blob on web.
+ * @param uri - Local file URI from expo-image-picker
+ * @returns The size, or null when it can't be determined
+ */
+export async function getLocalFileSize(uri: string): Promise<number | null> {
+  try {
+    if (Platform.OS === 'web') {
+      const blob = await (await fetch(uri)).blob();
+      return blob.size;
+    }
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    return fileInfo.exists && typeof fileInfo.size === 'number' ? fileInfo.size : null;
+  } catch (error) {
+    console.warn('Unable to determine file size:', error);
+    return null;
+  }
+}
+
 /**
  * Upload an image or video to Supabase Storage
  * @param uri - Local file URI from expo-image-picker
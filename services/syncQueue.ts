@@ -0,0 +1,406 @@
+/**
+ * Sync Queue (Outbox) Service
+ *
+ * Mutations made while the device is offline are recorded here and replayed
+ * against the database services once connectivity returns.
+ *
+ * - The outbox is persisted in AsyncStorage so queued changes survive reloads
+ * - Each user has their own outbox and conflict list, so changes queued by one
+ *   account are never replayed after another account signs in on the device:
+ *     @ava_sync_outbox:{userId}
+ *     @ava_sync_conflicts:{userId}
+ * - Operations are replayed strictly in the order they were queued
+ * - Records created offline get a temporary `local-` ID which is swapped for
+ *   the server ID once the create has been replayed
+ * - Updates and deletes carry the `updatedAt` the client last saw; if the
+ *   server copy has changed since then the operation is dropped and reported
+ *   as a conflict instead of overwriting someone else's change
+ * - When a create is given up on, the operations that refer to its temporary
+ *   ID are given up on with it, since that ID can never be swapped
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  userProfileService,
+  canineProfileService,
+  vetProfileService,
+  contactService,
+  nutritionEntryService,
+  trainingLogService,
+  appointmentService,
+  mediaItemService,
+  medicalRecordService,
+  labResultService,
+  medicationService,
+  medicationDoseLogService,
+  weightMeasurementService,
+  vetVisitService,
+  immunizationService,
+  canineAllergyService,
+  walkLogService,
+} from '@/services/database';
+import { AuthorizationError } from '@/services/authorization';
+import type { CollectionKey } from '@/services/offlineCache';
+
+const OUTBOX_PREFIX = '@ava_sync_outbox';
+const CONFLICTS_PREFIX = '@ava_sync_conflicts';
+const LOCAL_ID_PREFIX = 'local-';
+
+// Operations that keep failing while online are given up on after this many attempts
+const MAX_ATTEMPTS = 5;
+
+export type SyncEntity = CollectionKey;
+export type SyncOperationType = 'create' | 'update' | 'delete';
+
+export interface SyncOperation {
+  id: string;
+  entity: SyncEntity;
+  type: SyncOperationType;
+  recordId: string;
+  payload?: Record<string, any>;
+  baseUpdatedAt?: string; // updatedAt of the record when the change was made
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type SyncConflictReason = 'stale' | 'missing' | 'rejected';
+
+export interface SyncConflict {
+  operation: SyncOperation;
+  reason: SyncConflictReason;
+  serverRecord?: Record<string, any> | null;
+  detectedAt: string;
+}
+
+export interface FlushResult {
+  applied: number;
+  remaining: number;
+  conflicts: SyncConflict[];
+  idMap: Record<string, string>; // temporary ID -> server ID
+}
+
+interface SyncableService {
+  getById(id: string): Promise<{ id: string; updatedAt?: string } | null>;
+  create(payload: any): Promise<{ id: string } | null>;
+  update(id: string, updates: any): Promise<{ id: string } | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+const SYNC_SERVICES: Record<SyncEntity, SyncableService> = {
+  allUsers: userProfileService,
+  canines: canineProfileService,
+  vets: vetProfileService,
+  contacts: contactService,
+  nutritionEntries: nutritionEntryService,
+  trainingLogs: trainingLogService,
+  appointments: appointmentService,
+  mediaItems: mediaItemService,
+  medicalRecords: medicalRecordService,
+  labResults: labResultService,
+  medications: medicationService,
+  medicationDoseLogs: medicationDoseLogService,
+  weightMeasurements: weightMeasurementService,
+  vetVisits: vetVisitService,
+  immunizations: immunizationService,
+  canineAllergies: canineAllergyService,
+  walkLogs: walkLogService,
+};
+
+// Serialises read-modify-write cycles on the outbox
+let outboxLock: Promise<unknown> = Promise.resolve();
+
+function withOutboxLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = outboxLock.then(task, task);
+  outboxLock = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Generate a temporary ID for a record created while offline
+ */
+export function createLocalId(entity: SyncEntity): string {
+  return `${LOCAL_ID_PREFIX}${entity}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Check whether an ID is a temporary offline ID
+ */
+export function isLocalId(id: string | undefined | null): boolean {
+  return !!id && id.startsWith(LOCAL_ID_PREFIX);
+}
+
+function getOutboxKey(userId: string): string {
+  return `${OUTBOX_PREFIX}:${userId}`;
+}
+
+function getConflictsKey(userId: string): string {
+  return `${CONFLICTS_PREFIX}:${userId}`;
+}
+
+async function readOutbox(userId: string): Promise<SyncOperation[]> {
+  try {
+    const raw = await AsyncStorage.getItem(getOutboxKey(userId));
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error reading sync outbox:', error);
+    return [];
+  }
+}
+
+async function writeOutbox(userId: string, operations: SyncOperation[]): Promise<void> {
+  await AsyncStorage.setItem(getOutboxKey(userId), JSON.stringify(operations));
+}
+
+/**
+ * Get all queued operations in replay order
+ * @param userId - ID of the user who queued the operations
+ */
+export async function getPendingOperations(userId: string): Promise<SyncOperation[]> {
+  return readOutbox(userId);
+}
+
+/**
+ * Queue a mutation for later replay
+ *
+ * Operations on the same record are coalesced so the outbox never replays
+ * more work than needed:
+ * - update after create   -> merged into the create payload
+ * - update after update   -> payloads merged, original baseUpdatedAt kept
+ * - delete after create   -> both dropped (the server never saw the record)
+ * - delete after update   -> update replaced by the delete
+ *
+ * @param userId - ID of the signed-in user making the change
+ * @returns The number of operations left in the outbox
+ */
+export async function enqueueOperation(
+  userId: string,
+  operation: Omit<SyncOperation, 'id' | 'queuedAt' | 'attempts'>
+): Promise<number> {
+  return withOutboxLock(async () => {
+    let outbox = await readOutbox(userId);
+    const existingIndex = outbox.findIndex(
+      (op) => op.entity === operation.entity && op.recordId === operation.recordId
+    );
+    const existing = existingIndex >= 0 ? outbox[existingIndex] : undefined;
+
+    if (existing && operation.type === 'update') {
+      outbox[existingIndex] = {
+        ...existing,
+        payload: { ...existing.payload, ...operation.payload },
+      };
+    } else if (existing && operation.type === 'delete') {
+      if (existing.type === 'create') {
+        outbox = outbox.filter((op) => op.recordId !== operation.recordId);
+        // Children queued against a pet, medication or medical record that never reached the server can't be replayed either
+        if (operation.entity === 'canines') {
+          outbox = outbox.filter((op) => op.payload?.canineId !== operation.recordId);
+        }
+        if (operation.entity === 'medications') {
+          outbox = outbox.filter((op) => op.payload?.medicationId !== operation.recordId);
+        }
+        if (operation.entity === 'medicalRecords') {
+          outbox = outbox.filter((op) => op.payload?.medicalRecordId !== operation.recordId);
+        }
+        // Links to a visit that never reached the server are dropped; the linked items themselves stay
+        if (operation.entity === 'vetVisits') {
+          outbox = outbox.map((op) =>
+            op.payload?.vetVisitId === operation.recordId ? { ...op, payload: { ...op.payload, vetVisitId: null } } : op
+          );
+        }
+      } else {
+        outbox[existingIndex] = {
+          ...existing,
+          type: 'delete',
+          payload: undefined,
+        };
+      }
+    } else {
+      outbox.push({
+        ...operation,
+        id: `op-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        queuedAt: new Date().toISOString(),
+        attempts: 0,
+      });
+    }
+
+    await writeOutbox(userId, outbox);
+    return outbox.length;
+  });
+}
+
+/**
+ * Get conflicts detected during previous replays
+ */
+export async function getSyncConflicts(userId: string): Promise<SyncConflict[]> {
+  try {
+    const raw = await AsyncStorage.getItem(getConflictsKey(userId));
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error reading sync conflicts:', error);
+    return [];
+  }
+}
+
+/**
+ * Clear recorded conflicts once the user has acknowledged them
+ */
+export async function clearSyncConflicts(userId: string): Promise<void> {
+  await AsyncStorage.removeItem(getConflictsKey(userId));
+}
+
+async function recordConflicts(userId: string, conflicts: SyncConflict[]): Promise<void> {
+  if (conflicts.length === 0) return;
+  const existing = await getSyncConflicts(userId);
+  await AsyncStorage.setItem(getConflictsKey(userId), JSON.stringify([...existing, ...conflicts]));
+}
+
+/**
+ * Replace temporary IDs in a payload with server IDs
+ */
+function remapPayload(payload: Record<string, any> | undefined, idMap: Record<string, string>) {
+  if (!payload) return payload;
+  const remapped: Record<string, any> = {};
+  Object.entries(payload).forEach(([key, value]) => {
+    remapped[key] = typeof value === 'string' && idMap[value] ? idMap[value] : value;
+  });
+  return remapped;
+}
+
+/**
+ * Check whether an operation still points at a temporary ID after remapping
+ * By then every create queued ahead of it has either been replayed or given
+ * up on, so a temporary ID left over can never resolve.
+ */
+function referencesUnresolvedId(operation: SyncOperation): boolean {
+  if (operation.type !== 'create' && isLocalId(operation.recordId)) return true;
+  return Object.values(operation.payload ?? {}).some((value) => typeof value === 'string' && isLocalId(value));
+}
+
+/**
+ * Check whether the server copy changed after the client last saw it
+ */
+function isStale(serverRecord: { updatedAt?: string }, baseUpdatedAt?: string): boolean {
+  if (!baseUpdatedAt || !serverRecord.updatedAt) return false;
+  return new Date(serverRecord.updatedAt).getTime() > new Date(baseUpdatedAt).getTime();
+}
+
+/**
+ * Replay a single operation against the database services
+ * @returns The server ID of the record for creates, or null on failure
+ */
+async function replayOperation(
+  operation: SyncOperation,
+  conflicts: SyncConflict[]
+): Promise<{ ok: boolean; serverId?: string }> {
+  const service = SYNC_SERVICES[operation.entity];
+
+  if (operation.type === 'create') {
+    const created = await service.create(operation.payload);
+    return created ? { ok: true, serverId: created.id } : { ok: false };
+  }
+
+  const serverRecord = await service.getById(operation.recordId);
+
+  if (!serverRecord) {
+    // Nothing to delete is fine; updating a record someone else deleted is a conflict
+    if (operation.type === 'update') {
+      conflicts.push({ operation, reason: 'missing', serverRecord: null, detectedAt: new Date().toISOString() });
+    }
+    return { ok: true };
+  }
+
+  if (isStale(serverRecord, operation.baseUpdatedAt)) {
+    conflicts.push({ operation, reason: 'stale', serverRecord, detectedAt: new Date().toISOString() });
+    return { ok: true };
+  }
+
+  if (operation.type === 'update') {
+    const updated = await service.update(operation.recordId, operation.payload);
+    return { ok: !!updated };
+  }
+
+  const deleted = await service.delete(operation.recordId);
+  return { ok: deleted };
+}
+
+/**
+ * Replay every queued operation in order
+ *
+ * Replay stops at the first failure so later operations never run ahead of
+ * the ones they depend on. An operation that has failed MAX_ATTEMPTS times is
+ * moved to the conflict list so it can't block the queue forever, along with
+ * every later operation that refers to a record it would have created.
+ *
+ * @param userId - ID of the signed-in user; only their outbox is replayed
+ */
+export async function flushOutbox(userId: string): Promise<FlushResult> {
+  return withOutboxLock(async () => {
+    const outbox = await readOutbox(userId);
+    const conflicts: SyncConflict[] = [];
+    const idMap: Record<string, string> = {};
+    let applied = 0;
+    let index = 0;
+
+    for (; index < outbox.length; index++) {
+      const operation: SyncOperation = {
+        ...outbox[index],
+        recordId: idMap[outbox[index].recordId] ?? outbox[index].recordId,
+        payload: remapPayload(outbox[index].payload, idMap),
+      };
+
+      // The create this depends on was given up on earlier in this pass (or in an earlier one)
+      if (referencesUnresolvedId(operation)) {
+        operation.lastError = 'Depends on a record that could not be created';
+        conflicts.push({ operation, reason: 'rejected', detectedAt: new Date().toISOString() });
+        continue;
+      }
+
+      let result: { ok: boolean; serverId?: string };
+      try {
+        result = await replayOperation(operation, conflicts);
+      } catch (error: any) {
+        console.error('Error replaying queued operation:', error);
+        operation.lastError = error?.message || String(error);
+        // Retrying won't change the answer for a change the signed-in user may not make
+        if (error instanceof AuthorizationError) {
+          conflicts.push({ operation, reason: 'rejected', detectedAt: new Date().toISOString() });
+          continue;
+        }
+        result = { ok: false };
+      }
+
+      if (!result.ok) {
+        operation.attempts += 1;
+        if (operation.attempts >= MAX_ATTEMPTS) {
+          conflicts.push({ operation, reason: 'rejected', detectedAt: new Date().toISOString() });
+          continue;
+        }
+        outbox[index] = operation;
+        break;
+      }
+
+      if (operation.type === 'create' && result.serverId) {
+        idMap[operation.recordId] = result.serverId;
+      }
+      applied += 1;
+    }
+
+    const remaining = outbox.slice(index).map((op) => ({
+      ...op,
+      recordId: idMap[op.recordId] ?? op.recordId,
+      payload: remapPayload(op.payload, idMap),
+    }));
+
+    await writeOutbox(userId, remaining);
+    await recordConflicts(userId, conflicts);
+
+    if (applied > 0 || conflicts.length > 0) {
+      console.log(`🔄 Sync replayed ${applied} operation(s), ${conflicts.length} conflict(s), ${remaining.length} pending`);
+    }
+
+    return { applied, remaining: remaining.length, conflicts, idMap };
+  });
+}
@@ -0,0 +1,217 @@
+/**
+ * Two-Factor Authentication Service
+ *
+ * Optional second step at login using an authenticator app (TOTP, see utils/totp.ts):
+ * 1. startTwoFactorEnrollment() stores a new secret and returns it for the app
+ * 2. confirmTwoFactorEnrollment() checks a code from the app, turns two-factor
+ *    login on and returns a set of backup codes
+ * 3. checkTwoFactorCode() is then needed after the password at every login
+ *
+ * - Each authenticator code is accepted once, so a code seen over someone's
+ *   shoulder can't be replayed within its 30 seconds
+ * - Backup codes work once each; only SHA-256 hashes of them are stored
+ * - Admins can require two-factor login for every Admin account (app settings)
+ */
+
+import * as Crypto from 'expo-crypto';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { appSettingsService, twoFactorCredentialService } from '@/services/database';
+import { buildOtpAuthUri, generateTotpSecret, matchTotpCode } from '@/utils/totp';
+import type { TwoFactorCredential, UserProfile } from '@/types';
+
+const ISSUER = 'AVA';
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_LENGTH = 10;
+
+// Same alphabet as share and activation codes, without look-alike characters
+const BACKUP_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+/**
+ * What the signed-in user's screens need to know, without the secret itself
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  backupCodesRemaining: number;
+}
+
+export const TWO_FACTOR_DISABLED: TwoFactorStatus = { enabled: false, backupCodesRemaining: 0 };
+
+function normalizeCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[\s-]/g, '');
+}
+
+function hashBackupCode(userId: string, code: string): string {
+  return bytesToHex(sha256(utf8ToBytes(`${userId}:${code}`)));
+}
+
+function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = Array.from(Crypto.getRandomBytes(BACKUP_CODE_LENGTH))
+      .map((byte) => BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length])
+      .join('');
+    // Split in two so the codes are easier to copy down
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export function toTwoFactorStatus(credential: TwoFactorCredential | null): TwoFactorStatus {
+  if (!credential?.enabledAt) {
+    return TWO_FACTOR_DISABLED;
+  }
+  return { enabled: true, backupCodesRemaining: credential.backupCodeHashes.length };
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  return toTwoFactorStatus(await twoFactorCredentialService.getForUser(userId));
+}
+
+/**
+ * Whether this account must have two-factor login turned on
+ */
+export async function isTwoFactorRequired(profile: Pick<UserProfile, 'role'>): Promise<boolean> {
+  if (profile.role !== 'Admin') {
+    return false;
+  }
+  const settings = await appSettingsService.get();
+  return !!settings?.requireAdminTwoFactor;
+}
+
+/**
+ * Store a new secret for the user to add to their authenticator app
+ * Replaces a secret that was never confirmed.
+ * @returns the secret for typing in, and the otpauth:// link for scanning or opening
+ * @throws Error with a user-facing message when two-factor is already on or the secret can't be saved
+ */
+export async function startTwoFactorEnrollment(
+  profile: Pick<UserProfile, 'id' | 'email'>
+): Promise<{ secret: string; otpauthUri: string }> {
+  const existing = await twoFactorCredentialService.getForUser(profile.id);
+  if (existing?.enabledAt) {
+    throw new Error('Two-factor authentication is already on. Turn it off first to use a new authenticator.');
+  }
+
+  const secret = generateTotpSecret();
+  const saved = existing
+    ? await twoFactorCredentialService.update(existing.id, { secret, backupCodeHashes: [] })
+    : await twoFactorCredentialService.create({ userId: profile.id, secret, backupCodeHashes: [] });
+  if (!saved) {
+    throw new Error('Failed to start two-factor setup. Please try again.');
+  }
+
+  return { secret, otpauthUri: buildOtpAuthUri({ secret, accountName: profile.email, issuer: ISSUER }) };
+}
+
+/**
+ * Turn two-factor login on once the user shows their app produces the right codes
+ * @returns backup codes, which are shown once and can't be recovered later
+ * @throws Error with a user-facing message when the code is wrong or setup wasn't started
+ */
+export async function confirmTwoFactorEnrollment(userId: string, code: string): Promise<string[]> {
+  const credential = await twoFactorCredentialService.getForUser(userId);
+  if (!credential || credential.enabledAt) {
+    throw new Error('Start two-factor setup again to get a new secret.');
+  }
+
+  const step = matchTotpCode(credential.secret, normalizeCode(code));
+  if (step === null) {
+    throw new Error('That code doesn\'t match. Check the time on your device and try the newest code.');
+  }
+
+  const backupCodes = generateBackupCodes();
+  const enabled = await twoFactorCredentialService.update(credential.id, {
+    enabledAt: new Date().toISOString(),
+    lastUsedStep: step,
+    backupCodeHashes: backupCodes.map((backupCode) => hashBackupCode(userId, normalizeCode(backupCode))),
+  });
+  if (!enabled) {
+    throw new Error('Failed to turn on two-factor authentication. Please try again.');
+  }
+  console.log('✅ Two-factor authentication enabled');
+  return backupCodes;
+}
+
+/**
+ * Check an authenticator code or backup code and use it up
+ * At login, call inside withTwoFactorGrant() since nobody is signed in yet.
+ * @returns false when the code is wrong, already used, or two-factor isn't on
+ */
+export async function checkTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  const credential = await twoFactorCredentialService.getForUser(userId);
+  if (!credential?.enabledAt) {
+    return false;
+  }
+
+  const normalizedCode = normalizeCode(code);
+  const step = matchTotpCode(credential.secret, normalizedCode);
+  if (step !== null) {
+    if (credential.lastUsedStep !== undefined && step <= credential.lastUsedStep) {
+      return false;
+    }
+    return !!(await twoFactorCredentialService.update(credential.id, { lastUsedStep: step }));
+  }
+
+  const backupHash = hashBackupCode(userId, normalizedCode);
+  if (!credential.backupCodeHashes.includes(backupHash)) {
+    return false;
+  }
+  const remaining = credential.backupCodeHashes.filter((hash) => hash !== backupHash);
+  const updated = await twoFactorCredentialService.update(credential.id, { backupCodeHashes: remaining });
+  if (updated) {
+    console.log(`🔑 Backup code used; ${remaining.length} left`);
+  }
+  return !!updated;
+}
+
+/**
+ * Replace the user's backup codes after checking a current code
+ * @returns the new backup codes
+ * @throws Error with a user-facing message when the code is wrong
+ */
+export async function regenerateBackupCodes(userId: string, code: string): Promise<string[]> {
+  if (!(await checkTwoFactorCode(userId, code))) {
+    throw new Error('That code doesn\'t match. Enter a code from your authenticator app or a backup code.');
+  }
+  const credential = await twoFactorCredentialService.getForUser(userId);
+  const backupCodes = generateBackupCodes();
+  const updated =
+    credential &&
+    (await twoFactorCredentialService.update(credential.id, {
+      backupCodeHashes: backupCodes.map((backupCode) => hashBackupCode(userId, normalizeCode(backupCode))),
+    }));
+  if (!updated) {
+    throw new Error('Failed to create new backup codes. Please try again.');
+  }
+  return backupCodes;
+}
+
+/**
+ * Turn two-factor login off after checking a current code
+ * @throws Error with a user-facing message when the code is wrong or the change can't be saved
+ */
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  if (!(await checkTwoFactorCode(userId, code))) {
+    throw new Error('That code doesn\'t match. Enter a code from your authenticator app or a backup code.');
+  }
+  const credential = await twoFactorCredentialService.getForUser(userId);
+  if (!credential || !(await twoFactorCredentialService.delete(credential.id))) {
+    throw new Error('Failed to turn off two-factor authentication. Please try again.');
+  }
+  console.log('✅ Two-factor authentication disabled');
+}
+
+/**
+ * Remove another user's second factor, for when they've lost their device and backup codes
+ * Admin only (enforced by the repository policies).
+ * @returns false when the user didn't have two-factor set up
+ */
+export async function resetTwoFactor(userId: string): Promise<boolean> {
+  const credential = await twoFactorCredentialService.getForUser(userId);
+  if (!credential) {
+    return false;
+  }
+  if (!(await twoFactorCredentialService.delete(credential.id))) {
+    throw new Error('Failed to reset two-factor authentication. Please try again.');
+  }
+  return true;
+}
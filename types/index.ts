@@ -5,6 +5,10 @@
 
 export type UserRole = 'Admin' | 'Pet Owner' | 'Vet' | 'Dog Walker';
 
+export type SubscriptionTier = 'Free' | 'Premium' | 'Enterprise';
+
+export type WeightUnit = 'kg' | 'lbs';
+
 export interface UserProfile {
   id: string;
   firstName: string;
@@ -19,19 +23,116 @@ export interface UserProfile {
   state?: string;
   zipCode?: string;
   profilePhotoUrl?: string;
+  // Login throttling (see services/loginThrottle.ts)
+  failedLoginAttempts?: number;
+  lastFailedLoginAt?: string;
+  lockedUntil?: string;
+  activationCodeId?: string; // Activation code redeemed at signup
+  subscriptionTier?: SubscriptionTier; // Treated as 'Free' when unset; see utils/entitlements.ts
+  preferredWeightUnit?: WeightUnit; // Unit weights are shown in; follows the country when unset (see utils/weight.ts)
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A signed-in device
+ * Only a hash of the session token is stored; the token itself stays on the device.
+ */
+export interface UserSession {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: string;
+  lastRefreshedAt?: string;
+  revokedAt?: string;
+  deviceLabel?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * A one-time code for resetting a forgotten password
+ * Only a hash of the code is stored; the code itself is sent by email.
+ */
+export interface PasswordResetCode {
+  id: string;
+  userId: string;
+  codeHash: string;
+  expiresAt: string;
+  usedAt?: string;
+  failedAttempts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A reset code as the app sees it; the hash never leaves the backend
+ */
+export type PasswordResetRequest = Omit<PasswordResetCode, 'codeHash'>;
+
+/**
+ * A user's authenticator app secret and backup codes (see services/twoFactor.ts)
+ * Two-factor login is on once enabledAt is set; until then the secret is waiting
+ * for the user to confirm a code. Only hashes of the backup codes are stored.
+ */
+export interface TwoFactorCredential {
+  id: string;
+  userId: string;
+  secret: string; // Base32, as shown to the user
+  backupCodeHashes: string[];
+  enabledAt?: string;
+  lastUsedStep?: number; // Newest accepted time step, so a code can't be used twice
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Settings that apply to the whole app, changed by admins
+ */
+export interface AppSettings {
+  id: string;
+  requireAdminTwoFactor: boolean;
+  updatedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A code that lets new users sign up
+ * Codes are matched case-insensitively and stored in lowercase.
+ */
+export interface ActivationCode {
+  id: string;
+  code: string;
+  tier: SubscriptionTier;
+  allowedRoles: UserRole[];
+  description?: string;
+  expiresAt?: string; // No expiry when unset
+  maxRedemptions?: number; // Unlimited when unset
+  redemptionCount: number;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * How much exercise a dog gets on a typical day; used for its calorie requirement
+ */
+export type ActivityLevel = 'low' | 'moderate' | 'active' | 'working';
+
 export interface CanineProfile {
   id: string;
   userId: string; // Associated with Pet Owner
+  householdId?: string; // Shared with the household's members when set
   name: string;
   breed?: string;
   dateOfBirth?: string;
   gender?: 'Male' | 'Female' | 'Unknown';
-  weight?: number;
-  weightUnit?: 'kg' | 'lbs';
+  weight?: number; // The newest weight measurement, when there is one
+  weightUnit?: WeightUnit;
+  activityLevel?: ActivityLevel;
+  neutered?: boolean; // Spayed or neutered; unset when unknown
   color?: string;
   microchipNumber?: string;
   profilePhotoId?: string; // ID of the media item used as profile photo
@@ -40,6 +141,69 @@ export interface CanineProfile {
   updatedAt: string;
 }
 
+/**
+ * A group of users who look after the same pets, e.g. a family
+ */
+export interface Household {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * What a household member may do with the household's pets
+ * Owners manage the pets and the household, caregivers log records, read-only members look.
+ */
+export type HouseholdRole = 'owner' | 'caregiver' | 'read-only';
+
+export interface HouseholdMember {
+  id: string;
+  householdId: string;
+  userId: string;
+  // Copied from the member's account so the household can see who belongs to it
+  memberName: string;
+  memberEmail: string;
+  role: HouseholdRole;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A vet's access to one pet, granted by the pet's owner
+ * While active, the vet can read the pet's health history and add vet visits and medical records.
+ */
+export interface VetAccessGrant {
+  id: string;
+  canineId: string;
+  vetUserId: string;
+  // Copied from the vet's account so owners can see who they shared with
+  vetName: string;
+  vetEmail: string;
+  grantedBy: string;
+  revokedAt?: string; // Active while unset
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A walker assigned to one pet by the pet's owner
+ * While active, the walker sees the pet in the walker portal and can log walks for it.
+ */
+export interface WalkerAssignment {
+  id: string;
+  canineId: string;
+  walkerUserId: string;
+  // Copied from the walker's account so owners can see who they assigned
+  walkerName: string;
+  walkerEmail: string;
+  assignedBy: string;
+  revokedAt?: string; // Active while unset
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface VetProfile {
   id: string;
   name: string;
@@ -114,6 +278,7 @@ export interface Appointment {
   id: string;
   canineId: string;
   vetId?: string;
+  vetVisitId?: string; // The visit this is a follow-up to
   category: string;
   title: string;
   description?: string;
@@ -135,6 +300,7 @@ export interface MediaItem {
   uri: string; // Local file path or URL
   caption?: string;
   date: string; // YYYY-MM-DD
+  fileSize?: number; // Bytes; counts towards the subscription's storage quota
   createdAt: string;
   updatedAt: string;
 }
@@ -157,16 +323,36 @@ export interface MedicalRecord {
   clinicName: string;
   reportType: string;
   reportDate?: string;
+  vetVisitId?: string; // The visit that produced this record
   notes?: string;
   attachments: MedicalAttachment[];
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * One measured value from a medical record's bloodwork (see utils/labResults.ts)
+ * The reference range is copied onto each result, since labs and machines differ.
+ */
+export interface LabResult {
+  id: string;
+  canineId: string;
+  medicalRecordId: string;
+  panel?: string; // Catalogue panel the analyte came from, e.g. 'CBC'
+  analyte: string; // Catalogue code such as 'ALT', or a custom name
+  value: number;
+  unit: string;
+  referenceLow?: number;
+  referenceHigh?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface MedicationEntry {
   id: string;
   canineId: string;
   vetId?: string;
+  vetVisitId?: string; // The visit this was prescribed at
   vetName: string;
   medicationName: string;
   reason: string;
@@ -182,6 +368,120 @@ export interface MedicationEntry {
   updatedAt: string;
 }
 
+/**
+ * What happened to a scheduled dose: given on time, given late, or skipped
+ */
+export type MedicationDoseStatus = 'given' | 'late' | 'skipped';
+
+/**
+ * A caregiver's record of one scheduled dose (see utils/doseSchedule.ts)
+ * scheduledAt identifies the dose within the medication's schedule.
+ */
+export interface MedicationDoseLog {
+  id: string;
+  canineId: string;
+  medicationId: string;
+  scheduledAt: string; // ISO timestamp of the dose
+  status: MedicationDoseStatus;
+  loggedBy?: string; // Unset once the caregiver's account is deleted
+  loggedByName: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One weighing of a pet (see utils/weight.ts)
+ * Values keep the unit they were entered in and are converted for display.
+ */
+export interface WeightMeasurement {
+  id: string;
+  canineId: string;
+  date: string; // YYYY-MM-DD
+  value: number;
+  unit: WeightUnit;
+  bodyConditionScore?: number; // 1 (emaciated) to 9 (obese); 4-5 is ideal
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WalkStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+
+export type BathroomEventType = 'pee' | 'poop';
+
+export interface BathroomEvent {
+  type: BathroomEventType;
+  at: string; // ISO timestamp
+}
+
+/**
+ * A dog walk, from scheduling through check-in and check-out
+ */
+export interface WalkLog {
+  id: string;
+  canineId: string;
+  walkerUserId?: string; // Unset once the walker's account is deleted
+  walkerName: string;
+  status: WalkStatus;
+  scheduledAt?: string; // Unset for walks started without being scheduled
+  checkedInAt?: string;
+  checkedOutAt?: string;
+  durationMinutes?: number; // Set at check-out
+  notes?: string;
+  photoUrls: string[];
+  bathroomEvents: BathroomEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Parts of a pet's profile a share link can show
+ */
+export type PetShareSection = 'medicalRecords' | 'immunizations' | 'medications' | 'allergies' | 'emergencyContacts';
+
+/**
+ * An emergency contact as copied onto a share link when it was created
+ */
+export type SharedContact = Pick<Contact, 'id' | 'name' | 'relationship' | 'phone' | 'email'>;
+
+/**
+ * A read-only link to one pet for someone without an account, e.g. a boarding kennel
+ * Only a hash of the code is stored, so the code is shown once when the link is created.
+ */
+export interface PetShareLink {
+  id: string;
+  canineId: string;
+  label?: string; // Who the link was given to
+  codeHash: string;
+  sections: PetShareSection[];
+  emergencyContacts?: SharedContact[]; // The contacts the owner chose to share, copied when the link was created
+  expiresAt: string;
+  revokedAt?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PetShareAccessOutcome = 'viewed' | 'expired' | 'revoked';
+
+/**
+ * One attempt to open a share link; createdAt is when it happened
+ */
+export interface PetShareAccess {
+  id: string;
+  shareLinkId: string;
+  canineId: string;
+  outcome: PetShareAccessOutcome;
+  platform: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A visit to the vet; medications, medical records and follow-up appointments link
+ * back to it through their vetVisitId (see utils/vetVisitLinks.ts)
+ */
 export interface VetVisit {
   id: string;
   canineId: string;
@@ -0,0 +1,317 @@
+/**
+ * Allergy Conflicts
+ * Finds the allergies a meal may trigger by looking for each allergen in the
+ * meal's food name, food type and add-ons.
+ *
+ * Text is normalized (case, accents, punctuation, plurals) before matching,
+ * allergens are expanded through the synonym and family tables below, and
+ * near misses such as typos are reported as possible rather than certain
+ * conflicts. A food described as "<allergen>-free" never matches.
+ *
+ * Phrases such as "peanut butter" are read as the food they name before single
+ * words are matched, and an allergen at the start of a longer word is only
+ * certain for known compounds ("cornmeal") so "Cornish hen" isn't corn.
+ */
+
+import { FOOD_TYPE_OPTIONS } from '@/constants/nutrition';
+import type { CanineAllergy, NutritionEntry } from '@/types';
+
+// Names for the same ingredient; any of them on a meal matches an allergy to any other
+const INGREDIENT_SYNONYMS: string[][] = [
+  ['chicken', 'broiler', 'murgh'],
+  ['beef', 'bovine', 'veal', 'steak', 'cow'],
+  ['lamb', 'mutton', 'sheep'],
+  ['pork', 'pig', 'swine', 'bacon', 'ham'],
+  ['venison', 'deer'],
+  ['milk', 'dairy', 'lactose', 'whey', 'casein', 'doodh'],
+  ['yogurt', 'yoghurt', 'curd', 'dahi'],
+  ['egg', 'albumen', 'yolk', 'anda'],
+  ['soy', 'soya', 'soybean', 'tofu', 'edamame'],
+  ['corn', 'maize', 'cornmeal', 'polenta'],
+  ['wheat', 'atta', 'maida', 'semolina', 'durum'],
+  ['oat', 'oatmeal'],
+  ['peanut', 'groundnut'],
+];
+
+// An allergy to a family covers each of its members
+const INGREDIENT_FAMILIES: Record<string, string[]> = {
+  poultry: ['chicken', 'turkey', 'duck', 'goose', 'quail'],
+  fish: ['salmon', 'tuna', 'cod', 'whitefish', 'sardine', 'anchovy', 'herring', 'mackerel', 'pollock', 'trout'],
+  shellfish: ['shrimp', 'prawn', 'crab', 'lobster', 'krill'],
+  milk: ['cheese', 'yogurt', 'butter', 'cream', 'ghee', 'paneer'],
+  gluten: ['wheat', 'barley', 'rye'],
+  grain: ['wheat', 'corn', 'barley', 'oat', 'rye', 'rice', 'millet', 'sorghum'],
+};
+
+// Phrases that name a different food than their words suggest, with the ingredients they do contain
+const FOOD_PHRASES: Record<string, string[]> = {
+  'peanut butter': ['peanut'],
+  'almond butter': ['almond'],
+  'cashew butter': ['cashew'],
+  'sunflower butter': ['sunflower'],
+  'apple butter': ['apple'],
+  'cocoa butter': ['cocoa'],
+  'shea butter': ['shea'],
+  'butter bean': ['bean'],
+  'coconut milk': ['coconut'],
+  'coconut cream': ['coconut'],
+  'almond milk': ['almond'],
+  'oat milk': ['oat'],
+  'soy milk': ['soy'],
+  'rice milk': ['rice'],
+};
+const FOOD_PHRASE_WORDS = Object.keys(FOOD_PHRASES).map((phrase) => phrase.split(' '));
+
+// What follows an allergen in a word made from it, e.g. cornmeal, buttermilk, beefburger
+const COMPOUND_SUFFIXES = new Set([
+  'meal',
+  'starch',
+  'flour',
+  'flake',
+  'bread',
+  'milk',
+  'cake',
+  'germ',
+  'bran',
+  'steak',
+  'burger',
+  'broth',
+  'stock',
+  'fat',
+  'oil',
+  'jerky',
+  'chop',
+  'liver',
+  'heart',
+  'neck',
+  'wing',
+  'breast',
+  'sausage',
+]);
+
+// Words that start with an allergen without containing it
+const LOOKALIKE_WORDS = new Set(['butternut', 'cornish', 'cornflower']);
+
+// Words that say what kind of food it is rather than what is in it
+const IGNORED_WORDS = new Set(['a', 'and', 'with', 'of', 'the', 'in', 'for', 'food', 'meal', 'dog', 'dry', 'wet', 'flavor', 'flavour']);
+
+// Words that rule out the ingredient they follow ("grain free") or precede ("no chicken")
+const FREE_SUFFIXES = new Set(['free']);
+const FREE_PREFIXES = new Set(['no', 'without']);
+
+// Allergens only match the start of a longer word from this length, so "egg" doesn't match "eggplant"
+const MIN_COMPOUND_LENGTH = 4;
+// Typos are only forgiven from this length, so "beef" doesn't match "beet"
+const MIN_FUZZY_LENGTH = 5;
+
+const STANDARD_FOOD_TYPES = new Set<string>(FOOD_TYPE_OPTIONS.map((option) => option.toLowerCase()));
+
+export type MealField = 'foodName' | 'foodType' | 'addOns';
+
+export const MEAL_FIELD_LABELS: Record<MealField, string> = {
+  foodName: 'food name',
+  foodType: 'food type',
+  addOns: 'add-ons',
+};
+
+export interface AllergyConflict {
+  allergy: CanineAllergy;
+  field: MealField;
+  /** The meal word that matched */
+  matchedText: string;
+  /** False when the match is only a near spelling, e.g. a typo */
+  certain: boolean;
+}
+
+function singularize(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(ches|shes|xes|oes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Lower-case singular words without accents or punctuation, e.g. "Chicken & Rice-Bites" → chicken, rice, bite
+ */
+export function normalizeFoodTerms(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map(singularize);
+}
+
+// Replace each food phrase with the ingredients it contains, e.g. peanut butter → peanut
+function replaceFoodPhrases(words: string[]): string[] {
+  const replaced: string[] = [];
+  for (let index = 0; index < words.length; ) {
+    const phrase = FOOD_PHRASE_WORDS.find((candidate) =>
+      candidate.every((word, offset) => words[index + offset] === word)
+    );
+    if (phrase) {
+      replaced.push(...FOOD_PHRASES[phrase.join(' ')]);
+      index += phrase.length;
+    } else {
+      replaced.push(words[index]);
+      index += 1;
+    }
+  }
+  return replaced;
+}
+
+// Words of a meal field that could contain an allergen, without the ones it says are left out
+function getMealWords(value: string | undefined): string[] {
+  const words = replaceFoodPhrases(normalizeFoodTerms(value));
+  return words.filter(
+    (word, index) =>
+      !IGNORED_WORDS.has(word) &&
+      !FREE_SUFFIXES.has(word) &&
+      !FREE_PREFIXES.has(word) &&
+      !FREE_SUFFIXES.has(words[index + 1]) &&
+      !FREE_PREFIXES.has(words[index - 1])
+  );
+}
+
+const isKnownIngredient = (word: string) =>
+  word in INGREDIENT_FAMILIES || INGREDIENT_SYNONYMS.some((group) => group.includes(word));
+
+/**
+ * Every phrase that indicates an allergen: its name, and for each ingredient in it, the
+ * ingredient's synonyms and family members
+ * e.g. "Chicken liver" is matched as a whole and by chicken, but not by liver on its own
+ */
+export function expandAllergen(name: string): string[][] {
+  const words = normalizeFoodTerms(name).filter((word) => !IGNORED_WORDS.has(word));
+  if (words.length === 0) return [];
+
+  const terms = new Set<string>();
+  const addWithSynonyms = (term: string) => {
+    terms.add(term);
+    INGREDIENT_SYNONYMS.find((group) => group.includes(term))?.forEach((synonym) => terms.add(synonym));
+  };
+
+  if (words.length === 1) {
+    addWithSynonyms(words[0]);
+  } else {
+    words.filter(isKnownIngredient).forEach(addWithSynonyms);
+  }
+  [...terms].forEach((term) => INGREDIENT_FAMILIES[term]?.forEach(addWithSynonyms));
+
+  const phrases = [...terms].map((term) => [term]);
+  if (words.length > 1) {
+    phrases.unshift(words);
+  }
+  return phrases;
+}
+
+// Edit distance counting swapped neighbouring letters as one edit; words whose lengths differ by more than `limit` are skipped
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+type WordMatch = 'certain' | 'possible' | null;
+
+function matchWord(mealWord: string, term: string): WordMatch {
+  if (mealWord === term) return 'certain';
+  if (term.length >= MIN_COMPOUND_LENGTH && mealWord.startsWith(term) && !LOOKALIKE_WORDS.has(mealWord)) {
+    // Unknown endings may be a different food that only starts the same way
+    return COMPOUND_SUFFIXES.has(mealWord.slice(term.length)) ? 'certain' : 'possible';
+  }
+  if (term.length >= MIN_FUZZY_LENGTH && mealWord.length >= MIN_FUZZY_LENGTH) {
+    const limit = term.length >= 8 ? 2 : 1;
+    if (editDistance(mealWord, term, limit) <= limit) return 'possible';
+  }
+  return null;
+}
+
+// The best match of an allergen phrase anywhere in a meal field
+function matchPhrase(mealWords: string[], phrase: string[]): { text: string; certain: boolean } | null {
+  let best: { text: string; certain: boolean } | null = null;
+  for (let start = 0; start + phrase.length <= mealWords.length; start += 1) {
+    const window = mealWords.slice(start, start + phrase.length);
+    const matches = window.map((word, index) => matchWord(word, phrase[index]));
+    if (matches.some((match) => match === null)) continue;
+    const certain = matches.every((match) => match === 'certain');
+    if (!best || (certain && !best.certain)) {
+      best = { text: window.join(' '), certain };
+    }
+    if (certain) break;
+  }
+  return best;
+}
+
+/**
+ * The allergies a meal conflicts with, at most one per allergy; certain matches come first
+ */
+export function findAllergyConflicts(
+  meal: Pick<NutritionEntry, 'foodName' | 'foodType' | 'addOns'>,
+  allergies: CanineAllergy[]
+): AllergyConflict[] {
+  const fields: [MealField, string[]][] = [
+    ['foodName', getMealWords(meal.foodName)],
+    ['foodType', getMealWords(meal.foodType)],
+    ['addOns', getMealWords(meal.addOns)],
+  ];
+
+  const conflicts: AllergyConflict[] = [];
+  allergies.forEach((allergy) => {
+    // Allergy food types are usually a category such as Protein; anything else names the allergen too
+    const allergenNames = [allergy.name];
+    if (allergy.foodType && !STANDARD_FOOD_TYPES.has(allergy.foodType.trim().toLowerCase())) {
+      allergenNames.push(allergy.foodType);
+    }
+    const phrases = allergenNames.flatMap(expandAllergen);
+
+    let found: AllergyConflict | null = null;
+    for (const [field, words] of fields) {
+      for (const phrase of phrases) {
+        const match = matchPhrase(words, phrase);
+        if (match && (!found || (match.certain && !found.certain))) {
+          found = { allergy, field, matchedText: match.text, certain: match.certain };
+        }
+        if (found?.certain) break;
+      }
+      if (found?.certain) break;
+    }
+    if (found) conflicts.push(found);
+  });
+
+  return conflicts.sort((a, b) => Number(b.certain) - Number(a.certain));
+}
+
+export function describeAllergyConflict(conflict: AllergyConflict): string {
+  const prefix = conflict.certain ? 'Contains' : 'May contain';
+  return `${prefix} ${conflict.allergy.name} (“${conflict.matchedText}” in ${MEAL_FIELD_LABELS[conflict.field]})`;
+}
+
+/**
+ * The conflicts of each meal that has any, by meal id
+ */
+export function getAllergyConflictsByEntry(
+  entries: NutritionEntry[],
+  allergies: CanineAllergy[]
+): Map<string, AllergyConflict[]> {
+  const conflicts = new Map<string, AllergyConflict[]>();
+  if (allergies.length === 0) return conflicts;
+  entries.forEach((entry) => {
+    const found = findAllergyConflicts(entry, allergies.filter((allergy) => allergy.canineId === entry.canineId));
+    if (found.length > 0) conflicts.set(entry.id, found);
+  });
+  return conflicts;
+}
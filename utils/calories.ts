@@ -0,0 +1,157 @@
+/**
+ * Calories
+ * A dog's daily energy requirement and how its logged meals compare with it.
+ *
+ * The resting energy requirement (RER) is 70 × kg^0.75. Maintenance (MER),
+ * the daily target, is RER times a factor for the dog's life stage, activity
+ * and neuter status, following the usual WSAVA/AAHA factors.
+ */
+
+import type { ActivityLevel, CanineProfile, NutritionEntry } from '@/types';
+import { getAgeAt } from '@/utils/canineAge';
+import { convertWeight, toMeasurementDate } from '@/utils/weight';
+
+export const ACTIVITY_LEVELS: { value: ActivityLevel; label: string; description: string }[] = [
+  { value: 'low', label: 'Low', description: 'Mostly resting, short walks' },
+  { value: 'moderate', label: 'Moderate', description: 'About an hour of walks or play a day' },
+  { value: 'active', label: 'Active', description: 'Several hours of exercise a day' },
+  { value: 'working', label: 'Working', description: 'Herding, hunting, sport or service work' },
+];
+
+// Maintenance factors for adults; a dog of unknown neuter status is treated as neutered
+const ADULT_FACTORS: Record<ActivityLevel, { neutered: number; intact: number }> = {
+  low: { neutered: 1.2, intact: 1.4 },
+  moderate: { neutered: 1.6, intact: 1.8 },
+  active: { neutered: 2.0, intact: 2.0 },
+  working: { neutered: 3.0, intact: 3.0 },
+};
+
+const YOUNG_PUPPY_FACTOR = 3.0; // Under 4 months
+const PUPPY_FACTOR = 2.0; // 4 to 12 months
+
+/** A day is on target within this share of the requirement either way */
+export const CALORIE_TOLERANCE = 0.1;
+
+/** Days in a row off target before the feeding is flagged */
+export const SUSTAINED_FEEDING_DAYS = 3;
+
+export type LifeStage = 'puppy' | 'junior' | 'adult';
+
+export interface CalorieRequirement {
+  weightKg: number;
+  lifeStage: LifeStage;
+  factor: number;
+  restingKcal: number;
+  maintenanceKcal: number; // The daily target
+}
+
+/**
+ * Daily calories for a dog on `on` (YYYY-MM-DD, default today)
+ * @returns null without a weight; a dog without a date of birth counts as an adult
+ */
+export function getCalorieRequirement(
+  canine: Pick<CanineProfile, 'weight' | 'weightUnit' | 'dateOfBirth' | 'activityLevel' | 'neutered'>,
+  on: string = toMeasurementDate()
+): CalorieRequirement | null {
+  if (typeof canine.weight !== 'number' || !(canine.weight > 0)) return null;
+
+  const weightKg = convertWeight(canine.weight, canine.weightUnit ?? 'lbs', 'kg');
+  const age = getAgeAt(canine.dateOfBirth, on);
+  const ageInMonths = age ? age.years * 12 + age.months : null;
+
+  let lifeStage: LifeStage = 'adult';
+  let factor: number;
+  if (ageInMonths !== null && ageInMonths < 4) {
+    lifeStage = 'puppy';
+    factor = YOUNG_PUPPY_FACTOR;
+  } else if (ageInMonths !== null && ageInMonths < 12) {
+    lifeStage = 'junior';
+    factor = PUPPY_FACTOR;
+  } else {
+    const factors = ADULT_FACTORS[canine.activityLevel ?? 'moderate'];
+    factor = canine.neutered === false ? factors.intact : factors.neutered;
+  }
+
+  const restingKcal = 70 * Math.pow(weightKg, 0.75);
+  return {
+    weightKg,
+    lifeStage,
+    factor,
+    restingKcal: Math.round(restingKcal),
+    maintenanceKcal: Math.round(restingKcal * factor),
+  };
+}
+
+export type CalorieStatus = 'no_meals' | 'under' | 'on_target' | 'over';
+
+export interface DailyCalories {
+  date: string; // YYYY-MM-DD
+  targetKcal: number;
+  loggedKcal: number;
+  mealCount: number;
+  status: CalorieStatus;
+}
+
+function getCalorieStatus(loggedKcal: number, mealCount: number, targetKcal: number): CalorieStatus {
+  if (mealCount === 0) return 'no_meals';
+  if (loggedKcal < targetKcal * (1 - CALORIE_TOLERANCE)) return 'under';
+  if (loggedKcal > targetKcal * (1 + CALORIE_TOLERANCE)) return 'over';
+  return 'on_target';
+}
+
+/**
+ * The calories logged for each of `dates` against the daily target
+ */
+export function getDailyCalories(entries: NutritionEntry[], dates: string[], targetKcal: number): DailyCalories[] {
+  return dates.map((date) => {
+    const meals = entries.filter((entry) => entry.date === date);
+    const loggedKcal = meals.reduce((total, entry) => total + (Number(entry.calories) || 0), 0);
+    return {
+      date,
+      targetKcal,
+      loggedKcal,
+      mealCount: meals.length,
+      status: getCalorieStatus(loggedKcal, meals.length, targetKcal),
+    };
+  });
+}
+
+export interface FeedingWarning {
+  status: 'under' | 'over';
+  startDate: string;
+  endDate: string;
+  days: number;
+}
+
+/**
+ * The first run of at least SUSTAINED_FEEDING_DAYS consecutive days all over, or all under, target
+ * @param days Consecutive dates, oldest first; a day without meals ends a run
+ */
+export function getSustainedFeedingWarning(days: DailyCalories[]): FeedingWarning | null {
+  let runStart = 0;
+  for (let index = 0; index <= days.length; index += 1) {
+    const status = days[runStart]?.status;
+    if (index < days.length && days[index].status === status && (status === 'under' || status === 'over')) {
+      continue;
+    }
+    const length = index - runStart;
+    if ((status === 'under' || status === 'over') && length >= SUSTAINED_FEEDING_DAYS) {
+      return { status, startDate: days[runStart].date, endDate: days[index - 1].date, days: length };
+    }
+    runStart = index;
+  }
+  return null;
+}
+
+export function describeCalorieStatus(day: DailyCalories): string {
+  switch (day.status) {
+    case 'no_meals':
+      return 'No meals logged';
+    case 'under':
+      return `${day.targetKcal - day.loggedKcal} kcal under target`;
+    case 'over':
+      return `${day.loggedKcal - day.targetKcal} kcal over target`;
+    default:
+      return 'On target';
+  }
+}
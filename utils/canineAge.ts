@@ -0,0 +1,69 @@
+/**
+ * Canine Age
+ * A dog's age on a given date, from its date of birth, and how that compares
+ * with the ages stored on immunization records.
+ *
+ * Ages are whole completed years and months, the same as PostgreSQL's age():
+ * a month is complete once the day of the month reaches the birth day.
+ */
+
+import type { ImmunizationRecord } from '@/types';
+
+export interface CanineAge {
+  years: number;
+  months: number;
+}
+
+// Calendar parts of a YYYY-MM-DD date, so time zones never shift the day
+function parseDateParts(value: string | undefined): { year: number; month: number; day: number } | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+/**
+ * Age on `on` for a dog born on `dateOfBirth`, both YYYY-MM-DD
+ * @returns null when either date is missing or `on` is before the birth
+ */
+export function getAgeAt(dateOfBirth: string | undefined, on: string | undefined): CanineAge | null {
+  const birth = parseDateParts(dateOfBirth);
+  const date = parseDateParts(on);
+  if (!birth || !date) return null;
+
+  let totalMonths = (date.year - birth.year) * 12 + date.month - birth.month;
+  if (date.day < birth.day) {
+    totalMonths -= 1;
+  }
+  if (totalMonths < 0) return null;
+  return { years: Math.floor(totalMonths / 12), months: totalMonths % 12 };
+}
+
+/**
+ * The age an immunization should record, from the dog's date of birth and the immunization date
+ * @returns null when the age can't be derived and has to be entered by hand
+ */
+export function getImmunizationAge(
+  record: Pick<ImmunizationRecord, 'immunizationDate'>,
+  dateOfBirth: string | undefined
+): CanineAge | null {
+  return getAgeAt(dateOfBirth, record.immunizationDate);
+}
+
+/**
+ * The derived age when it differs from the one stored on the record
+ * @returns null when they match or the age can't be derived
+ */
+export function getImmunizationAgeMismatch(
+  record: Pick<ImmunizationRecord, 'immunizationDate' | 'ageYears' | 'ageMonths'>,
+  dateOfBirth: string | undefined
+): CanineAge | null {
+  const derived = getImmunizationAge(record, dateOfBirth);
+  if (!derived || (derived.years === record.ageYears && derived.months === record.ageMonths)) {
+    return null;
+  }
+  return derived;
+}
+
+export function formatCanineAge(age: CanineAge): string {
+  return `${age.years}y${age.months}m`;
+}
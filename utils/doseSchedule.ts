@@ -0,0 +1,219 @@
+/**
+ * Medication Dose Schedule
+ * Expands a medication's frequency, start and end into the doses it calls for,
+ * and measures adherence against the dose logs caregivers record.
+ *
+ * Doses fall on the start date at the start time (08:00 when unset) and repeat
+ * at the frequency's interval, up to and including the end date. Several doses
+ * a day are spread evenly over 24 hours. 'As needed' medications and
+ * frequencies the app doesn't recognise have no schedule.
+ *
+ * A log belongs to the dose whose time equals its scheduledAt, so logs made
+ * before a medication's start time or frequency was changed no longer count.
+ */
+
+import type { MedicationDoseLog, MedicationDoseStatus, MedicationEntry } from '@/types';
+
+export interface DoseRule {
+  /** Days between dosing days; unused for monthly doses */
+  intervalDays: number;
+  /** Dose on the start date's day of the month instead of every intervalDays */
+  monthly?: boolean;
+  timesPerDay: number;
+}
+
+const FREQUENCY_RULES: Record<string, DoseRule | null> = {
+  'daily': { intervalDays: 1, timesPerDay: 1 },
+  'once daily': { intervalDays: 1, timesPerDay: 1 },
+  'twice daily': { intervalDays: 1, timesPerDay: 2 },
+  'three times daily': { intervalDays: 1, timesPerDay: 3 },
+  'every other day': { intervalDays: 2, timesPerDay: 1 },
+  'weekly': { intervalDays: 7, timesPerDay: 1 },
+  'monthly': { intervalDays: 0, monthly: true, timesPerDay: 1 },
+  'as needed': null,
+};
+
+const DEFAULT_DOSE_TIME = '08:00';
+
+/** An unlogged dose counts as missed once it is this far overdue */
+export const DOSE_GRACE_MS = 2 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where a scheduled dose stands: its log's status, or whether it is still to come
+ */
+export type DoseState = MedicationDoseStatus | 'upcoming' | 'due' | 'missed';
+
+export interface ScheduledDose {
+  medication: MedicationEntry;
+  scheduledAt: string; // ISO timestamp
+  log?: MedicationDoseLog;
+  state: DoseState;
+}
+
+export interface DoseAdherence {
+  /** Doses that are logged or past their grace period */
+  counted: number;
+  given: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  /** Share of counted doses that were given, on time or late; null before any dose counts */
+  percent: number | null;
+}
+
+/**
+ * How often a frequency calls for a dose
+ * @returns null when the medication has no fixed schedule
+ */
+export function getDoseRule(frequency: string): DoseRule | null {
+  const normalized = frequency.trim().toLowerCase();
+  if (Object.prototype.hasOwnProperty.call(FREQUENCY_RULES, normalized)) {
+    return FREQUENCY_RULES[normalized];
+  }
+  const everyDays = normalized.match(/^every (\d+) days?$/);
+  if (everyDays && Number(everyDays[1]) > 0) {
+    return { intervalDays: Number(everyDays[1]), timesPerDay: 1 };
+  }
+  return null;
+}
+
+// Local midnight of a YYYY-MM-DD date
+function parseDate(value: string | undefined): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function parseTime(value: string | undefined): { hours: number; minutes: number } {
+  const [hours, minutes] = (value?.match(/^\d{1,2}:\d{2}/)?.[0] ?? DEFAULT_DOSE_TIME).split(':').map(Number);
+  return { hours: Math.min(hours, 23), minutes: Math.min(minutes, 59) };
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Whole calendar days between two local midnights, ignoring daylight saving shifts
+function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) -
+      Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) /
+      DAY_MS
+  );
+}
+
+// The nth dosing day; monthly doses keep the start's day, or the month's last day when it is shorter
+function dosingDay(start: Date, rule: DoseRule, index: number): Date {
+  if (!rule.monthly) {
+    return new Date(start.getFullYear(), start.getMonth(), start.getDate() + index * rule.intervalDays);
+  }
+  const lastDay = new Date(start.getFullYear(), start.getMonth() + index + 1, 0).getDate();
+  return new Date(start.getFullYear(), start.getMonth() + index, Math.min(start.getDate(), lastDay));
+}
+
+/**
+ * The dose times of a medication from `from` (inclusive) to `to` (exclusive)
+ */
+export function getScheduledDoseTimes(medication: MedicationEntry, from: Date, to: Date): Date[] {
+  const rule = getDoseRule(medication.frequency);
+  const start = parseDate(medication.startDate);
+  if (!rule || !start) return [];
+
+  // The end date is the last dosing day
+  const end = parseDate(medication.endDate);
+  const afterEnd = end && new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+  const until = afterEnd && afterEnd < to ? afterEnd : to;
+  const { hours, minutes } = parseTime(medication.startTime);
+  const spacingMinutes = (24 * 60) / rule.timesPerDay;
+
+  // Skip ahead to the dosing day before `from` rather than walking from the start
+  const elapsedDays = Math.max(0, daysBetween(start, startOfDay(from)) - 1);
+  let index = rule.monthly
+    ? Math.max(0, (from.getFullYear() - start.getFullYear()) * 12 + from.getMonth() - start.getMonth() - 1)
+    : Math.floor(elapsedDays / rule.intervalDays);
+
+  const times: Date[] = [];
+  for (; ; index++) {
+    const day = dosingDay(start, rule, index);
+    if (day >= until) break;
+    for (let dose = 0; dose < rule.timesPerDay; dose++) {
+      const time = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes + dose * spacingMinutes);
+      if (time >= from && time < until) {
+        times.push(time);
+      }
+    }
+  }
+  return times;
+}
+
+/**
+ * Key for matching a log to its dose, tolerant of how the backend formats timestamps
+ */
+export function doseKey(medicationId: string, scheduledAt: string | Date): string {
+  return `${medicationId}@${new Date(scheduledAt).getTime()}`;
+}
+
+function indexLogs(logs: MedicationDoseLog[]): Map<string, MedicationDoseLog> {
+  return new Map(logs.map((log) => [doseKey(log.medicationId, log.scheduledAt), log]));
+}
+
+function getDoseState(scheduledAt: Date, log: MedicationDoseLog | undefined, now: Date): DoseState {
+  if (log) return log.status;
+  if (scheduledAt > now) return 'upcoming';
+  return now.getTime() - scheduledAt.getTime() > DOSE_GRACE_MS ? 'missed' : 'due';
+}
+
+/**
+ * Every dose scheduled on a day, in time order, with its log if there is one
+ */
+export function getDosesForDay(
+  medications: MedicationEntry[],
+  logs: MedicationDoseLog[],
+  day: Date,
+  now: Date = new Date()
+): ScheduledDose[] {
+  const from = startOfDay(day);
+  const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + 1);
+  const logsByDose = indexLogs(logs);
+
+  return medications
+    .flatMap((medication) =>
+      getScheduledDoseTimes(medication, from, to).map((time) => {
+        const log = logsByDose.get(doseKey(medication.id, time));
+        return { medication, scheduledAt: time.toISOString(), log, state: getDoseState(time, log, now) };
+      })
+    )
+    .sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt));
+}
+
+/**
+ * How well a medication's schedule has been kept, from its start date until now
+ * Doses still within their grace period only count once they are logged.
+ */
+export function getDoseAdherence(
+  medication: MedicationEntry,
+  logs: MedicationDoseLog[],
+  now: Date = new Date()
+): DoseAdherence {
+  const start = parseDate(medication.startDate);
+  const adherence: DoseAdherence = { counted: 0, given: 0, late: 0, skipped: 0, missed: 0, percent: null };
+  if (!start) return adherence;
+
+  // Include the rest of today so doses logged ahead of time count
+  const endOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  const logsByDose = indexLogs(logs.filter((log) => log.medicationId === medication.id));
+
+  getScheduledDoseTimes(medication, start, endOfToday).forEach((time) => {
+    const state = getDoseState(time, logsByDose.get(doseKey(medication.id, time)), now);
+    if (state === 'upcoming' || state === 'due') return;
+    adherence.counted += 1;
+    adherence[state] += 1;
+  });
+
+  if (adherence.counted > 0) {
+    adherence.percent = Math.round(((adherence.given + adherence.late) / adherence.counted) * 100);
+  }
+  return adherence;
+}
@@ -0,0 +1,114 @@
+/**
+ * Subscription Entitlements
+ * Limits for each subscription tier, and checks used by the add flows in AppContext
+ *
+ * A user's tier comes from the activation code they signed up with and can be
+ * changed by admins. Admins themselves are never limited.
+ */
+
+import type { SubscriptionTier, UserProfile } from '@/types';
+
+export interface TierEntitlements {
+  /** Pets a user can have; null for unlimited */
+  maxCanines: number | null;
+  /** Total size of uploaded photos and videos, in bytes; null for unlimited */
+  mediaStorageBytes: number | null;
+  /** Files and photos attached to medical records, across all pets; null for unlimited */
+  maxMedicalAttachments: number | null;
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+export const TIER_ENTITLEMENTS: Record<SubscriptionTier, TierEntitlements> = {
+  Free: {
+    maxCanines: 2,
+    mediaStorageBytes: 500 * MB,
+    maxMedicalAttachments: 20,
+  },
+  Premium: {
+    maxCanines: 10,
+    mediaStorageBytes: 10 * GB,
+    maxMedicalAttachments: 500,
+  },
+  Enterprise: {
+    maxCanines: null,
+    mediaStorageBytes: null,
+    maxMedicalAttachments: null,
+  },
+};
+
+/**
+ * What a user currently uses, measured against their tier's limits
+ */
+export interface EntitlementUsage {
+  canines: number;
+  mediaStorageBytes: number;
+  medicalAttachments: number;
+}
+
+export type EntitlementCheck = { allowed: true } | { allowed: false; message: string };
+
+const ALLOWED: EntitlementCheck = { allowed: true };
+
+/**
+ * Users created before tiers were recorded are on the Free tier
+ */
+export function getSubscriptionTier(profile: Pick<UserProfile, 'subscriptionTier'> | null | undefined): SubscriptionTier {
+  return profile?.subscriptionTier ?? 'Free';
+}
+
+export function getEntitlements(tier: SubscriptionTier): TierEntitlements {
+  return TIER_ENTITLEMENTS[tier] ?? TIER_ENTITLEMENTS.Free;
+}
+
+/**
+ * The next tier up, or null for the top tier
+ */
+export function getUpgradeTier(tier: SubscriptionTier): SubscriptionTier | null {
+  if (tier === 'Free') return 'Premium';
+  if (tier === 'Premium') return 'Enterprise';
+  return null;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= GB) return `${(bytes / GB).toFixed(1).replace(/\.0$/, '')} GB`;
+  if (bytes >= MB) return `${(bytes / MB).toFixed(1).replace(/\.0$/, '')} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function limitReached(tier: SubscriptionTier, reason: string): EntitlementCheck {
+  const upgrade = getUpgradeTier(tier);
+  const suggestion = upgrade
+    ? `Upgrade to ${upgrade} with a ${upgrade} activation code to get more.`
+    : 'Please contact support to raise your limit.';
+  return { allowed: false, message: `${reason} ${suggestion}` };
+}
+
+export function checkCanineLimit(tier: SubscriptionTier, usage: EntitlementUsage, adding = 1): EntitlementCheck {
+  const { maxCanines } = getEntitlements(tier);
+  if (maxCanines === null || usage.canines + adding <= maxCanines) {
+    return ALLOWED;
+  }
+  return limitReached(tier, `The ${tier} plan includes up to ${maxCanines} pet${maxCanines === 1 ? '' : 's'}.`);
+}
+
+export function checkMediaStorage(tier: SubscriptionTier, usage: EntitlementUsage, addingBytes: number): EntitlementCheck {
+  const { mediaStorageBytes } = getEntitlements(tier);
+  if (mediaStorageBytes === null || usage.mediaStorageBytes + addingBytes <= mediaStorageBytes) {
+    return ALLOWED;
+  }
+  const remaining = Math.max(0, mediaStorageBytes - usage.mediaStorageBytes);
+  return limitReached(
+    tier,
+    `The ${tier} plan includes ${formatBytes(mediaStorageBytes)} of photo and video storage, and ${formatBytes(remaining)} is left.`
+  );
+}
+
+export function checkMedicalAttachments(tier: SubscriptionTier, usage: EntitlementUsage, adding: number): EntitlementCheck {
+  const { maxMedicalAttachments } = getEntitlements(tier);
+  if (adding <= 0 || maxMedicalAttachments === null || usage.medicalAttachments + adding <= maxMedicalAttachments) {
+    return ALLOWED;
+  }
+  return limitReached(tier, `The ${tier} plan includes up to ${maxMedicalAttachments} medical record attachments.`);
+}
@@ -1,10 +1,14 @@
 /**
  * Activation Code Validation
- * Validates activation codes for user signup and determines subscription tier
+ * Checks activation codes for user signup and determines subscription tier
+ *
+ * Codes are stored in the activation_codes table and managed by admins; see
+ * services/activationCodes.ts for the lookup and redemption.
  */
 
-export type SubscriptionTier = 'Free' | 'Premium' | 'Enterprise';
-export type UserRole = 'Admin' | 'Pet Owner' | 'Vet' | 'Dog Walker';
+import type { ActivationCode, SubscriptionTier, UserRole } from '@/types';
+
+export type { SubscriptionTier, UserRole };
 
 export interface ActivationCodeInfo {
   code: string;
@@ -15,78 +19,56 @@ export interface ActivationCodeInfo {
 }
 
 /**
- * Valid activation codes and their associated tiers
- * More codes can be added for future promotions
+ * Activation codes are matched case-insensitively
  */
-const VALID_ACTIVATION_CODES: Record<string, ActivationCodeInfo> = {
-  'avapay': {
-    code: 'avapay',
-    tier: 'Free',
-    valid: true,
-    allowedRoles: ['Pet Owner'], // Only Pet Owner role can use this code
-    description: 'Free tier access',
-  },
-  // Future activation codes can be added here:
-  // 'promo2025': {
-  //   code: 'promo2025',
-  //   tier: 'Premium',
-  //   valid: true,
-  //   allowedRoles: ['Pet Owner', 'Vet'],
-  //   description: 'Premium tier promotion',
-  // },
-};
+export function normalizeActivationCode(code: string): string {
+  return (code || '').trim().toLowerCase();
+}
 
 /**
- * Validate an activation code (case insensitive)
- * @param code - The activation code to validate
+ * Check whether a stored activation code can be redeemed
+ * @param record - The stored code, or null if none matched
  * @param role - Optional role to check if the code is allowed for that role
+ * @param now - Time to check expiry against (defaults to now)
  * @returns ActivationCodeInfo object with validation result
  */
-export function validateActivationCode(code: string, role?: UserRole): ActivationCodeInfo {
-  if (!code || typeof code !== 'string') {
+export function checkActivationCode(
+  record: ActivationCode | null,
+  role?: UserRole,
+  now: Date = new Date()
+): ActivationCodeInfo {
+  if (!record || !record.isActive) {
     return {
-      code: code || '',
+      code: record?.code ?? '',
       tier: 'Free',
       valid: false,
       description: 'Invalid activation code',
     };
   }
 
-  const normalizedCode = code.trim().toLowerCase();
-  const activationCodeInfo = VALID_ACTIVATION_CODES[normalizedCode];
+  const info: ActivationCodeInfo = {
+    code: record.code,
+    tier: record.tier,
+    valid: true,
+    allowedRoles: record.allowedRoles,
+    description: record.description,
+  };
 
-  if (activationCodeInfo) {
-    // Check if role is allowed for this activation code
-    if (role && activationCodeInfo.allowedRoles && !activationCodeInfo.allowedRoles.includes(role)) {
-      return {
-        ...activationCodeInfo,
-        code: normalizedCode,
-        valid: false,
-        description: `This activation code is not valid for ${role} role`,
-      };
-    }
-    return {
-      ...activationCodeInfo,
-      code: normalizedCode,
-    };
+  if (record.expiresAt && new Date(record.expiresAt).getTime() <= now.getTime()) {
+    return { ...info, valid: false, description: 'This activation code has expired' };
   }
 
-  return {
-    code: normalizedCode,
-    tier: 'Free',
-    valid: false,
-    description: 'Invalid activation code',
-  };
-}
+  if (record.maxRedemptions != null && record.redemptionCount >= record.maxRedemptions) {
+    return { ...info, valid: false, description: 'This activation code has already been used the maximum number of times' };
+  }
 
-/**
- * Get all valid activation codes (for admin/debugging purposes)
- */
-export function getAllActivationCodes(): ActivationCodeInfo[] {
-  return Object.values(VALID_ACTIVATION_CODES);
+  // Check if role is allowed for this activation code
+  if (role && record.allowedRoles.length > 0 && !record.allowedRoles.includes(role)) {
+    return { ...info, valid: false, description: `This activation code is not valid for ${role} role` };
+  }
+
+  return info;
 }
 
 // Legacy export for backward compatibility
-export const validateGiftCode = validateActivationCode;
 export type GiftCodeInfo = ActivationCodeInfo;
-
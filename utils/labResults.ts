@@ -0,0 +1,197 @@
+/**
+ * Lab Results
+ * A starter catalogue of canine bloodwork analytes, and how a pet's results
+ * compare with their reference ranges and with each other over time.
+ *
+ * Catalogue ranges are typical adult canine intervals in US conventional
+ * units. They only prefill new results: each result keeps the range printed
+ * on its own lab report, which wins because labs and analyzers differ.
+ */
+
+import type { LabResult, MedicalRecord } from '@/types';
+
+export interface LabAnalyte {
+  code: string; // Stored as the result's analyte
+  name: string;
+  unit: string;
+  referenceLow: number;
+  referenceHigh: number;
+}
+
+export interface LabPanel {
+  id: string;
+  name: string;
+  analytes: LabAnalyte[];
+}
+
+export const LAB_PANELS: LabPanel[] = [
+  {
+    id: 'CBC',
+    name: 'Complete Blood Count',
+    analytes: [
+      { code: 'RBC', name: 'Red blood cells', unit: 'M/µL', referenceLow: 5.65, referenceHigh: 8.87 },
+      { code: 'HCT', name: 'Hematocrit', unit: '%', referenceLow: 37.3, referenceHigh: 61.7 },
+      { code: 'HGB', name: 'Hemoglobin', unit: 'g/dL', referenceLow: 13.1, referenceHigh: 20.5 },
+      { code: 'MCV', name: 'Mean cell volume', unit: 'fL', referenceLow: 61.6, referenceHigh: 73.5 },
+      { code: 'MCH', name: 'Mean cell hemoglobin', unit: 'pg', referenceLow: 21.2, referenceHigh: 25.9 },
+      { code: 'MCHC', name: 'Mean cell hemoglobin concentration', unit: 'g/dL', referenceLow: 32, referenceHigh: 37.9 },
+      { code: 'RETIC', name: 'Reticulocytes', unit: 'K/µL', referenceLow: 10, referenceHigh: 110 },
+      { code: 'WBC', name: 'White blood cells', unit: 'K/µL', referenceLow: 5.05, referenceHigh: 16.76 },
+      { code: 'NEU', name: 'Neutrophils', unit: 'K/µL', referenceLow: 2.95, referenceHigh: 11.64 },
+      { code: 'LYM', name: 'Lymphocytes', unit: 'K/µL', referenceLow: 1.05, referenceHigh: 5.1 },
+      { code: 'MONO', name: 'Monocytes', unit: 'K/µL', referenceLow: 0.16, referenceHigh: 1.12 },
+      { code: 'EOS', name: 'Eosinophils', unit: 'K/µL', referenceLow: 0.06, referenceHigh: 1.23 },
+      { code: 'BASO', name: 'Basophils', unit: 'K/µL', referenceLow: 0, referenceHigh: 0.1 },
+      { code: 'PLT', name: 'Platelets', unit: 'K/µL', referenceLow: 148, referenceHigh: 484 },
+    ],
+  },
+  {
+    id: 'Chemistry',
+    name: 'Chemistry Panel',
+    analytes: [
+      { code: 'GLU', name: 'Glucose', unit: 'mg/dL', referenceLow: 74, referenceHigh: 143 },
+      { code: 'CREA', name: 'Creatinine', unit: 'mg/dL', referenceLow: 0.5, referenceHigh: 1.8 },
+      { code: 'BUN', name: 'Blood urea nitrogen', unit: 'mg/dL', referenceLow: 7, referenceHigh: 27 },
+      { code: 'SDMA', name: 'Symmetric dimethylarginine', unit: 'µg/dL', referenceLow: 0, referenceHigh: 14 },
+      { code: 'PHOS', name: 'Phosphorus', unit: 'mg/dL', referenceLow: 2.5, referenceHigh: 6.8 },
+      { code: 'CA', name: 'Calcium', unit: 'mg/dL', referenceLow: 7.9, referenceHigh: 12 },
+      { code: 'TP', name: 'Total protein', unit: 'g/dL', referenceLow: 5.2, referenceHigh: 8.2 },
+      { code: 'ALB', name: 'Albumin', unit: 'g/dL', referenceLow: 2.3, referenceHigh: 4 },
+      { code: 'GLOB', name: 'Globulin', unit: 'g/dL', referenceLow: 2.5, referenceHigh: 4.5 },
+      { code: 'ALT', name: 'Alanine aminotransferase', unit: 'U/L', referenceLow: 10, referenceHigh: 125 },
+      { code: 'ALKP', name: 'Alkaline phosphatase', unit: 'U/L', referenceLow: 23, referenceHigh: 212 },
+      { code: 'GGT', name: 'Gamma-glutamyl transferase', unit: 'U/L', referenceLow: 0, referenceHigh: 11 },
+      { code: 'TBIL', name: 'Total bilirubin', unit: 'mg/dL', referenceLow: 0, referenceHigh: 0.9 },
+      { code: 'CHOL', name: 'Cholesterol', unit: 'mg/dL', referenceLow: 110, referenceHigh: 320 },
+      { code: 'AMYL', name: 'Amylase', unit: 'U/L', referenceLow: 500, referenceHigh: 1500 },
+      { code: 'LIPA', name: 'Lipase', unit: 'U/L', referenceLow: 200, referenceHigh: 1800 },
+      { code: 'NA', name: 'Sodium', unit: 'mmol/L', referenceLow: 144, referenceHigh: 160 },
+      { code: 'K', name: 'Potassium', unit: 'mmol/L', referenceLow: 3.5, referenceHigh: 5.8 },
+      { code: 'CL', name: 'Chloride', unit: 'mmol/L', referenceLow: 109, referenceHigh: 122 },
+    ],
+  },
+];
+
+// Results are grouped by analyte regardless of case or spacing, so "alt" and "ALT " chart together
+const analyteKey = (analyte: string) => analyte.trim().toUpperCase();
+
+/**
+ * The catalogue entry for an analyte code or name, e.g. 'ALT' or 'Alanine aminotransferase'
+ */
+export function getLabAnalyte(analyte: string): LabAnalyte | undefined {
+  const key = analyteKey(analyte);
+  for (const panel of LAB_PANELS) {
+    const found = panel.analytes.find((entry) => entry.code === key || entry.name.toUpperCase() === key);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Catalogue analytes group by code, so a result entered by name charts with the coded ones
+const historyKey = (analyte: string) => getLabAnalyte(analyte)?.code ?? analyteKey(analyte);
+
+export const isSameAnalyte = (a: string, b: string) => historyKey(a) === historyKey(b);
+
+/** "ALT (Alanine aminotransferase)" for catalogue analytes, otherwise the name as entered */
+export function getLabAnalyteLabel(analyte: string): string {
+  const entry = getLabAnalyte(analyte);
+  return entry ? `${entry.code} (${entry.name})` : analyte.trim();
+}
+
+export type LabResultStatus = 'low' | 'normal' | 'high' | 'unknown';
+
+/**
+ * Where a value falls against its reference range; 'unknown' without either limit
+ */
+export function getLabResultStatus(result: Pick<LabResult, 'value' | 'referenceLow' | 'referenceHigh'>): LabResultStatus {
+  const { value, referenceLow, referenceHigh } = result;
+  if (referenceLow === undefined && referenceHigh === undefined) return 'unknown';
+  if (referenceLow !== undefined && value < referenceLow) return 'low';
+  if (referenceHigh !== undefined && value > referenceHigh) return 'high';
+  return 'normal';
+}
+
+export const isOutOfRange = (result: Pick<LabResult, 'value' | 'referenceLow' | 'referenceHigh'>) => {
+  const status = getLabResultStatus(result);
+  return status === 'low' || status === 'high';
+};
+
+/** Rounds away floating point noise, e.g. 0.30000000000000004 → 0.3 */
+export const formatLabValue = (value: number) => String(Number(value.toFixed(3)));
+
+/** "10–125", "≤ 11" or "≥ 2", or an empty string without a range */
+export function formatReferenceRange(referenceLow?: number, referenceHigh?: number): string {
+  if (referenceLow !== undefined && referenceHigh !== undefined) {
+    return `${formatLabValue(referenceLow)}–${formatLabValue(referenceHigh)}`;
+  }
+  if (referenceHigh !== undefined) return `≤ ${formatLabValue(referenceHigh)}`;
+  if (referenceLow !== undefined) return `≥ ${formatLabValue(referenceLow)}`;
+  return '';
+}
+
+/**
+ * The date a result was taken: its record's report date, or the day the record was added
+ */
+export function getLabResultDate(record: Pick<MedicalRecord, 'reportDate' | 'createdAt'> | undefined, result: LabResult): string {
+  return (record?.reportDate || record?.createdAt || result.createdAt).slice(0, 10);
+}
+
+export interface LabHistoryPoint {
+  result: LabResult;
+  date: string; // YYYY-MM-DD
+  status: LabResultStatus;
+}
+
+export interface LabHistory {
+  analyte: string;
+  unit: string;
+  points: LabHistoryPoint[]; // Oldest first
+  latest: LabHistoryPoint;
+  /** Results in another unit, which can't share the chart's scale */
+  otherUnitCount: number;
+}
+
+/**
+ * A pet's results for one analyte over time, in the unit of its newest result
+ * @returns null when the pet has no results for the analyte
+ */
+export function getLabHistory(results: LabResult[], records: MedicalRecord[], analyte: string): LabHistory | null {
+  const key = historyKey(analyte);
+  const recordsById = new Map(records.map((record) => [record.id, record]));
+  const points = results
+    .filter((result) => historyKey(result.analyte) === key)
+    .map((result) => ({
+      result,
+      date: getLabResultDate(recordsById.get(result.medicalRecordId), result),
+      status: getLabResultStatus(result),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.result.createdAt.localeCompare(b.result.createdAt));
+  if (points.length === 0) return null;
+
+  const unit = points[points.length - 1].result.unit;
+  const sameUnit = points.filter((point) => point.result.unit === unit);
+  return {
+    analyte: points[points.length - 1].result.analyte.trim(),
+    unit,
+    points: sameUnit,
+    latest: sameUnit[sameUnit.length - 1],
+    otherUnitCount: points.length - sameUnit.length,
+  };
+}
+
+/**
+ * The analytes a pet has results for, catalogue order first and then custom ones alphabetically
+ */
+export function getRecordedAnalytes(results: LabResult[]): string[] {
+  const byKey = new Map<string, string>();
+  results.forEach((result) => {
+    const key = historyKey(result.analyte);
+    if (!byKey.has(key)) byKey.set(key, getLabAnalyte(key) ? key : result.analyte.trim());
+  });
+  const catalogueOrder = LAB_PANELS.flatMap((panel) => panel.analytes.map((entry) => entry.code));
+  const rank = (analyte: string) => {
+    const index = catalogueOrder.indexOf(historyKey(analyte));
+    return index === -1 ? catalogueOrder.length : index;
+  };
+  return [...byKey.values()].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
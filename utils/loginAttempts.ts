@@ -0,0 +1,49 @@
+/**
+ * Login Attempt State
+ *
+ * How a failed login changes the attempt count and lockout of an account or
+ * device. The backends apply nextLoginFailureState() to the stored account
+ * row themselves, so a caller that isn't signed in can only ever add one
+ * failure, never choose the count or shorten a lock.
+ */
+
+import type { LoginAttemptState } from '@/services/backends/types';
+
+export const LOCKOUT_THRESHOLD = 5;
+export const LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+export const FAILURE_RESET_MS = 60 * 60 * 1000; // 1 hour
+
+export const CLEARED_LOGIN_STATE: LoginAttemptState = {
+  failedLoginAttempts: 0,
+  lastFailedLoginAt: null,
+  lockedUntil: null,
+};
+
+export function toTime(value: string | null | undefined): number {
+  return value ? new Date(value).getTime() : 0;
+}
+
+/**
+ * Forget failures once they're old enough and no lock is active
+ */
+export function currentLoginState(state: LoginAttemptState, now: number): LoginAttemptState {
+  if (toTime(state.lockedUntil) <= now && now - toTime(state.lastFailedLoginAt) > FAILURE_RESET_MS) {
+    return CLEARED_LOGIN_STATE;
+  }
+  return state;
+}
+
+/**
+ * The state after one more failed login; an existing lock is only ever extended
+ */
+export function nextLoginFailureState(state: LoginAttemptState, now: number): LoginAttemptState {
+  const current = currentLoginState(state, now);
+  const failedLoginAttempts = current.failedLoginAttempts + 1;
+  const lockUntil = failedLoginAttempts >= LOCKOUT_THRESHOLD ? now + LOCKOUT_MS : 0;
+  const lockedUntil = Math.max(lockUntil, toTime(current.lockedUntil));
+  return {
+    failedLoginAttempts,
+    lastFailedLoginAt: new Date(now).toISOString(),
+    lockedUntil: lockedUntil > now ? new Date(lockedUntil).toISOString() : null,
+  };
+}
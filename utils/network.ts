@@ -0,0 +1,46 @@
+/**
+ * Network Connectivity Utilities
+ * Thin wrapper around NetInfo so the rest of the app only deals with a boolean
+ */
+
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+
+/**
+ * Interpret a NetInfo state as online/offline
+ * NetInfo reports `null` while it is still probing, which we treat as online
+ * so the app does not start in offline mode on every launch.
+ */
+function isStateOnline(state: NetInfoState): boolean {
+  return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+/**
+ * Check the current connectivity once
+ * @returns true if the device appears to be online
+ */
+export async function checkIsOnline(): Promise<boolean> {
+  try {
+    const state = await NetInfo.fetch();
+    return isStateOnline(state);
+  } catch (error) {
+    console.warn('Unable to determine network state, assuming online:', error);
+    return true;
+  }
+}
+
+/**
+ * Subscribe to connectivity changes
+ * @param listener - Called with the new online state whenever it changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToConnectivity(listener: (isOnline: boolean) => void): () => void {
+  let lastValue: boolean | null = null;
+
+  return NetInfo.addEventListener((state) => {
+    const online = isStateOnline(state);
+    if (online !== lastValue) {
+      lastValue = online;
+      listener(online);
+    }
+  });
+}
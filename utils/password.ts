@@ -1,32 +1,117 @@
 /**
  * Password Hashing and Verification Utilities
- * Uses expo-crypto for secure password hashing
+ *
+ * Passwords are hashed with PBKDF2-HMAC-SHA256 and a random per-user salt.
+ * Stored hashes are self-describing so the parameters can change over time:
+ *
+ *   pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>
+ *
+ * Older accounts may still hold an unsalted SHA-256 hex digest. Those are
+ * still accepted by verifyPassword, and needsRehash() tells the caller to
+ * replace them with a current hash after a successful login.
  */
 
 import * as Crypto from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+
+const HASH_SCHEME = 'pbkdf2-sha256';
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * Well-formed hash that no password matches in practice
+ * Checked when there is no stored hash so an unknown email costs as much PBKDF2 work as a wrong password.
+ */
+export const DUMMY_PASSWORD_HASH = [
+  HASH_SCHEME,
+  PBKDF2_ITERATIONS,
+  '00'.repeat(SALT_BYTES),
+  '00'.repeat(KEY_BYTES),
+].join('$');
+
+interface ParsedHash {
+  iterations: number;
+  salt: Uint8Array;
+  hash: Uint8Array;
+}
+
+function parseHash(stored: string): ParsedHash | null {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== HASH_SCHEME || !iterations || !salt || !hash) {
+    return null;
+  }
+
+  const parsedIterations = Number(iterations);
+  if (!Number.isInteger(parsedIterations) || parsedIterations <= 0) {
+    return null;
+  }
+
+  try {
+    return { iterations: parsedIterations, salt: hexToBytes(salt), hash: hexToBytes(hash) };
+  } catch {
+    return null;
+  }
+}
 
 /**
- * Hash a password using SHA-256
- * Note: For production, consider using bcrypt or Argon2 for better security
+ * Compare two byte arrays without exiting early on the first difference
+ */
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number, length: number) {
+  return pbkdf2Async(sha256, password, salt, { c: iterations, dkLen: length });
+}
+
+/**
+ * Hash a password with PBKDF2 and a fresh random salt
  * @param password - Plain text password
- * @returns Hashed password as hex string
+ * @returns Versioned hash string to store in user_profiles.password_hash
  */
 export async function hashPassword(password: string): Promise<string> {
-  const digest = await Crypto.digestStringAsync(
-    Crypto.CryptoDigestAlgorithm.SHA256,
-    password
-  );
-  return digest;
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS, KEY_BYTES);
+  return [HASH_SCHEME, PBKDF2_ITERATIONS, bytesToHex(salt), bytesToHex(key)].join('$');
 }
 
 /**
- * Verify a password against a hash
+ * Verify a password against a stored hash
+ * Accepts both current PBKDF2 hashes and legacy unsalted SHA-256 digests.
  * @param password - Plain text password to verify
  * @param hash - Stored password hash
  * @returns true if password matches hash
  */
 export async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const passwordHash = await hashPassword(password);
-  return passwordHash === hash;
+  const parsed = parseHash(hash);
+  if (parsed) {
+    const key = await deriveKey(password, parsed.salt, parsed.iterations, parsed.hash.length);
+    return constantTimeEqual(key, parsed.hash);
+  }
+
+  if (LEGACY_SHA256_PATTERN.test(hash)) {
+    const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, password);
+    return constantTimeEqual(hexToBytes(digest), hexToBytes(hash.toLowerCase()));
+  }
+
+  return false;
 }
 
+/**
+ * Check whether a stored hash should be replaced with a current one
+ * True for legacy SHA-256 digests and PBKDF2 hashes with fewer iterations than today.
+ */
+export function needsRehash(hash: string): boolean {
+  const parsed = parseHash(hash);
+  return !parsed || parsed.iterations < PBKDF2_ITERATIONS;
+}
@@ -17,6 +17,7 @@ import {
   VetVisit,
   ImmunizationRecord,
   CanineAllergy,
+  ActivationCode,
 } from '@/types';
 
 export function generateTestData() {
@@ -457,8 +458,8 @@ export function generateTestData() {
       vetId: 'vet-1',
       vetName: 'Sara Johns',
       vaccineName: 'Rabies',
-      ageYears: 6,
-      ageMonths: 0,
+      ageYears: 1,
+      ageMonths: 3,
       immunizationDate: '2021-09-01',
       lastVaccinatedDate: '2025-08-01',
       notes: 'Next booster due in one year.',
@@ -467,6 +468,21 @@ export function generateTestData() {
     },
   ];
 
+  // Activation codes for signup
+  const activationCodes: ActivationCode[] = [
+    {
+      id: 'activation-code-1',
+      code: 'avapay',
+      tier: 'Free',
+      allowedRoles: ['Pet Owner'],
+      description: 'Free tier access',
+      redemptionCount: 0,
+      isActive: true,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    },
+  ];
+
   return {
     userProfile,
     canines,
@@ -481,6 +497,7 @@ export function generateTestData() {
     vetVisits,
     immunizations,
     canineAllergies,
+    activationCodes,
   };
 }
 
@@ -0,0 +1,239 @@
+/**
+ * Vaccine Schedule
+ * Booster intervals and puppy series for each vaccine, and the next-due date
+ * of every vaccine a dog has had (or should have had), from its immunization
+ * records and date of birth.
+ *
+ * Schedules follow the AAHA canine vaccination guidelines in the US and the
+ * WSAVA guidelines as practised in India, where rabies and the combination
+ * vaccines are boosted every year and Lyme and canine influenza vaccines
+ * aren't routinely given. A record's immunizationDate and lastVaccinatedDate
+ * both count as doses.
+ */
+
+import type { CanineProfile, ImmunizationRecord, UserProfile } from '@/types';
+
+export type VaccineRegion = UserProfile['country'];
+
+export interface VaccineRule {
+  /** Recommended for every dog; core vaccines are flagged even before the first dose is recorded */
+  core: boolean;
+  /** Youngest age for the first dose */
+  firstDoseWeeks: number;
+  /** Doses needed before the first booster, for dogs past the puppy series */
+  initialDoses: number;
+  /** Gap between initial doses, and between puppy doses */
+  seriesIntervalWeeks: number;
+  /** Puppies keep getting doses every seriesIntervalWeeks until one is given at this age or older */
+  puppySeriesUntilWeeks?: number;
+  /** From the last initial dose to the first booster */
+  firstBoosterMonths: number;
+  /** Between later boosters */
+  boosterMonths: number;
+}
+
+/** The vaccines offered when recording an immunization */
+export const VACCINE_OPTIONS = ['Rabies', 'DHPP', 'Bordetella', 'Lyme', 'Canine Influenza', 'Leptospirosis'];
+
+export const VACCINE_RULES: Record<VaccineRegion, Record<string, VaccineRule>> = {
+  US: {
+    Rabies: { core: true, firstDoseWeeks: 12, initialDoses: 1, seriesIntervalWeeks: 0, firstBoosterMonths: 12, boosterMonths: 36 },
+    DHPP: {
+      core: true,
+      firstDoseWeeks: 6,
+      initialDoses: 1,
+      seriesIntervalWeeks: 3,
+      puppySeriesUntilWeeks: 16,
+      firstBoosterMonths: 12,
+      boosterMonths: 36,
+    },
+    Bordetella: { core: false, firstDoseWeeks: 8, initialDoses: 1, seriesIntervalWeeks: 3, firstBoosterMonths: 12, boosterMonths: 12 },
+    Lyme: { core: false, firstDoseWeeks: 9, initialDoses: 2, seriesIntervalWeeks: 3, firstBoosterMonths: 12, boosterMonths: 12 },
+    'Canine Influenza': { core: false, firstDoseWeeks: 8, initialDoses: 2, seriesIntervalWeeks: 3, firstBoosterMonths: 12, boosterMonths: 12 },
+    Leptospirosis: { core: true, firstDoseWeeks: 12, initialDoses: 2, seriesIntervalWeeks: 3, firstBoosterMonths: 12, boosterMonths: 12 },
+  },
+  India: {
+    Rabies: { core: true, firstDoseWeeks: 12, initialDoses: 1, seriesIntervalWeeks: 0, firstBoosterMonths: 12, boosterMonths: 12 },
+    DHPP: {
+      core: true,
+      firstDoseWeeks: 6,
+      initialDoses: 1,
+      seriesIntervalWeeks: 3,
+      puppySeriesUntilWeeks: 16,
+      firstBoosterMonths: 12,
+      boosterMonths: 12,
+    },
+    Bordetella: { core: false, firstDoseWeeks: 8, initialDoses: 1, seriesIntervalWeeks: 3, firstBoosterMonths: 12, boosterMonths: 12 },
+    Leptospirosis: { core: true, firstDoseWeeks: 8, initialDoses: 2, seriesIntervalWeeks: 3, firstBoosterMonths: 12, boosterMonths: 12 },
+  },
+};
+
+// Other names vets write on certificates for the same vaccines
+const VACCINE_ALIASES: Record<string, string> = {
+  rabies: 'Rabies',
+  dhpp: 'DHPP',
+  dhppi: 'DHPP',
+  da2pp: 'DHPP',
+  dapp: 'DHPP',
+  'dhpp-l': 'DHPP',
+  dhppil: 'DHPP',
+  bordetella: 'Bordetella',
+  'kennel cough': 'Bordetella',
+  lyme: 'Lyme',
+  'canine influenza': 'Canine Influenza',
+  'dog flu': 'Canine Influenza',
+  leptospirosis: 'Leptospirosis',
+  lepto: 'Leptospirosis',
+};
+
+/** Vaccines due within this many days are flagged as due soon */
+export const VACCINE_DUE_SOON_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type VaccineDueStatus = 'overdue' | 'due_soon' | 'current' | 'not_recorded';
+
+export interface VaccineDue {
+  vaccineName: string;
+  core: boolean;
+  doseCount: number;
+  lastDoseDate?: string; // YYYY-MM-DD
+  nextDueDate?: string; // YYYY-MM-DD; unset for a core vaccine with no doses and no date of birth
+  status: VaccineDueStatus;
+}
+
+/**
+ * The vaccine a record is for, matched case-insensitively and by common aliases
+ * @returns the name used in VACCINE_RULES, or null for vaccines without a schedule
+ */
+export function normalizeVaccineName(name: string): string | null {
+  return VACCINE_ALIASES[name.trim().toLowerCase()] ?? null;
+}
+
+// UTC midnight of a YYYY-MM-DD date, so day arithmetic ignores time zones
+function parseDate(value: string | undefined): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addWeeks(date: Date, weeks: number): Date {
+  return new Date(date.getTime() + weeks * 7 * DAY_MS);
+}
+
+// Same day of the month, or the month's last day when it is shorter
+function addMonths(date: Date, months: number): Date {
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, Math.min(date.getUTCDate(), lastDay)));
+}
+
+function ageInWeeks(dateOfBirth: Date, on: Date): number {
+  return (on.getTime() - dateOfBirth.getTime()) / (7 * DAY_MS);
+}
+
+/**
+ * When the dose after `doses` is due
+ * Without a date of birth every dose is treated as given to an adult dog.
+ */
+export function getNextDueDate(rule: VaccineRule, doses: Date[], dateOfBirth: Date | null): Date | null {
+  if (doses.length === 0) {
+    return dateOfBirth ? addWeeks(dateOfBirth, rule.firstDoseWeeks) : null;
+  }
+
+  // The initial series ends with the dose that is both the last one needed and past puppyhood
+  const seriesEnd = doses.findIndex((dose, index) => {
+    const puppyDose =
+      !!rule.puppySeriesUntilWeeks && !!dateOfBirth && ageInWeeks(dateOfBirth, dose) < rule.puppySeriesUntilWeeks;
+    return index + 1 >= rule.initialDoses && !puppyDose;
+  });
+
+  const lastDose = doses[doses.length - 1];
+  if (seriesEnd === -1) {
+    return addWeeks(lastDose, rule.seriesIntervalWeeks);
+  }
+  return addMonths(lastDose, seriesEnd === doses.length - 1 ? rule.firstBoosterMonths : rule.boosterMonths);
+}
+
+function getStatus(nextDue: Date | null, today: Date): VaccineDueStatus {
+  if (!nextDue) return 'not_recorded';
+  if (nextDue < today) return 'overdue';
+  return nextDue.getTime() - today.getTime() <= VACCINE_DUE_SOON_DAYS * DAY_MS ? 'due_soon' : 'current';
+}
+
+/**
+ * Next-due dates for a dog's vaccines: every scheduled vaccine it has records for,
+ * plus the region's core vaccines it has none for
+ * Most urgent first.
+ */
+export function getVaccineSchedule(
+  canine: Pick<CanineProfile, 'id' | 'dateOfBirth'>,
+  immunizations: ImmunizationRecord[],
+  region: VaccineRegion,
+  today: Date = new Date()
+): VaccineDue[] {
+  const rules = VACCINE_RULES[region];
+  const dateOfBirth = parseDate(canine.dateOfBirth);
+  const todayUtc = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()));
+
+  const dosesByVaccine = new Map<string, Set<string>>();
+  immunizations
+    .filter((record) => record.canineId === canine.id)
+    .forEach((record) => {
+      const vaccineName = normalizeVaccineName(record.vaccineName);
+      if (!vaccineName || !rules[vaccineName]) return;
+      const doses = dosesByVaccine.get(vaccineName) ?? new Set<string>();
+      [record.immunizationDate, record.lastVaccinatedDate].forEach((value) => {
+        const date = parseDate(value);
+        if (date) doses.add(formatDate(date));
+      });
+      dosesByVaccine.set(vaccineName, doses);
+    });
+
+  const schedule = Object.entries(rules)
+    .filter(([vaccineName, rule]) => rule.core || dosesByVaccine.has(vaccineName))
+    .map(([vaccineName, rule]): VaccineDue => {
+      const doses = [...(dosesByVaccine.get(vaccineName) ?? [])].sort().map((value) => parseDate(value)!);
+      const nextDue = getNextDueDate(rule, doses, dateOfBirth);
+      return {
+        vaccineName,
+        core: rule.core,
+        doseCount: doses.length,
+        lastDoseDate: doses.length > 0 ? formatDate(doses[doses.length - 1]) : undefined,
+        nextDueDate: nextDue ? formatDate(nextDue) : undefined,
+        status: getStatus(nextDue, todayUtc),
+      };
+    });
+
+  const urgency: Record<VaccineDueStatus, number> = { overdue: 0, not_recorded: 1, due_soon: 2, current: 3 };
+  return schedule.sort(
+    (a, b) =>
+      urgency[a.status] - urgency[b.status] || (a.nextDueDate ?? '').localeCompare(b.nextDueDate ?? '')
+  );
+}
+
+/**
+ * A short line for a vaccine's status, e.g. "Overdue since Aug 1, 2026"
+ */
+export function describeVaccineDue(due: VaccineDue): string {
+  if (!due.nextDueDate) {
+    return 'No record';
+  }
+  const [year, month, day] = due.nextDueDate.split('-').map(Number);
+  const date = new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return due.status === 'overdue' ? `Overdue since ${date}` : `Due ${date}`;
+}
+
+/**
+ * Whether a vaccine needs attention: overdue, due soon, or a core vaccine with no record
+ */
+export function needsVaccineAttention(due: VaccineDue): boolean {
+  return due.status !== 'current';
+}
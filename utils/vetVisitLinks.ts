@@ -0,0 +1,80 @@
+/**
+ * Vet Visit Links
+ * What a vet visit produced: the medications prescribed at it, the medical
+ * records from it and the follow-up appointments it scheduled. Each links
+ * back to the visit through its vetVisitId.
+ *
+ * Deleting a visit only unlinks its medications and records, which stay in
+ * the pet's history; its follow-ups are kept or deleted as the user chooses.
+ */
+
+import type { Appointment, MedicalRecord, MedicationEntry, VetVisit } from '@/types';
+
+/** Follow-ups are booked as a vet appointment of this length */
+export const FOLLOW_UP_CATEGORY = 'Vet/Clinic';
+export const FOLLOW_UP_DURATION_MINUTES = 30;
+export const DEFAULT_FOLLOW_UP_TIME = '09:00';
+
+export interface VetVisitLinks {
+  medications: MedicationEntry[];
+  medicalRecords: MedicalRecord[];
+  followUps: Appointment[]; // Soonest first
+}
+
+export function getVetVisitLinks(
+  visitId: string,
+  collections: { medications: MedicationEntry[]; medicalRecords: MedicalRecord[]; appointments: Appointment[] }
+): VetVisitLinks {
+  return {
+    medications: collections.medications.filter((medication) => medication.vetVisitId === visitId),
+    medicalRecords: collections.medicalRecords.filter((record) => record.vetVisitId === visitId),
+    followUps: collections.appointments
+      .filter((appointment) => appointment.vetVisitId === visitId)
+      .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`)),
+  };
+}
+
+export const countVetVisitLinks = (links: VetVisitLinks) =>
+  links.medications.length + links.medicalRecords.length + links.followUps.length;
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * e.g. "2 medications, 1 medical record and 1 follow-up appointment"
+ */
+export function describeVetVisitLinks(links: VetVisitLinks): string {
+  const parts = [
+    links.medications.length > 0 && pluralize(links.medications.length, 'medication'),
+    links.medicalRecords.length > 0 && pluralize(links.medicalRecords.length, 'medical record'),
+    links.followUps.length > 0 && pluralize(links.followUps.length, 'follow-up appointment'),
+  ].filter((part): part is string => Boolean(part));
+  if (parts.length <= 1) return parts[0] ?? '';
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
+
+/**
+ * The confirmation shown before deleting a visit, saying what happens to each kind of linked item
+ */
+export function getVetVisitDeleteMessage(visit: Pick<VetVisit, 'vetName'>, links: VetVisitLinks): string {
+  const message = `Remove visit with ${visit.vetName}?`;
+  if (countVetVisitLinks(links) === 0) return message;
+  const lines = [`${message} It's linked to ${describeVetVisitLinks(links)}.`];
+  if (links.medications.length > 0 || links.medicalRecords.length > 0) {
+    lines.push("Medications and records stay in your pet's history, no longer linked to a visit.");
+  }
+  if (links.followUps.length > 0) {
+    lines.push(`Keep the follow-up${links.followUps.length === 1 ? '' : 's'} on the calendar, or delete ${links.followUps.length === 1 ? 'it' : 'them'} too?`);
+  }
+  return lines.join('\n\n');
+}
+
+export const getFollowUpTitle = (reason: string) => `Follow-up: ${reason.trim()}`;
+
+/**
+ * When a follow-up starting at `startTime` (HH:mm) ends; it never runs past midnight
+ */
+export function getFollowUpEndTime(startTime: string): string {
+  const [hours, minutes] = startTime.split(':').map(Number);
+  const end = Math.min(hours * 60 + minutes + FOLLOW_UP_DURATION_MINUTES, 23 * 60 + 59);
+  return `${String(Math.floor(end / 60)).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}`;
+}
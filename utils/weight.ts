@@ -0,0 +1,135 @@
+/**
+ * Weight
+ * Converts weights between kilograms and pounds, picks the unit a user sees
+ * weights in, and summarises a pet's weight history as a trend.
+ *
+ * Measurements keep the unit they were entered in; everything here converts
+ * on the way out, so switching the preferred unit never rewrites history.
+ */
+
+import type { UserProfile, WeightMeasurement, WeightUnit } from '@/types';
+
+export const KG_PER_LB = 0.45359237;
+
+/** Body condition scores run from 1 (emaciated) to 9 (obese) */
+export const BODY_CONDITION_SCORES = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+const BODY_CONDITION_LABELS: Record<number, string> = {
+  1: 'Emaciated',
+  2: 'Very thin',
+  3: 'Thin',
+  4: 'Ideal',
+  5: 'Ideal',
+  6: 'Overweight',
+  7: 'Heavy',
+  8: 'Obese',
+  9: 'Severely obese',
+};
+
+/** How many of the newest measurements the trend chart shows */
+export const WEIGHT_CHART_POINTS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A measurement date, YYYY-MM-DD in local time; defaults to today
+ */
+export function toMeasurementDate(date: Date = new Date()): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) return value;
+  return from === 'kg' ? value / KG_PER_LB : value * KG_PER_LB;
+}
+
+/**
+ * The unit a user sees weights in: their preference, or the one usual in their country
+ */
+export function getPreferredWeightUnit(profile: Pick<UserProfile, 'country' | 'preferredWeightUnit'> | null): WeightUnit {
+  if (profile?.preferredWeightUnit) return profile.preferredWeightUnit;
+  return profile?.country === 'India' ? 'kg' : 'lbs';
+}
+
+/**
+ * e.g. "12.4 kg"; one decimal place, dropped when it is zero
+ */
+export function formatWeight(value: number, unit: WeightUnit): string {
+  return `${Number(value.toFixed(1))} ${unit}`;
+}
+
+export function describeBodyCondition(score: number): string {
+  return `${score}/9 · ${BODY_CONDITION_LABELS[score] ?? 'Unknown'}`;
+}
+
+export interface WeightPoint {
+  measurement: WeightMeasurement;
+  date: string; // YYYY-MM-DD
+  value: number; // In the trend's unit
+}
+
+export interface WeightTrend {
+  unit: WeightUnit;
+  /** Oldest first, at most WEIGHT_CHART_POINTS */
+  points: WeightPoint[];
+  latest?: WeightPoint;
+  /** Latest minus the measurement before it */
+  changeSincePrevious?: number;
+  /** Average change per week between the first and last charted points; unset when they share a date */
+  ratePerWeek?: number;
+}
+
+// Oldest first; measurements on the same day keep the order they were entered in
+function byDate(a: WeightMeasurement, b: WeightMeasurement): number {
+  return a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt);
+}
+
+/**
+ * The measurement a pet's current weight comes from
+ */
+export function getLatestWeightMeasurement(measurements: WeightMeasurement[]): WeightMeasurement | undefined {
+  return [...measurements].sort(byDate).pop();
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS;
+}
+
+/**
+ * A pet's newest measurements in one unit, with how fast its weight is changing
+ */
+export function getWeightTrend(measurements: WeightMeasurement[], unit: WeightUnit): WeightTrend {
+  const points = [...measurements]
+    .sort(byDate)
+    .slice(-WEIGHT_CHART_POINTS)
+    .map((measurement) => ({
+      measurement,
+      date: measurement.date,
+      value: convertWeight(measurement.value, measurement.unit, unit),
+    }));
+
+  const trend: WeightTrend = { unit, points };
+  if (points.length === 0) return trend;
+
+  const first = points[0];
+  const latest = points[points.length - 1];
+  trend.latest = latest;
+  if (points.length > 1) {
+    trend.changeSincePrevious = latest.value - points[points.length - 2].value;
+    const days = daysBetween(first.date, latest.date);
+    if (days > 0) {
+      trend.ratePerWeek = ((latest.value - first.value) / days) * 7;
+    }
+  }
+  return trend;
+}
+
+/**
+ * e.g. "+0.4 kg" or "-1.2 lbs"
+ */
+export function formatWeightChange(change: number, unit: WeightUnit): string {
+  const rounded = Number(change.toFixed(1));
+  return `${rounded > 0 ? '+' : ''}${rounded} ${unit}`;
+}